@@ -1,5 +1,10 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { CognitiveProvider, useCognitive } from '../../src/state/GlobalState';
+import { TemporalPatternResult } from '../../src/analysis/TemporalAnalysis';
+import { ControlChart } from '../../src/analysis/StatisticalProcessControl';
+import { ControlChartView } from '../../src/visualization/ControlChartView';
+import { ContextAdjustmentSummary, Covariate, SessionContext } from '../../src/analysis/ContextAdjustment';
+import { BaselineRevision, diffBaselines } from '../../src/analysis/BaselineModeling';
 
 function ConfidenceTrend({ history }: { history: any[]|undefined }) {
   const values = (history||[]).slice(-40).map(h=> h.overall ?? h.risk ?? h.confidence ?? 0);
@@ -29,11 +34,194 @@ function DriftSparkline({ driftHistory }: { driftHistory: any[]|undefined }) {
   );
 }
 
+// Drift prediction over the latest keystrokes, refreshed by the pipeline tick
+function TemporalTrend({ result }: { result: TemporalPatternResult|undefined }) {
+  if (!result) return null;
+  return (
+    <div className="bg-neuro-surface p-4 rounded-xl text-xs">
+      <h2 className="font-semibold mb-2 text-gray-300">Temporal Trend</h2>
+      <div className="grid grid-cols-3 gap-2">
+        <div>Drift: {(result.driftScore*100).toFixed(1)}%</div>
+        <div>Stability: {(result.stabilityIndex*100).toFixed(1)}%</div>
+        <div className={result.earlyWarning? 'text-yellow-400':''}>{result.earlyWarning? 'Early warning' : 'No warning'}</div>
+      </div>
+      <div className="mt-1 text-[10px] text-gray-500">{result.source==='model'? 'Trained temporal LSTM' : 'Heuristic (model not loaded or fewer than 300 keystrokes)'}</div>
+    </div>
+  );
+}
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Usual similarity offset by hour and weekday; drift detection subtracts it before looking for trends
+function SeasonalPattern({ temporal }: { temporal: any }) {
+  const circadian: number[]|undefined = temporal?.circadianPattern;
+  const weekly: number[]|undefined = temporal?.weeklyPattern;
+  if (!circadian) return null;
+  const max = Math.max(0.01, ...circadian.map(Math.abs), ...(weekly||[]).map(Math.abs));
+  const bar = (v: number, label: string, key: number) => (
+    <div key={key} className="flex-1 flex flex-col items-center" title={`${label}: ${v>=0?'+':''}${(v*100).toFixed(1)} pts`}>
+      <div className="relative w-full h-12">
+        <div className={`absolute left-0 right-0 mx-px ${v>=0?'bg-emerald-400/70':'bg-red-400/70'}`} style={v>=0 ? { bottom: '50%', height: `${(v/max)*50}%` } : { top: '50%', height: `${(-v/max)*50}%` }} />
+      </div>
+    </div>
+  );
+  return (
+    <div className="bg-neuro-surface p-4 rounded-xl text-xs">
+      <h2 className="font-semibold mb-2 text-gray-300">Seasonal Pattern</h2>
+      <div className="text-[10px] text-gray-400 mb-1">By hour of day</div>
+      <div className="flex">{circadian.map((v,h)=> bar(v, `${h}:00`, h))}</div>
+      {weekly && (
+        <>
+          <div className="text-[10px] text-gray-400 mt-2 mb-1">By day of week</div>
+          <div className="flex">{weekly.map((v,d)=> bar(v, DAY_LABELS[d], d))}</div>
+          <div className="flex text-[9px] text-gray-500">{DAY_LABELS.map(d=> <span key={d} className="flex-1 text-center">{d}</span>)}</div>
+        </>
+      )}
+      <div className="mt-1 text-[10px] text-gray-500">Drift detection runs on scores with this pattern removed.</div>
+    </div>
+  );
+}
+
+// One control chart at a time; defaults to the feature that signalled most recently
+function ControlCharts({ charts }: { charts: ControlChart[]|undefined }) {
+  const [selected, setSelected] = useState<string>();
+  if (!charts?.length) return null;
+  const key = (c: ControlChart)=> `${c.modality}.${c.feature}`;
+  const lastSignal = (c: ControlChart)=> c.violations[c.violations.length-1]?.timestamp ?? 0;
+  const fallback = charts.reduce((best, c)=> lastSignal(c) > lastSignal(best) ? c : best, charts[0]);
+  const chart = charts.find(c=> key(c)===selected) ?? fallback;
+  return (
+    <div className="bg-neuro-surface p-4 rounded-xl text-xs">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="font-semibold text-gray-300">Control Charts</h2>
+        <select aria-label="Control chart feature" className="bg-gray-800 rounded px-1 py-0.5 text-[10px]" value={key(chart)} onChange={e=> setSelected(e.target.value)}>
+          {charts.map(c=> <option key={key(c)} value={key(c)}>{c.modality} / {c.feature}{c.violations.length ? ` (${c.violations.length})` : ''}</option>)}
+        </select>
+      </div>
+      <ControlChartView chart={chart} />
+    </div>
+  );
+}
+
+const COVARIATE_LABELS: Record<Covariate, string> = {
+  hourSin: 'time of day', hourCos: 'time of day', sessionLength: 'session length', caffeine: 'caffeine', medication: 'medication', fatigue: 'fatigue'
+};
+
+// What the user reports about this session, and how strongly context has moved their features so far
+function SessionContextPanel({ context, setContext, summary }: { context: SessionContext|undefined; setContext?: (c: SessionContext)=>void; summary: ContextAdjustmentSummary|undefined }) {
+  const current = context || {};
+  const update = (patch: SessionContext)=> setContext?.({ ...current, ...patch });
+  return (
+    <div className="bg-neuro-surface p-4 rounded-xl text-xs">
+      <h2 className="font-semibold mb-2 text-gray-300">Session Context</h2>
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-1"><input type="checkbox" checked={!!current.caffeine} onChange={e=> update({ caffeine: e.target.checked })} /> Caffeine in the last 3 h</label>
+        <label className="flex items-center gap-1"><input type="checkbox" checked={!!current.medication} onChange={e=> update({ medication: e.target.checked })} /> Took medication</label>
+        <label className="flex items-center gap-2">Fatigue
+          <input type="range" min={0} max={1} step={0.1} value={current.fatigue ?? 0} onChange={e=> update({ fatigue: Number(e.target.value) })} aria-label="Fatigue" />
+          <span className="w-6 text-right">{current.fatigue !== undefined ? `${Math.round(current.fatigue*10)}` : '–'}</span>
+        </label>
+      </div>
+      {summary && (
+        <div className="mt-3">
+          {summary.active ? (
+            <div className="space-y-1">
+              {summary.effects.slice(0, 5).map((e, i)=>(
+                <div key={i} className="flex justify-between border-b border-white/5 py-1 text-[10px]">
+                  <span className="truncate flex-1">{e.modality}:{e.feature}</span>
+                  <span className="w-28 text-gray-400">{COVARIATE_LABELS[e.covariate]}</span>
+                  <span className="w-16 text-right">{e.effect>=0?'+':''}{e.effect.toFixed(2)}σ</span>
+                </div>
+              ))}
+              <div className="text-[10px] text-gray-500">Features are adjusted to your usual context before scoring ({summary.samples} observations).</div>
+            </div>
+          ) : (
+            <div className="text-[10px] text-gray-500">Learning how context affects your features ({summary.samples} observations so far).</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const fmt = (v: number|undefined)=> v === undefined ? '–' : Math.abs(v) >= 1000 || (v !== 0 && Math.abs(v) < 0.01) ? v.toExponential(2) : v.toFixed(2);
+
+// Recent and kept baseline revisions with why each was made, a per-feature diff between any two, and rollback to an earlier one
+function BaselineHistoryPanel({ history, rollback }: { history: BaselineRevision[]|undefined; rollback?: (version: string)=>void }) {
+  const revisions = history || [];
+  const [from, setFrom] = useState<string>();
+  const [to, setTo] = useState<string>();
+  if (!revisions.length) return null;
+  const current = revisions[revisions.length - 1];
+  const toRevision = revisions.find(r=> r.version === to) ?? current;
+  const fromRevision = revisions.find(r=> r.version === from) ?? revisions[Math.max(0, revisions.indexOf(toRevision) - 1)];
+  const changes = fromRevision === toRevision ? [] : diffBaselines(fromRevision.features, toRevision.features);
+  return (
+    <div className="bg-neuro-surface p-4 rounded-xl text-xs grid gap-4 md:grid-cols-2">
+      <div>
+        <h2 className="font-semibold mb-2 text-gray-300">Baseline Versions</h2>
+        <div className="max-h-56 overflow-auto space-y-1">
+          {[...revisions].reverse().map(r=>(
+            <div key={r.version} className="border-b border-white/5 py-1 text-[10px]">
+              <div className="flex justify-between items-center gap-2">
+                <span className="w-12">v{r.version}</span>
+                <span className="flex-1 text-gray-400">{r.reason}{r.restoredFrom ? ` of v${r.restoredFrom}` : ''} · {r.sampleCount} samples{r.kept ? ' · kept' : ''}</span>
+                <span className="w-20 text-right">{new Date(r.timestamp).toLocaleTimeString()}</span>
+                {r === current
+                  ? <span className="w-16 text-right text-emerald-300">current</span>
+                  : <button className="w-16 text-right text-neuro-accent hover:underline" onClick={()=> rollback?.(r.version)}>Roll back</button>}
+              </div>
+              {r.significantChanges.length>0 && <div className="text-gray-500 truncate">{r.significantChanges.join(', ')}</div>}
+            </div>
+          ))}
+        </div>
+        <div className="mt-2 text-[10px] text-gray-500">Rolling back adds a new version and keeps the data since the restored version out of later updates.</div>
+      </div>
+      <div>
+        <div className="flex justify-between items-center mb-2 gap-2">
+          <h2 className="font-semibold text-gray-300">Changes</h2>
+          <div className="flex gap-1 items-center text-[10px]">
+            <select aria-label="Compare from version" className="bg-gray-800 rounded px-1 py-0.5" value={fromRevision.version} onChange={e=> setFrom(e.target.value)}>
+              {revisions.map(r=> <option key={r.version} value={r.version}>v{r.version}</option>)}
+            </select>
+            →
+            <select aria-label="Compare to version" className="bg-gray-800 rounded px-1 py-0.5" value={toRevision.version} onChange={e=> setTo(e.target.value)}>
+              {revisions.map(r=> <option key={r.version} value={r.version}>v{r.version}</option>)}
+            </select>
+          </div>
+        </div>
+        <div className="max-h-56 overflow-auto">
+          {changes.length ? (
+            <table className="w-full text-[10px]">
+              <thead className="text-gray-400">
+                <tr><th className="text-left p-1">Feature</th><th className="text-right p-1">From</th><th className="text-right p-1">To</th><th className="text-right p-1">Change</th><th className="text-right p-1">Shift</th></tr>
+              </thead>
+              <tbody>
+                {changes.map(c=>(
+                  <tr key={`${c.modality}:${c.feature}`} className={Math.abs(c.shift ?? 0) >= 2 ? 'text-amber-300' : ''}>
+                    <td className="p-1 truncate">{c.modality}:{c.feature}</td>
+                    <td className="p-1 text-right">{fmt(c.from)}</td>
+                    <td className="p-1 text-right">{fmt(c.to)}</td>
+                    <td className="p-1 text-right">{c.relativeChange !== undefined ? `${c.relativeChange>=0?'+':''}${(c.relativeChange*100).toFixed(1)}%` : c.from === undefined ? 'added' : c.to === undefined ? 'dropped' : '–'}</td>
+                    <td className="p-1 text-right">{c.shift !== undefined ? `${c.shift>=0?'+':''}${c.shift.toFixed(2)}σ` : '–'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : <div className="text-gray-500">{fromRevision === toRevision ? 'Pick two different versions to compare.' : 'No feature changed.'}</div>}
+        </div>
+        <div className="mt-2 text-[10px] text-gray-500">Shift is the change in the earlier version&apos;s standard deviations; shifts of 2σ or more are highlighted.</div>
+      </div>
+    </div>
+  );
+}
+
 function MonitorInner(){
-  const { keystrokeHistory, riskHistory, baseline, similarity, similarityHistory, confidenceHistory, confidenceAssessment, drift, driftHistory } = useCognitive();
+  const { keystrokeHistory, riskHistory, baseline, similarity, methodComparison, similarityHistory, confidenceHistory, confidenceAssessment, drift, driftHistory, controlCharts, sessionContext, setSessionContext, contextAdjustment, temporal, baselineHistory, rollbackBaseline } = useCognitive();
   return (
     <div className="p-6 space-y-6">
       <h1 className="text-2xl font-semibold">Live Monitoring</h1>
+      <SessionContextPanel context={sessionContext} setContext={setSessionContext} summary={contextAdjustment} />
       {baseline && similarity && (
         <div className="bg-neuro-surface p-4 rounded-xl text-xs grid gap-4 md:grid-cols-4">
           <div>
@@ -42,6 +230,9 @@ function MonitorInner(){
               <div>Confidence: {(baseline.statistics.confidence*100).toFixed(1)}%</div>
               <div>Stability: {(baseline.statistics.stability*100).toFixed(1)}%</div>
               <div>Samples: {baseline.statistics.sampleCount}</div>
+              {baseline.statistics.populationPrior && (
+                <div title={baseline.statistics.populationPrior.source}>Population prior: {(baseline.statistics.populationPrior.weight*100).toFixed(0)}% of the baseline</div>
+              )}
             </div>
           </div>
           <div>
@@ -59,6 +250,11 @@ function MonitorInner(){
                 <div>Overall: {(confidenceAssessment.overall*100).toFixed(1)}%</div>
                 <div>Data Quality: {(confidenceAssessment.components.dataQuality.score*100).toFixed(0)}%</div>
                 <div>Feature Coverage: {(confidenceAssessment.components.featureCoverage.score*100).toFixed(0)}%</div>
+                {confidenceAssessment.conformal?.similarity?.bounded && (
+                  <div title="Split-conformal interval from your own similarity history">
+                    {Math.round(confidenceAssessment.conformal.similarity.coverage*100)}% interval: {(confidenceAssessment.conformal.similarity.lower*100).toFixed(0)}–{(confidenceAssessment.conformal.similarity.upper*100).toFixed(0)}%
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -110,6 +306,38 @@ function MonitorInner(){
           </div>
         </div>
       )}
+      {similarity?.counterfactual && (
+        <div className="bg-neuro-surface p-4 rounded-xl text-xs">
+          <h2 className="font-semibold mb-2 text-gray-300">What Would Look Normal Again</h2>
+          <div className="mb-2 text-gray-400">{similarity.counterfactual.summary}</div>
+          <div className="space-y-1">
+            {similarity.counterfactual.changes.map((c, i)=>(
+              <div key={i} className="flex justify-between border-b border-white/5 py-1">
+                <span className="pr-2 flex-1 truncate">{c.modality}:{c.feature}</span>
+                <span className="w-32 text-right font-mono">{c.currentValue.toFixed(2)} → {c.suggestedValue.toFixed(2)}</span>
+                <span className="w-36 text-right text-gray-500">usual {c.bounds[0].toFixed(2)}–{c.bounds[1].toFixed(2)}</span>
+              </div>
+            ))}
+          </div>
+          <div className="mt-2 text-[10px] text-gray-400">
+            Similarity {(similarity.counterfactual.originalScore*100).toFixed(1)}% → {(similarity.counterfactual.counterfactualScore*100).toFixed(1)}% (target {(similarity.counterfactual.target*100).toFixed(0)}%)
+          </div>
+        </div>
+      )}
+      {methodComparison && (
+        <div className="bg-neuro-surface p-4 rounded-xl text-xs">
+          <h2 className="font-semibold mb-2 text-gray-300">Scoring Method Sensitivity</h2>
+          <div className="space-y-1">
+            {Object.entries(methodComparison.methods).map(([method, m]: any)=>(
+              <div key={method} className="flex justify-between border-b border-white/5 py-1">
+                <span className={method===methodComparison.configuredMethod? 'text-neuro-accent':''}>{method.replace('_',' ')}{method===methodComparison.configuredMethod && ' (active)'}</span>
+                <span className="w-20 text-right">{(m.overall*100).toFixed(1)}%</span>
+              </div>
+            ))}
+          </div>
+          <div className="mt-2 text-[10px] text-gray-400">Spread across methods: {(methodComparison.spread*100).toFixed(1)} pts</div>
+        </div>
+      )}
       {(drift || (driftHistory && driftHistory.length)) && (
         <div className="bg-neuro-surface p-4 rounded-xl text-xs">
           <h2 className="font-semibold mb-2 text-gray-300">Drift Detection</h2>
@@ -124,6 +352,13 @@ function MonitorInner(){
                 <div>Direction: {drift.driftDirection}</div>
                 <div>Rate: {(drift.driftRate).toFixed(3)}/day</div>
               </div>
+              {drift.changePoints?.length>0 && (
+                <div className="mt-2 text-[10px] text-gray-400">
+                  Change points: {drift.changePoints.map((c,i)=>(
+                    <span key={i} className="mr-2">{c.stream} at {new Date(c.timestamp).toLocaleTimeString()} ({(c.probability*100).toFixed(0)}%, {(c.meanBefore*100).toFixed(0)}→{(c.meanAfter*100).toFixed(0)}%)</span>
+                  ))}
+                </div>
+              )}
               {drift.recommendedActions.length>0 && <div className="mt-2 text-[10px] text-gray-400">Actions: {drift.recommendedActions.join(', ')}</div>}
             </div>
           )}
@@ -140,6 +375,10 @@ function MonitorInner(){
           </div>
         </div>
       )}
+      <BaselineHistoryPanel history={baselineHistory} rollback={rollbackBaseline} />
+      <SeasonalPattern temporal={baseline?.temporalCharacteristics} />
+      <ControlCharts charts={controlCharts} />
+      <TemporalTrend result={temporal} />
       <div className="bg-neuro-surface p-4 rounded-xl text-xs max-h-72 overflow-auto">
         <h2 className="font-semibold mb-2 text-gray-300">Recent Keystroke Summaries</h2>
         {keystrokeHistory?.slice(-20).reverse().map((k,i)=>(
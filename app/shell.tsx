@@ -1,6 +1,7 @@
 'use client';
 
 import React, { useEffect, useState, ReactNode } from 'react';
+import { NavBar } from '../src/components/NavBar';
 
 function ConsentBanner(){
   const [visible, setVisible] = useState(false);
@@ -63,6 +64,7 @@ export default function AppShell({ children }: { children: ReactNode; }){
           Contrast {hc? 'On':'Off'}
         </button>
       )}
+      <NavBar />
       <div className={hc? 'high-contrast min-h-full':'min-h-full'} id="main">{children}</div>
       <ConsentBanner />
     </>
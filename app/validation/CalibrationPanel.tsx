@@ -0,0 +1,69 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { modelRegistry, ModelManifestEntry } from '../../src/analysis/ModelRegistry';
+import { RISK_MODEL_ID, RISK_OUTPUT_LABELS } from '../../src/analysis/PatternRecognition';
+import { CalibrationMethod } from '../../src/analysis/Calibration';
+import { ReliabilityDiagram } from '../../src/visualization/ReliabilityDiagram';
+
+// Held-out calibration of the latest registered risk model, as recorded in the model manifest
+export default function CalibrationPanel(){
+  const [entry, setEntry] = useState<ModelManifestEntry>();
+  const [error, setError] = useState<string>();
+  const [output, setOutput] = useState('overall');
+  const [method, setMethod] = useState<CalibrationMethod>();
+
+  useEffect(()=> {
+    modelRegistry.resolve(RISK_MODEL_ID).then(setEntry).catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, []);
+
+  if (error) return <div className="bg-neuro-surface rounded-xl p-6 shadow text-sm text-gray-400">Calibration unavailable: {error}</div>;
+  if (!entry) return <div className="bg-neuro-surface rounded-xl p-6 shadow text-sm text-gray-400">Loading calibration…</div>;
+  const calibration = entry.calibration;
+  if (!calibration) return <div className="bg-neuro-surface rounded-xl p-6 shadow text-sm text-gray-400">{entry.id}@{entry.version} has no calibration; run <code>npm run calibrate:risk</code>.</div>;
+
+  const selected = calibration.outputs[output];
+  const shown = method ?? selected.method;
+  return (
+    <div className="bg-neuro-surface rounded-xl p-6 shadow text-sm">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+        <h2 className="font-semibold text-lg">Calibration</h2>
+        <div className="flex gap-2 text-xs">
+          <select aria-label="Risk output" className="bg-gray-800 rounded px-1 py-0.5" value={output} onChange={e=> setOutput(e.target.value)}>
+            {RISK_OUTPUT_LABELS.map(l=> <option key={l} value={l}>{l}</option>)}
+          </select>
+          <select aria-label="Calibration method" className="bg-gray-800 rounded px-1 py-0.5" value={shown} onChange={e=> setMethod(e.target.value as CalibrationMethod)}>
+            <option value="platt">Platt scaling</option>
+            <option value="isotonic">Isotonic regression</option>
+          </select>
+        </div>
+      </div>
+      <div className="grid md:grid-cols-2 gap-6">
+        <ReliabilityDiagram bins={selected.reliability[shown]} raw={selected.reliability.raw} label={`Reliability diagram for ${output}`} />
+        <div className="space-y-3">
+          <table className="text-xs w-full">
+            <thead className="text-gray-400">
+              <tr><th className="text-left p-1">Output</th><th className="text-right p-1">Raw ECE</th><th className="text-right p-1">Platt</th><th className="text-right p-1">Isotonic</th></tr>
+            </thead>
+            <tbody>
+              {RISK_OUTPUT_LABELS.map(l=> {
+                const o = calibration.outputs[l];
+                const cell = (m: CalibrationMethod)=> <td className={`text-right p-1 ${o.method===m ? 'text-emerald-300' : ''}`}>{o.ece[m].toFixed(3)}</td>;
+                return (
+                  <tr key={l} className={l===output ? 'bg-white/5' : ''}>
+                    <td className="p-1">{l}</td>
+                    <td className="text-right p-1 text-gray-400">{o.rawEce.toFixed(3)}</td>
+                    {cell('platt')}{cell('isotonic')}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <div className="text-xs text-gray-500">
+            Expected calibration error over {calibration.bins} bins (lower is better). Fitted on {calibration.fitSize} and evaluated on {calibration.evalSize} held-out synthetic sessions for {entry.id}@{entry.version}; live risk scores use the highlighted method by default.
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
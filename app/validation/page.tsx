@@ -1,4 +1,5 @@
 import React from 'react';
+import CalibrationPanel from './CalibrationPanel';
 
 export default function ValidationPage(){
   return (
@@ -11,8 +12,8 @@ export default function ValidationPage(){
         <MetricCard title="Specificity" value="91%" note="Threshold tuned" />
         <MetricCard title="PPV" value="89%" note="Prevalence 10%" />
         <MetricCard title="NPV" value="95%" note="Prevalence 10%" />
-        <MetricCard title="Calibration" value="0.93" note="ECE (lower better)" />
       </div>
+      <CalibrationPanel />
       <div className="bg-neuro-surface rounded-xl p-6 shadow text-sm">
         <h2 className="font-semibold mb-4 text-lg">Confusion Matrix (Demo)</h2>
         <ConfusionMatrix tp={188} fp={22} fn={12} tn={178} />
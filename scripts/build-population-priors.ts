@@ -0,0 +1,28 @@
+// Derive population priors from the synthetic healthy cohort and bundle them at src/analysis/populationPriors.json.
+// Run with `npm run build:priors -- [--users 60 --sessions 20 --seed 29]`.
+import { writeFile } from 'fs/promises';
+import path from 'path';
+import { buildHealthyCohort, derivePopulationPriors } from '../src/analysis/PopulationPriors';
+
+const OUTPUT = path.join(__dirname, '..', 'src', 'analysis', 'populationPriors.json');
+
+function arg(name: string, fallback: string): string {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? process.argv[i + 1] : fallback;
+}
+
+async function main() {
+  const users = Number(arg('users', '60'));
+  const sessions = Number(arg('sessions', '20'));
+  const seed = Number(arg('seed', '29'));
+  const cohort = await buildHealthyCohort(users, sessions, seed);
+  const priors = derivePopulationPriors(cohort, `synthetic healthy cohort (${users} users × ${sessions} snapshots, seed ${seed})`);
+  await writeFile(OUTPUT, JSON.stringify(priors, (_, v) => (typeof v === 'number' ? Number(v.toPrecision(6)) : v), 2) + '\n');
+  const count = Object.values(priors.features).reduce((s, f) => s + Object.keys(f ?? {}).length, 0);
+  console.warn(`wrote priors for ${count} features from ${priors.snapshots} snapshots to ${path.relative(process.cwd(), OUTPUT)}`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
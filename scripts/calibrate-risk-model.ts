@@ -0,0 +1,41 @@
+// Calibrate a registered risk model on fresh synthetic sessions and record the fit in public/models/manifest.json.
+// The model artifacts are untouched, so their checksums stay valid.
+// Run with `npm run calibrate:risk -- [--version 1.0.0 --size 1000 --seed 101]`.
+import { readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { buildRiskSamples, calibrateRiskModel } from '../src/analysis/RiskTraining';
+import { RISK_MODEL_ID } from '../src/analysis/PatternRecognition';
+import { modelRegistry, MODEL_MANIFEST_URL, ModelManifest } from '../src/analysis/ModelRegistry';
+
+const PUBLIC_DIR = path.join(__dirname, '..', 'public');
+const MANIFEST = path.join(PUBLIC_DIR, 'models', 'manifest.json');
+
+function arg(name: string, fallback?: string): string | undefined {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? process.argv[i + 1] : fallback;
+}
+
+async function main() {
+  modelRegistry.configure(MODEL_MANIFEST_URL, async url => {
+    const b = await readFile(path.join(PUBLIC_DIR, url));
+    return b.buffer.slice(b.byteOffset, b.byteOffset + b.byteLength) as ArrayBuffer;
+  });
+  const { model, entry } = await modelRegistry.loadModel(RISK_MODEL_ID, arg('version'));
+  // A seed the training script does not use by default, so these sessions are unseen
+  const samples = buildRiskSamples(Number(arg('size', '1000')), Number(arg('seed', '101')));
+  const calibration = calibrateRiskModel(model, samples);
+  model.dispose();
+
+  const manifest: ModelManifest = JSON.parse(await readFile(MANIFEST, 'utf8'));
+  manifest.models = manifest.models.map(m => (m.id === entry.id && m.version === entry.version ? { ...m, calibration } : m));
+  await writeFile(MANIFEST, JSON.stringify(manifest, null, 2) + '\n');
+  Object.entries(calibration.outputs).forEach(([label, output]) => {
+    console.warn(`${label}: raw ECE ${output.rawEce.toFixed(4)}, platt ${output.ece.platt.toFixed(4)}, isotonic ${output.ece.isotonic.toFixed(4)} -> ${output.method}`);
+  });
+  console.warn(`calibrated ${entry.id}@${entry.version} on ${samples.length} sessions`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,83 @@
+// Train the risk model on synthetic sessions, write it under public/models/<id>/<version> and register it in
+// public/models/manifest.json with checksums and held-out metrics.
+// Run with `npm run train:risk -- --version 1.0.0 [--size 1500 --epochs 80 --seed 7]`.
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import * as tf from '@tensorflow/tfjs';
+import { trainRiskModel } from '../src/analysis/RiskTraining';
+import { RISK_INPUT_SCHEMA, RISK_MODEL_ID, RISK_OUTPUT_LABELS } from '../src/analysis/PatternRecognition';
+import { ModelManifest, ModelManifestEntry, compareVersions, sha256Hex } from '../src/analysis/ModelRegistry';
+
+const MODELS_DIR = path.join(__dirname, '..', 'public', 'models');
+const MANIFEST = path.join(MODELS_DIR, 'manifest.json');
+
+function arg(name: string, fallback: string): string {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? process.argv[i + 1] : fallback;
+}
+
+const toArrayBuffer = (b: Buffer) => b.buffer.slice(b.byteOffset, b.byteOffset + b.byteLength) as ArrayBuffer;
+
+async function readManifest(): Promise<ModelManifest> {
+  try {
+    return JSON.parse(await readFile(MANIFEST, 'utf8'));
+  } catch {
+    return { models: [] };
+  }
+}
+
+async function main() {
+  const version = arg('version', '1.0.0');
+  const seed = Number(arg('seed', '7'));
+  const { model, evaluation, calibration, trainSize, testSize } = await trainRiskModel({
+    size: Number(arg('size', '1500')),
+    epochs: Number(arg('epochs', '80')),
+    seed,
+    onEpochEnd: (epoch, logs) => console.warn(`epoch ${epoch + 1}: loss ${logs?.loss?.toFixed(4)}`)
+  });
+
+  let artifacts: tf.io.ModelArtifacts | undefined;
+  await model.save(tf.io.withSaveHandler(async a => {
+    artifacts = a;
+    return { modelArtifactsInfo: { dateSaved: new Date(), modelTopologyType: 'JSON' } };
+  }));
+  const topology = Buffer.from(JSON.stringify({
+    format: artifacts!.format,
+    generatedBy: artifacts!.generatedBy,
+    convertedBy: artifacts!.convertedBy,
+    modelTopology: artifacts!.modelTopology,
+    weightsManifest: [{ paths: ['weights.bin'], weights: artifacts!.weightSpecs }]
+  }));
+  const weights = Buffer.from(artifacts!.weightData as ArrayBuffer);
+
+  const relDir = `${RISK_MODEL_ID}/${version}`;
+  await mkdir(path.join(MODELS_DIR, relDir), { recursive: true });
+  await writeFile(path.join(MODELS_DIR, relDir, 'model.json'), topology);
+  await writeFile(path.join(MODELS_DIR, relDir, 'weights.bin'), weights);
+
+  const entry: ModelManifestEntry = {
+    id: RISK_MODEL_ID,
+    version,
+    createdAt: new Date().toISOString(),
+    description: `Dense 95→32→4 network trained on ${trainSize} synthetic sessions (seed ${seed})`,
+    inputSchema: RISK_INPUT_SCHEMA,
+    outputLabels: RISK_OUTPUT_LABELS,
+    metrics: { ...evaluation, testSize },
+    calibration,
+    artifacts: {
+      topology: { path: `${relDir}/model.json`, sha256: await sha256Hex(toArrayBuffer(topology)) },
+      weights: { path: `${relDir}/weights.bin`, sha256: await sha256Hex(toArrayBuffer(weights)) }
+    }
+  };
+  const manifest = await readManifest();
+  manifest.models = [...manifest.models.filter(m => !(m.id === entry.id && m.version === version)), entry]
+    .sort((a, b) => a.id.localeCompare(b.id) || compareVersions(a.version, b.version));
+  await writeFile(MANIFEST, JSON.stringify(manifest, null, 2) + '\n');
+  console.warn(`trained on ${trainSize}, evaluated on ${testSize}:`, evaluation);
+  console.warn(`registered ${entry.id}@${version}`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,45 @@
+// Train the temporal drift model on a synthetic cohort and write it where the app loads it from
+// (public/models/temporal-lstm). Run with `npm run train:temporal [-- --size 600 --epochs 30 --seed 42]`.
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import * as tf from '@tensorflow/tfjs';
+import { trainTemporalModel } from '../src/analysis/TemporalTraining';
+
+const OUT_DIR = path.join(__dirname, '..', 'public', 'models', 'temporal-lstm');
+
+function arg(name: string, fallback: number): number {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? Number(process.argv[i + 1]) : fallback;
+}
+
+// tfjs without tfjs-node has no file:// handler; write the standard model.json + weights.bin layout ourselves
+const fileHandler = tf.io.withSaveHandler(async artifacts => {
+  await mkdir(OUT_DIR, { recursive: true });
+  const weightData = artifacts.weightData as ArrayBuffer;
+  await writeFile(path.join(OUT_DIR, 'weights.bin'), Buffer.from(weightData));
+  await writeFile(path.join(OUT_DIR, 'model.json'), JSON.stringify({
+    format: artifacts.format,
+    generatedBy: artifacts.generatedBy,
+    convertedBy: artifacts.convertedBy,
+    modelTopology: artifacts.modelTopology,
+    weightsManifest: [{ paths: ['weights.bin'], weights: artifacts.weightSpecs }]
+  }));
+  return { modelArtifactsInfo: { dateSaved: new Date(), modelTopologyType: 'JSON', weightDataBytes: weightData.byteLength } };
+});
+
+async function main() {
+  const { model, evaluation, trainSize, testSize } = await trainTemporalModel({
+    size: arg('size', 600),
+    epochs: arg('epochs', 30),
+    seed: arg('seed', 42),
+    onEpochEnd: (epoch, logs) => console.warn(`epoch ${epoch + 1}: loss ${logs?.loss?.toFixed(4)} acc ${logs?.acc?.toFixed(3)}`)
+  });
+  await model.save(fileHandler);
+  console.warn(`trained on ${trainSize}, evaluated on ${testSize}:`, evaluation);
+  console.warn(`saved to ${OUT_DIR}`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
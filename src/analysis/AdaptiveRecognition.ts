@@ -1,7 +1,10 @@
 /* eslint-disable no-trailing-spaces */
 import { BaselinePattern, FeatureSnapshot, BaselineModeling } from './BaselineModeling';
 import { SimilarityScore, SimilarityScoring } from './SimilarityScoring';
+import { BayesianChangePointDetector, ChangePoint, ChangePointDetectorState } from './ChangePointDetection';
+import { decomposeSeasonality, seasonalOffset, SeasonalDecomposition, SeasonalPoint, SEASONAL_HISTORY_HOURS } from './SeasonalDecomposition';
 import { createComponentLogger } from '../utils/Logger';
+import { clock } from '../utils/Clock';
 
 const logger = createComponentLogger('AdaptiveRecognition');
 
@@ -25,6 +28,7 @@ export interface DriftDetection {
     trend: number; // -1 to 1, negative = declining
     volatility: number; // Measure of erratic changes
   };
+  changePoints: ChangePoint[]; // Overall and per-modality change points within the observation period
   
   // Medical interpretation
   medicalSignificance: 'none' | 'monitoring' | 'clinical_attention' | 'immediate_review';
@@ -38,6 +42,7 @@ export interface DriftDetection {
     observationPeriod: [number, number];
     sampleCount: number;
     lastUpdated: number;
+    seasonallyAdjusted: boolean; // Scores had the user's daily / weekly pattern removed before analysis
   };
 }
 
@@ -91,6 +96,9 @@ export interface RecognitionState {
   recentScores: SimilarityScore[];
   driftHistory: DriftDetection[];
   evolutionHistory: PatternEvolution[];
+  changePointDetectors: Record<string, BayesianChangePointDetector>; // 'overall' and one per modality
+  scoreHistory: SeasonalPoint[]; // Hourly mean overall similarity
+  seasonality?: Pick<SeasonalDecomposition, 'circadianPattern' | 'weeklyPattern' | 'seasonalStrength'>; // Fitted on closed hours
   
   // State tracking
   lastDriftCheck: number;
@@ -107,15 +115,23 @@ export interface RecognitionState {
   };
 }
 
+// RecognitionState as plain data, for seeding another pipeline with a user's drift monitoring
+export type RecognitionStateExport = Omit<RecognitionState, 'changePointDetectors'> & {
+  changePointDetectors: Record<string, ChangePointDetectorState>;
+};
+
 export class AdaptiveRecognition {
   private static instance: AdaptiveRecognition;
   private recognitionStates = new Map<string, RecognitionState>();
+  private restoredHistory = new Map<string, Pick<RecognitionState, 'scoreHistory' | 'seasonality'>>(); // Seeded before the user's state exists
   private baselineModeling = BaselineModeling.getInstance();
   private similarityScoring = SimilarityScoring.getInstance();
   
   // Configuration
   private config = {
     driftDetectionWindow: 10, // Number of recent scores to analyze
+    suddenChangeProbability: 0.8, // Change-point probability at which a shift counts as sudden
+    seasonalHistoryHours: SEASONAL_HISTORY_HOURS,
     driftThresholds: {
       minimal: 0.05,   // 5% change
       mild: 0.10,      // 10% change  
@@ -163,7 +179,9 @@ export class AdaptiveRecognition {
     }
 
     // Add score to history
+    this.updateSeasonality(state, score);
     state.recentScores.push(score);
+    this.updateChangePoints(state, score);
     
     // Maintain rolling window
     const maxScores = this.config.driftDetectionWindow * 2;
@@ -195,7 +213,7 @@ export class AdaptiveRecognition {
     // Cleanup old history
     this.cleanupHistory(state);
 
-    state.lastDriftCheck = Date.now();
+    state.lastDriftCheck = clock.now();
     
     logger.debug('Processed similarity score for adaptive recognition', {
       userId,
@@ -217,13 +235,13 @@ export class AdaptiveRecognition {
       return null;
     }
 
-    // Statistical analysis of score trends
-    const scores = recentScores.map(s => s.overall);
+    // Statistical analysis of score trends, with the user's usual time-of-day and day-of-week dips removed
+    const scores = recentScores.map(s => s.overall - seasonalOffset(state.seasonality, s.timestamp));
     const timestamps = recentScores.map(s => s.timestamp);
     
     const trendAnalysis = this.analyzeTrend(scores, timestamps);
     const variabilityAnalysis = this.analyzeVariability(scores);
-    const changePointAnalysis = this.detectChangePoints(scores, timestamps);
+    const changePointAnalysis = this.detectChangePoints(state, timestamps);
     
     // Determine if drift is occurring
     const isDrifting = this.evaluateDriftConditions(
@@ -267,7 +285,7 @@ export class AdaptiveRecognition {
       driftType,
       driftSeverity,
       confidence,
-      detectedAt: Date.now(),
+      detectedAt: clock.now(),
       
       affectedModalities,
       primaryFeatures,
@@ -280,17 +298,19 @@ export class AdaptiveRecognition {
         trend: trendAnalysis.direction,
         volatility: variabilityAnalysis.volatility
       },
+      changePoints: changePointAnalysis.changePoints,
       
       medicalSignificance: medicalAssessment.significance,
       likelyDiseaseProgression: medicalAssessment.likelyProgression,
       recommendedActions: medicalAssessment.actions,
       
       metadata: {
-        detectionMethod: 'statistical_trend_analysis',
+        detectionMethod: 'trend_analysis+bayesian_online_changepoint',
         baselinePeriod: [state.currentBaseline.timestamp, state.currentBaseline.timestamp],
         observationPeriod: [timestamps[0], timestamps[timestamps.length - 1]],
         sampleCount: recentScores.length,
-        lastUpdated: Date.now()
+        lastUpdated: clock.now(),
+        seasonallyAdjusted: !!state.seasonality?.circadianPattern
       }
     };
 
@@ -383,46 +403,97 @@ export class AdaptiveRecognition {
   }
 
   /**
-   * Detect change points in the score series
+   * Add a score to the hourly history; when a new hour starts, refit the seasonal decomposition on the
+   * closed hours and hand the patterns to the baseline
    */
-  private detectChangePoints(scores: number[], timestamps: number[]): {
-    hasChangePoint: boolean;
-    changePointIndex?: number;
-    preChangeScore?: number;
-    postChangeScore?: number;
-    changePointTimestamp?: number;
-  } {
-    if (scores.length < 6) {
-      return { hasChangePoint: false };
+  private updateSeasonality(state: RecognitionState, score: SimilarityScore): void {
+    const hourMs = 60 * 60 * 1000;
+    const hour = Math.floor(score.timestamp / hourMs) * hourMs;
+    const last = state.scoreHistory[state.scoreHistory.length - 1];
+    if (last && last.t === hour) {
+      last.weight++;
+      last.value += (score.overall - last.value) / last.weight;
+      return;
     }
 
-    let maxDifference = 0;
-    let changePointIndex = -1;
+    if (last) state.seasonality = this.fitSeasonality(state.userId, state.scoreHistory);
+    state.scoreHistory.push({ t: hour, value: score.overall, weight: 1 });
+    if (state.scoreHistory.length > this.config.seasonalHistoryHours) state.scoreHistory.shift();
+  }
 
-    // Simple change point detection using cumulative sum
-    for (let i = 2; i < scores.length - 2; i++) {
-      const beforeMean = scores.slice(0, i).reduce((a, b) => a + b, 0) / i;
-      const afterMean = scores.slice(i).reduce((a, b) => a + b, 0) / (scores.length - i);
-      const difference = Math.abs(afterMean - beforeMean);
-      
-      if (difference > maxDifference) {
-        maxDifference = difference;
-        changePointIndex = i;
+  /**
+   * Seed the hourly score history from scores stored in earlier sessions, so the seasonal fit survives a reload.
+   * Hours already tracked live take precedence over stored ones.
+   */
+  restoreScoreHistory(userId: string, history: SeasonalPoint[]): void {
+    const hourMs = 60 * 60 * 1000;
+    const state = this.recognitionStates.get(userId);
+    const live = state?.scoreHistory ?? [];
+    const scoreHistory = [...history.filter(p => p.t < (live[0]?.t ?? Infinity)), ...live].slice(-this.config.seasonalHistoryHours);
+    const currentHour = Math.floor(clock.now() / hourMs) * hourMs;
+    const seasonality = this.fitSeasonality(userId, scoreHistory.filter(p => p.t < currentHour));
+    if (state) Object.assign(state, { scoreHistory, seasonality });
+    else this.restoredHistory.set(userId, { scoreHistory, seasonality });
+  }
+
+  /**
+   * Decompose closed hours and hand the patterns to the baseline
+   */
+  private fitSeasonality(userId: string, history: SeasonalPoint[]): RecognitionState['seasonality'] {
+    const { circadianPattern, weeklyPattern, seasonalStrength } = decomposeSeasonality(history);
+    if (circadianPattern) this.baselineModeling.setSeasonalPatterns(userId, { circadianPattern, weeklyPattern });
+    return { circadianPattern, weeklyPattern, seasonalStrength };
+  }
+
+  /**
+   * Feed a score to the overall (seasonally adjusted) and per-modality change-point detectors
+   */
+  private updateChangePoints(state: RecognitionState, score: SimilarityScore): void {
+    const feed = (stream: string, value: number) => {
+      if (!state.changePointDetectors[stream]) {
+        state.changePointDetectors[stream] = new BayesianChangePointDetector(stream);
       }
-    }
+      state.changePointDetectors[stream].update(value, score.timestamp);
+    };
+    feed('overall', score.overall - seasonalOffset(state.seasonality, score.timestamp));
+    Object.entries(score.modalities).forEach(([modality, modalityScore]) => {
+      if (modalityScore.featureCount > 0) feed(modality, modalityScore.score);
+    });
+  }
 
-    // Threshold for significant change point
-    if (maxDifference > 0.15) { // 15% change
-      return {
-        hasChangePoint: true,
-        changePointIndex,
-        preChangeScore: scores.slice(0, changePointIndex).reduce((a, b) => a + b, 0) / changePointIndex,
-        postChangeScore: scores.slice(changePointIndex).reduce((a, b) => a + b, 0) / (scores.length - changePointIndex),
-        changePointTimestamp: timestamps[changePointIndex]
-      };
+  /**
+   * Change points from the Bayesian online detectors within the analysed window
+   */
+  private detectChangePoints(state: RecognitionState, timestamps: number[]): {
+    hasChangePoint: boolean;
+    probability?: number;
+    preChangeScore?: number;
+    postChangeScore?: number;
+    changePointTimestamp?: number;
+    changePoints: ChangePoint[];
+  } {
+    const [from, to] = [timestamps[0], timestamps[timestamps.length - 1]];
+    const changePoints = Object.values(state.changePointDetectors)
+      .flatMap(d => d.getChangePoints())
+      .filter(c => c.timestamp >= from && c.timestamp <= to)
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    // Drift is judged on the overall stream; modality change points say where it came from
+    const overall = changePoints
+      .filter(c => c.stream === 'overall' && Math.abs(c.meanAfter - c.meanBefore) > this.config.driftThresholds.mild)
+      .sort((a, b) => b.probability - a.probability)[0];
+    if (!overall) {
+      return { hasChangePoint: false, changePoints };
     }
 
-    return { hasChangePoint: false };
+    return {
+      hasChangePoint: true,
+      probability: overall.probability,
+      preChangeScore: overall.meanBefore,
+      postChangeScore: overall.meanAfter,
+      changePointTimestamp: overall.timestamp,
+      changePoints
+    };
   }
 
   /**
@@ -458,10 +529,10 @@ export class AdaptiveRecognition {
     changePointAnalysis: ReturnType<typeof AdaptiveRecognition.prototype.detectChangePoints>
   ): DriftType {
     
-    // Sudden change detection
-    if (changePointAnalysis.hasChangePoint) {
-      const changeSize = Math.abs((changePointAnalysis.postChangeScore || 0) - (changePointAnalysis.preChangeScore || 0));
-      if (changeSize > 0.3) {
+    // Sudden change detection: a confident change point with a level shift, as opposed to a steady trend
+    if (changePointAnalysis.hasChangePoint && changePointAnalysis.probability >= this.config.suddenChangeProbability) {
+      const changeSize = Math.abs(changePointAnalysis.postChangeScore - changePointAnalysis.preChangeScore);
+      if (changeSize >= this.config.driftThresholds.moderate) {
         return 'sudden_change';
       }
     }
@@ -504,6 +575,7 @@ export class AdaptiveRecognition {
     const modalityScores: Record<string, number[]> = {
       keyboard: [],
       mouse: [],
+      touch: [],
       scroll: [],
       focus: [],
       composite: []
@@ -752,13 +824,18 @@ export class AdaptiveRecognition {
    * Helper methods
    */
   private initializeRecognitionState(userId: string, baseline: BaselinePattern): RecognitionState {
+    const restored = this.restoredHistory.get(userId);
+    this.restoredHistory.delete(userId);
     return {
       userId,
       currentBaseline: baseline,
       recentScores: [],
       driftHistory: [],
       evolutionHistory: [],
-      lastDriftCheck: Date.now(),
+      changePointDetectors: {},
+      scoreHistory: restored?.scoreHistory ?? [],
+      seasonality: restored?.seasonality,
+      lastDriftCheck: clock.now(),
       adaptationScheduled: false,
       monitoringMode: 'normal',
       statistics: {
@@ -869,6 +946,30 @@ export class AdaptiveRecognition {
     return state?.driftHistory || [];
   }
 
+  exportState(userId: string): RecognitionStateExport | undefined {
+    const state = this.recognitionStates.get(userId);
+    if (!state) return undefined;
+    const detectors = Object.entries(state.changePointDetectors).map(([stream, detector]) => [stream, detector.exportState()]);
+    return { ...state, changePointDetectors: Object.fromEntries(detectors) };
+  }
+
+  /**
+   * Resume a user's drift monitoring from exported state, replacing any they have
+   */
+  importState(userId: string, state: RecognitionStateExport): void {
+    const detectors = Object.entries(state.changePointDetectors).map(([stream, detector]) => [stream, BayesianChangePointDetector.fromState(detector)]);
+    this.recognitionStates.set(userId, { ...state, userId, changePointDetectors: Object.fromEntries(detectors) });
+    this.restoredHistory.delete(userId);
+  }
+
+  /**
+   * Drop a user's recognition state and drift history
+   */
+  forget(userId: string): void {
+    this.recognitionStates.delete(userId);
+    this.restoredHistory.delete(userId);
+  }
+
   /**
    * Get statistics
    */
@@ -0,0 +1,379 @@
+// AnalysisPipeline: feature extraction, baseline, similarity and risk scoring for one tick.
+// Runs inside the pipeline worker; PipelineWorker falls back to an in-thread instance where workers are unavailable.
+import { KeystrokeEvent } from '../collectors/KeystrokeCollector';
+import { MouseSample } from '../collectors/MouseTracker';
+import { TouchSample } from '../collectors/TouchTracker';
+import { ScrollSample } from '../collectors/ScrollCollector';
+import { registerKeyboardFeatures, computeKeyboardFeatures, toKeystrokeMetrics, KeyboardTimingFeatures } from '../features/KeyboardFeatures';
+import { registerMouseFeatures, computeMouseFeatures, MouseMovementFeatures } from '../features/MouseFeatures';
+import { registerTouchFeatures, computeTouchFeatures, TouchInteractionFeatures } from '../features/TouchFeatures';
+import { registerFocusFeatures, FocusAttentionFeatures } from '../features/FocusFeatures';
+import { registerScrollFeatures, computeScrollFeatures, ScrollBehaviorFeatures } from '../features/ScrollFeatures';
+import { registerCompositeFeatures } from '../features/CompositeFeatures';
+import { featureRegistry } from '../features/FeatureRegistry';
+import { baselineModeling, BaselinePattern, BaselineRevision, BaselineRevisionRecord, BaselineUserState, FeatureSnapshot } from './BaselineModeling';
+import { similarityScoring, SimilarityScore, MethodComparison } from './SimilarityScoring';
+import { confidenceEstimation, ConfidenceAssessment } from './ConfidenceEstimation';
+import { adaptiveRecognition, DriftDetection, RecognitionStateExport } from './AdaptiveRecognition';
+import { statisticalProcessControl, ControlChartUpdate, ControlChartState } from './StatisticalProcessControl';
+import { contextAdjustment, ContextAdjustmentState, ContextAdjustmentSummary, SessionContext } from './ContextAdjustment';
+import { conformalPrediction, ConformalInterval, ConformalState } from './ConformalPrediction';
+import { SeasonalPoint } from './SeasonalDecomposition';
+import { CognitiveFingerprintModel, MultiModalFeatures, RiskScores, RISK_MODEL_ID } from './PatternRecognition';
+import { ModelRef } from './ModelRegistry';
+import { explainRisk, RiskAttribution } from './Attribution';
+import { anomalyDetection, AnomalyResult, AnomalyModelState } from './AnomalyDetection';
+import { loadPopulationPriors } from './PopulationPriors';
+import { temporalMonitor, TemporalPatternResult } from './TemporalAnalysis';
+import { config } from '../config/AppConfig';
+import { createComponentLogger } from '../utils/Logger';
+
+export interface PipelineTickInput {
+  userId: string;
+  sessionId: string;
+  timestamp: number;
+  quality?: number; // Mean quality of events accepted this tick; no snapshot is taken without it
+  keystrokes: KeystrokeEvent[]; // The collector's recent window, oldest first
+  mouse: MouseSample[];
+  touch: TouchSample[];
+  scroll: ScrollSample[];
+  focus?: FocusAttentionFeatures;
+  context?: SessionContext; // User-entered covariates; time of day and session length are inferred
+}
+
+export interface PipelineTickResult {
+  keyboard?: KeyboardTimingFeatures; // Raw; the snapshot carries context-adjusted values
+  mouse?: MouseMovementFeatures;
+  touch?: TouchInteractionFeatures;
+  scroll?: ScrollBehaviorFeatures;
+  snapshot?: FeatureSnapshot;
+  contextAdjustment?: ContextAdjustmentSummary;
+  baseline?: BaselinePattern;
+  baselineRevisions?: BaselineRevision[]; // Revisions added or changed since the last tick; trimRevisions caps the merged history
+  baselineRecords?: BaselineRevisionRecord[]; // The same revisions with their full baselines, for persistence
+  similarity?: SimilarityScore;
+  methodComparison?: MethodComparison;
+  confidence?: ConfidenceAssessment;
+  drift?: DriftDetection;
+  controlCharts?: ControlChartUpdate;
+}
+
+// A user's analysis state as plain data. A session recording carries it from its start, so a replay resumes from it.
+export interface PipelineState {
+  sessionStart?: number; // First tick of the session, which session length is measured from
+  features: Pick<PipelineTickResult, 'keyboard' | 'mouse' | 'touch' | 'scroll'>; // Carried forward, context-adjusted
+  baseline: BaselineUserState;
+  contextAdjustment?: ContextAdjustmentState;
+  conformal?: ConformalState;
+  controlCharts?: ControlChartState;
+  recognition?: RecognitionStateExport;
+}
+
+export interface AnalysisPipelineOptions {
+  assessConfidence?: boolean; // Off for replay: assessments carry wall-clock computation times
+}
+
+export interface RiskResult {
+  scores: RiskScores;
+  anomaly: AnomalyResult;
+  model?: AnomalyModelState; // Set when the user's anomaly model was refitted by this call, for persistence
+  attribution?: RiskAttribution; // Set when a reference input was given
+  interval?: ConformalInterval; // Split-conformal interval for the overall risk from the user's risk history
+}
+
+let featuresRegistered = false;
+let syntheticPriorsRequested = false;
+
+function registerPipelineFeatures(): void {
+  if (featuresRegistered) return;
+  registerKeyboardFeatures();
+  registerMouseFeatures();
+  registerTouchFeatures();
+  registerFocusFeatures();
+  registerScrollFeatures();
+  registerCompositeFeatures();
+  featuresRegistered = true;
+}
+
+const errorMessage = (err: unknown) => err instanceof Error ? err.message : String(err);
+
+export class AnalysisPipeline {
+  private logger = createComponentLogger('AnalysisPipeline');
+  private model = new CognitiveFingerprintModel();
+  private modelLoading?: Promise<ModelRef>;
+  private temporalLoading?: Promise<boolean>;
+
+  // Latest context-adjusted features per modality; a snapshot carries forward modalities that were quiet this tick
+  private keyboard?: KeyboardTimingFeatures;
+  private mouse?: MouseMovementFeatures;
+  private touch?: TouchInteractionFeatures;
+  private scroll?: ScrollBehaviorFeatures;
+  private sessionStarts = new Map<string, number>();
+  private reportedRevisions = new WeakSet<BaselineRevision>();
+  private lastRisk = new Map<string, { input: string; result: RiskResult }>(); // Per user, to recognise a repeated input
+  private queue: Promise<unknown> = Promise.resolve(); // Ticks and state exports, in arrival order
+
+  constructor(private options: AnalysisPipelineOptions = {}) {
+    try {
+      registerPipelineFeatures();
+      this.logger.info('Feature extractors registered', { stats: featureRegistry.getStats() });
+    } catch (err) {
+      this.logger.warn('Feature registration issue', { error: errorMessage(err) });
+    }
+    const { hierarchical } = config.get().baseline;
+    if (hierarchical.enabled && hierarchical.priorSource === 'synthetic' && !syntheticPriorsRequested) {
+      syntheticPriorsRequested = true;
+      loadPopulationPriors('synthetic')
+        .then(priors => baselineModeling.setPopulationPriors(priors))
+        .catch(err => this.logger.warn('Synthetic population priors unavailable, keeping bundled priors', { error: errorMessage(err) }));
+    }
+  }
+
+  /**
+   * Run one tick once the ticks before it have finished
+   */
+  tick(input: PipelineTickInput): Promise<PipelineTickResult> {
+    return this.enqueue(() => this.runTick(input));
+  }
+
+  private async runTick(input: PipelineTickInput): Promise<PipelineTickResult> {
+    const { userId, sessionId } = input;
+    const result: PipelineTickResult = {};
+    if (!this.sessionStarts.has(sessionId)) this.sessionStarts.set(sessionId, input.timestamp);
+    const covariates = contextAdjustment.covariates(userId, input.timestamp, this.sessionStarts.get(sessionId)!, input.context);
+    contextAdjustment.report(userId, input.context);
+
+    if (input.keystrokes.length >= 5) {
+      try {
+        result.keyboard = await computeKeyboardFeatures(toKeystrokeMetrics(input.keystrokes), sessionId);
+        this.keyboard = contextAdjustment.adjust(userId, 'keyboard', result.keyboard, covariates);
+      } catch (err) {
+        this.logger.warn('Keyboard feature compute failed', { error: errorMessage(err) });
+      }
+    }
+    if (input.mouse.length > 5) {
+      try {
+        result.mouse = await computeMouseFeatures(input.mouse, sessionId);
+        this.mouse = contextAdjustment.adjust(userId, 'mouse', result.mouse, covariates);
+      } catch (err) {
+        this.logger.warn('Mouse feature compute failed', { error: errorMessage(err) });
+      }
+    }
+    if (input.touch.length >= 3) {
+      try {
+        result.touch = await computeTouchFeatures(input.touch, sessionId);
+        this.touch = contextAdjustment.adjust(userId, 'touch', result.touch, covariates);
+      } catch (err) {
+        this.logger.warn('Touch feature compute failed', { error: errorMessage(err) });
+      }
+    }
+    if (input.scroll.length >= 3) {
+      try {
+        result.scroll = await computeScrollFeatures(input.scroll, sessionId);
+        this.scroll = contextAdjustment.adjust(userId, 'scroll', result.scroll, covariates);
+      } catch (err) {
+        this.logger.warn('Scroll feature compute failed', { error: errorMessage(err) });
+      }
+    }
+
+    if (input.quality === undefined) return result;
+    const focus = input.focus && contextAdjustment.adjust(userId, 'focus', input.focus, covariates);
+    result.contextAdjustment = contextAdjustment.summarize(userId, covariates);
+
+    const snapshot: FeatureSnapshot = {
+      timestamp: input.timestamp,
+      sessionId,
+      keyboard: this.keyboard,
+      mouse: this.mouse,
+      touch: this.touch,
+      scroll: this.scroll,
+      focus,
+      environmentalContext: { device: 'unknown', covariates },
+      quality: input.quality
+    };
+    if (this.keyboard || this.mouse || this.touch || this.scroll || focus) {
+      await baselineModeling.addSnapshot(userId, snapshot);
+      result.snapshot = snapshot;
+    }
+
+    const baseline = baselineModeling.getBaseline(userId);
+    if (!baseline) return result;
+    result.baseline = baseline;
+    // Revisions are replaced rather than mutated, so anything not yet reported is new or changed
+    const revisions = baselineModeling.getHistory(userId).filter(r => !this.reportedRevisions.has(r));
+    if (revisions.length) {
+      result.baselineRevisions = revisions;
+      result.baselineRecords = baselineModeling.exportRevisions(userId, revisions);
+      revisions.forEach(r => this.reportedRevisions.add(r));
+    }
+    result.similarity = await similarityScoring.computeSimilarity(snapshot, baseline);
+    result.methodComparison = await similarityScoring.compareMethods(snapshot, baseline);
+    conformalPrediction.observe(userId, 'similarity', result.similarity.overall);
+
+    if (this.options.assessConfidence ?? true) {
+      try {
+        result.confidence = await confidenceEstimation.assessConfidence(userId, result.similarity, baseline);
+      } catch (err) {
+        this.logger.warn('Confidence assessment failed', { error: errorMessage(err) });
+      }
+    }
+    // Drift detection and control charts fix their reference when they start, so they wait for an established baseline
+    if (baselineModeling.isProvisional(baseline)) return result;
+    try {
+      result.drift = (await adaptiveRecognition.processNewScore(userId, result.similarity)) ?? undefined;
+    } catch (err) {
+      this.logger.warn('Drift detection failed', { error: errorMessage(err) });
+    }
+    // Only modalities measured this tick are charted; carried-forward values would read as a run on one side
+    try {
+      const measured = { ...snapshot, keyboard: result.keyboard && this.keyboard, mouse: result.mouse && this.mouse, touch: result.touch && this.touch, scroll: result.scroll && this.scroll };
+      result.controlCharts = statisticalProcessControl.update(userId, measured, baseline);
+    } catch (err) {
+      this.logger.warn('Control chart update failed', { error: errorMessage(err) });
+    }
+
+    return result;
+  }
+
+  /**
+   * Load a registered risk model version (latest when omitted). Until one loads, scores come from the
+   * heuristic and say so in RiskScores.model.
+   */
+  loadRiskModel(version?: string): Promise<ModelRef> {
+    this.modelLoading = this.model.load(RISK_MODEL_ID, version)
+      .catch(err => this.logger.warn('Risk model unavailable, using heuristic', { error: errorMessage(err) }))
+      .then(() => this.model.getModelRef());
+    return this.modelLoading;
+  }
+
+  /**
+   * Temporal drift over the most recent keystrokes, oldest first. The trained LSTM is loaded on first use; until it
+   * is, or where none is available, the result comes from the heuristic and says so in its source.
+   */
+  analyzeTemporal(events: KeystrokeEvent[]): TemporalPatternResult {
+    if (!this.temporalLoading) this.temporalLoading = temporalMonitor.load();
+    return temporalMonitor.analyze(events);
+  }
+
+  /**
+   * Score risk and anomaly; with a reference input, also attribute the overall risk to the features that moved it.
+   * Repeating the last input returns the last result without adding it to the anomaly or conformal histories again.
+   */
+  scoreRisk(userId: string, features: MultiModalFeatures, reference?: MultiModalFeatures): RiskResult {
+    if (!this.modelLoading) this.loadRiskModel();
+    const input = JSON.stringify([features, reference, this.model.getModelRef()]);
+    const last = this.lastRisk.get(userId);
+    if (last?.input === input) return { ...last.result, model: undefined };
+    let model: AnomalyModelState | undefined;
+    const off = anomalyDetection.onModelFitted(state => { if (state.userId === userId) model = state; });
+    try {
+      const anomaly = anomalyDetection.score(userId, [...features.typing, ...features.voice, ...features.motor]);
+      const scores = this.model.infer(features);
+      let attribution: RiskAttribution | undefined;
+      if (reference) {
+        try {
+          attribution = explainRisk(this.model, features, reference);
+        } catch (err) {
+          this.logger.warn('Risk attribution failed', { error: errorMessage(err) });
+        }
+      }
+      const interval = conformalPrediction.observe(userId, 'risk', scores.overall);
+      const result = { scores, anomaly, model, attribution, interval };
+      this.lastRisk.set(userId, { input, result });
+      return result;
+    } finally {
+      off();
+    }
+  }
+
+  /**
+   * Reinstate an earlier baseline version; the next tick reports the new revision
+   */
+  rollbackBaseline(userId: string, version: string): BaselinePattern {
+    return baselineModeling.rollback(userId, version);
+  }
+
+  /**
+   * Resume anomaly scoring from a persisted model
+   */
+  restoreAnomalyModel(model: AnomalyModelState): void {
+    anomalyDetection.importModel(model);
+  }
+
+  /**
+   * Reinstate a user's stored baseline revisions and rollback exclusions. Returns the resulting history, which later
+   * ticks do not report again.
+   */
+  restoreRevisions(userId: string, records: BaselineRevisionRecord[]): BaselineRevision[] {
+    baselineModeling.restoreRevisions(userId, records);
+    const history = baselineModeling.getHistory(userId);
+    history.forEach(r => this.reportedRevisions.add(r));
+    return history;
+  }
+
+  /**
+   * Rebuild a user's baseline from feature snapshots stored in earlier sessions; the next tick reports its revisions
+   */
+  async restoreSnapshots(userId: string, snapshots: FeatureSnapshot[]): Promise<void> {
+    await baselineModeling.restoreSnapshots(userId, snapshots);
+  }
+
+  /**
+   * Seed a user's hourly similarity history, for the seasonal decomposition, from scores stored in earlier sessions
+   */
+  restoreScoreHistory(userId: string, history: SeasonalPoint[]): void {
+    adaptiveRecognition.restoreScoreHistory(userId, history);
+  }
+
+  /**
+   * A user's analysis state once the ticks already queued have finished, for a session recording to start from
+   */
+  exportState(userId: string, sessionId: string): Promise<PipelineState> {
+    return this.enqueue(() => structuredClone({
+      sessionStart: this.sessionStarts.get(sessionId),
+      features: { keyboard: this.keyboard, mouse: this.mouse, touch: this.touch, scroll: this.scroll },
+      baseline: baselineModeling.exportState(userId),
+      contextAdjustment: contextAdjustment.exportState(userId),
+      conformal: conformalPrediction.exportState(userId),
+      controlCharts: statisticalProcessControl.exportState(userId),
+      recognition: adaptiveRecognition.exportState(userId)
+    }));
+  }
+
+  /**
+   * Continue from exported state as `userId`, replacing theirs; the state's revisions are not reported again
+   */
+  importState(userId: string, sessionId: string, exported: PipelineState): void {
+    const state = structuredClone(exported);
+    if (state.sessionStart !== undefined) this.sessionStarts.set(sessionId, state.sessionStart);
+    this.keyboard = state.features.keyboard;
+    this.mouse = state.features.mouse;
+    this.touch = state.features.touch;
+    this.scroll = state.features.scroll;
+    baselineModeling.importState(userId, state.baseline);
+    baselineModeling.getHistory(userId).forEach(r => this.reportedRevisions.add(r));
+    if (state.contextAdjustment) contextAdjustment.importState(userId, state.contextAdjustment);
+    if (state.conformal) conformalPrediction.importState(userId, state.conformal);
+    if (state.controlCharts) statisticalProcessControl.importState(userId, state.controlCharts);
+    if (state.recognition) adaptiveRecognition.importState(userId, state.recognition);
+  }
+
+  /**
+   * Forget carried-forward features, e.g. when another participant's profile becomes active
+   */
+  reset(): void {
+    this.keyboard = undefined;
+    this.mouse = undefined;
+    this.touch = undefined;
+    this.scroll = undefined;
+    this.sessionStarts.clear();
+    this.reportedRevisions = new WeakSet();
+    this.lastRisk.clear();
+  }
+
+  private enqueue<T>(task: () => T | Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
@@ -1,65 +1,473 @@
-// Full(er) demo Isolation Forest (still simplified). Builds trees on subsamples, computes path length.
-export interface AnomalyResult { score: number; threshold: number; isAnomaly: boolean; }
+// Anomaly detectors fitted on each user's own history of risk feature vectors: Isolation Forest (Liu, Ting &
+// Zhou 2008), Local Outlier Factor, robust covariance (MCD) and per-feature z-scores, combined by an ensemble.
+import { mean, covariance, shrinkToDiagonal, cholesky, mahalanobisSquared, median, scaledMAD } from './LinearAlgebra';
+import { config } from '../config/AppConfig';
+import { clock } from '../utils/Clock';
+import { createComponentLogger } from '../utils/Logger';
 
-interface TreeNode { feature?: number; split?: number; left?: TreeNode; right?: TreeNode; size: number; depth: number; }
+export interface AnomalyResult {
+  score: number; // Ensemble score: mean of the detectors' normalised scores
+  threshold: number;
+  isAnomaly: boolean;
+  trainedOn: number; // History size the detectors were fitted on; 0 while history is still being collected
+  detectors: Record<string, number>; // Normalised score per detector
+  fired: string[]; // Detectors whose own score crossed the threshold
+}
+
+/**
+ * One anomaly detector. Scores are normalised to [0, 1] so that the detector's own cut-off lands on the
+ * shared threshold; a detector "fires" when its score exceeds it.
+ */
+export interface AnomalyDetector {
+  readonly name: string;
+  fit(history: number[][]): void;
+  score(vec: number[], threshold: number): number;
+}
+
+export type DetectorFactory = () => AnomalyDetector;
+
+// Plain objects so a fitted forest survives structured cloning and JSON persistence
+export interface TreeNode { feature?: number; split?: number; left?: TreeNode; right?: TreeNode; size: number; }
+
+export interface AnomalyModelState {
+  userId: string;
+  fittedAt: number;
+  treeCount: number;
+  subSampleSize: number;
+  trainedOn: number;
+  trees: TreeNode[];
+  history: number[][];
+}
+
+const EULER_GAMMA = 0.5772156649;
+const Z_999 = 3.0902; // Standard normal 99.9th percentile
 
-function buildTree(data: number[][], maxDepth: number, depth=0): TreeNode {
-  const node: TreeNode = { size: data.length, depth };
-  if (depth >= maxDepth || data.length <= 1) return node;
+/**
+ * Map a raw distance onto [0, 1]: 0 stays 0, the detector's cut-off lands on the threshold and the score
+ * approaches 1 as the distance grows. Quadratic in raw/cutoff so ordinary points stay well below the threshold.
+ */
+function scaleToThreshold(raw: number, cutoff: number, threshold: number): number {
+  if (!(raw > 0) || !(cutoff > 0)) return 0;
+  return 1 - Math.pow(1 - threshold, (raw / cutoff) ** 2);
+}
+
+// Wilson-Hilferty approximation to the χ² quantile with k degrees of freedom at standard normal quantile z
+function chiSquareQuantile(k: number, z: number): number {
+  const a = 2 / (9 * k);
+  return k * Math.pow(1 - a + z * Math.sqrt(a), 3);
+}
+
+function columnStats(data: number[][], varianceFloor: number): { centre: number[]; scale: number[] } {
+  const centre = mean(data);
+  const scale = centre.map((m, j) => {
+    const variance = data.reduce((sum, row) => sum + (row[j] - m) ** 2, 0) / Math.max(1, data.length - 1);
+    return Math.max(Math.sqrt(variance), varianceFloor);
+  });
+  return { centre, scale };
+}
+
+function distance(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum);
+}
+
+/**
+ * Average path length of an unsuccessful BST search over n points; normalises path lengths
+ */
+export function averagePathLength(n: number): number {
+  if (n <= 1) return 0;
+  if (n === 2) return 1;
+  return 2 * (Math.log(n - 1) + EULER_GAMMA) - (2 * (n - 1)) / n;
+}
+
+function buildTree(data: number[][], heightLimit: number, random: () => number, depth = 0): TreeNode {
+  const node: TreeNode = { size: data.length };
+  if (depth >= heightLimit || data.length <= 1) return node;
+  // Split on a random feature among those that still vary; a node where nothing varies is a leaf
   const dim = data[0].length;
-  // choose random feature and random split within feature range
-  const feature = Math.floor(Math.random()*dim);
-  const values = data.map(d=> d[feature]);
-  const min = Math.min(...values), max = Math.max(...values);
-  if (min === max) return node; // no split possible
-  const split = Math.random()*(max-min) + min;
+  const ranges: { feature: number; min: number; max: number }[] = [];
+  for (let f = 0; f < dim; f++) {
+    let min = Infinity, max = -Infinity;
+    for (const d of data) { if (d[f] < min) min = d[f]; if (d[f] > max) max = d[f]; }
+    if (max > min) ranges.push({ feature: f, min, max });
+  }
+  if (!ranges.length) return node;
+  const { feature, min, max } = ranges[Math.floor(random() * ranges.length)];
+  const split = min + random() * (max - min);
   const leftData: number[][] = []; const rightData: number[][] = [];
-  data.forEach(d => (d[feature] < split? leftData:rightData).push(d));
-  if (!leftData.length || !rightData.length) return node; // degenerate
+  data.forEach(d => (d[feature] < split ? leftData : rightData).push(d));
   node.feature = feature; node.split = split;
-  node.left = buildTree(leftData, maxDepth, depth+1);
-  node.right = buildTree(rightData, maxDepth, depth+1);
+  node.left = buildTree(leftData, heightLimit, random, depth + 1);
+  node.right = buildTree(rightData, heightLimit, random, depth + 1);
   return node;
 }
 
-function pathLength(vec: number[], node: TreeNode): number {
-  if (!node.feature || node.size <=1) return node.depth;
-  const branch = vec[node.feature] < (node.split as number)? node.left: node.right;
-  if (!branch) return node.depth;
-  return pathLength(vec, branch);
+function pathLength(vec: number[], node: TreeNode, depth = 0): number {
+  if (node.feature === undefined || !node.left || !node.right) {
+    // External node: add the expected depth of the unbuilt subtree under it
+    return depth + averagePathLength(node.size);
+  }
+  return pathLength(vec, vec[node.feature] < (node.split as number) ? node.left : node.right, depth + 1);
 }
 
-export class IsolationForest {
+export class IsolationForest implements AnomalyDetector {
+  readonly name = 'isolation_forest';
   private trees: TreeNode[] = [];
-  private maxDepth: number;
-  constructor(private nTrees=50, private subSample=64){
-    this.maxDepth = Math.ceil(Math.log2(this.subSample));
-  }
-  fit(dataset: number[][]){
+  private sampleSize = 0;
+
+  constructor(private nTrees = 50, private subSample = 64, private random: () => number = Math.random) {}
+
+  /**
+   * Each tree sees a subsample drawn without replacement, grown to ceil(log2 ψ)
+   */
+  fit(dataset: number[][]): void {
+    this.sampleSize = Math.min(this.subSample, dataset.length);
+    const heightLimit = Math.ceil(Math.log2(Math.max(2, this.sampleSize)));
     this.trees = [];
-    for (let t=0; t<this.nTrees; t++) {
-      // random subsample with replacement
-      const sample: number[][] = [];
-      for (let i=0;i<this.subSample;i++) sample.push(dataset[Math.floor(Math.random()*dataset.length)]);
-      this.trees.push(buildTree(sample, this.maxDepth));
+    for (let t = 0; t < this.nTrees; t++) {
+      this.trees.push(buildTree(this.subsample(dataset), heightLimit, this.random));
     }
   }
+
+  /**
+   * s(x, ψ) = 2^(-E[h(x)] / c(ψ)): near 1 for anomalies, around 0.5 or below for ordinary points. Already
+   * on the threshold's scale, so it is used as the normalised score as-is.
+   */
   score(vec: number[]): number {
-    if (!this.trees.length) return 0;
-    const paths = this.trees.map(tr => pathLength(vec, tr));
-    const avgPath = paths.reduce((s,v)=>s+v,0)/paths.length;
-    // anomaly score: shorter path -> higher anomaly
-    return 1 - (avgPath / (this.maxDepth+1e-6));
+    if (!this.trees.length || this.sampleSize < 2) return 0;
+    const avgPath = this.trees.reduce((sum, tree) => sum + pathLength(vec, tree), 0) / this.trees.length;
+    return Math.pow(2, -avgPath / averagePathLength(this.sampleSize));
+  }
+
+  toJSON(): { trees: TreeNode[]; sampleSize: number } {
+    return { trees: this.trees, sampleSize: this.sampleSize };
+  }
+
+  static fromJSON(state: { trees: TreeNode[]; sampleSize: number }): IsolationForest {
+    const forest = new IsolationForest(state.trees.length, state.sampleSize);
+    forest.trees = state.trees;
+    forest.sampleSize = state.sampleSize;
+    return forest;
+  }
+
+  private subsample(dataset: number[][]): number[][] {
+    const pool = [...dataset];
+    for (let i = 0; i < this.sampleSize; i++) {
+      const j = i + Math.floor(this.random() * (pool.length - i));
+      [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    return pool.slice(0, this.sampleSize);
   }
 }
 
-export function isolationForestScore(vector: number[]): AnomalyResult {
-  // For now build ephemeral forest around the single vector with synthetic jittered samples
-  const synth: number[][] = [];
-  for (let i=0;i<200;i++) synth.push(vector.map(v => v + (Math.random()*0.2 - 0.1)));
-  const forest = new IsolationForest();
-  forest.fit(synth);
-  const score = forest.score(vector);
-  const threshold = 0.65;
-  return { score, threshold, isAnomaly: score > threshold };
+/**
+ * Local Outlier Factor (Breunig et al. 2000) on standardised features. LOF ≈ 1 inside a cluster; the cut-off
+ * is a LOF of 1.5, i.e. a local density a third lower than the neighbours'.
+ */
+export class LocalOutlierFactor implements AnomalyDetector {
+  readonly name = 'lof';
+  private points: number[][] = [];
+  private kDistance: number[] = [];
+  private lrd: number[] = [];
+  private centre: number[] = [];
+  private scale: number[] = [];
+  private kUsed = 0;
+
+  constructor(private k = 20, private cutoff = 1.5, private varianceFloor = 0.01) {}
+
+  fit(history: number[][]): void {
+    ({ centre: this.centre, scale: this.scale } = columnStats(history, this.varianceFloor));
+    this.points = history.map(row => this.standardise(row));
+    this.kUsed = Math.min(this.k, this.points.length - 1);
+    if (this.kUsed < 1) return;
+
+    const neighbours = this.points.map((p, i) => this.nearest(p, i));
+    this.kDistance = neighbours.map(n => n[n.length - 1].d);
+    this.lrd = neighbours.map(n => this.localDensity(n));
+  }
+
+  score(vec: number[], threshold: number): number {
+    if (this.kUsed < 1) return 0;
+    const neighbours = this.nearest(this.standardise(vec));
+    const lrd = this.localDensity(neighbours);
+    const lof = neighbours.reduce((sum, n) => sum + this.lrd[n.i], 0) / (neighbours.length * lrd);
+    return scaleToThreshold(lof - 1, this.cutoff - 1, threshold);
+  }
+
+  private localDensity(neighbours: { i: number; d: number }[]): number {
+    const reach = neighbours.reduce((sum, n) => sum + Math.max(this.kDistance[n.i] ?? 0, n.d), 0) / neighbours.length;
+    return 1 / Math.max(reach, 1e-9); // Duplicate points would otherwise have infinite density
+  }
+
+  private nearest(p: number[], exclude = -1): { i: number; d: number }[] {
+    return this.points
+      .map((q, i) => ({ i, d: i === exclude ? Infinity : distance(p, q) }))
+      .sort((a, b) => a.d - b.d)
+      .slice(0, this.kUsed);
+  }
+
+  private standardise(row: number[]): number[] {
+    return row.map((v, j) => (v - this.centre[j]) / this.scale[j]);
+  }
 }
+
+/**
+ * Minimum Covariance Determinant estimate of location and scatter (deterministic C-steps from the points
+ * closest to the coordinate-wise median), scored by robust Mahalanobis distance. The cut-off is the 99.9th
+ * percentile of χ² with one degree of freedom per varying feature. With fewer than 2p history vectors the
+ * subset covers nearly everything and this degrades to a shrunk ordinary covariance.
+ */
+export class RobustCovariance implements AnomalyDetector {
+  readonly name = 'mcd';
+  private features: number[] = []; // Columns that vary in the history; constant ones carry no information
+  private location: number[] = [];
+  private factor: number[][] | null = null;
+  private correction = 1;
+
+  constructor(private varianceFloor = 0.01, private maxSteps = 30) {}
+
+  fit(history: number[][]): void {
+    const { scale } = columnStats(history, 0);
+    this.features = scale.map((s, j) => (s >= this.varianceFloor ? j : -1)).filter(j => j >= 0);
+    this.factor = null;
+    const p = this.features.length;
+    if (p === 0 || history.length < 3) return;
+
+    const rows = history.map(row => this.project(row));
+    const h = Math.min(rows.length, Math.floor((rows.length + p + 1) / 2));
+
+    // Start from the h points nearest the coordinate-wise median in MAD units
+    const columns = this.features.map((_, j) => rows.map(r => r[j]));
+    const medians = columns.map(c => median(c));
+    const mads = columns.map((c, j) => Math.max(scaledMAD(c, medians[j]), this.varianceFloor));
+    let subset = this.smallest(rows.map(r => r.reduce((sum, v, j) => sum + ((v - medians[j]) / mads[j]) ** 2, 0)), h);
+
+    let d2: number[] = [];
+    for (let step = 0; step < this.maxSteps; step++) {
+      const chosen = subset.map(i => rows[i]);
+      this.location = mean(chosen);
+      this.factor = this.regularisedCholesky(covariance(chosen, this.location));
+      d2 = rows.map(r => mahalanobisSquared(r, this.location, this.factor!));
+      const next = this.smallest(d2, h);
+      if (next.every((i, k) => i === subset[k])) break;
+      subset = next;
+    }
+
+    // Rescale so the median distance matches χ²'s median, as the raw MCD scatter underestimates spread
+    const med = median(d2);
+    this.correction = med > 0 ? chiSquareQuantile(p, 0) / med : 1;
+  }
+
+  score(vec: number[], threshold: number): number {
+    if (!this.factor) return 0;
+    const p = this.features.length;
+    const d2 = mahalanobisSquared(this.project(vec), this.location, this.factor) * this.correction;
+    return scaleToThreshold(Math.sqrt(d2), Math.sqrt(chiSquareQuantile(p, Z_999)), threshold);
+  }
+
+  private project(row: number[]): number[] {
+    return this.features.map(j => row[j]);
+  }
+
+  private smallest(values: number[], count: number): number[] {
+    return values.map((v, i) => ({ v, i })).sort((a, b) => a.v - b.v).slice(0, count).map(e => e.i).sort((a, b) => a - b);
+  }
+
+  private regularisedCholesky(matrix: number[][]): number[][] {
+    const floored = matrix.map((row, i) => row.map((v, j) => (i === j ? v + this.varianceFloor ** 2 : v)));
+    for (const lambda of [0, 0.1, 0.2, 0.4, 0.8]) {
+      const factor = cholesky(shrinkToDiagonal(floored, lambda));
+      if (factor) return factor;
+    }
+    return cholesky(shrinkToDiagonal(floored, 1))!; // Diagonal with a positive floor always factorises
+  }
+}
+
+/**
+ * Largest per-feature |z| against the history's mean and standard deviation (floored by
+ * scoring.varianceFloor). The cut-off is |z| = 3.5.
+ */
+export class ZScoreDetector implements AnomalyDetector {
+  readonly name = 'zscore';
+  private centre: number[] = [];
+  private scale: number[] = [];
+
+  constructor(private cutoff = 3.5, private varianceFloor = 0.01) {}
+
+  fit(history: number[][]): void {
+    ({ centre: this.centre, scale: this.scale } = columnStats(history, this.varianceFloor));
+  }
+
+  score(vec: number[], threshold: number): number {
+    if (!this.centre.length) return 0;
+    const maxZ = vec.reduce((max, v, j) => Math.max(max, Math.abs(v - this.centre[j]) / this.scale[j]), 0);
+    return scaleToThreshold(maxZ, this.cutoff, threshold);
+  }
+}
+
+/**
+ * Averages the normalised scores of its detectors, so no single heuristic decides on its own
+ */
+export class AnomalyEnsemble {
+  constructor(private detectors: AnomalyDetector[]) {}
+
+  fit(history: number[][]): void {
+    this.detectors.forEach(detector => detector.fit(history));
+  }
+
+  score(vec: number[], threshold: number): Pick<AnomalyResult, 'score' | 'detectors' | 'fired'> {
+    const detectors: Record<string, number> = {};
+    const fired: string[] = [];
+    for (const detector of this.detectors) {
+      const score = detector.score(vec, threshold);
+      detectors[detector.name] = score;
+      if (score > threshold) fired.push(detector.name);
+    }
+    const scores = Object.values(detectors);
+    const score = scores.length ? scores.reduce((a, b) => a + b, 0) / scores.length : 0;
+    return { score, detectors, fired };
+  }
+
+  get(name: string): AnomalyDetector | undefined {
+    return this.detectors.find(detector => detector.name === name);
+  }
+}
+
+interface UserModel {
+  ensemble?: AnomalyEnsemble;
+  state?: Omit<AnomalyModelState, 'trees' | 'history'>;
+  history: number[][];
+  sinceFit: number;
+}
+
+type ModelListener = (state: AnomalyModelState) => void;
+
+/**
+ * Keeps each user's recent feature vectors, scores new vectors against an ensemble fitted on them and refits
+ * as the history grows or the scoring configuration changes.
+ */
+export class AnomalyDetection {
+  private static instance: AnomalyDetection;
+  private logger = createComponentLogger('AnomalyDetection');
+  private users = new Map<string, UserModel>();
+  private listeners = new Set<ModelListener>();
+  // Detectors besides the Isolation Forest; those are refitted from the history rather than persisted
+  private factories: DetectorFactory[] = [
+    () => new LocalOutlierFactor(20, 1.5, config.get().scoring.varianceFloor),
+    () => new RobustCovariance(config.get().scoring.varianceFloor),
+    () => new ZScoreDetector(3.5, config.get().scoring.varianceFloor)
+  ];
+
+  private readonly minHistory = 32; // Smallest history worth fitting a forest on
+  private readonly maxHistory = 512;
+  private readonly refitEvery = 50; // New vectors between refits
+
+  private constructor() {}
+
+  static getInstance(): AnomalyDetection {
+    if (!AnomalyDetection.instance) {
+      AnomalyDetection.instance = new AnomalyDetection();
+    }
+    return AnomalyDetection.instance;
+  }
+
+  /**
+   * Score a vector against the user's detectors, then add it to their history
+   */
+  score(userId: string, vector: number[]): AnomalyResult {
+    const { anomalyThreshold, treeCount, subSampleSize } = config.get().scoring;
+    const model = this.getModel(userId);
+
+    // A vector of a different length means the feature layout changed; the old history no longer applies
+    if (model.history.length && model.history[0].length !== vector.length) {
+      this.users.delete(userId);
+      return this.score(userId, vector);
+    }
+
+    const stale = model.state && (model.state.treeCount !== treeCount || model.state.subSampleSize !== subSampleSize);
+    if (model.history.length >= this.minHistory && (!model.ensemble || stale || model.sinceFit >= this.refitEvery)) {
+      this.fit(userId, model, treeCount, subSampleSize);
+    }
+
+    const ensemble = model.ensemble?.score(vector, anomalyThreshold) ?? { score: 0, detectors: {}, fired: [] };
+    model.history.push(vector);
+    if (model.history.length > this.maxHistory) model.history.shift();
+    model.sinceFit++;
+
+    return {
+      ...ensemble,
+      threshold: anomalyThreshold,
+      isAnomaly: !!model.ensemble && ensemble.score > anomalyThreshold,
+      trainedOn: model.state?.trainedOn ?? 0
+    };
+  }
+
+  /**
+   * Add a detector to every user's ensemble from their next refit on. Returns a function that removes it.
+   */
+  registerDetector(factory: DetectorFactory): () => void {
+    this.factories.push(factory);
+    return () => { this.factories = this.factories.filter(f => f !== factory); };
+  }
+
+  exportModel(userId: string): AnomalyModelState | null {
+    const model = this.users.get(userId);
+    const forest = model?.ensemble?.get('isolation_forest') as IsolationForest | undefined;
+    if (!model?.state || !forest) return null;
+    return { ...model.state, trees: forest.toJSON().trees, history: model.history.slice() };
+  }
+
+  /**
+   * Restore a persisted model so scoring resumes without waiting for a fresh history
+   */
+  importModel(state: AnomalyModelState): void {
+    const forest = IsolationForest.fromJSON({ trees: state.trees, sampleSize: Math.min(state.subSampleSize, state.trainedOn) });
+    const history = state.history.slice(-this.maxHistory);
+    const others = this.factories.map(factory => factory());
+    others.forEach(detector => detector.fit(history));
+    const { userId, fittedAt, treeCount, subSampleSize, trainedOn } = state;
+    this.users.set(userId, {
+      ensemble: new AnomalyEnsemble([forest, ...others]),
+      state: { userId, fittedAt, treeCount, subSampleSize, trainedOn },
+      history,
+      sinceFit: 0
+    });
+    this.logger.info('Anomaly model restored', { userId: state.userId, trainedOn: state.trainedOn });
+  }
+
+  /**
+   * Called with the model state every time a user's detectors are refitted, e.g. to persist it
+   */
+  onModelFitted(listener: ModelListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  forget(userId: string): void {
+    this.users.delete(userId);
+  }
+
+  private fit(userId: string, model: UserModel, treeCount: number, subSampleSize: number): void {
+    const ensemble = new AnomalyEnsemble([new IsolationForest(treeCount, subSampleSize), ...this.factories.map(factory => factory())]);
+    ensemble.fit(model.history);
+    model.ensemble = ensemble;
+    model.sinceFit = 0;
+    model.state = { userId, fittedAt: clock.now(), treeCount, subSampleSize, trainedOn: model.history.length };
+    this.logger.debug('Anomaly model fitted', { userId, trainedOn: model.history.length, treeCount });
+
+    const state = this.exportModel(userId);
+    if (state) this.listeners.forEach(listener => listener(state));
+  }
+
+  private getModel(userId: string): UserModel {
+    let model = this.users.get(userId);
+    if (!model) {
+      model = { history: [], sinceFit: 0 };
+      this.users.set(userId, model);
+    }
+    return model;
+  }
+}
+
+export const anomalyDetection = AnomalyDetection.getInstance();
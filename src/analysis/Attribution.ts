@@ -1,84 +1,211 @@
-// SHAP-style group attribution approximation for multi-modal features (demo-quality)
-import { CognitiveFingerprintModel, MultiModalFeatures } from './PatternRecognition';
+// Risk attribution relative to a reference input: exact Shapley values over the features that differ from the
+// reference, Kernel SHAP when there are too many of them, and Integrated Gradients when a tfjs model is loaded.
+// Contributions add up to prediction - base, which is what the dashboard waterfall draws.
+import {
+  CognitiveFingerprintModel, MultiModalFeatures, RISK_FEATURE_GROUPS, RISK_FEATURE_NAMES, RISK_INPUT_SCHEMA,
+  flattenRiskFeatures, unflattenRiskFeatures
+} from './PatternRecognition';
+import { ModelRef } from './ModelRegistry';
+
+export type AttributionMethod = 'exact_shapley' | 'kernel_shap' | 'integrated_gradients';
+
+export interface FeatureAttribution {
+  feature: string;
+  group: string;
+  value: number; // Model input
+  reference: number; // Input it is compared against
+  contribution: number; // Share of prediction - base
+}
 
 export interface GroupAttribution { group: string; contribution: number; }
 
-interface GroupDef { key: keyof MultiModalFeatures; label: string; }
+export interface RiskAttribution {
+  method: AttributionMethod;
+  base: number; // Overall risk at the reference input
+  prediction: number; // Overall risk at the explained input
+  features: FeatureAttribution[]; // Features that differ from the reference, largest first
+  groups: GroupAttribution[];
+  model: ModelRef;
+}
+
+export interface AttributionOptions {
+  maxExactFeatures?: number; // Enumerate all coalitions up to this many differing features
+  samples?: number; // Kernel SHAP coalitions
+  steps?: number; // Integrated Gradients path steps
+  seed?: number;
+}
+
+const GROUP_LABELS: Record<keyof MultiModalFeatures, string> = { typing: 'Typing', voice: 'Voice', motor: 'Motor', temporal: 'Temporal' };
+
+// Group label for each flattened slot
+const FEATURE_GROUPS: string[] = RISK_FEATURE_GROUPS.flatMap(g => new Array(RISK_INPUT_SCHEMA[g]).fill(GROUP_LABELS[g]));
 
-const GROUPS: GroupDef[] = [
-  { key: 'typing', label: 'Typing' },
-  { key: 'voice', label: 'Voice' },
-  { key: 'motor', label: 'Motor' },
-  { key: 'temporal', label: 'Temporal' }
-];
+type Evaluate = (rows: number[][]) => number[];
 
-function clone(f: MultiModalFeatures): MultiModalFeatures {
-  return { typing: [...f.typing], voice: [...f.voice], motor: [...f.motor], temporal: [...f.temporal] };
+/**
+ * Overall risk for flattened rows, one batched call. Attributions explain the network's raw output: calibration is a
+ * monotone map applied afterwards, and Integrated Gradients needs the output its gradients are taken of.
+ */
+function overallOf(model: CognitiveFingerprintModel): Evaluate {
+  return rows => model.inferBatch(rows.map(r => unflattenRiskFeatures(r)), false).map(s => s.overall);
 }
 
-// Random baseline vector (all groups masked) -> inserted as small noise so model returns low base risk
-function masked(f: MultiModalFeatures, groups: (keyof MultiModalFeatures)[]): MultiModalFeatures {
-  const out = clone(f);
-  const zero = (arr: number[]) => arr.map(()=> 0.05 + Math.random()*0.01);
-  (['typing','voice','motor','temporal'] as (keyof MultiModalFeatures)[]).forEach(k=>{
-    if (!groups.includes(k)) (out as any)[k] = zero((out as any)[k]);
-  });
-  return out;
+// Row taking the players in `mask` from x and everything else from the reference
+function compose(x: number[], reference: number[], players: number[][], mask: boolean[]): number[] {
+  const row = [...reference];
+  mask.forEach((on, p) => { if (on) players[p].forEach(i => { row[i] = x[i]; }); });
+  return row;
 }
 
-export function shapGroupAttribution(model: CognitiveFingerprintModel, features: MultiModalFeatures, samples=64): GroupAttribution[] {
-  const contrib: Record<string, number[]> = {};
-  GROUPS.forEach(g=> contrib[g.label] = []);
-  for (let s=0; s<samples; s++) {
-    // random permutation of groups
-    const order = [...GROUPS].sort(()=> Math.random()-0.5);
-    const active: (keyof MultiModalFeatures)[] = [];
-    let prevScore = model.infer(masked(features, active)).overall;
-    order.forEach(g => {
-      active.push(g.key);
-      const curScore = model.infer(masked(features, active)).overall;
-      const delta = curScore - prevScore;
-      contrib[g.label].push(delta);
-      prevScore = curScore;
-    });
+/**
+ * Exact Shapley values over players (sets of input indices) by enumerating every coalition
+ */
+function exactShapley(evaluate: Evaluate, x: number[], reference: number[], players: number[][]): number[] {
+  const m = players.length;
+  const masks = Array.from({ length: 1 << m }, (_, bits) => players.map((_, p) => !!(bits & (1 << p))));
+  const values = evaluate(masks.map(mask => compose(x, reference, players, mask)));
+  const factorial = [1];
+  for (let i = 1; i <= m; i++) factorial[i] = factorial[i - 1] * i;
+
+  const phi = new Array(m).fill(0);
+  for (let bits = 0; bits < 1 << m; bits++) {
+    let size = 0;
+    for (let p = 0; p < m; p++) if (bits & (1 << p)) size++;
+    for (let p = 0; p < m; p++) {
+      if (bits & (1 << p)) continue;
+      const weight = factorial[size] * factorial[m - size - 1] / factorial[m];
+      phi[p] += weight * (values[bits | (1 << p)] - values[bits]);
+    }
   }
-  const atts: GroupAttribution[] = GROUPS.map(g => {
-    const arr = contrib[g.label];
-    const mean = arr.reduce((s,v)=>s+v,0)/(arr.length||1);
-    return { group: g.label, contribution: mean };
-  });
-  // normalize absolute contributions
-  const denom = atts.reduce((s,a)=> s + Math.abs(a.contribution), 0) || 1;
-  atts.forEach(a => a.contribution = +(a.contribution/denom).toFixed(3));
-  return atts.sort((a,b)=> Math.abs(b.contribution) - Math.abs(a.contribution));
+  return phi;
 }
 
-// Per-feature attribution (coarse) using permutation-style masking within each group.
-export interface FeatureAttribution { feature: string; contribution: number; group: string; }
-
-export function permutationFeatureAttribution(model: CognitiveFingerprintModel, features: MultiModalFeatures, sampleFrac=0.6): FeatureAttribution[] {
-  const base = model.infer(features).overall;
-  const results: FeatureAttribution[] = [];
-  const processGroup = (groupKey: keyof MultiModalFeatures, label: string) => {
-    const arr = (features as any)[groupKey] as number[];
-    const n = arr.length;
-    const picks = Math.max(3, Math.floor(n*sampleFrac));
-    const indices = Array.from({length:n}, (_,i)=>i).sort(()=> Math.random()-0.5).slice(0,picks);
-    indices.forEach(idx => {
-      const cloneF: MultiModalFeatures = {
-        typing: [...features.typing],
-        voice: [...features.voice],
-        motor: [...features.motor],
-        temporal: [...features.temporal]
-      };
-      (cloneF as any)[groupKey][idx] = 0.05; // mask to baseline noise
-      const v = model.infer(cloneF).overall;
-      const impact = Math.abs(v - base);
-      results.push({ feature: `${label}[${idx}]`, contribution: impact, group: label });
-    });
+function solveLinear(a: number[][], b: number[]): number[] {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let c = 0; c < n; c++) {
+    let pivot = c;
+    for (let r = c + 1; r < n; r++) if (Math.abs(m[r][c]) > Math.abs(m[pivot][c])) pivot = r;
+    [m[c], m[pivot]] = [m[pivot], m[c]];
+    if (Math.abs(m[c][c]) < 1e-12) continue;
+    for (let r = 0; r < n; r++) {
+      if (r === c) continue;
+      const f = m[r][c] / m[c][c];
+      for (let k = c; k <= n; k++) m[r][k] -= f * m[c][k];
+    }
+  }
+  return m.map((row, i) => Math.abs(row[i]) < 1e-12 ? 0 : row[n] / row[i]);
+}
+
+/**
+ * Kernel SHAP: coalition sizes are drawn from the Shapley kernel (so the regression is unweighted), each
+ * coalition is paired with its complement, and efficiency is enforced by eliminating the last player.
+ */
+function kernelShap(evaluate: Evaluate, x: number[], reference: number[], players: number[][], samples: number, random: () => number): number[] {
+  const m = players.length;
+  const sizeWeights = Array.from({ length: m - 1 }, (_, i) => (m - 1) / ((i + 1) * (m - i - 1)));
+  const totalWeight = sizeWeights.reduce((s, w) => s + w, 0);
+  const drawSize = () => {
+    let r = random() * totalWeight;
+    for (let i = 0; i < sizeWeights.length; i++) { r -= sizeWeights[i]; if (r <= 0) return i + 1; }
+    return m - 1;
   };
-  GROUPS.forEach(g => processGroup(g.key, g.label));
-  const max = results.reduce((m,r)=> r.contribution>m? r.contribution:m, 0) || 1;
-  results.forEach(r => r.contribution = +(r.contribution / max).toFixed(3));
-  return results.sort((a,b)=> b.contribution - a.contribution).slice(0,25);
+
+  const masks: boolean[][] = [];
+  for (let n = 0; n < Math.ceil(samples / 2); n++) {
+    const order = players.map((_, p) => p);
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+    const chosen = new Set(order.slice(0, drawSize()));
+    const mask = players.map((_, p) => chosen.has(p));
+    masks.push(mask, mask.map(on => !on));
+  }
+
+  const [base, prediction, ...values] = evaluate([reference, x, ...masks.map(mask => compose(x, reference, players, mask))]);
+  const delta = prediction - base;
+  const last = m - 1;
+  const xtx = Array.from({ length: last }, () => new Array(last).fill(0));
+  const xty = new Array(last).fill(0);
+  masks.forEach((mask, r) => {
+    const zLast = mask[last] ? 1 : 0;
+    const row = mask.slice(0, last).map(on => (on ? 1 : 0) - zLast);
+    const y = values[r] - base - zLast * delta;
+    for (let i = 0; i < last; i++) {
+      xty[i] += row[i] * y;
+      for (let j = 0; j < last; j++) xtx[i][j] += row[i] * row[j];
+    }
+  });
+  xtx.forEach((row, i) => { row[i] += 1e-6; });
+  const phi = solveLinear(xtx, xty);
+  return [...phi, delta - phi.reduce((s, v) => s + v, 0)];
+}
+
+function summarise(method: AttributionMethod, model: CognitiveFingerprintModel, x: number[], reference: number[], indices: number[], phi: number[], base: number, prediction: number): RiskAttribution {
+  const features = indices
+    .map((i, k) => ({ feature: RISK_FEATURE_NAMES[i], group: FEATURE_GROUPS[i], value: x[i], reference: reference[i], contribution: phi[k] }))
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+  const groups = Object.values(GROUP_LABELS).map(group => ({
+    group,
+    contribution: features.filter(f => f.group === group).reduce((s, f) => s + f.contribution, 0)
+  }));
+  return { method, base, prediction, features, groups, model: model.getModelRef() };
+}
+
+/**
+ * Shapley attribution of the overall risk over the named features that differ from the reference
+ */
+export function shapleyAttribution(model: CognitiveFingerprintModel, features: MultiModalFeatures, reference: MultiModalFeatures, options: AttributionOptions = {}): RiskAttribution {
+  const { maxExactFeatures = 10, samples = 2048, seed = 1 } = options;
+  const x = flattenRiskFeatures(features), ref = flattenRiskFeatures(reference);
+  const indices = x.map((_, i) => i).filter(i => x[i] !== ref[i]);
+  const evaluate = overallOf(model);
+  const [base, prediction] = evaluate([ref, x]);
+  if (!indices.length) return summarise('exact_shapley', model, x, ref, [], [], base, prediction);
+
+  const players = indices.map(i => [i]);
+  const exact = players.length <= maxExactFeatures;
+  let state = seed;
+  const random = () => { state = (state * 16807) % 2147483647; return state / 2147483647; };
+  const phi = exact ? exactShapley(evaluate, x, ref, players) : kernelShap(evaluate, x, ref, players, samples, random);
+  return summarise(exact ? 'exact_shapley' : 'kernel_shap', model, x, ref, indices, phi, base, prediction);
+}
+
+/**
+ * Integrated Gradients along the straight path from the reference, trapezoidal rule. Needs a loaded tfjs model.
+ */
+export function integratedGradients(model: CognitiveFingerprintModel, features: MultiModalFeatures, reference: MultiModalFeatures, options: AttributionOptions = {}): RiskAttribution {
+  const { steps = 50 } = options;
+  const x = flattenRiskFeatures(features), ref = flattenRiskFeatures(reference);
+  const path = Array.from({ length: steps + 1 }, (_, k) => ref.map((r, i) => r + (k / steps) * (x[i] - r)));
+  const gradients = model.outputGradients(path);
+  const indices = x.map((_, i) => i).filter(i => x[i] !== ref[i]);
+  const phi = indices.map(i => {
+    const sum = gradients.reduce((s, g) => s + g[i], 0) - (gradients[0][i] + gradients[steps][i]) / 2;
+    return (x[i] - ref[i]) * sum / steps;
+  });
+  const [base, prediction] = overallOf(model)([ref, x]);
+  return summarise('integrated_gradients', model, x, ref, indices, phi, base, prediction);
+}
+
+/**
+ * Integrated Gradients for a loaded tfjs model, Shapley values for the heuristic fallback
+ */
+export function explainRisk(model: CognitiveFingerprintModel, features: MultiModalFeatures, reference: MultiModalFeatures, options: AttributionOptions = {}): RiskAttribution {
+  return model.hasModel() ? integratedGradients(model, features, reference, options) : shapleyAttribution(model, features, reference, options);
+}
+
+/**
+ * Exact Shapley values for the four modality groups, normalised so absolute contributions sum to 1
+ */
+export function shapGroupAttribution(model: CognitiveFingerprintModel, features: MultiModalFeatures, reference: MultiModalFeatures): GroupAttribution[] {
+  const x = flattenRiskFeatures(features), ref = flattenRiskFeatures(reference);
+  let offset = 0;
+  const players = RISK_FEATURE_GROUPS.map(g => Array.from({ length: RISK_INPUT_SCHEMA[g] }, () => offset++));
+  const phi = exactShapley(overallOf(model), x, ref, players);
+  const denom = phi.reduce((s, v) => s + Math.abs(v), 0) || 1;
+  return RISK_FEATURE_GROUPS
+    .map((g, p) => ({ group: GROUP_LABELS[g], contribution: +(phi[p] / denom).toFixed(3) }))
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
 }
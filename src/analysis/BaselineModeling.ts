@@ -1,13 +1,38 @@
 /* eslint-disable no-trailing-spaces */
 import { createComponentLogger } from '../utils/Logger';
+import { clock } from '../utils/Clock';
+import { config } from '../config/AppConfig';
+import { covariance, shrinkToDiagonal, cholesky, median, scaledMAD } from './LinearAlgebra';
+import { BUNDLED_POPULATION_PRIORS, FeaturePrior, PopulationPriors, posteriorFeature } from './PopulationPriors';
 import { KeyboardTimingFeatures } from '../features/KeyboardFeatures';
 import { MouseMovementFeatures } from '../features/MouseFeatures';
+import { TouchInteractionFeatures } from '../features/TouchFeatures';
 import { ScrollBehaviorFeatures } from '../features/ScrollFeatures';
 import { FocusAttentionFeatures } from '../features/FocusFeatures';
 import { CompositeTimingFeatures } from '../features/CompositeFeatures';
 
 const logger = createComponentLogger('BaselineModeling');
 
+export type BaselineModality = 'keyboard' | 'mouse' | 'touch' | 'scroll' | 'focus' | 'composite';
+
+export interface FeatureVariability {
+  mean: number;
+  std: number;
+  bounds: [number, number];
+  median: number;
+  mad: number; // median absolute deviation scaled to σ (×1.4826)
+  priorWeight?: number; // Share of the mean taken from the population prior (hierarchical baselines)
+  unpooled?: { mean: number; std: number; count: number }; // The user's own statistics before shrinkage, once there are 3 values
+}
+
+// Joint spread of a modality's features, used for Mahalanobis scoring
+export interface ModalityCovariance {
+  features: string[]; // row/column order
+  mean: number[];
+  matrix: number[][]; // sample covariance, shrunk toward its diagonal until positive definite
+  shrinkage: number; // 0 = raw sample covariance, 1 = diagonal only
+}
+
 export interface BaselinePattern {
   id: string;
   userId: string;
@@ -17,6 +42,7 @@ export interface BaselinePattern {
   // Core feature baselines
   keyboard: Partial<KeyboardTimingFeatures>;
   mouse: Partial<MouseMovementFeatures>;
+  touch: Partial<TouchInteractionFeatures>;
   scroll: Partial<ScrollBehaviorFeatures>;
   focus: Partial<FocusAttentionFeatures>;
   composite: Partial<CompositeTimingFeatures>;
@@ -29,21 +55,17 @@ export interface BaselinePattern {
     confidence: number; // 0-1
     stability: number; // 0-1, how stable the baseline is
     coverage: FeatureCoverage; // Which features are well-represented
+    populationPrior?: { source: string; weight: number }; // Mean prior weight across features, when shrunk toward population priors
   };
   
   // Variability bounds (for anomaly detection)
-  variability: {
-    keyboard: Record<string, { mean: number; std: number; bounds: [number, number] }>;
-    mouse: Record<string, { mean: number; std: number; bounds: [number, number] }>;
-    scroll: Record<string, { mean: number; std: number; bounds: [number, number] }>;
-    focus: Record<string, { mean: number; std: number; bounds: [number, number] }>;
-    composite: Record<string, { mean: number; std: number; bounds: [number, number] }>;
-  };
+  variability: Record<BaselineModality, Record<string, FeatureVariability>>;
+  covariance: Partial<Record<BaselineModality, ModalityCovariance>>;
   
   // Temporal patterns
   temporalCharacteristics: {
-    circadianPattern?: number[]; // 24-hour activity pattern
-    weeklyPattern?: number[]; // 7-day pattern
+    circadianPattern?: number[]; // Seasonal similarity offset by local hour, from decomposing the score history
+    weeklyPattern?: number[]; // Seasonal similarity offset by day of week, Sunday first
     sessionLengthDistribution: { mean: number; std: number };
     optimalPerformanceWindow?: { start: number; end: number }; // Hours of day
   };
@@ -67,6 +89,7 @@ export interface BaselinePattern {
 export interface FeatureCoverage {
   keyboard: { [K in keyof KeyboardTimingFeatures]?: boolean };
   mouse: { [K in keyof MouseMovementFeatures]?: boolean };
+  touch: { [K in keyof TouchInteractionFeatures]?: boolean };
   scroll: { [K in keyof ScrollBehaviorFeatures]?: boolean };
   focus: { [K in keyof FocusAttentionFeatures]?: boolean };
   composite: { [K in keyof CompositeTimingFeatures]?: boolean };
@@ -80,11 +103,52 @@ export interface BaselineUpdateResult {
   warnings: string[];
 }
 
+export type BaselineRevisionReason = BaselinePattern['metadata']['creationMethod'] | 'rollback';
+
+export type BaselineFeatureSummary = Partial<Record<BaselineModality, Record<string, { mean: number; std: number }>>>;
+
+export interface BaselineRevision {
+  version: string;
+  timestamp: number;
+  reason: BaselineRevisionReason;
+  significantChanges: string[]; // Against the revision it replaced
+  restoredFrom?: string; // Version a rollback reinstated
+  kept: boolean; // Exempt from the history cap: the first revision and any a rollback restored
+  sampleCount: number;
+  features: BaselineFeatureSummary; // Per-feature mean and std; full baselines stay in BaselineModeling for rollback
+}
+
+// A revision as persisted: every revision stays in storage after the in-memory history drops it
+export interface BaselineRevisionRecord {
+  userId: string;
+  savedAt: number; // Records are read back in write order; the last one for a version wins
+  revision: BaselineRevision;
+  baseline: BaselinePattern;
+  excludedRanges: [number, number][]; // The user's rollback exclusions when the record was written
+}
+
+// Everything a user's baseline evolves from, as plain data
+export interface BaselineUserState {
+  snapshots: FeatureSnapshot[];
+  revisions: BaselineRevisionRecord[]; // The in-memory history; the last record's baseline is current
+  seasonalPatterns?: Pick<BaselinePattern['temporalCharacteristics'], 'circadianPattern' | 'weeklyPattern'>;
+}
+
+export interface BaselineFeatureChange {
+  modality: BaselineModality;
+  feature: string;
+  from?: number; // Undefined when the feature is new in the later version
+  to?: number; // Undefined when the feature was dropped
+  relativeChange?: number;
+  shift?: number; // Change in the earlier version's standard deviations
+}
+
 export interface FeatureSnapshot {
   timestamp: number;
   sessionId: string;
   keyboard?: Partial<KeyboardTimingFeatures>;
   mouse?: Partial<MouseMovementFeatures>;
+  touch?: Partial<TouchInteractionFeatures>;
   scroll?: Partial<ScrollBehaviorFeatures>;
   focus?: Partial<FocusAttentionFeatures>;
   composite?: Partial<CompositeTimingFeatures>;
@@ -92,13 +156,80 @@ export interface FeatureSnapshot {
   quality: number; // 0-1
 }
 
+/**
+ * Per-feature mean and standard deviation of a baseline, which is all a revision needs for display and diffing
+ */
+export function summarizeBaseline(baseline: BaselinePattern): BaselineFeatureSummary {
+  const summary: BaselineFeatureSummary = {};
+  (Object.keys(baseline.variability) as BaselineModality[]).forEach(modality => {
+    const features = Object.entries(baseline.variability[modality] ?? {});
+    if (features.length) summary[modality] = Object.fromEntries(features.map(([feature, v]) => [feature, { mean: v.mean, std: v.std }]));
+  });
+  return summary;
+}
+
+/**
+ * The most recent `maxRevisions` plus every kept one, oldest first; only the current one when versioning is off.
+ * This bounds memory and messages only: trimmed revisions stay in storage as BaselineRevisionRecords.
+ */
+function trimRevisions(revisions: BaselineRevision[]): BaselineRevision[] {
+  const { versioning, maxRevisions } = config.get().baseline;
+  if (!versioning) return revisions.slice(-1);
+  const recent = new Set(revisions.filter(r => !r.kept).slice(-maxRevisions));
+  return revisions.filter(r => r.kept || recent.has(r));
+}
+
+/**
+ * Fold revisions reported by the pipeline into a copy of the history, replacing any with the same version
+ */
+export function mergeRevisions(history: BaselineRevision[], updates: BaselineRevision[]): BaselineRevision[] {
+  const merged = [...history];
+  updates.forEach(update => {
+    const index = merged.findIndex(r => r.version === update.version);
+    if (index >= 0) merged[index] = update;
+    else merged.push(update);
+  });
+  return trimRevisions(merged);
+}
+
+/**
+ * Per-feature changes in mean between two baseline versions, largest shift first
+ */
+export function diffBaselines(from: BaselineFeatureSummary, to: BaselineFeatureSummary): BaselineFeatureChange[] {
+  const changes: BaselineFeatureChange[] = [];
+  const modalities: BaselineModality[] = ['keyboard', 'mouse', 'touch', 'scroll', 'focus', 'composite'];
+  for (const modality of modalities) {
+    const before = from[modality] ?? {};
+    const after = to[modality] ?? {};
+    for (const feature of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      const a = before[feature]?.mean;
+      const b = after[feature]?.mean;
+      if (a === b) continue;
+      const change: BaselineFeatureChange = { modality, feature, from: a, to: b };
+      if (a !== undefined && b !== undefined) {
+        if (a !== 0) change.relativeChange = (b - a) / Math.abs(a);
+        if (before[feature].std > 0) change.shift = (b - a) / before[feature].std;
+      }
+      changes.push(change);
+    }
+  }
+  // Added and dropped features go last
+  const rank = (c: BaselineFeatureChange) => (c.shift !== undefined ? Math.abs(c.shift) : c.from === undefined || c.to === undefined ? -1 : 0);
+  return changes.sort((x, y) => rank(y) - rank(x));
+}
+
 export class BaselineModeling {
   private static instance: BaselineModeling;
   private baselines = new Map<string, BaselinePattern>();
   private recentSnapshots = new Map<string, FeatureSnapshot[]>();
+  private seasonalPatterns = new Map<string, Pick<BaselinePattern['temporalCharacteristics'], 'circadianPattern' | 'weeklyPattern'>>();
   private readonly maxSnapshotsPerUser = 1000;
   private readonly minSnapshotsForBaseline = 20;
   private readonly stabilityThreshold = 0.8;
+  private populationPriors: PopulationPriors = BUNDLED_POPULATION_PRIORS;
+  private history = new Map<string, BaselineRevision[]>();
+  private revisionBaselines = new Map<string, Map<string, BaselinePattern>>(); // Full baselines of the revisions in history
+  private excludedRanges = new Map<string, [number, number][]>(); // Periods a rollback kept out of future baselines
 
   private constructor() {}
 
@@ -110,9 +241,10 @@ export class BaselineModeling {
   }
 
   /**
-   * Add a new feature snapshot for baseline computation
+   * Add a new feature snapshot for baseline computation. Resolves once any baseline creation or update it
+   * triggered has finished.
    */
-  addSnapshot(userId: string, snapshot: FeatureSnapshot): void {
+  async addSnapshot(userId: string, snapshot: FeatureSnapshot): Promise<void> {
     if (!this.recentSnapshots.has(userId)) {
       this.recentSnapshots.set(userId, []);
     }
@@ -133,11 +265,81 @@ export class BaselineModeling {
     });
 
     // Check if we should update/create baseline
-    if (userSnapshots.length >= this.minSnapshotsForBaseline) {
-      this.evaluateBaselineUpdate(userId);
+    if (userSnapshots.length >= this.minSnapshots()) {
+      await this.evaluateBaselineUpdate(userId);
+    }
+  }
+
+  /**
+   * Seed a user's snapshots from ones stored in earlier sessions and rebuild their baseline from them, so it survives
+   * a reload. Snapshots already added live are kept after the stored ones; snapshots a rollback excluded are dropped,
+   * so restore revisions first.
+   */
+  async restoreSnapshots(userId: string, snapshots: FeatureSnapshot[]): Promise<void> {
+    const live = this.recentSnapshots.get(userId) ?? [];
+    const stored = this.withoutExcluded(userId, snapshots)
+      .filter(s => s.timestamp < (live[0]?.timestamp ?? Infinity))
+      .sort((a, b) => a.timestamp - b.timestamp);
+    const userSnapshots = [...stored, ...live].slice(-this.maxSnapshotsPerUser);
+    this.recentSnapshots.set(userId, userSnapshots);
+    logger.debug('Restored feature snapshots', { userId, restored: stored.length, totalSnapshots: userSnapshots.length });
+
+    if (userSnapshots.length >= this.minSnapshots()) {
+      await this.evaluateBaselineUpdate(userId);
     }
   }
 
+  /**
+   * Reinstate revision history, revision baselines and rollback exclusions from stored records, oldest write first.
+   * The last revision becomes the current baseline. Ignored once the user has a live baseline, whose version numbers
+   * would clash with the stored ones.
+   */
+  restoreRevisions(userId: string, records: BaselineRevisionRecord[]): void {
+    if (!records.length || this.baselines.has(userId)) return;
+    const latest = new Map<string, BaselineRevisionRecord>();
+    records.forEach(record => latest.set(record.revision.version, record));
+    const ordered = [...latest.values()].sort((a, b) => Number(a.revision.version.split('.')[1]) - Number(b.revision.version.split('.')[1]));
+    const history = trimRevisions(ordered.map(r => r.revision));
+
+    this.history.set(userId, history);
+    this.revisionBaselines.set(userId, new Map(history.map(r => [r.version, latest.get(r.version)!.baseline])));
+    this.baselines.set(userId, latest.get(history[history.length - 1].version)!.baseline);
+    const { excludedRanges } = records[records.length - 1];
+    if (excludedRanges.length) this.excludedRanges.set(userId, excludedRanges.map(([from, to]) => [from, to]));
+    logger.info('Baseline revisions restored', { userId, revisions: history.length, stored: latest.size, version: this.baselines.get(userId)!.version });
+  }
+
+  /**
+   * Records for persisting the given revisions of a user's history, with their full baselines
+   */
+  exportRevisions(userId: string, revisions: BaselineRevision[]): BaselineRevisionRecord[] {
+    const baselines = this.revisionBaselines.get(userId);
+    const excludedRanges = this.excludedRanges.get(userId) ?? [];
+    const savedAt = clock.now();
+    return revisions
+      .filter(revision => baselines?.has(revision.version))
+      .map(revision => ({ userId, savedAt, revision, baseline: baselines!.get(revision.version)!, excludedRanges: excludedRanges.map(([from, to]) => [from, to] as [number, number]) }));
+  }
+
+  exportState(userId: string): BaselineUserState {
+    return {
+      snapshots: [...(this.recentSnapshots.get(userId) ?? [])],
+      revisions: this.exportRevisions(userId, this.getHistory(userId)),
+      seasonalPatterns: this.seasonalPatterns.get(userId)
+    };
+  }
+
+  /**
+   * Resume a user's baseline from exported state, replacing anything they have. The state may be another user's, so
+   * its baselines are re-owned: updates read the snapshots of the baseline's userId.
+   */
+  importState(userId: string, state: BaselineUserState): void {
+    this.forget(userId);
+    this.restoreRevisions(userId, state.revisions.map(record => ({ ...record, userId, baseline: { ...record.baseline, userId } })));
+    if (state.snapshots.length) this.recentSnapshots.set(userId, [...state.snapshots]);
+    if (state.seasonalPatterns) this.seasonalPatterns.set(userId, state.seasonalPatterns);
+  }
+
   /**
    * Get current baseline for a user
    */
@@ -149,19 +351,19 @@ export class BaselineModeling {
    * Create initial baseline from accumulated snapshots
    */
   async createInitialBaseline(userId: string): Promise<BaselinePattern | null> {
-    const snapshots = this.recentSnapshots.get(userId);
-    if (!snapshots || snapshots.length < this.minSnapshotsForBaseline) {
+    const snapshots = this.usableSnapshots(userId);
+    if (!snapshots || snapshots.length < this.minSnapshots()) {
       logger.warn('Insufficient data for baseline creation', {
         userId,
         snapshotCount: snapshots?.length || 0,
-        required: this.minSnapshotsForBaseline
+        required: this.minSnapshots()
       });
       return null;
     }
 
     // Filter high-quality snapshots
     const qualitySnapshots = snapshots.filter(s => s.quality >= 0.7);
-    if (qualitySnapshots.length < this.minSnapshotsForBaseline * 0.7) {
+    if (qualitySnapshots.length < this.minSnapshots() * 0.7) {
       logger.warn('Insufficient quality data for baseline', {
         userId,
         qualitySnapshots: qualitySnapshots.length,
@@ -173,7 +375,12 @@ export class BaselineModeling {
     const baseline = await this.computeBaselineFromSnapshots(userId, qualitySnapshots, 'initial');
     
     if (baseline) {
-      this.baselines.set(userId, baseline);
+      const previous = this.baselines.get(userId);
+      if (previous && this.isProvisional(previous)) {
+        this.replaceRevision(userId, baseline);
+      } else {
+        this.commitRevision(userId, baseline, 'initial', previous ? this.detectSignificantChanges(previous, baseline) : ['baseline_created']);
+      }
       logger.info('Initial baseline created', {
         userId,
         confidence: baseline.statistics.confidence,
@@ -201,7 +408,7 @@ export class BaselineModeling {
       };
     }
 
-    const snapshots = this.recentSnapshots.get(userId);
+    const snapshots = this.usableSnapshots(userId);
     if (!snapshots) {
       return {
         success: false,
@@ -236,7 +443,7 @@ export class BaselineModeling {
       // Detect significant changes
       const significantChanges = this.detectSignificantChanges(currentBaseline, updatedBaseline);
       
-      this.baselines.set(userId, updatedBaseline);
+      this.commitRevision(userId, updatedBaseline, updatedBaseline.metadata.creationMethod, significantChanges);
       
       logger.info('Baseline updated', {
         userId,
@@ -263,6 +470,105 @@ export class BaselineModeling {
     };
   }
 
+  /**
+   * The user's baseline revisions, oldest first: the last `maxRevisions` plus the first one and any a rollback
+   * restored. Only the current one is kept when versioning is off.
+   */
+  getHistory(userId: string): BaselineRevision[] {
+    return this.history.get(userId) ?? [];
+  }
+
+  /**
+   * Reinstate an earlier revision as a new one. Snapshots since that revision are kept out of later baselines, so an
+   * adaptive update that absorbed a real decline does not absorb it again.
+   */
+  rollback(userId: string, version: string): BaselinePattern {
+    const target = this.revisionBaselines.get(userId)?.get(version);
+    if (!target) throw new Error(`Unknown baseline version ${version} for user ${userId}`);
+    const current = this.baselines.get(userId)!;
+    if (current.version === version) return current;
+
+    const now = clock.now();
+    const ranges = this.excludedRanges.get(userId) ?? [];
+    ranges.push([target.timestamp, now]);
+    this.excludedRanges.set(userId, ranges);
+
+    // The restored revision is what the user chose to trust, so it outlives the cap
+    const revisions = this.getHistory(userId);
+    const index = revisions.findIndex(r => r.version === version);
+    revisions[index] = { ...revisions[index], kept: true };
+
+    const restored: BaselinePattern = {
+      ...target,
+      id: `baseline_${userId}_${now}`,
+      timestamp: now,
+      temporalCharacteristics: { ...target.temporalCharacteristics, ...this.seasonalPatterns.get(userId) },
+      metadata: { ...target.metadata, lastUpdated: now }
+    };
+    this.commitRevision(userId, restored, 'rollback', this.detectSignificantChanges(current, restored), version);
+    logger.info('Baseline rolled back', { userId, from: current.version, to: version, version: restored.version });
+    return restored;
+  }
+
+  /**
+   * Store a baseline as the user's current one under the next version number
+   */
+  private commitRevision(userId: string, baseline: BaselinePattern, reason: BaselineRevisionReason, significantChanges: string[], restoredFrom?: string): void {
+    const revisions = this.history.get(userId) ?? [];
+    const previous = revisions[revisions.length - 1];
+    baseline.version = previous ? `1.${Number(previous.version.split('.')[1]) + 1}.0` : '1.0.0';
+    const revision: BaselineRevision = {
+      version: baseline.version, timestamp: baseline.timestamp, reason, significantChanges, restoredFrom, kept: !previous,
+      sampleCount: baseline.statistics.sampleCount, features: summarizeBaseline(baseline)
+    };
+    const history = trimRevisions([...revisions, revision]);
+    const baselines = new Map<string, BaselinePattern>();
+    history.forEach(r => baselines.set(r.version, r === revision ? baseline : this.revisionBaselines.get(userId)!.get(r.version)!));
+    this.history.set(userId, history);
+    this.revisionBaselines.set(userId, baselines);
+    this.baselines.set(userId, baseline);
+  }
+
+  /**
+   * Swap in a rebuilt provisional baseline under the current version, so rebuilds before the baseline is established
+   * do not each become a revision
+   */
+  private replaceRevision(userId: string, baseline: BaselinePattern): void {
+    const revisions = this.history.get(userId) ?? [];
+    const last = revisions[revisions.length - 1];
+    if (!last) {
+      this.commitRevision(userId, baseline, 'initial', ['baseline_created']);
+      return;
+    }
+    baseline.version = last.version;
+    revisions[revisions.length - 1] = { ...last, timestamp: baseline.timestamp, sampleCount: baseline.statistics.sampleCount, features: summarizeBaseline(baseline) };
+    this.revisionBaselines.get(userId)!.set(last.version, baseline);
+    this.baselines.set(userId, baseline);
+  }
+
+  /**
+   * A hierarchical baseline is provisional until its data-weighted sample count, snapshots × (1 - prior weight),
+   * reaches what a standalone baseline needs. Consumers that pin a baseline (control charts, drift detection) wait.
+   */
+  isProvisional(baseline: BaselinePattern): boolean {
+    const prior = baseline.statistics.populationPrior;
+    return !!prior && baseline.statistics.sampleCount * (1 - prior.weight) < this.minSnapshotsForBaseline;
+  }
+
+  /**
+   * The user's snapshots outside any period a rollback excluded
+   */
+  private usableSnapshots(userId: string): FeatureSnapshot[] | undefined {
+    const snapshots = this.recentSnapshots.get(userId);
+    return snapshots && this.withoutExcluded(userId, snapshots);
+  }
+
+  private withoutExcluded(userId: string, snapshots: FeatureSnapshot[]): FeatureSnapshot[] {
+    const ranges = this.excludedRanges.get(userId);
+    if (!ranges) return snapshots;
+    return snapshots.filter(s => !ranges.some(([from, to]) => s.timestamp > from && s.timestamp <= to));
+  }
+
   /**
    * Compute baseline from snapshots
    */
@@ -272,14 +578,18 @@ export class BaselineModeling {
     method: 'initial' | 'adaptive' | 'merged'
   ): Promise<BaselinePattern | null> {
     
-    if (snapshots.length < this.minSnapshotsForBaseline) {
+    if (snapshots.length < this.minSnapshots()) {
       return null;
     }
 
     // Aggregate features by modality
     const aggregatedFeatures = this.aggregateFeatures(snapshots);
     const variability = this.computeVariability(snapshots);
-    const temporalCharacteristics = this.computeTemporalCharacteristics(snapshots);
+    const covarianceByModality = this.computeCovariance(snapshots);
+    const priorWeight = config.get().baseline.hierarchical.enabled
+      ? this.applyPopulationPriors(snapshots, aggregatedFeatures as Record<BaselineModality, Record<string, unknown>>, variability, covarianceByModality)
+      : undefined;
+    const temporalCharacteristics = { ...this.computeTemporalCharacteristics(snapshots), ...this.seasonalPatterns.get(userId) };
     const environmentalContext = this.aggregateEnvironmentalContext(snapshots);
     const coverage = this.computeFeatureCoverage(snapshots);
 
@@ -289,17 +599,19 @@ export class BaselineModeling {
       return sum + duration;
     }, 0);
 
-    const confidence = this.computeBaselineConfidence(snapshots, coverage);
+    // Whatever share of the baseline is still the population's is not evidence about this user
+    const confidence = this.computeBaselineConfidence(snapshots, coverage) * (1 - (priorWeight ?? 0));
     const stability = this.computeBaselineStability(snapshots);
 
     const baseline: BaselinePattern = {
-      id: `baseline_${userId}_${Date.now()}`,
+      id: `baseline_${userId}_${clock.now()}`,
       userId,
-      timestamp: Date.now(),
+      timestamp: clock.now(),
       version: '1.0.0',
       
       keyboard: aggregatedFeatures.keyboard,
       mouse: aggregatedFeatures.mouse,
+      touch: aggregatedFeatures.touch,
       scroll: aggregatedFeatures.scroll,
       focus: aggregatedFeatures.focus,
       composite: aggregatedFeatures.composite,
@@ -310,10 +622,12 @@ export class BaselineModeling {
         totalDuration,
         confidence,
         stability,
-        coverage
+        coverage,
+        populationPrior: priorWeight === undefined ? undefined : { source: this.populationPriors.source, weight: priorWeight }
       },
       
       variability,
+      covariance: covarianceByModality,
       temporalCharacteristics,
       environmentalContext,
       
@@ -321,7 +635,7 @@ export class BaselineModeling {
         creationMethod: method,
         dataQuality: this.assessDataQuality(confidence, stability, snapshots.length),
         medicalRelevance: this.assessMedicalRelevance(confidence, stability),
-        lastUpdated: Date.now()
+        lastUpdated: clock.now()
       }
     };
 
@@ -334,6 +648,7 @@ export class BaselineModeling {
   private aggregateFeatures(snapshots: FeatureSnapshot[]): {
     keyboard: Partial<KeyboardTimingFeatures>;
     mouse: Partial<MouseMovementFeatures>;
+    touch: Partial<TouchInteractionFeatures>;
     scroll: Partial<ScrollBehaviorFeatures>;
     focus: Partial<FocusAttentionFeatures>;
     composite: Partial<CompositeTimingFeatures>;
@@ -342,12 +657,13 @@ export class BaselineModeling {
     const result: any = {
       keyboard: {},
       mouse: {},
+      touch: {},
       scroll: {},
       focus: {},
       composite: {}
     };
 
-    const modalities = ['keyboard', 'mouse', 'scroll', 'focus', 'composite'] as const;
+    const modalities = ['keyboard', 'mouse', 'touch', 'scroll', 'focus', 'composite'] as const;
 
     for (const modality of modalities) {
       const modalitySnapshots = snapshots
@@ -397,12 +713,13 @@ export class BaselineModeling {
     const result: any = {
       keyboard: {},
       mouse: {},
+      touch: {},
       scroll: {},
       focus: {},
       composite: {}
     };
 
-    const modalities = ['keyboard', 'mouse', 'scroll', 'focus', 'composite'] as const;
+    const modalities = ['keyboard', 'mouse', 'touch', 'scroll', 'focus', 'composite'] as const;
 
     for (const modality of modalities) {
       const modalitySnapshots = snapshots
@@ -430,7 +747,8 @@ export class BaselineModeling {
             mean + 2.5 * std
           ];
 
-          result[modality][key] = { mean, std, bounds };
+          const mid = median(values);
+          result[modality][key] = { mean, std, bounds, median: mid, mad: scaledMAD(values, mid) };
         }
       }
     }
@@ -438,13 +756,109 @@ export class BaselineModeling {
     return result;
   }
 
+  /**
+   * Per-modality covariance over the features every snapshot of that modality reports.
+   * Constant features are left out since they carry no spread to scale by.
+   */
+  private computeCovariance(snapshots: FeatureSnapshot[]): BaselinePattern['covariance'] {
+    const result: BaselinePattern['covariance'] = {};
+    const modalities: BaselineModality[] = ['keyboard', 'mouse', 'touch', 'scroll', 'focus', 'composite'];
+
+    for (const modality of modalities) {
+      const modalitySnapshots = snapshots
+        .map(s => s[modality] as Record<string, unknown> | undefined)
+        .filter((m): m is Record<string, unknown> => !!m && Object.keys(m).length > 0);
+      if (modalitySnapshots.length < 3) continue;
+
+      const features = Object.keys(modalitySnapshots[0]).filter(key =>
+        key !== 'timestamp' &&
+        modalitySnapshots.every(m => typeof m[key] === 'number' && isFinite(m[key] as number)) &&
+        new Set(modalitySnapshots.map(m => m[key])).size > 1
+      );
+      if (features.length === 0) continue;
+
+      const rows = modalitySnapshots.map(m => features.map(key => m[key] as number));
+      const centre = features.map((_, j) => rows.reduce((sum, r) => sum + r[j], 0) / rows.length);
+      const sample = covariance(rows, centre);
+
+      // Fewer snapshots than features makes the sample covariance singular; shrink until it factorises
+      let shrinkage = 0.1;
+      let matrix = shrinkToDiagonal(sample, shrinkage);
+      while (!cholesky(matrix) && shrinkage < 1) {
+        shrinkage = Math.min(1, shrinkage * 2);
+        matrix = shrinkToDiagonal(sample, shrinkage);
+      }
+
+      result[modality] = { features, mean: centre, matrix, shrinkage };
+    }
+
+    return result;
+  }
+
+  /**
+   * Replace each feature that has a population prior with its posterior under that prior, for every modality the user
+   * has reported at all. Spreads become posterior predictive, so they stay wide until the user's own data narrows them.
+   * Covariances keep the user's correlations, rescaled to the posterior spreads. Returns the mean prior weight.
+   */
+  private applyPopulationPriors(
+    snapshots: FeatureSnapshot[],
+    aggregated: Record<BaselineModality, Record<string, unknown>>,
+    variability: BaselinePattern['variability'],
+    covarianceByModality: BaselinePattern['covariance']
+  ): number | undefined {
+    const { varianceStrength, maxPriorStrength } = config.get().baseline.hierarchical;
+    const weights: number[] = [];
+
+    for (const [modality, priors] of Object.entries(this.populationPriors.features) as [BaselineModality, Record<string, FeaturePrior>][]) {
+      const modalitySnapshots = snapshots
+        .map(s => s[modality] as Record<string, unknown> | undefined)
+        .filter((m): m is Record<string, unknown> => !!m && Object.keys(m).length > 0);
+      if (modalitySnapshots.length === 0) continue;
+
+      for (const [key, prior] of Object.entries(priors)) {
+        const values = modalitySnapshots
+          .map(m => m[key])
+          .filter((v): v is number => typeof v === 'number' && isFinite(v));
+        const posterior = posteriorFeature(values, prior, varianceStrength, maxPriorStrength);
+        const std = Math.sqrt(posterior.variance + posterior.meanVariance);
+        const observed = variability[modality][key];
+        const mid = observed ? posterior.priorWeight * prior.mean + (1 - posterior.priorWeight) * observed.median : posterior.mean;
+        const mad = observed ? Math.sqrt((varianceStrength * prior.within + values.length * observed.mad ** 2) / (varianceStrength + values.length) + posterior.meanVariance) : std;
+
+        aggregated[modality][key] = posterior.mean;
+        variability[modality][key] = {
+          mean: posterior.mean,
+          std,
+          bounds: [Math.max(0, posterior.mean - 2.5 * std), posterior.mean + 2.5 * std],
+          median: mid,
+          mad,
+          priorWeight: posterior.priorWeight,
+          unpooled: observed && { mean: observed.mean, std: observed.std, count: values.length }
+        };
+        weights.push(posterior.priorWeight);
+      }
+
+      const joint = covarianceByModality[modality];
+      if (joint) {
+        const sd = joint.matrix.map((row, i) => Math.sqrt(row[i]));
+        joint.features.forEach((key, i) => {
+          const posterior = variability[modality][key];
+          if (posterior?.priorWeight === undefined || !(sd[i] > 0)) return;
+          joint.mean[i] = posterior.mean;
+          joint.matrix = joint.matrix.map((row, r) => row.map((v, c) => v * (r === i ? posterior.std / sd[i] : 1) * (c === i ? posterior.std / sd[i] : 1)));
+        });
+      }
+    }
+
+    return weights.length ? weights.reduce((a, b) => a + b, 0) / weights.length : undefined;
+  }
+
   /**
    * Compute temporal characteristics
    */
   private computeTemporalCharacteristics(snapshots: FeatureSnapshot[]): BaselinePattern['temporalCharacteristics'] {
     const sessionDurations: number[] = [];
     const hourlyActivity: number[] = new Array(24).fill(0);
-    const dailyActivity: number[] = new Array(7).fill(0);
 
     for (const snapshot of snapshots) {
       const duration = snapshot.keyboard?.sessionDuration || snapshot.focus?.sessionDuration || 0;
@@ -455,10 +869,8 @@ export class BaselineModeling {
       // Extract temporal patterns
       const date = new Date(snapshot.timestamp);
       const hour = date.getHours();
-      const day = date.getDay();
       
       hourlyActivity[hour]++;
-      dailyActivity[day]++;
     }
 
     const sessionLengthMean = sessionDurations.length > 0 
@@ -486,9 +898,8 @@ export class BaselineModeling {
       }
     }
 
+    // Seasonal patterns come from the score history (setSeasonalPatterns), not from activity counts
     return {
-      circadianPattern: hourlyActivity.length > 0 ? hourlyActivity : undefined,
-      weeklyPattern: dailyActivity.length > 0 ? dailyActivity : undefined,
       sessionLengthDistribution: {
         mean: sessionLengthMean,
         std: Math.sqrt(sessionLengthVariance)
@@ -506,8 +917,10 @@ export class BaselineModeling {
     const performanceModifiers: Record<string, number[]> = {};
 
     for (const snapshot of snapshots) {
-      // Aggregate device characteristics
-      Object.assign(deviceCharacteristics, snapshot.environmentalContext);
+      // Aggregate device characteristics; per-tick covariates describe the session, not the device
+      Object.entries(snapshot.environmentalContext).forEach(([key, value]) => {
+        if (key !== 'covariates') deviceCharacteristics[key] = value;
+      });
 
       // Track typical conditions
       const condition = this.classifySessionCondition(snapshot);
@@ -535,12 +948,13 @@ export class BaselineModeling {
     const coverage: any = {
       keyboard: {},
       mouse: {},
+      touch: {},
       scroll: {},
       focus: {},
       composite: {}
     };
 
-    const modalities = ['keyboard', 'mouse', 'scroll', 'focus', 'composite'] as const;
+    const modalities = ['keyboard', 'mouse', 'touch', 'scroll', 'focus', 'composite'] as const;
     const threshold = Math.max(3, snapshots.length * 0.3); // At least 30% coverage
 
     for (const modality of modalities) {
@@ -574,7 +988,7 @@ export class BaselineModeling {
     const qualityScore = snapshots.reduce((sum, s) => sum + s.quality, 0) / snapshots.length;
     
     // Coverage score
-    const modalities = ['keyboard', 'mouse', 'scroll', 'focus', 'composite'] as const;
+    const modalities = ['keyboard', 'mouse', 'touch', 'scroll', 'focus', 'composite'] as const;
     let totalFeatures = 0;
     let coveredFeatures = 0;
 
@@ -641,8 +1055,8 @@ export class BaselineModeling {
   /**
    * Evaluate whether baseline should be updated
    */
-  private evaluateBaselineUpdate(userId: string): void {
-    const snapshots = this.recentSnapshots.get(userId);
+  private async evaluateBaselineUpdate(userId: string): Promise<void> {
+    const snapshots = this.usableSnapshots(userId);
     if (!snapshots) return;
 
     const baseline = this.baselines.get(userId);
@@ -650,14 +1064,20 @@ export class BaselineModeling {
     
     if (!baseline) {
       // Create initial baseline if we have enough data
-      if (snapshots.length >= this.minSnapshotsForBaseline) {
-        this.createInitialBaseline(userId);
+      if (snapshots.length >= this.minSnapshots()) {
+        await this.createInitialBaseline(userId);
       }
       return;
     }
 
+    // A provisional baseline is rebuilt from every new snapshot until it is established
+    if (this.isProvisional(baseline)) {
+      await this.createInitialBaseline(userId);
+      return;
+    }
+
     // Check if significant time has passed or if we have new quality data
-    const timeSinceUpdate = Date.now() - baseline.metadata.lastUpdated;
+    const timeSinceUpdate = clock.now() - baseline.metadata.lastUpdated;
     const significantTime = timeSinceUpdate > 7 * 24 * 60 * 60 * 1000; // 1 week
     
     const newQualitySnapshots = recentSnapshots.filter(s => 
@@ -671,8 +1091,7 @@ export class BaselineModeling {
         newQualitySnapshots: newQualitySnapshots.length
       });
 
-      // Async update (don't await to avoid blocking)
-      this.updateBaseline(userId).catch(error => {
+      await this.updateBaseline(userId).catch(error => {
         logger.error('Failed to update baseline', { userId, error });
       });
     }
@@ -688,12 +1107,12 @@ export class BaselineModeling {
     
     // Combine existing baseline data with new snapshots
     // This is a simplified approach - in production, you'd want more sophisticated merging
-    const existingSnapshots = this.recentSnapshots.get(currentBaseline.userId) || [];
+    const existingSnapshots = this.usableSnapshots(currentBaseline.userId) || [];
     const allSnapshots = [...existingSnapshots, ...newSnapshots];
     
     // Apply exponential decay to older samples
     const decayFactor = 0.95;
-    const now = Date.now();
+    const now = clock.now();
     const maxAge = 30 * 24 * 60 * 60 * 1000; // 30 days
     
     const weightedSnapshots = allSnapshots
@@ -705,7 +1124,7 @@ export class BaselineModeling {
       })
       .filter(s => s.quality > 0.1);
 
-    if (weightedSnapshots.length < this.minSnapshotsForBaseline) {
+    if (weightedSnapshots.length < this.minSnapshots()) {
       return null;
     }
 
@@ -760,6 +1179,11 @@ export class BaselineModeling {
   /**
    * Helper methods
    */
+  private minSnapshots(): number {
+    const { hierarchical } = config.get().baseline;
+    return hierarchical.enabled ? hierarchical.minSnapshots : this.minSnapshotsForBaseline;
+  }
+
   private classifySessionCondition(snapshot: FeatureSnapshot): string | null {
     // Classify session based on quality and environmental factors
     if (snapshot.quality > 0.8) return 'optimal';
@@ -783,6 +1207,39 @@ export class BaselineModeling {
     return 'screening';
   }
 
+  /**
+   * Record the daily and weekly seasonal patterns of a user's similarity scores; they are kept across baseline updates
+   */
+  setSeasonalPatterns(userId: string, patterns: Pick<BaselinePattern['temporalCharacteristics'], 'circadianPattern' | 'weeklyPattern'>): void {
+    this.seasonalPatterns.set(userId, patterns);
+    const baseline = this.baselines.get(userId);
+    if (baseline) Object.assign(baseline.temporalCharacteristics, patterns);
+  }
+
+  /**
+   * Population priors for hierarchical baselines; the bundled normative priors until replaced
+   */
+  setPopulationPriors(priors: PopulationPriors): void {
+    this.populationPriors = priors;
+    logger.info('Population priors set', { source: priors.source, users: priors.users });
+  }
+
+  getPopulationPriors(): PopulationPriors {
+    return this.populationPriors;
+  }
+
+  /**
+   * Drop a user's baseline and snapshots
+   */
+  forget(userId: string): void {
+    this.baselines.delete(userId);
+    this.recentSnapshots.delete(userId);
+    this.seasonalPatterns.delete(userId);
+    this.history.delete(userId);
+    this.revisionBaselines.delete(userId);
+    this.excludedRanges.delete(userId);
+  }
+
   /**
    * Get baseline statistics
    */
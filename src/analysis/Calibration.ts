@@ -0,0 +1,179 @@
+// Probability calibration for model outputs: Platt scaling (a logistic fit on the output's logit) and isotonic
+// regression (pool-adjacent-violators), compared by expected calibration error (ECE) on held-out data.
+// Labels may be soft (0-1), e.g. the generator's anomaly score for the overall output.
+
+export type CalibrationMethod = 'platt' | 'isotonic';
+
+export interface PlattParameters {
+  a: number; // p = σ(a·logit(s) + b)
+  b: number;
+}
+
+export interface IsotonicMap {
+  x: number[]; // Mean raw score of each pooled block, increasing
+  y: number[]; // Mean label of each block, non-decreasing
+}
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number;
+  observed: number; // Mean label
+}
+
+export interface OutputCalibration {
+  method: CalibrationMethod; // Lower held-out ECE
+  platt: PlattParameters;
+  isotonic: IsotonicMap;
+  rawEce: number;
+  ece: Record<CalibrationMethod, number>;
+  reliability: Record<'raw' | CalibrationMethod, ReliabilityBin[]>; // Held-out
+}
+
+export interface ModelCalibration {
+  fitSize: number;
+  evalSize: number;
+  bins: number;
+  outputs: Record<string, OutputCalibration>; // By output label
+}
+
+const EPS = 1e-6;
+const clamp01 = (p: number) => Math.min(1 - EPS, Math.max(EPS, p));
+const logit = (p: number) => Math.log(clamp01(p) / (1 - clamp01(p)));
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+/**
+ * Platt (1999) with his smoothed targets, fitted by Newton's method with step halving
+ */
+export function fitPlatt(scores: number[], labels: number[]): PlattParameters {
+  const positives = labels.reduce((s, y) => s + y, 0);
+  const negatives = labels.length - positives;
+  const hi = (positives + 1) / (positives + 2);
+  const lo = 1 / (negatives + 2);
+  const f = scores.map(logit);
+  const t = labels.map(y => y * hi + (1 - y) * lo);
+  const loss = (a: number, b: number) => f.reduce((s, fi, i) => {
+    const p = clamp01(sigmoid(a * fi + b));
+    return s - t[i] * Math.log(p) - (1 - t[i]) * Math.log(1 - p);
+  }, 0);
+
+  let a = 1, b = 0, current = loss(a, b);
+  for (let iter = 0; iter < 100; iter++) {
+    let ga = 0, gb = 0, haa = 1e-9, hab = 0, hbb = 1e-9;
+    f.forEach((fi, i) => {
+      const p = sigmoid(a * fi + b);
+      const w = p * (1 - p);
+      ga += (p - t[i]) * fi; gb += p - t[i];
+      haa += w * fi * fi; hab += w * fi; hbb += w;
+    });
+    const det = haa * hbb - hab * hab;
+    if (Math.abs(det) < 1e-12) break;
+    const da = (hbb * ga - hab * gb) / det;
+    const db = (haa * gb - hab * ga) / det;
+    let step = 1, next = loss(a - da, b - db);
+    while (next > current && step > 1e-4) {
+      step /= 2;
+      next = loss(a - step * da, b - step * db);
+    }
+    if (next > current) break;
+    a -= step * da; b -= step * db;
+    const improved = current - next;
+    current = next;
+    if (improved < 1e-10) break;
+  }
+  return { a, b };
+}
+
+export function applyPlatt({ a, b }: PlattParameters, score: number): number {
+  return sigmoid(a * logit(score) + b);
+}
+
+/**
+ * Pool adjacent violators on the scores sorted ascending; least squares, so soft labels are fine
+ */
+export function fitIsotonic(scores: number[], labels: number[]): IsotonicMap {
+  const order = scores.map((_, i) => i).sort((i, j) => scores[i] - scores[j]);
+  const blocks: { sx: number; sy: number; n: number }[] = [];
+  order.forEach(i => {
+    blocks.push({ sx: scores[i], sy: labels[i], n: 1 });
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1], prev = blocks[blocks.length - 2];
+      if (prev.sy / prev.n < last.sy / last.n) break;
+      prev.sx += last.sx; prev.sy += last.sy; prev.n += last.n;
+      blocks.pop();
+    }
+  });
+  return { x: blocks.map(bl => bl.sx / bl.n), y: blocks.map(bl => bl.sy / bl.n) };
+}
+
+/**
+ * Linear interpolation between block centres, flat beyond the first and last block
+ */
+export function applyIsotonic({ x, y }: IsotonicMap, score: number): number {
+  if (!x.length) return score;
+  if (score <= x[0]) return y[0];
+  if (score >= x[x.length - 1]) return y[y.length - 1];
+  let hi = 1;
+  while (x[hi] < score) hi++;
+  const span = x[hi] - x[hi - 1];
+  return span > 0 ? y[hi - 1] + (y[hi] - y[hi - 1]) * (score - x[hi - 1]) / span : y[hi];
+}
+
+/**
+ * Equal-width bins over [0, 1]; empty bins are kept with count 0 so diagrams line up
+ */
+export function reliabilityBins(probabilities: number[], labels: number[], bins = 10): ReliabilityBin[] {
+  const out = Array.from({ length: bins }, (_, k) => ({ lower: k / bins, upper: (k + 1) / bins, count: 0, meanPredicted: 0, observed: 0 }));
+  probabilities.forEach((p, i) => {
+    const bin = out[Math.min(bins - 1, Math.max(0, Math.floor(p * bins)))];
+    bin.count++;
+    bin.meanPredicted += p;
+    bin.observed += labels[i];
+  });
+  out.forEach(bin => {
+    if (!bin.count) return;
+    bin.meanPredicted /= bin.count;
+    bin.observed /= bin.count;
+  });
+  return out;
+}
+
+/**
+ * Count-weighted mean gap between predicted probability and observed rate across the bins
+ */
+export function expectedCalibrationError(probabilities: number[], labels: number[], bins = 10): number {
+  if (!probabilities.length) return 0;
+  return reliabilityBins(probabilities, labels, bins)
+    .reduce((s, bin) => s + (bin.count / probabilities.length) * Math.abs(bin.meanPredicted - bin.observed), 0);
+}
+
+/**
+ * Fit both maps on one split and compare them on the other
+ */
+export function calibrateOutput(fit: { scores: number[]; labels: number[] }, evaluation: { scores: number[]; labels: number[] }, bins = 10): OutputCalibration {
+  const platt = fitPlatt(fit.scores, fit.labels);
+  const isotonic = fitIsotonic(fit.scores, fit.labels);
+  const plattProbs = evaluation.scores.map(s => applyPlatt(platt, s));
+  const isotonicProbs = evaluation.scores.map(s => applyIsotonic(isotonic, s));
+  const ece = {
+    platt: expectedCalibrationError(plattProbs, evaluation.labels, bins),
+    isotonic: expectedCalibrationError(isotonicProbs, evaluation.labels, bins)
+  };
+  return {
+    method: ece.isotonic < ece.platt ? 'isotonic' : 'platt',
+    platt,
+    isotonic,
+    rawEce: expectedCalibrationError(evaluation.scores, evaluation.labels, bins),
+    ece,
+    reliability: {
+      raw: reliabilityBins(evaluation.scores, evaluation.labels, bins),
+      platt: reliabilityBins(plattProbs, evaluation.labels, bins),
+      isotonic: reliabilityBins(isotonicProbs, evaluation.labels, bins)
+    }
+  };
+}
+
+export function applyCalibration(calibration: OutputCalibration, score: number, method: CalibrationMethod = calibration.method): number {
+  return method === 'platt' ? applyPlatt(calibration.platt, score) : applyIsotonic(calibration.isotonic, score);
+}
@@ -0,0 +1,211 @@
+// Bayesian Online Change-Point Detection (Adams & MacKay, 2007) for one score stream.
+// Observations are modelled as Gaussian with unknown mean and variance (Normal-Gamma prior, Student-t predictive)
+// and a constant hazard; the run-length posterior is updated with every new score.
+
+export interface ChangePoint {
+  stream: string; // 'overall' or a modality name
+  timestamp: number; // First observation after the change
+  probability: number; // Posterior probability that the current run is at most `lag` observations long
+  meanBefore: number;
+  meanAfter: number;
+}
+
+export interface ChangePointOptions {
+  hazardLambda: number; // Expected run length between changes, in observations
+  mu0: number; // Prior mean
+  kappa0: number; // Prior pseudo-observations for the mean
+  alpha0: number; // Prior shape for the precision
+  beta0: number; // Prior rate for the precision; beta0 / alpha0 is the expected variance
+  maxRunLength: number; // Run lengths beyond this are truncated
+  lag: number; // Short runs summed into the change probability
+  threshold: number; // Change probability at which a change point is reported
+}
+
+// A detector's posterior and reported changes as plain data, so a stream can resume elsewhere
+export interface ChangePointDetectorState {
+  stream: string;
+  options: ChangePointOptions;
+  posterior: number[];
+  mu: number[];
+  kappa: number[];
+  alpha: number[];
+  beta: number[];
+  history: { value: number; timestamp: number }[];
+  changePoints: ChangePoint[];
+  observed: number;
+  lastChangeIndex: number | null; // Null before the first change; JSON has no -Infinity
+}
+
+export const DEFAULT_CHANGE_POINT_OPTIONS: ChangePointOptions = {
+  hazardLambda: 100,
+  mu0: 0.5,
+  kappa0: 0.1,
+  alpha0: 1,
+  beta0: 0.002,
+  maxRunLength: 300,
+  lag: 5,
+  threshold: 0.5
+};
+
+// Lanczos approximation, g = 7
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7
+];
+
+function logGamma(z: number): number {
+  if (z < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * z)) - logGamma(1 - z);
+  z -= 1;
+  let x = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) x += LANCZOS[i] / (z + i);
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(x);
+}
+
+function studentTPdf(x: number, df: number, loc: number, scale2: number): number {
+  const z = (x - loc) * (x - loc) / (df * scale2);
+  return Math.exp(
+    logGamma((df + 1) / 2) - logGamma(df / 2) - 0.5 * Math.log(df * Math.PI * scale2) - ((df + 1) / 2) * Math.log1p(z)
+  );
+}
+
+export class BayesianChangePointDetector {
+  private options: ChangePointOptions;
+  private posterior: number[] = [1]; // P(run length = r | observations so far)
+  private mu: number[];
+  private kappa: number[];
+  private alpha: number[];
+  private beta: number[];
+  private history: { value: number; timestamp: number }[] = [];
+  private changePoints: ChangePoint[] = [];
+  private observed = 0;
+  private lastChangeIndex = -Infinity; // Index in the full stream of the latest reported change
+
+  constructor(readonly stream: string, options: Partial<ChangePointOptions> = {}) {
+    this.options = { ...DEFAULT_CHANGE_POINT_OPTIONS, ...options };
+    this.mu = [this.options.mu0];
+    this.kappa = [this.options.kappa0];
+    this.alpha = [this.options.alpha0];
+    this.beta = [this.options.beta0];
+  }
+
+  /**
+   * Add one observation. Returns the change point it reported or sharpened, if any.
+   */
+  update(value: number, timestamp: number): ChangePoint | null {
+    const { hazardLambda, mu0, kappa0, alpha0, beta0, maxRunLength, lag, threshold } = this.options;
+    const hazard = 1 / hazardLambda;
+
+    const predictive = this.posterior.map((_, r) =>
+      studentTPdf(value, 2 * this.alpha[r], this.mu[r], this.beta[r] * (this.kappa[r] + 1) / (this.alpha[r] * this.kappa[r]))
+    );
+    const joint = this.posterior.map((p, r) => p * predictive[r]);
+    const next = [hazard * joint.reduce((s, v) => s + v, 0), ...joint.map(v => v * (1 - hazard))];
+    const evidence = next.reduce((s, v) => s + v, 0);
+    // An observation impossible under every run length (e.g. NaN) leaves the posterior unchanged
+    if (!(evidence > 0)) return null;
+    this.posterior = next.map(v => v / evidence);
+
+    // Conjugate Normal-Gamma update for every surviving run, plus a fresh run from the prior
+    const mu = [mu0], kappa = [kappa0], alpha = [alpha0], beta = [beta0];
+    for (let r = 0; r < this.mu.length; r++) {
+      mu.push((this.kappa[r] * this.mu[r] + value) / (this.kappa[r] + 1));
+      kappa.push(this.kappa[r] + 1);
+      alpha.push(this.alpha[r] + 0.5);
+      beta.push(this.beta[r] + this.kappa[r] * (value - this.mu[r]) ** 2 / (2 * (this.kappa[r] + 1)));
+    }
+    this.mu = mu; this.kappa = kappa; this.alpha = alpha; this.beta = beta;
+
+    if (this.posterior.length > maxRunLength + 1) {
+      const cut = maxRunLength + 1;
+      const kept = this.posterior.slice(0, cut);
+      const mass = kept.reduce((s, v) => s + v, 0);
+      this.posterior = kept.map(v => v / mass);
+      [this.mu, this.kappa, this.alpha, this.beta] = [this.mu, this.kappa, this.alpha, this.beta].map(a => a.slice(0, cut));
+    }
+
+    this.history.push({ value, timestamp });
+    if (this.history.length > maxRunLength + 1) this.history.shift();
+    const index = this.observed++;
+
+    // P(r_t = 0) is always the hazard, so look at the mass on recent starts instead. The first
+    // observations are excluded: every run is short there.
+    if (index < lag * 2) return null;
+    const recent = this.posterior.slice(0, lag + 1);
+    const probability = recent.reduce((s, v) => s + v, 0);
+    if (probability < threshold) return null;
+
+    // A run of length r holds the last r observations; r = 0 has none yet
+    let runLength = 1;
+    recent.forEach((p, r) => { if (r > 0 && p > recent[runLength]) runLength = r; });
+    const changeIndex = index + 1 - runLength;
+    const start = this.history.length - runLength; // Position of the first post-change observation
+    const before = this.history.slice(Math.max(0, start - hazardLambda), start).map(h => h.value);
+    const after = this.history.slice(start).map(h => h.value);
+    const mean = (a: number[]) => a.reduce((s, v) => s + v, 0) / a.length;
+    const point: ChangePoint = {
+      stream: this.stream,
+      timestamp: this.history[start].timestamp,
+      probability,
+      meanBefore: before.length ? mean(before) : mean(after),
+      meanAfter: mean(after)
+    };
+
+    // Further evidence for the same change refines it rather than adding another
+    const last = this.changePoints[this.changePoints.length - 1];
+    if (last && Math.abs(changeIndex - this.lastChangeIndex) <= lag) {
+      if (probability < last.probability) return null;
+      this.changePoints[this.changePoints.length - 1] = point;
+    } else {
+      this.changePoints.push(point);
+      if (this.changePoints.length > 50) this.changePoints.shift();
+    }
+    this.lastChangeIndex = changeIndex;
+    return point;
+  }
+
+  getChangePoints(): ChangePoint[] {
+    return [...this.changePoints];
+  }
+
+  getRunLengthPosterior(): number[] {
+    return [...this.posterior];
+  }
+
+  /**
+   * Most probable current run length
+   */
+  getMapRunLength(): number {
+    return this.posterior.reduce((best, p, r, all) => (p > all[best] ? r : best), 0);
+  }
+
+  exportState(): ChangePointDetectorState {
+    return {
+      stream: this.stream,
+      options: { ...this.options },
+      posterior: [...this.posterior],
+      mu: [...this.mu],
+      kappa: [...this.kappa],
+      alpha: [...this.alpha],
+      beta: [...this.beta],
+      history: this.history.map(h => ({ ...h })),
+      changePoints: this.changePoints.map(c => ({ ...c })),
+      observed: this.observed,
+      lastChangeIndex: isFinite(this.lastChangeIndex) ? this.lastChangeIndex : null
+    };
+  }
+
+  static fromState(state: ChangePointDetectorState): BayesianChangePointDetector {
+    const detector = new BayesianChangePointDetector(state.stream, state.options);
+    detector.posterior = [...state.posterior];
+    detector.mu = [...state.mu];
+    detector.kappa = [...state.kappa];
+    detector.alpha = [...state.alpha];
+    detector.beta = [...state.beta];
+    detector.history = state.history.map(h => ({ ...h }));
+    detector.changePoints = state.changePoints.map(c => ({ ...c }));
+    detector.observed = state.observed;
+    detector.lastChangeIndex = state.lastChangeIndex ?? -Infinity;
+    return detector;
+  }
+}
@@ -2,7 +2,9 @@
 import { BaselinePattern } from './BaselineModeling';
 import { SimilarityScore } from './SimilarityScoring';
 import { DriftDetection } from './AdaptiveRecognition';
+import { conformalPrediction, ConformalInterval } from './ConformalPrediction';
 import { createComponentLogger } from '../utils/Logger';
+import { clock } from '../utils/Clock';
 
 const logger = createComponentLogger('ConfidenceEstimation');
 
@@ -21,6 +23,12 @@ export interface ConfidenceAssessment {
   
   // Uncertainty quantification
   uncertainty: UncertaintyQuantification;
+
+  // Split-conformal intervals from the user's own history, latest for each stream
+  conformal: {
+    similarity?: ConformalInterval;
+    risk?: ConformalInterval;
+  };
   
   // Risk assessment
   riskFactors: RiskFactor[];
@@ -114,7 +122,7 @@ export interface AleatoricUncertainty {
 export interface CombinedUncertainty {
   totalUncertainty: number; // 0-1, combined uncertainty score
   confidenceInterval: [number, number]; // 95% confidence interval for assessment
-  predictionInterval: [number, number]; // 95% prediction interval
+  predictionInterval: [number, number]; // Conformal interval for the similarity score once bounded, else a heuristic 95%
   reliabilityBounds: {
     lower: number; // Conservative estimate
     upper: number; // Optimistic estimate
@@ -200,11 +208,17 @@ export class ConfidenceEstimation {
         medicalValidity
       });
 
+      const conformal = {
+        similarity: conformalPrediction.getLatest(userId, 'similarity'),
+        risk: conformalPrediction.getLatest(userId, 'risk')
+      };
+
       // Quantify uncertainty
       const uncertainty = this.quantifyUncertainty(
         similarityScore,
         baseline,
-        { dataQuality, baselineReliability, featureCoverage, temporalConsistency, medicalValidity }
+        { dataQuality, baselineReliability, featureCoverage, temporalConsistency, medicalValidity },
+        conformal.similarity
       );
 
       // Identify risk factors
@@ -221,7 +235,7 @@ export class ConfidenceEstimation {
 
       const assessment: ConfidenceAssessment = {
         overall,
-        timestamp: Date.now(),
+        timestamp: clock.now(),
         components: {
           dataQuality,
           baselineReliability,
@@ -230,12 +244,13 @@ export class ConfidenceEstimation {
           medicalValidity
         },
         uncertainty,
+        conformal,
         riskFactors,
         recommendations,
         metadata: {
           assessmentVersion: '1.0.0',
           computationTime: performance.now() - startTime,
-          lastUpdated: Date.now()
+          lastUpdated: clock.now()
         }
       };
 
@@ -304,7 +319,7 @@ export class ConfidenceEstimation {
     
     // Timespan adequacy (prefer at least 2 weeks)
     const minTimespan = 14 * 24 * 60 * 60 * 1000; // 2 weeks in ms
-    const currentAge = Date.now() - baseline.timestamp;
+    const currentAge = clock.now() - baseline.timestamp;
     const timespan = Math.min(1, currentAge / minTimespan);
     
     // Stability from baseline metadata
@@ -368,7 +383,7 @@ export class ConfidenceEstimation {
     const missingFeatures: string[] = [];
     if (modalityCoverage < 0.8) {
       const presentModalities = new Set(modalities);
-      const allModalities = ['keyboard', 'mouse', 'scroll', 'focus', 'composite'];
+      const allModalities = ['keyboard', 'mouse', 'touch', 'scroll', 'focus', 'composite'];
       allModalities.forEach(mod => {
         if (!presentModalities.has(mod)) {
           missingFeatures.push(mod);
@@ -490,7 +505,8 @@ export class ConfidenceEstimation {
   private quantifyUncertainty(
     score: SimilarityScore,
     baseline: BaselinePattern,
-    components: any
+    components: any,
+    conformal?: ConformalInterval
   ): UncertaintyQuantification {
     
     // Epistemic uncertainty (knowledge-based)
@@ -532,7 +548,8 @@ export class ConfidenceEstimation {
       Math.min(1, score.overall + margin * 0.7)
     ];
     
-    const predictionInterval: [number, number] = [
+    // The conformal interval has guaranteed coverage; the heuristic margin only stands in until it is bounded
+    const predictionInterval: [number, number] = conformal?.bounded ? [conformal.lower, conformal.upper] : [
       Math.max(0, score.overall - margin),
       Math.min(1, score.overall + margin)
     ];
@@ -770,7 +787,7 @@ export class ConfidenceEstimation {
 
     return {
       overall: 0,
-      timestamp: Date.now(),
+      timestamp: clock.now(),
       components: {
   dataQuality: dataQualityEmpty,
   baselineReliability: baselineReliabilityEmpty,
@@ -788,6 +805,7 @@ export class ConfidenceEstimation {
           reliabilityBounds: { lower: 0, upper: 0 }
         }
       },
+      conformal: {},
       riskFactors: [{
         type: 'technical',
         severity: 'critical',
@@ -804,7 +822,7 @@ export class ConfidenceEstimation {
       metadata: {
         assessmentVersion: '1.0.0',
         computationTime: 0,
-        lastUpdated: Date.now()
+        lastUpdated: clock.now()
       }
     };
   }
@@ -0,0 +1,129 @@
+// Split-conformal prediction intervals on a user's own score history. The point prediction for each new score is the
+// median of the preceding window; absolute residuals of past predictions form the calibration set, and the
+// ⌈(n+1)(1-α)⌉-th smallest residual gives an interval that covers the next score with probability at least 1-α
+// whenever the residuals are exchangeable (Vovk et al. 2005; Lei et al. 2018). No distributional assumption is made.
+import { median } from './LinearAlgebra';
+import { config } from '../config/AppConfig';
+
+export type ConformalStream = 'similarity' | 'risk';
+
+export interface ConformalInterval {
+  lower: number;
+  upper: number;
+  prediction: number; // Median of the preceding window
+  coverage: number; // Target coverage, 1 - α
+  calibrationSize: number; // Residuals the quantile was taken from
+  bounded: boolean; // False until there are enough residuals for the target coverage; the interval is then the full range
+  observed: number;
+  covered: boolean;
+  pValue: number; // Conformal p-value: share of calibration residuals (and this one) at least as large as this residual
+  empiricalCoverage?: number; // Share of earlier bounded intervals that covered their score
+}
+
+export interface StreamState {
+  values: number[];
+  residuals: number[];
+  covered: number;
+  bounded: number;
+  latest?: ConformalInterval;
+}
+
+export type ConformalState = Partial<Record<ConformalStream, StreamState>>;
+
+/**
+ * Half-width from a calibration set of nonconformity scores, or Infinity when it is too small for the coverage
+ */
+export function conformalQuantile(residuals: number[], coverage: number): number {
+  const n = residuals.length;
+  const k = Math.ceil((n + 1) * coverage);
+  if (k > n) return Infinity;
+  return [...residuals].sort((a, b) => a - b)[k - 1];
+}
+
+export class ConformalPrediction {
+  private static instance: ConformalPrediction;
+  private users = new Map<string, Map<ConformalStream, StreamState>>();
+
+  private constructor() {}
+
+  static getInstance(): ConformalPrediction {
+    if (!ConformalPrediction.instance) {
+      ConformalPrediction.instance = new ConformalPrediction();
+    }
+    return ConformalPrediction.instance;
+  }
+
+  /**
+   * Interval the history predicted for `value`, computed before the value joins the history and clipped to `range`.
+   * Undefined until there are minHistory scores to predict from.
+   */
+  observe(userId: string, stream: ConformalStream, value: number, range: [number, number] = [0, 1]): ConformalInterval | undefined {
+    if (!isFinite(value)) return undefined;
+    const { coverage, window, calibrationSize, minHistory } = config.get().conformal;
+    const state = this.state(userId, stream);
+
+    let interval: ConformalInterval | undefined;
+    if (state.values.length >= minHistory) {
+      const prediction = median(state.values.slice(-window));
+      const residual = Math.abs(value - prediction);
+      const halfWidth = conformalQuantile(state.residuals, coverage);
+      const bounded = isFinite(halfWidth);
+      const lower = bounded ? Math.max(range[0], prediction - halfWidth) : range[0];
+      const upper = bounded ? Math.min(range[1], prediction + halfWidth) : range[1];
+      const covered = value >= lower && value <= upper;
+      interval = {
+        lower, upper, prediction, coverage, bounded, observed: value, covered,
+        calibrationSize: state.residuals.length,
+        pValue: (state.residuals.filter(r => r >= residual).length + 1) / (state.residuals.length + 1),
+        empiricalCoverage: state.bounded ? state.covered / state.bounded : undefined
+      };
+      if (bounded) {
+        state.bounded++;
+        if (covered) state.covered++;
+      }
+      state.residuals.push(residual);
+      if (state.residuals.length > calibrationSize) state.residuals.splice(0, state.residuals.length - calibrationSize);
+      state.latest = interval;
+    }
+
+    state.values.push(value);
+    if (state.values.length > window) state.values.splice(0, state.values.length - window);
+    return interval;
+  }
+
+  getLatest(userId: string, stream: ConformalStream): ConformalInterval | undefined {
+    return this.users.get(userId)?.get(stream)?.latest;
+  }
+
+  exportState(userId: string): ConformalState | undefined {
+    const streams = this.users.get(userId);
+    return streams && Object.fromEntries(streams);
+  }
+
+  /**
+   * Resume a user's score histories from exported state, replacing any they have
+   */
+  importState(userId: string, state: ConformalState): void {
+    this.users.set(userId, new Map(Object.entries(state) as [ConformalStream, StreamState][]));
+  }
+
+  forget(userId: string): void {
+    this.users.delete(userId);
+  }
+
+  private state(userId: string, stream: ConformalStream): StreamState {
+    let streams = this.users.get(userId);
+    if (!streams) {
+      streams = new Map();
+      this.users.set(userId, streams);
+    }
+    let state = streams.get(stream);
+    if (!state) {
+      state = { values: [], residuals: [], covered: 0, bounded: 0 };
+      streams.set(stream, state);
+    }
+    return state;
+  }
+}
+
+export const conformalPrediction = ConformalPrediction.getInstance();
@@ -0,0 +1,209 @@
+// Context adjustment: a per-user ridge regression of every snapshot feature on session covariates (time of day,
+// session length, and the caffeine / medication / fatigue the user reports). Features are residualised to the user's
+// usual context before baselining and scoring, so a tired evening session is compared like for like.
+import { BaselineModality } from './BaselineModeling';
+import { cholesky, choleskySolve } from './LinearAlgebra';
+import { config } from '../config/AppConfig';
+import { createComponentLogger } from '../utils/Logger';
+
+// Entered by the user; anything left unset is treated as their usual level
+export interface SessionContext {
+  caffeine?: boolean; // Caffeine in the last few hours
+  medication?: boolean; // Took their usual medication dose recently
+  fatigue?: number; // Self-rated, 0-1
+}
+
+export const COVARIATES = ['hourSin', 'hourCos', 'sessionLength', 'caffeine', 'medication', 'fatigue'] as const;
+export type Covariate = typeof COVARIATES[number];
+export type CovariateVector = Record<Covariate, number>;
+
+export interface CovariateEffect {
+  modality: BaselineModality;
+  feature: string;
+  covariate: Covariate;
+  coefficient: number; // Feature units per covariate unit
+  effect: number; // Coefficient × covariate sd, in feature sds
+}
+
+export interface ContextAdjustmentSummary {
+  covariates: CovariateVector; // This tick, with unreported values imputed
+  samples: number; // Observations behind the best-fitted feature
+  active: boolean; // Some feature had enough observations to be adjusted
+  effects: CovariateEffect[]; // Strongest first
+}
+
+export interface FeatureFit {
+  n: number;
+  sumX: number[];
+  sumXX: number[][];
+  sumY: number;
+  sumYY: number;
+  sumXY: number[];
+}
+
+interface UserState {
+  fits: Map<string, FeatureFit>;
+  reported: Record<'caffeine' | 'medication' | 'fatigue', { sum: number; count: number }>;
+}
+
+// A user's fits keyed by `modality.feature`, as plain data
+export interface ContextAdjustmentState {
+  fits: Record<string, FeatureFit>;
+  reported: UserState['reported'];
+}
+
+const DIM = COVARIATES.length;
+const MAX_EFFECTS = 8;
+
+function emptyFit(): FeatureFit {
+  return { n: 0, sumX: new Array(DIM).fill(0), sumXX: Array.from({ length: DIM }, () => new Array(DIM).fill(0)), sumY: 0, sumYY: 0, sumXY: new Array(DIM).fill(0) };
+}
+
+/**
+ * Centred ridge solution β = (Sxx + λI)⁻¹ Sxy with the covariate means, or null when the fit is degenerate
+ */
+function solve(fit: FeatureFit, ridge: number): { beta: number[]; meanX: number[]; sdX: number[]; sdY: number } | null {
+  const meanX = fit.sumX.map(s => s / fit.n);
+  const meanY = fit.sumY / fit.n;
+  const varY = fit.sumYY / fit.n - meanY * meanY;
+  if (!(varY > 1e-12)) return null;
+  const sxx = fit.sumXX.map((row, i) => row.map((v, j) => v / fit.n - meanX[i] * meanX[j] + (i === j ? ridge : 0)));
+  const sxy = fit.sumXY.map((v, i) => v / fit.n - meanX[i] * meanY);
+  const L = cholesky(sxx);
+  if (!L) return null;
+  const sdX = sxx.map((row, i) => Math.sqrt(Math.max(0, row[i] - ridge)));
+  return { beta: choleskySolve(L, sxy), meanX, sdX, sdY: Math.sqrt(varY) };
+}
+
+export class ContextAdjustment {
+  private static instance: ContextAdjustment;
+  private logger = createComponentLogger('ContextAdjustment');
+  private users = new Map<string, UserState>();
+
+  private constructor() {}
+
+  static getInstance(): ContextAdjustment {
+    if (!ContextAdjustment.instance) {
+      ContextAdjustment.instance = new ContextAdjustment();
+    }
+    return ContextAdjustment.instance;
+  }
+
+  /**
+   * Covariates for a tick: time of day as a point on the 24 h circle, session length saturating at
+   * fullSessionMinutes, and the user's entries with unreported ones set to the mean of their past reports
+   */
+  covariates(userId: string, timestamp: number, sessionStart: number, context: SessionContext = {}): CovariateVector {
+    const { reported } = this.state(userId);
+    const date = new Date(timestamp);
+    const angle = ((date.getHours() + date.getMinutes() / 60) / 24) * 2 * Math.PI;
+    const entered = { caffeine: context.caffeine === undefined ? undefined : Number(context.caffeine), medication: context.medication === undefined ? undefined : Number(context.medication), fatigue: context.fatigue };
+    const imputed = (key: keyof UserState['reported']) => {
+      const value = entered[key];
+      if (typeof value === 'number' && isFinite(value)) return value;
+      return reported[key].count ? reported[key].sum / reported[key].count : 0;
+    };
+    return {
+      hourSin: Math.sin(angle),
+      hourCos: Math.cos(angle),
+      sessionLength: Math.min(1, Math.max(0, timestamp - sessionStart) / 60000 / config.get().contextAdjustment.fullSessionMinutes),
+      caffeine: imputed('caffeine'),
+      medication: imputed('medication'),
+      fatigue: imputed('fatigue')
+    };
+  }
+
+  /**
+   * Residualise the numeric features of one modality to the user's mean covariates, then add the raw values to the
+   * fit. Features with fewer than minSamples observations pass through unchanged.
+   */
+  adjust<T extends object>(userId: string, modality: BaselineModality, features: T, covariates: CovariateVector): T {
+    const { enabled, minSamples, ridge } = config.get().contextAdjustment;
+    if (!enabled) return features;
+    const { fits } = this.state(userId);
+    const x = COVARIATES.map(c => covariates[c]);
+    const adjusted = { ...features } as Record<string, unknown>;
+
+    Object.entries(features).forEach(([feature, value]) => {
+      if (typeof value !== 'number' || !isFinite(value)) return;
+      const key = `${modality}.${feature}`;
+      let fit = fits.get(key);
+      if (!fit) {
+        fit = emptyFit();
+        fits.set(key, fit);
+      }
+
+      if (fit.n >= minSamples) {
+        const solved = solve(fit, ridge);
+        if (solved) adjusted[feature] = value - solved.beta.reduce((s, b, i) => s + b * (x[i] - solved.meanX[i]), 0);
+      }
+
+      fit.n++;
+      fit.sumY += value;
+      fit.sumYY += value * value;
+      for (let i = 0; i < DIM; i++) {
+        fit.sumX[i] += x[i];
+        fit.sumXY[i] += x[i] * value;
+        for (let j = 0; j < DIM; j++) fit.sumXX[i][j] += x[i] * x[j];
+      }
+    });
+    return adjusted as T;
+  }
+
+  /**
+   * Record the user's entries so later unreported ticks are imputed at their usual level
+   */
+  report(userId: string, context: SessionContext = {}): void {
+    const { reported } = this.state(userId);
+    if (context.caffeine !== undefined) { reported.caffeine.sum += Number(context.caffeine); reported.caffeine.count++; }
+    if (context.medication !== undefined) { reported.medication.sum += Number(context.medication); reported.medication.count++; }
+    if (typeof context.fatigue === 'number' && isFinite(context.fatigue)) { reported.fatigue.sum += context.fatigue; reported.fatigue.count++; }
+  }
+
+  summarize(userId: string, covariates: CovariateVector): ContextAdjustmentSummary {
+    const { minSamples, ridge } = config.get().contextAdjustment;
+    const effects: CovariateEffect[] = [];
+    let samples = 0;
+    this.users.get(userId)?.fits.forEach((fit, key) => {
+      samples = Math.max(samples, fit.n);
+      if (fit.n < minSamples) return;
+      const solved = solve(fit, ridge);
+      if (!solved) return;
+      const [modality, feature] = key.split('.') as [BaselineModality, string];
+      solved.beta.forEach((coefficient, i) => {
+        const effect = (coefficient * solved.sdX[i]) / solved.sdY;
+        if (Math.abs(effect) > 1e-6) effects.push({ modality, feature, covariate: COVARIATES[i], coefficient, effect });
+      });
+    });
+    effects.sort((a, b) => Math.abs(b.effect) - Math.abs(a.effect));
+    return { covariates, samples, active: samples >= minSamples, effects: effects.slice(0, MAX_EFFECTS) };
+  }
+
+  exportState(userId: string): ContextAdjustmentState | undefined {
+    const state = this.users.get(userId);
+    return state && { fits: Object.fromEntries(state.fits), reported: state.reported };
+  }
+
+  /**
+   * Resume a user's fits from exported state, replacing any they have
+   */
+  importState(userId: string, state: ContextAdjustmentState): void {
+    this.users.set(userId, { fits: new Map(Object.entries(state.fits)), reported: state.reported });
+  }
+
+  forget(userId: string): void {
+    this.users.delete(userId);
+    this.logger.debug('Context fits cleared', { userId });
+  }
+
+  private state(userId: string): UserState {
+    let state = this.users.get(userId);
+    if (!state) {
+      state = { fits: new Map(), reported: { caffeine: { sum: 0, count: 0 }, medication: { sum: 0, count: 0 }, fatigue: { sum: 0, count: 0 } } };
+      this.users.set(userId, state);
+    }
+    return state;
+  }
+}
+
+export const contextAdjustment = ContextAdjustment.getInstance();
@@ -0,0 +1,109 @@
+// Small dense linear algebra helpers for covariance-based scoring. Matrices are row-major number[][].
+
+export function mean(rows: number[][]): number[] {
+  const dim = rows[0]?.length ?? 0;
+  const out = new Array(dim).fill(0);
+  rows.forEach(r => r.forEach((v, j) => { out[j] += v / rows.length; }));
+  return out;
+}
+
+/**
+ * Sample covariance (n - 1 denominator) of the rows around the given centre
+ */
+export function covariance(rows: number[][], centre = mean(rows)): number[][] {
+  const dim = centre.length;
+  const out = Array.from({ length: dim }, () => new Array(dim).fill(0));
+  const denom = Math.max(1, rows.length - 1);
+  for (const r of rows) {
+    for (let i = 0; i < dim; i++) {
+      const di = r[i] - centre[i];
+      for (let j = i; j < dim; j++) {
+        out[i][j] += di * (r[j] - centre[j]) / denom;
+      }
+    }
+  }
+  for (let i = 0; i < dim; i++) {
+    for (let j = 0; j < i; j++) out[i][j] = out[j][i];
+  }
+  return out;
+}
+
+/**
+ * Blend a covariance matrix toward its own diagonal. With fewer snapshots than features the sample
+ * covariance is singular; a little shrinkage keeps it invertible without discarding correlations.
+ */
+export function shrinkToDiagonal(matrix: number[][], lambda: number): number[][] {
+  return matrix.map((row, i) => row.map((v, j) => (i === j ? v : (1 - lambda) * v)));
+}
+
+/**
+ * Lower-triangular L with L·Lᵀ = matrix, or null when the matrix is not positive definite
+ */
+export function cholesky(matrix: number[][]): number[][] | null {
+  const n = matrix.length;
+  const L = Array.from({ length: n }, () => new Array(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k];
+      if (i === j) {
+        if (sum <= 1e-12) return null;
+        L[i][i] = Math.sqrt(sum);
+      } else {
+        L[i][j] = sum / L[j][j];
+      }
+    }
+  }
+  return L;
+}
+
+/**
+ * Squared Mahalanobis distance (x - μ)ᵀ Σ⁻¹ (x - μ) given the Cholesky factor of Σ
+ */
+export function mahalanobisSquared(x: number[], centre: number[], choleskyFactor: number[][]): number {
+  // Forward-substitute L·y = (x - μ); the distance is then |y|²
+  const n = centre.length;
+  const y = new Array(n).fill(0);
+  let d2 = 0;
+  for (let i = 0; i < n; i++) {
+    let sum = x[i] - centre[i];
+    for (let k = 0; k < i; k++) sum -= choleskyFactor[i][k] * y[k];
+    y[i] = sum / choleskyFactor[i][i];
+    d2 += y[i] * y[i];
+  }
+  return d2;
+}
+
+export function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Median absolute deviation, scaled by 1.4826 to estimate σ under normality
+ */
+export function scaledMAD(values: number[], centre = median(values)): number {
+  return 1.4826 * median(values.map(v => Math.abs(v - centre)));
+}
+
+/**
+ * Solve matrix·x = b given the Cholesky factor L of the matrix
+ */
+export function choleskySolve(choleskyFactor: number[][], b: number[]): number[] {
+  const n = b.length;
+  const y = new Array(n).fill(0);
+  for (let i = 0; i < n; i++) {
+    let sum = b[i];
+    for (let k = 0; k < i; k++) sum -= choleskyFactor[i][k] * y[k];
+    y[i] = sum / choleskyFactor[i][i];
+  }
+  const x = new Array(n).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = y[i];
+    for (let k = i + 1; k < n; k++) sum -= choleskyFactor[k][i] * x[k];
+    x[i] = sum / choleskyFactor[i][i];
+  }
+  return x;
+}
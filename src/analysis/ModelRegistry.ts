@@ -0,0 +1,161 @@
+// ModelRegistry: versioned models described by a local manifest (public/models/manifest.json).
+// Artifacts are checksum-verified before tfjs sees them, and the model's shape is checked against its declared schema.
+import * as tf from '@tensorflow/tfjs';
+import { ModelCalibration } from './Calibration';
+import { createComponentLogger } from '../utils/Logger';
+
+export const MODEL_MANIFEST_URL = '/models/manifest.json';
+
+export interface ModelInputSchema {
+  typing: number;
+  voice: number;
+  motor: number;
+  temporal: number;
+}
+
+export interface ModelRef {
+  id: string;
+  version: string;
+}
+
+export interface ModelArtifact {
+  path: string; // Relative to the manifest
+  sha256: string; // Hex digest of the file
+}
+
+export interface ModelManifestEntry extends ModelRef {
+  createdAt: string;
+  description?: string;
+  inputSchema: ModelInputSchema;
+  outputLabels: string[];
+  metrics: Record<string, number>; // Held-out evaluation recorded at training time
+  calibration?: ModelCalibration; // Output calibration fitted on held-out data after training
+  artifacts: { topology: ModelArtifact; weights: ModelArtifact };
+}
+
+export interface ModelManifest {
+  models: ModelManifestEntry[];
+}
+
+export interface LoadedModel {
+  model: tf.LayersModel;
+  entry: ModelManifestEntry;
+}
+
+export type ModelFetcher = (url: string) => Promise<ArrayBuffer>;
+
+const fetchArrayBuffer: ModelFetcher = async url => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Failed to fetch ${url}: ${res.status}`);
+  return res.arrayBuffer();
+};
+
+export async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function schemaSize(schema: ModelInputSchema): number {
+  return schema.typing + schema.voice + schema.motor + schema.temporal;
+}
+
+/**
+ * Numeric dotted-version comparison; enough for the x.y.z versions the training scripts write
+ */
+export function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map(Number), pb = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const d = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (d) return d;
+  }
+  return 0;
+}
+
+export class ModelRegistry {
+  private static instance: ModelRegistry;
+  private logger = createComponentLogger('ModelRegistry');
+  private manifestUrl = MODEL_MANIFEST_URL;
+  private fetcher: ModelFetcher = fetchArrayBuffer;
+  private manifest?: Promise<ModelManifest>;
+
+  private constructor() {}
+
+  static getInstance(): ModelRegistry {
+    if (!ModelRegistry.instance) {
+      ModelRegistry.instance = new ModelRegistry();
+    }
+    return ModelRegistry.instance;
+  }
+
+  /**
+   * Point the registry at another manifest, e.g. a file reader under Node
+   */
+  configure(manifestUrl: string, fetcher: ModelFetcher = fetchArrayBuffer): void {
+    this.manifestUrl = manifestUrl;
+    this.fetcher = fetcher;
+    this.manifest = undefined;
+  }
+
+  getManifest(): Promise<ModelManifest> {
+    if (!this.manifest) {
+      this.manifest = this.fetcher(this.manifestUrl)
+        .then(buffer => JSON.parse(new TextDecoder().decode(buffer)) as ModelManifest)
+        .catch(err => {
+          this.manifest = undefined; // Allow a retry
+          throw err;
+        });
+    }
+    return this.manifest;
+  }
+
+  async list(id?: string): Promise<ModelManifestEntry[]> {
+    const { models } = await this.getManifest();
+    return models.filter(m => !id || m.id === id).sort((a, b) => compareVersions(b.version, a.version));
+  }
+
+  /**
+   * The entry for a version, or the latest version of the model when none is given
+   */
+  async resolve(id: string, version?: string): Promise<ModelManifestEntry> {
+    const entries = await this.list(id);
+    const entry = version ? entries.find(e => e.version === version) : entries[0];
+    if (!entry) throw new Error(`Model ${id}${version ? `@${version}` : ''} is not registered`);
+    return entry;
+  }
+
+  async loadModel(id: string, version?: string): Promise<LoadedModel> {
+    const entry = await this.resolve(id, version);
+    const [topologyBytes, weightData] = await Promise.all([
+      this.fetchVerified(entry.artifacts.topology),
+      this.fetchVerified(entry.artifacts.weights)
+    ]);
+    const topology = JSON.parse(new TextDecoder().decode(topologyBytes));
+    const model = await tf.loadLayersModel(tf.io.fromMemory({
+      modelTopology: topology.modelTopology,
+      weightSpecs: topology.weightsManifest.flatMap((group: { weights: tf.io.WeightsManifestEntry[] }) => group.weights),
+      weightData
+    }));
+
+    const inputDim = (model.inputs[0].shape as number[])[1];
+    const outputDim = (model.outputs[0].shape as number[])[1];
+    if (inputDim !== schemaSize(entry.inputSchema) || outputDim !== entry.outputLabels.length) {
+      model.dispose();
+      throw new Error(`Model ${id}@${entry.version} has shape ${inputDim}→${outputDim}, ` +
+        `manifest declares ${schemaSize(entry.inputSchema)}→${entry.outputLabels.length}`);
+    }
+    this.logger.info('Model loaded', { id, version: entry.version });
+    return { model, entry };
+  }
+
+  private async fetchVerified(artifact: ModelArtifact): Promise<ArrayBuffer> {
+    const base = this.manifestUrl.slice(0, this.manifestUrl.lastIndexOf('/') + 1);
+    const data = await this.fetcher(base + artifact.path);
+    const digest = await sha256Hex(data);
+    if (digest !== artifact.sha256) {
+      throw new Error(`Checksum mismatch for ${artifact.path}: expected ${artifact.sha256}, got ${digest}`);
+    }
+    return data;
+  }
+}
+
+export const modelRegistry = ModelRegistry.getInstance();
@@ -1,4 +1,9 @@
 import * as tf from '@tensorflow/tfjs';
+import { KeystrokeAnalyticsSummary } from '../collectors/KeystrokeCollector';
+import { VoiceFeatures } from '../collectors/VoiceAnalyzer';
+import { modelRegistry, ModelInputSchema, ModelRef } from './ModelRegistry';
+import { applyCalibration, CalibrationMethod, ModelCalibration } from './Calibration';
+import { config } from '../config/AppConfig';
 
 export interface MultiModalFeatures {
   typing: number[]; // 47 features
@@ -12,42 +17,168 @@ export interface RiskScores {
   alzheimers: number;
   ms: number;
   overall: number;
-  confidence: number;
+  confidence: number; // 1 - held-out ECE of the overall output
+  model: ModelRef; // Registry model that produced the scores, or the heuristic fallback
+  calibration?: Record<string, { method: CalibrationMethod; ece: number }>; // By output label, when calibrated
+}
+
+export const RISK_MODEL_ID = 'cognitive-fingerprint-risk';
+export const RISK_INPUT_SCHEMA: ModelInputSchema = { typing: 47, voice: 13, motor: 23, temporal: 12 };
+export const RISK_OUTPUT_LABELS = ['parkinsons', 'alzheimers', 'ms', 'overall'];
+export const HEURISTIC_MODEL: ModelRef = { id: 'heuristic', version: '0' };
+
+export const RISK_FEATURE_GROUPS: (keyof MultiModalFeatures)[] = ['typing', 'voice', 'motor', 'temporal'];
+
+const reserved = (label: string, from: number, to: number) =>
+  Array.from({ length: to - from + 1 }, (_, i) => `${label} (reserved ${from + i})`);
+
+/**
+ * Display names for every input slot, in flattened order. Slots not yet fed by a collector are marked reserved.
+ */
+export const RISK_FEATURE_NAMES: string[] = [
+  'Mean dwell time', 'Mean flight time', 'Dwell variance', 'Dwell entropy', ...reserved('Typing', 5, RISK_INPUT_SCHEMA.typing),
+  'Voice pitch (F0)', 'Voice jitter', 'Voice shimmer', 'Harmonics-to-noise ratio',
+  ...Array.from({ length: 9 }, (_, i) => `MFCC ${i + 1}`),
+  'Pointer velocity', 'Pointer acceleration', 'Tremor amplitude', ...reserved('Motor', 4, RISK_INPUT_SCHEMA.motor),
+  ...reserved('Temporal', 1, RISK_INPUT_SCHEMA.temporal)
+];
+
+// Without held-out evidence the scores are no better than a coin flip at saying how sure they are
+const UNCALIBRATED_CONFIDENCE = 0.5;
+
+export const flattenRiskFeatures = (f: MultiModalFeatures) => [...f.typing, ...f.voice, ...f.motor, ...f.temporal];
+
+export function unflattenRiskFeatures(row: number[], schema: ModelInputSchema = RISK_INPUT_SCHEMA): MultiModalFeatures {
+  let offset = 0;
+  const take = (n: number) => row.slice(offset, offset += n);
+  return { typing: take(schema.typing), voice: take(schema.voice), motor: take(schema.motor), temporal: take(schema.temporal) };
+}
+
+export interface RiskFeatureSources {
+  keystroke?: Pick<KeystrokeAnalyticsSummary, 'meanDwell' | 'meanFlight' | 'varianceDwell' | 'entropy'>;
+  voice?: Pick<VoiceFeatures, 'f0' | 'jitter' | 'shimmer' | 'hnr' | 'mfcc'>;
+  motor?: { meanVelocity?: number; meanAcceleration?: number; tremorAmplitude?: number };
+}
+
+function padTo(values: number[], length: number, fill = 0): number[] {
+  return [...values, ...new Array(Math.max(0, length - values.length)).fill(fill)].slice(0, length);
+}
+
+/**
+ * Assemble the model input in the registry schema's layout; slots without a source yet stay at their fill value
+ */
+export function buildRiskFeatures({ keystroke, voice, motor }: RiskFeatureSources): MultiModalFeatures {
+  return {
+    typing: padTo(keystroke ? [keystroke.meanDwell/200, keystroke.meanFlight/300, keystroke.varianceDwell/1000, keystroke.entropy/4] : [], RISK_INPUT_SCHEMA.typing),
+    voice: voice
+      ? padTo([voice.f0/300, voice.jitter/5, voice.shimmer/10, voice.hnr/40, ...voice.mfcc.slice(0,9).map(v=>v/50)], RISK_INPUT_SCHEMA.voice)
+      : new Array(RISK_INPUT_SCHEMA.voice).fill(0.1),
+    motor: padTo([
+      motor?.meanVelocity ? motor.meanVelocity/1000 : 0,
+      motor?.meanAcceleration ? motor.meanAcceleration/5000 : 0,
+      motor?.tremorAmplitude ? motor.tremorAmplitude/500 : 0
+    ], RISK_INPUT_SCHEMA.motor),
+    temporal: new Array(RISK_INPUT_SCHEMA.temporal).fill(0.2)
+  };
 }
 
 export class CognitiveFingerprintModel {
   private model?: tf.LayersModel;
+  private ref: ModelRef = HEURISTIC_MODEL;
+  private schema: ModelInputSchema = RISK_INPUT_SCHEMA;
+  private calibration?: ModelCalibration;
 
-  async load(modelUrl: string) {
-    this.model = await tf.loadLayersModel(modelUrl);
+  /**
+   * Load a registered version (latest when omitted). Checksums and schema are verified by the registry.
+   */
+  async load(id = RISK_MODEL_ID, version?: string) {
+    const { model, entry } = await modelRegistry.loadModel(id, version);
+    this.model?.dispose();
+    this.model = model;
+    this.ref = { id: entry.id, version: entry.version };
+    this.schema = entry.inputSchema;
+    this.calibration = entry.calibration;
   }
 
-  infer(features: MultiModalFeatures): RiskScores {
+  getModelRef(): ModelRef {
+    return this.ref;
+  }
+
+  hasModel(): boolean {
+    return !!this.model;
+  }
+
+  /**
+   * Scores for a batch; `calibrated = false` gives the network's raw outputs, e.g. to match its gradients
+   */
+  inferBatch(batch: MultiModalFeatures[], calibrated = true): RiskScores[] {
+    if (!this.model) return batch.map(f => this.infer(f));
+    batch.forEach(f => this.checkSchema(f));
+    const rows = tf.tidy(() => (this.model!.predict(tf.tensor2d(batch.map(flattenRiskFeatures))) as tf.Tensor).arraySync() as number[][]);
+    return rows.map(arr => this.toScores(arr, calibrated));
+  }
+
+  /**
+   * Gradient of one output with respect to each flattened input row; needs a loaded tfjs model
+   */
+  outputGradients(rows: number[][], label = 'overall'): number[][] {
+    if (!this.model) throw new Error('Gradients need a loaded model; the heuristic fallback has none');
+    const index = RISK_OUTPUT_LABELS.indexOf(label);
+    if (index < 0) throw new Error(`Unknown output ${label}`);
+    return tf.tidy(() => {
+      const output = (x: tf.Tensor) => (this.model!.predict(x) as tf.Tensor).slice([0, index], [-1, 1]).sum();
+      return tf.grad(output)(tf.tensor2d(rows)).arraySync() as number[][];
+    });
+  }
+
+  infer(features: MultiModalFeatures, calibrated = true): RiskScores {
+    this.checkSchema(features);
+
     if (!this.model) {
-      // fallback heuristic (mock) for early dev
+      // Deterministic heuristic until a registered model is loaded
       const base = features.typing[0] || 0.1;
       return {
-        parkinsons: Math.min(1, base * 0.3 + Math.random()*0.05),
-        alzheimers: Math.min(1, base * 0.25 + Math.random()*0.05),
-        ms: Math.min(1, base * 0.2 + Math.random()*0.05),
+        parkinsons: Math.min(1, base * 0.3),
+        alzheimers: Math.min(1, base * 0.25),
+        ms: Math.min(1, base * 0.2),
         overall: base,
-        confidence: 0.85 + Math.random()*0.1
+        confidence: UNCALIBRATED_CONFIDENCE,
+        model: this.ref
       };
     }
-    const input = tf.tensor([[
-      ...features.typing.slice(0,47),
-      ...features.voice.slice(0,13),
-      ...features.motor.slice(0,23),
-      ...features.temporal.slice(0,12)
-    ]]);
-    const output = this.model.predict(input) as tf.Tensor;
-    const arr = output.dataSync();
+    const arr = tf.tidy(() => (this.model!.predict(tf.tensor2d([flattenRiskFeatures(features)])) as tf.Tensor).dataSync());
+    return this.toScores(arr, calibrated);
+  }
+
+  private checkSchema(features: MultiModalFeatures): void {
+    const mismatched = RISK_FEATURE_GROUPS.filter(g => features[g].length !== this.schema[g]);
+    if (mismatched.length) {
+      throw new Error(`Feature layout does not match ${this.ref.id}@${this.ref.version}: ` +
+        mismatched.map(g => `${g} has ${features[g].length}, expected ${this.schema[g]}`).join('; '));
+    }
+  }
+
+  private toScores(arr: ArrayLike<number>, calibrated: boolean): RiskScores {
+    const raw = [arr[0], arr[1], arr[2], arr[3] ?? (arr[0]+arr[1]+arr[2])/3];
+    const setting = config.get().scoring.riskCalibration;
+    const outputs = this.calibration?.outputs;
+    const applied = calibrated && setting !== 'none' && outputs ? {} as Record<string, { method: CalibrationMethod; ece: number }> : undefined;
+    const [parkinsons, alzheimers, ms, overall] = raw.map((v, i) => {
+      const output = outputs?.[RISK_OUTPUT_LABELS[i]];
+      if (!applied || !output) return v;
+      const method = setting === 'auto' ? output.method : setting as CalibrationMethod;
+      applied[RISK_OUTPUT_LABELS[i]] = { method, ece: output.ece[method] };
+      return applyCalibration(output, v, method);
+    });
+    const ece = applied?.overall?.ece ?? outputs?.overall?.rawEce;
     return {
-      parkinsons: arr[0],
-      alzheimers: arr[1],
-      ms: arr[2],
-      overall: arr[3] ?? (arr[0]+arr[1]+arr[2])/3,
-      confidence: 0.9 // placeholder
+      parkinsons,
+      alzheimers,
+      ms,
+      overall,
+      confidence: ece === undefined ? UNCALIBRATED_CONFIDENCE : 1 - ece,
+      model: this.ref,
+      calibration: applied
     };
   }
 }
@@ -0,0 +1,155 @@
+// Population priors for hierarchical baselines. Each feature's prior is the spread of per-user means across a healthy
+// cohort (between-user variance τ²) and the pooled spread of snapshots around each user's own mean (within-user
+// variance σ²). A user's baseline is the normal-inverse-gamma posterior: the mean is pulled toward the population mean
+// with weight κ₀ = σ²/τ² pseudo-snapshots and the variance toward σ² with a fixed number of pseudo-snapshots, so both
+// move to the user's own statistics as their data accumulates.
+import { BaselineModality, FeatureSnapshot } from './BaselineModeling';
+import { SyntheticEventGenerator, GeneratorConfig } from '../testing/SyntheticEventGenerator';
+import { featureRegistry } from '../features/FeatureRegistry';
+import { registerKeyboardFeatures, computeKeyboardFeatures, toKeystrokeMetrics } from '../features/KeyboardFeatures';
+import { registerMouseFeatures, computeMouseFeatures } from '../features/MouseFeatures';
+import bundledPriors from './populationPriors.json';
+
+export interface FeaturePrior {
+  mean: number; // Mean of the cohort's per-user means
+  between: number; // Variance of per-user means, τ²
+  within: number; // Pooled variance of snapshots around their user's mean, σ²
+  users: number; // Cohort members that reported the feature
+}
+
+export interface PopulationPriors {
+  source: string;
+  users: number;
+  snapshots: number;
+  features: Partial<Record<BaselineModality, Record<string, FeaturePrior>>>;
+}
+
+export interface PosteriorFeature {
+  mean: number;
+  variance: number; // Within-user variance
+  meanVariance: number; // Posterior variance of the mean
+  priorWeight: number; // κ₀ / (κ₀ + n): share of the mean that is still the population's
+}
+
+export const BUNDLED_POPULATION_PRIORS = bundledPriors as PopulationPriors;
+
+const MODALITIES: BaselineModality[] = ['keyboard', 'mouse', 'touch', 'scroll', 'focus', 'composite'];
+const TICK_MS = 5000; // Matches the live feature-extraction tick, so snapshot spreads are comparable
+const TIMES_OF_DAY: GeneratorConfig['environmentFactors']['timeOfDay'][] = ['morning', 'afternoon', 'evening', 'night'];
+
+const numeric = (v: unknown): v is number => typeof v === 'number' && isFinite(v);
+
+/**
+ * Method-of-moments priors from a cohort of users' snapshots. τ² is the variance of user means less the share of it
+ * explained by sampling noise, floored at 1% of σ² so no feature claims that everyone is identical.
+ */
+export function derivePopulationPriors(cohort: FeatureSnapshot[][], source: string): PopulationPriors {
+  const features: PopulationPriors['features'] = {};
+
+  for (const modality of MODALITIES) {
+    const perUser = new Map<string, { mean: number; ss: number; n: number }[]>();
+    cohort.forEach(snapshots => {
+      const values = new Map<string, number[]>();
+      snapshots.forEach(s => Object.entries((s[modality] ?? {}) as Record<string, unknown>).forEach(([key, v]) => {
+        if (key === 'timestamp' || !numeric(v)) return;
+        if (!values.has(key)) values.set(key, []);
+        values.get(key)!.push(v);
+      }));
+      values.forEach((vs, key) => {
+        if (vs.length < 2) return;
+        const mean = vs.reduce((a, b) => a + b, 0) / vs.length;
+        if (!perUser.has(key)) perUser.set(key, []);
+        perUser.get(key)!.push({ mean, ss: vs.reduce((sum, v) => sum + (v - mean) ** 2, 0), n: vs.length });
+      });
+    });
+
+    const priors: Record<string, FeaturePrior> = {};
+    perUser.forEach((users, key) => {
+      if (users.length < 3) return;
+      const within = users.reduce((s, u) => s + u.ss, 0) / users.reduce((s, u) => s + u.n - 1, 0);
+      const mean = users.reduce((s, u) => s + u.mean, 0) / users.length;
+      const spread = users.reduce((s, u) => s + (u.mean - mean) ** 2, 0) / (users.length - 1);
+      const noise = within * users.reduce((s, u) => s + 1 / u.n, 0) / users.length;
+      if (!(within > 0)) return;
+      priors[key] = { mean, between: Math.max(spread - noise, within * 0.01), within, users: users.length };
+    });
+    if (Object.keys(priors).length) features[modality] = priors;
+  }
+
+  return {
+    source,
+    users: cohort.length,
+    snapshots: cohort.reduce((s, snapshots) => s + snapshots.length, 0),
+    features
+  };
+}
+
+/**
+ * Posterior for one feature from a user's values. κ₀ is capped so a cohort with little between-user spread cannot
+ * drown out the user's own data.
+ */
+export function posteriorFeature(values: number[], prior: FeaturePrior, varianceStrength: number, maxPriorStrength: number): PosteriorFeature {
+  const n = values.length;
+  const kappa = Math.min(maxPriorStrength, prior.within / prior.between);
+  const sampleMean = n ? values.reduce((a, b) => a + b, 0) / n : prior.mean;
+  const ss = values.reduce((sum, v) => sum + (v - sampleMean) ** 2, 0);
+  const mean = (kappa * prior.mean + n * sampleMean) / (kappa + n);
+  const variance = varianceStrength + n > 0 ? (varianceStrength * prior.within + ss) / (varianceStrength + n) : prior.within;
+  return { mean, variance, meanVariance: variance / (kappa + n), priorWeight: kappa / (kappa + n) };
+}
+
+/**
+ * Snapshots for a cohort of synthetic healthy users. Each user keeps their own noise level, fatigue, temperature and
+ * caffeine habit across sessions, which is where the between-user spread comes from.
+ */
+export async function buildHealthyCohort(users = 24, sessionsPerUser = 10, seed = 29): Promise<FeatureSnapshot[][]> {
+  if (!featureRegistry.getByType('keystroke').length) registerKeyboardFeatures();
+  if (!featureRegistry.getByType('mouse').length) registerMouseFeatures();
+  const generator = new SyntheticEventGenerator(seed);
+  let state = seed;
+  const random = () => { state = (state * 16807) % 2147483647; return state / 2147483647; };
+
+  const cohort: FeatureSnapshot[][] = [];
+  for (let u = 0; u < users; u++) {
+    const noiseLevel = 0.05 + random() * 0.2;
+    const fatigue = random() * 0.3;
+    const temperature = 18 + random() * 10;
+    const caffeine = random();
+    const snapshots: FeatureSnapshot[] = [];
+    for (let i = 0; i < sessionsPerUser; i++) {
+      const config: GeneratorConfig = {
+        profile: 'healthy_baseline',
+        sessionDurationMs: TICK_MS,
+        eventRate: 5,
+        noiseLevel,
+        progressionFactor: 0,
+        environmentFactors: {
+          temperature,
+          timeOfDay: TIMES_OF_DAY[Math.floor(random() * TIMES_OF_DAY.length)],
+          caffeinated: random() < caffeine,
+          fatigueLevel: Math.min(1, fatigue + random() * 0.1)
+        }
+      };
+      const session = generator.generateSession(config);
+      const sessionId = `cohort_${u}_${i}`;
+      snapshots.push({
+        timestamp: i * TICK_MS,
+        sessionId,
+        keyboard: await computeKeyboardFeatures(toKeystrokeMetrics(session.keystrokeEvents), sessionId),
+        mouse: await computeMouseFeatures(session.mouseEvents.map(e => ({ t: e.timestamp, x: e.x, y: e.y })), sessionId),
+        environmentalContext: {},
+        quality: 1
+      });
+    }
+    cohort.push(snapshots);
+  }
+  return cohort;
+}
+
+/**
+ * Priors from the configured source; the synthetic cohort is generated on demand
+ */
+export async function loadPopulationPriors(source: 'bundled' | 'synthetic'): Promise<PopulationPriors> {
+  if (source === 'bundled') return BUNDLED_POPULATION_PRIORS;
+  return derivePopulationPriors(await buildHealthyCohort(), 'synthetic healthy cohort');
+}
@@ -0,0 +1,172 @@
+// RiskTraining: labelled synthetic sessions in the registry's input layout, and the training routine for the risk model.
+// scripts/train-risk-model.ts writes the result into public/models and registers it in the manifest.
+import * as tf from '@tensorflow/tfjs';
+import { KeystrokeEvent } from '../collectors/KeystrokeCollector';
+import { SyntheticEventGenerator, EventGeneratorProfile, GeneratorConfig } from '../testing/SyntheticEventGenerator';
+import { buildRiskFeatures, flattenRiskFeatures, MultiModalFeatures, RISK_INPUT_SCHEMA, RISK_OUTPUT_LABELS } from './PatternRecognition';
+import { schemaSize } from './ModelRegistry';
+import { calibrateOutput, ModelCalibration } from './Calibration';
+import { createComponentLogger } from '../utils/Logger';
+
+const logger = createComponentLogger('RiskTraining');
+
+const PROFILES: EventGeneratorProfile[] = [
+  'healthy_baseline', 'parkinsons_early', 'parkinsons_moderate', 'alzheimers_early', 'alzheimers_moderate',
+  'ms_relapsing', 'als_early', 'fatigue_moderate', 'stress_high', 'medication_effect'
+];
+const SESSION_MS = 30000;
+const EVENT_RATE = 5;
+
+export interface RiskSample {
+  profile: EventGeneratorProfile;
+  features: MultiModalFeatures;
+  targets: number[]; // In RISK_OUTPUT_LABELS order
+}
+
+export interface RiskEvaluation {
+  loss: number;
+  accuracy: number; // Condition labels thresholded at 0.5
+  overallMae: number;
+}
+
+export interface RiskTrainingOptions {
+  size?: number;
+  seed?: number;
+  epochs?: number;
+  testSplit?: number;
+  onEpochEnd?: (epoch: number, logs?: tf.Logs) => void;
+}
+
+export interface RiskTrainingResult {
+  model: tf.LayersModel;
+  evaluation: RiskEvaluation;
+  calibration: ModelCalibration; // Fitted and evaluated on alternate halves of the test split
+  trainSize: number;
+  testSize: number;
+}
+
+function keystrokeSummary(events: KeystrokeEvent[]) {
+  const dwells = events.map(e => e.dwell ?? 0);
+  const flights: number[] = [];
+  for (let i = 1; i < events.length; i++) {
+    if (events[i - 1].upTime !== undefined) flights.push(events[i].downTime - events[i - 1].upTime!);
+  }
+  const mean = (a: number[]) => a.length ? a.reduce((s, v) => s + v, 0) / a.length : 0;
+  const meanDwell = mean(dwells);
+  const buckets = new Array(10).fill(0);
+  dwells.forEach(d => buckets[Math.min(9, Math.max(0, Math.floor(d / 50)))]++);
+  return {
+    meanDwell,
+    meanFlight: mean(flights),
+    varianceDwell: mean(dwells.map(d => (d - meanDwell) ** 2)),
+    entropy: -buckets.reduce((s, c) => c ? s + (c / dwells.length) * Math.log2(c / dwells.length) : s, 0)
+  };
+}
+
+/**
+ * One session per sample with a random profile, progression and environment. Condition targets are 1 for the
+ * matching profile family; the overall target is the generator's ground-truth anomaly score.
+ */
+export function buildRiskSamples(size = 1500, seed = 7): RiskSample[] {
+  const generator = new SyntheticEventGenerator(seed);
+  let state = seed;
+  const random = () => { state = (state * 16807) % 2147483647; return state / 2147483647; };
+
+  return Array.from({ length: size }, () => {
+    const profile = PROFILES[Math.floor(random() * PROFILES.length)];
+    const config: GeneratorConfig = {
+      profile,
+      sessionDurationMs: SESSION_MS,
+      eventRate: EVENT_RATE,
+      noiseLevel: 0.05 + random() * 0.15,
+      progressionFactor: profile === 'healthy_baseline' ? 0 : random(),
+      environmentFactors: { temperature: 18 + random() * 10, timeOfDay: 'afternoon', caffeinated: random() < 0.3, fatigueLevel: random() * 0.3 }
+    };
+    const session = generator.generateSession(config);
+    const mouse = generator.generateMouseMetrics(config);
+    const features = buildRiskFeatures({
+      keystroke: keystrokeSummary(session.keystrokeEvents),
+      voice: generator.generateVoiceFeatures(config),
+      motor: { meanVelocity: mouse.velocityMean, meanAcceleration: mouse.accelerationMean, tremorAmplitude: mouse.tremorIndex }
+    });
+    const targets = [
+      profile.startsWith('parkinsons') ? 1 : 0,
+      profile.startsWith('alzheimers') ? 1 : 0,
+      profile.startsWith('ms') ? 1 : 0,
+      session.groundTruthLabels.anomalyScore
+    ];
+    return { profile, features, targets };
+  });
+}
+
+export function createRiskModel(): tf.LayersModel {
+  const model = tf.sequential({
+    layers: [
+      tf.layers.dense({ inputShape: [schemaSize(RISK_INPUT_SCHEMA)], units: 32, activation: 'relu' }),
+      tf.layers.dense({ units: RISK_OUTPUT_LABELS.length, activation: 'sigmoid' })
+    ]
+  });
+  model.compile({ optimizer: tf.train.adam(0.01), loss: 'binaryCrossentropy' });
+  return model;
+}
+
+function predictRisk(model: tf.LayersModel, samples: RiskSample[]): number[][] {
+  return tf.tidy(() => (model.predict(tf.tensor2d(samples.map(s => flattenRiskFeatures(s.features)))) as tf.Tensor).arraySync() as number[][]);
+}
+
+/**
+ * Platt and isotonic calibration of every output, fitted on even-indexed samples and compared on odd ones
+ */
+export function calibrateRiskModel(model: tf.LayersModel, samples: RiskSample[], bins = 10): ModelCalibration {
+  const predictions = predictRisk(model, samples);
+  const split = (j: number, parity: number) => ({
+    scores: predictions.filter((_, i) => i % 2 === parity).map(p => p[j]),
+    labels: samples.filter((_, i) => i % 2 === parity).map(s => s.targets[j])
+  });
+  const outputs = Object.fromEntries(RISK_OUTPUT_LABELS.map((label, j) => [label, calibrateOutput(split(j, 0), split(j, 1), bins)]));
+  logger.info('Risk model calibrated', Object.fromEntries(RISK_OUTPUT_LABELS.map(l => [l, `${outputs[l].method} ECE ${outputs[l].ece[outputs[l].method].toFixed(3)} (raw ${outputs[l].rawEce.toFixed(3)})`])));
+  return { fitSize: Math.ceil(samples.length / 2), evalSize: Math.floor(samples.length / 2), bins, outputs };
+}
+
+export function evaluateRiskModel(model: tf.LayersModel, samples: RiskSample[]): RiskEvaluation {
+  const predictions = predictRisk(model, samples);
+  const eps = 1e-7;
+  let loss = 0, correct = 0, overallError = 0;
+  predictions.forEach((p, i) => {
+    const t = samples[i].targets;
+    p.forEach((v, j) => { loss -= t[j] * Math.log(v + eps) + (1 - t[j]) * Math.log(1 - v + eps); });
+    for (let j = 0; j < 3; j++) if ((p[j] > 0.5 ? 1 : 0) === t[j]) correct++;
+    overallError += Math.abs(p[3] - t[3]);
+  });
+  return {
+    loss: loss / (samples.length * RISK_OUTPUT_LABELS.length),
+    accuracy: correct / (samples.length * 3),
+    overallMae: overallError / samples.length
+  };
+}
+
+export async function trainRiskModel(options: RiskTrainingOptions = {}): Promise<RiskTrainingResult> {
+  const { size = 1500, seed = 7, epochs = 80, testSplit = 0.2, onEpochEnd } = options;
+  const samples = buildRiskSamples(size, seed);
+  const testSize = Math.max(1, Math.round(samples.length * testSplit));
+  const train = samples.slice(0, samples.length - testSize);
+
+  const model = createRiskModel();
+  const x = tf.tensor2d(train.map(s => flattenRiskFeatures(s.features)));
+  const y = tf.tensor2d(train.map(s => s.targets));
+  logger.info('Training risk model', { trainSize: train.length, testSize, epochs });
+  try {
+    await model.fit(x, y, {
+      epochs,
+      batchSize: 32,
+      shuffle: true,
+      callbacks: onEpochEnd ? { onEpochEnd: async (epoch, logs) => onEpochEnd(epoch, logs) } : undefined
+    });
+  } finally {
+    x.dispose(); y.dispose();
+  }
+  const test = samples.slice(train.length);
+  const evaluation = evaluateRiskModel(model, test);
+  logger.info('Risk model evaluated', { ...evaluation });
+  return { model, evaluation, calibration: calibrateRiskModel(model, test), trainSize: train.length, testSize };
+}
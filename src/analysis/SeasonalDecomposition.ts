@@ -0,0 +1,161 @@
+// STL-style decomposition (Cleveland et al. 1990) of an irregularly sampled score series into daily and weekly
+// seasonal components, a LOESS trend and a residual. Seasonal components are cycle-subseries means by local hour
+// of day and day of week, refitted alternately with the trend; an outer loop downweights outliers with bisquare
+// robustness weights.
+import { median } from './LinearAlgebra';
+
+export interface SeasonalPoint {
+  t: number;
+  value: number;
+  weight?: number; // e.g. the number of scores averaged into the point
+}
+
+export interface SeasonalDecomposition {
+  // Aligned with the input points
+  trend: number[];
+  daily: number[];
+  weekly: number[];
+  residual: number[];
+  circadianPattern?: number[]; // 24 offsets by local hour; undefined until the series spans minDaysForDaily
+  weeklyPattern?: number[]; // 7 offsets by Date.getDay(), Sunday first; undefined until it spans minDaysForWeekly
+  seasonalStrength: number; // 0-1, 1 - var(residual) / var(seasonal + residual)
+}
+
+export interface DecompositionOptions {
+  trendWindowMs?: number; // LOESS half-width; longer than a week so the trend cannot absorb the weekly cycle
+  innerIterations?: number;
+  robustIterations?: number;
+  minDaysForDaily?: number;
+  minDaysForWeekly?: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const SEASONAL_HISTORY_HOURS = 8 * 7 * 24; // Hourly means kept for the decomposition
+
+/**
+ * Weighted mean of `values` per cycle position, centred on zero over the positions that have data.
+ * Positions without data get no offset.
+ */
+function cycleProfile(values: number[], positions: number[], weights: number[], period: number): number[] {
+  const sum = new Array(period).fill(0);
+  const total = new Array(period).fill(0);
+  values.forEach((v, i) => {
+    sum[positions[i]] += v * weights[i];
+    total[positions[i]] += weights[i];
+  });
+  const filled = sum.map((s, p) => (total[p] > 0 ? s / total[p] : null));
+  const present = filled.filter((v): v is number => v !== null);
+  const centre = present.reduce((s, v) => s + v, 0) / Math.max(1, present.length);
+  return filled.map(v => (v === null ? 0 : v - centre));
+}
+
+/**
+ * Local linear regression at every point with tricube weights over `window` ms either side. `t` is sorted.
+ */
+function loess(t: number[], values: number[], weights: number[], window: number): number[] {
+  let lo = 0;
+  return t.map(ti => {
+    while (t[lo] <= ti - window) lo++;
+    let sw = 0, sx = 0, sy = 0, sxx = 0, sxy = 0;
+    for (let j = lo; j < t.length && t[j] < ti + window; j++) {
+      const d = Math.abs(t[j] - ti) / window;
+      const tricube = 1 - d * d * d;
+      const w = weights[j] * tricube * tricube * tricube;
+      const x = (t[j] - ti) / window;
+      sw += w; sx += w * x; sy += w * values[j]; sxx += w * x * x; sxy += w * x * values[j];
+    }
+    if (sw === 0) return NaN;
+    const denom = sw * sxx - sx * sx;
+    // Intercept at x = 0; a flat fit where the points do not spread enough to fix a slope
+    return Math.abs(denom) < 1e-12 ? sy / sw : (sy * sxx - sx * sxy) / denom;
+  });
+}
+
+function variance(values: number[]): number {
+  const m = values.reduce((s, v) => s + v, 0) / Math.max(1, values.length);
+  return values.reduce((s, v) => s + (v - m) ** 2, 0) / Math.max(1, values.length);
+}
+
+export function decomposeSeasonality(points: SeasonalPoint[], options: DecompositionOptions = {}): SeasonalDecomposition {
+  const { trendWindowMs = 10 * DAY_MS, innerIterations = 2, robustIterations = 2, minDaysForDaily = 2, minDaysForWeekly = 14 } = options;
+  const sorted = [...points].filter(p => isFinite(p.value)).sort((a, b) => a.t - b.t);
+  const n = sorted.length;
+  if (!n) return { trend: [], daily: [], weekly: [], residual: [], seasonalStrength: 0 };
+
+  const t = sorted.map(p => p.t);
+  const y = sorted.map(p => p.value);
+  const baseWeights = sorted.map(p => p.weight ?? 1);
+  const hours = t.map(ti => new Date(ti).getHours());
+  const days = t.map(ti => new Date(ti).getDay());
+  const span = t[n - 1] - t[0];
+  const fitDaily = span >= minDaysForDaily * DAY_MS;
+  const fitWeekly = span >= minDaysForWeekly * DAY_MS;
+
+  let robustness = new Array(n).fill(1);
+  let daily = new Array(n).fill(0);
+  let weekly = new Array(n).fill(0);
+  let circadianPattern: number[] | undefined;
+  let weeklyPattern: number[] | undefined;
+  let trend = new Array(n).fill(y.reduce((s, v, i) => s + v * baseWeights[i], 0) / baseWeights.reduce((s, w) => s + w, 0));
+
+  for (let outer = 0; outer <= robustIterations; outer++) {
+    const weights = baseWeights.map((w, i) => w * robustness[i]);
+    for (let inner = 0; inner < innerIterations; inner++) {
+      if (fitDaily) {
+        circadianPattern = cycleProfile(y.map((v, i) => v - trend[i] - weekly[i]), hours, weights, 24);
+        daily = hours.map(h => circadianPattern![h]);
+      }
+      if (fitWeekly) {
+        weeklyPattern = cycleProfile(y.map((v, i) => v - trend[i] - daily[i]), days, weights, 7);
+        weekly = days.map(d => weeklyPattern![d]);
+      }
+      const fitted = loess(t, y.map((v, i) => v - daily[i] - weekly[i]), weights, trendWindowMs);
+      trend = fitted.map((v, i) => (isNaN(v) ? trend[i] : v));
+    }
+    if (outer === robustIterations) break;
+
+    const residual = y.map((v, i) => v - trend[i] - daily[i] - weekly[i]);
+    const h = 6 * median(residual.map(Math.abs));
+    robustness = residual.map(r => {
+      if (!(h > 0)) return 1;
+      const u = r / h;
+      return Math.abs(u) < 1 ? (1 - u * u) ** 2 : 0;
+    });
+  }
+
+  const residual = y.map((v, i) => v - trend[i] - daily[i] - weekly[i]);
+  const seasonalPlusResidual = residual.map((r, i) => r + daily[i] + weekly[i]);
+  const spread = variance(seasonalPlusResidual);
+  const seasonalStrength = fitDaily && spread > 0 ? Math.max(0, 1 - variance(residual) / spread) : 0;
+
+  return { trend, daily, weekly, residual, circadianPattern, weeklyPattern, seasonalStrength };
+}
+
+/**
+ * Seasonal offset the decomposition expects at time t
+ */
+export function seasonalOffset(decomposition: Pick<SeasonalDecomposition, 'circadianPattern' | 'weeklyPattern'> | undefined, t: number): number {
+  if (!decomposition) return 0;
+  const date = new Date(t);
+  return (decomposition.circadianPattern?.[date.getHours()] ?? 0) + (decomposition.weeklyPattern?.[date.getDay()] ?? 0);
+}
+
+/**
+ * Hourly means of a score series, each weighted by the number of scores in its hour
+ */
+export function hourlyMeans(scores: { timestamp: number; overall: number }[]): SeasonalPoint[] {
+  const points: SeasonalPoint[] = [];
+  [...scores].sort((a, b) => a.timestamp - b.timestamp).forEach(score => {
+    const hour = Math.floor(score.timestamp / HOUR_MS) * HOUR_MS;
+    const last = points[points.length - 1];
+    if (last && last.t === hour) {
+      last.weight = (last.weight ?? 1) + 1;
+      last.value += (score.overall - last.value) / last.weight;
+    } else {
+      points.push({ t: hour, value: score.overall, weight: 1 });
+    }
+  });
+  return points;
+}
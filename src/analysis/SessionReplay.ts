@@ -0,0 +1,162 @@
+// SessionReplay: feeds a recorded session back through the analysis pipeline on a virtual clock
+import { AnalysisPipeline, PipelineTickResult } from './AnalysisPipeline';
+import { baselineModeling } from './BaselineModeling';
+import { adaptiveRecognition, DriftDetection } from './AdaptiveRecognition';
+import { statisticalProcessControl } from './StatisticalProcessControl';
+import { contextAdjustment } from './ContextAdjustment';
+import { conformalPrediction } from './ConformalPrediction';
+import { KeystrokeEvent } from '../collectors/KeystrokeCollector';
+import { MouseSample } from '../collectors/MouseTracker';
+import { TouchSample } from '../collectors/TouchTracker';
+import { ScrollSample } from '../collectors/ScrollCollector';
+import { VoiceFeatures } from '../collectors/VoiceAnalyzer';
+import { FocusAttentionFeatures } from '../features/FocusFeatures';
+import { SessionRecording, RecordedTickOutputs } from '../core/SessionRecorder';
+import { clock, VirtualClock } from '../utils/Clock';
+import { createComponentLogger } from '../utils/Logger';
+
+export interface ReplayTick {
+  t: number;
+  result: PipelineTickResult;
+  voice?: VoiceFeatures; // Latest voice frame at the tick; voice feeds risk scoring, not the snapshot
+  outputs: RecordedTickOutputs;
+  recorded?: RecordedTickOutputs; // What the live pipeline reported at this tick, when the recording has it
+}
+
+export interface ReplayResult {
+  recordingId: string;
+  sessionId: string;
+  ticks: ReplayTick[];
+  drifts: DriftDetection[];
+  mismatches: number[]; // Times of ticks whose outputs differ from the recorded live ones
+}
+
+// Same windows the live sample accessors return (collector getSamples defaults)
+const KEYSTROKE_WINDOW = 300;
+const MOUSE_WINDOW = 600;
+const TOUCH_WINDOW = 600;
+const SCROLL_WINDOW = 300;
+
+/**
+ * The tick outputs a recording keeps, for checking that a replay reproduces the live session
+ */
+export function tickOutputs(result: PipelineTickResult): RecordedTickOutputs {
+  return {
+    similarity: Number.isFinite(result.similarity?.overall) ? result.similarity!.overall : undefined, // NaN would not survive JSON
+    baselineVersion: result.baseline?.version,
+    drifting: result.drift?.isDrifting,
+    violations: result.controlCharts?.violations.length
+  };
+}
+
+const sameOutputs = (a: RecordedTickOutputs, b: RecordedTickOutputs) =>
+  a.similarity === b.similarity && a.baselineVersion === b.baselineVersion && a.drifting === b.drifting && a.violations === b.violations;
+
+export class SessionReplay {
+  private static instance: SessionReplay;
+  private logger = createComponentLogger('SessionReplay');
+  private running = false;
+
+  private constructor() {}
+
+  static getInstance(): SessionReplay {
+    if (!SessionReplay.instance) {
+      SessionReplay.instance = new SessionReplay();
+    }
+    return SessionReplay.instance;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Replay a recording from the pipeline state it was started on, or a clean state when it has none. Replaying the
+   * same recording always yields identical ticks.
+   * While a replay runs the shared clock is virtual, so only one replay may run at a time and nothing else may run
+   * the pipeline in the same thread; ReplayWorker gives each replay a thread of its own.
+   */
+  async replay(recording: SessionRecording): Promise<ReplayResult> {
+    if (this.running) throw new Error('A replay is already running');
+    this.running = true;
+
+    const userId = `replay:${recording.id}`;
+    const virtualClock = new VirtualClock(recording.startedAt);
+    const pipeline = new AnalysisPipeline({ assessConfidence: false });
+    let keystrokes: KeystrokeEvent[] = [];
+    let mouse: MouseSample[] = [];
+    let touch: TouchSample[] = [];
+    let scroll: ScrollSample[] = [];
+    let focus: FocusAttentionFeatures | undefined;
+    let voice: VoiceFeatures | undefined;
+    const ticks: ReplayTick[] = [];
+    const drifts: DriftDetection[] = [];
+    const mismatches: number[] = [];
+
+    this.forget(userId);
+    if (recording.initialState) pipeline.importState(userId, recording.sessionId, recording.initialState);
+    clock.useSource(virtualClock);
+    try {
+      for (const frame of recording.frames) {
+        virtualClock.set(frame.t);
+        switch (frame.kind) {
+          case 'keystroke':
+            keystrokes = keystrokes.concat(frame.events).slice(-KEYSTROKE_WINDOW);
+            break;
+          case 'mouse':
+            mouse = mouse.concat(frame.samples).slice(-MOUSE_WINDOW);
+            break;
+          case 'touch':
+            touch = touch.concat(frame.samples).slice(-TOUCH_WINDOW);
+            break;
+          case 'scroll':
+            scroll = scroll.concat(frame.samples).slice(-SCROLL_WINDOW);
+            break;
+          case 'focus':
+            focus = frame.features;
+            break;
+          case 'voice':
+            voice = frame.features;
+            break;
+          case 'tick': {
+            const result = await pipeline.tick({
+              userId,
+              sessionId: recording.sessionId,
+              timestamp: frame.t,
+              quality: frame.quality,
+              keystrokes,
+              mouse,
+              touch,
+              scroll,
+              focus,
+              context: frame.context
+            });
+            const outputs = tickOutputs(result);
+            if (frame.outputs && !sameOutputs(outputs, frame.outputs)) mismatches.push(frame.t);
+            // Baselines are updated in place by later ticks; keep each tick's view as it was
+            ticks.push(structuredClone({ t: frame.t, result, voice, outputs, recorded: frame.outputs }));
+            if (result.drift) drifts.push(structuredClone(result.drift));
+            break;
+          }
+        }
+      }
+    } finally {
+      clock.useSystem();
+      this.forget(userId);
+      this.running = false;
+    }
+
+    this.logger.info('Replay completed', { recordingId: recording.id, ticks: ticks.length, drifts: drifts.length, mismatches: mismatches.length });
+    return { recordingId: recording.id, sessionId: recording.sessionId, ticks, drifts, mismatches };
+  }
+
+  private forget(userId: string): void {
+    baselineModeling.forget(userId);
+    adaptiveRecognition.forget(userId);
+    statisticalProcessControl.forget(userId);
+    contextAdjustment.forget(userId);
+    conformalPrediction.forget(userId);
+  }
+}
+
+export const sessionReplay = SessionReplay.getInstance();
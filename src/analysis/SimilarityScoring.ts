@@ -1,6 +1,9 @@
 /* eslint-disable no-trailing-spaces */
-import { BaselinePattern, FeatureSnapshot } from './BaselineModeling';
+import { BaselinePattern, FeatureSnapshot, BaselineModality, ModalityCovariance } from './BaselineModeling';
+import { cholesky, mahalanobisSquared } from './LinearAlgebra';
 import { createComponentLogger } from '../utils/Logger';
+import { clock } from '../utils/Clock';
+import { config as appConfig } from '../config/AppConfig';
 
 const logger = createComponentLogger('SimilarityScoring');
 
@@ -8,11 +11,13 @@ export interface SimilarityScore {
   overall: number; // 0-1, overall similarity to baseline
   confidence: number; // 0-1, confidence in the score
   timestamp: number;
+  method?: ScoringMethod; // Method that produced the modality scores
   
   // Per-modality scores
   modalities: {
     keyboard: ModalitySimilarity;
     mouse: ModalitySimilarity;
+    touch: ModalitySimilarity;
     scroll: ModalitySimilarity;
     focus: ModalitySimilarity;
     composite: ModalitySimilarity;
@@ -20,6 +25,7 @@ export interface SimilarityScore {
   
   // Interpretation and explainability
   interpretation: ScoringInterpretation;
+  counterfactual?: SimilarityCounterfactual; // Set when overall is below the configured counterfactual target
   
   // Quality metrics
   reliability: number; // 0-1, how reliable this score is
@@ -79,6 +85,25 @@ export interface MedicalFlag {
   recommendedAction: string;
 }
 
+// Smallest set of in-bounds feature changes that would bring the overall score up to a target
+export interface SimilarityCounterfactual {
+  target: number;
+  achieved: boolean; // False when even the best in-bounds changes fall short
+  originalScore: number;
+  counterfactualScore: number;
+  changes: CounterfactualChange[];
+  summary: string;
+}
+
+export interface CounterfactualChange {
+  modality: BaselineModality;
+  feature: string;
+  currentValue: number;
+  suggestedValue: number;
+  bounds: [number, number];
+  scoreGain: number; // Overall similarity gained when this change is added
+}
+
 export type ScoringMethod = 
   | 'euclidean' 
   | 'cosine' 
@@ -86,11 +111,34 @@ export type ScoringMethod =
   | 'weighted_composite' 
   | 'robust_statistical';
 
+export const SCORING_METHODS: ScoringMethod[] = ['euclidean', 'cosine', 'mahalanobis', 'weighted_composite', 'robust_statistical'];
+
+// One snapshot scored under every method, to show how much conclusions depend on the metric
+export interface MethodComparison {
+  timestamp: number;
+  configuredMethod: ScoringMethod;
+  methods: Record<ScoringMethod, { overall: number; modalities: Partial<Record<BaselineModality, number>> }>;
+  spread: number; // max - min overall similarity across methods
+}
+
+type FeatureVariance = { mean: number; std: number; bounds: [number, number]; median?: number; mad?: number };
+
+interface ComparedFeature {
+  feature: string;
+  current: number;
+  baseline: number;
+  variance?: FeatureVariance;
+}
+
+// Keys that feature extractors add for bookkeeping rather than measurement
+const NON_FEATURE_KEYS = new Set(['timestamp']);
+
 export interface ScoringConfiguration {
   method: ScoringMethod;
   weights: {
     keyboard: number;
     mouse: number;
+    touch: number;
     scroll: number;
     focus: number;
     composite: number;
@@ -111,6 +159,13 @@ export class SimilarityScoring {
 
   private constructor() {
     this.config = this.getDefaultConfiguration();
+    // The scoring method is user-selectable through AppConfig
+    this.config.method = appConfig.get().scoring.similarityMethod;
+    appConfig.onChange(next => {
+      if (next.scoring.similarityMethod !== this.config.method) {
+        this.updateConfiguration({ method: next.scoring.similarityMethod });
+      }
+    });
   }
 
   static getInstance(): SimilarityScoring {
@@ -131,7 +186,7 @@ export class SimilarityScoring {
     
     try {
       // Compute per-modality similarities
-      const modalities = await this.computeModalitySimilarities(currentSnapshot, baseline);
+      const modalities = await this.computeModalitySimilarities(currentSnapshot, baseline, this.config.method);
       
       // Compute overall similarity
       const overall = this.computeOverallSimilarity(modalities);
@@ -149,13 +204,19 @@ export class SimilarityScoring {
       const score: SimilarityScore = {
         overall,
         confidence,
-        timestamp: Date.now(),
+        timestamp: clock.now(),
+        method: this.config.method,
         modalities,
         interpretation,
         reliability,
         coverage
       };
 
+      const target = appConfig.get().scoring.counterfactualTarget;
+      if (overall < target) {
+        score.counterfactual = await this.generateCounterfactual(currentSnapshot, baseline, target);
+      }
+
       const computeTime = performance.now() - startTime;
       logger.debug('Similarity score computed', {
         userId: baseline.userId,
@@ -177,15 +238,135 @@ export class SimilarityScoring {
     }
   }
 
+  /**
+   * Score one snapshot under every method. The configured method is left unchanged.
+   */
+  async compareMethods(currentSnapshot: FeatureSnapshot, baseline: BaselinePattern): Promise<MethodComparison> {
+    const methods = {} as MethodComparison['methods'];
+
+    for (const method of SCORING_METHODS) {
+      const modalities = await this.computeModalitySimilarities(currentSnapshot, baseline, method);
+      const perModality: Partial<Record<BaselineModality, number>> = {};
+      (Object.keys(modalities) as BaselineModality[]).forEach(m => {
+        if (modalities[m].featureCount > 0) perModality[m] = modalities[m].score;
+      });
+      methods[method] = { overall: this.computeOverallSimilarity(modalities), modalities: perModality };
+    }
+
+    const overalls = SCORING_METHODS.map(m => methods[m].overall);
+    return {
+      timestamp: clock.now(),
+      configuredMethod: this.config.method,
+      methods,
+      spread: Math.max(...overalls) - Math.min(...overalls)
+    };
+  }
+
+  /**
+   * Find the fewest feature changes, each kept within the baseline's variability bounds, that lift the overall
+   * score to the target. Features are added greedily by gain, redundant ones are dropped, and each remaining
+   * change is then shortened to the smallest move that still reaches the target.
+   */
+  async generateCounterfactual(
+    snapshot: FeatureSnapshot,
+    baseline: BaselinePattern,
+    target = appConfig.get().scoring.counterfactualTarget,
+    maxChanges = 5
+  ): Promise<SimilarityCounterfactual> {
+    const method = this.config.method;
+    const evaluate = async (s: FeatureSnapshot) =>
+      this.computeOverallSimilarity(await this.computeModalitySimilarities(s, baseline, method));
+    const originalScore = await evaluate(snapshot);
+
+    type Candidate = { modality: BaselineModality; feature: string; current: number; bounds: [number, number]; start: number; centre: number };
+    const candidates: Candidate[] = [];
+    (['keyboard', 'mouse', 'touch', 'scroll', 'focus', 'composite'] as const).forEach(modality => {
+      const current = snapshot[modality] as Record<string, unknown> | undefined;
+      const variability = baseline.variability[modality] || {};
+      if (!current || !baseline[modality]) return;
+      Object.entries(variability).forEach(([feature, v]) => {
+        const value = current[feature];
+        if (typeof value !== 'number' || NON_FEATURE_KEYS.has(feature)) return;
+        const clip = (x: number) => Math.min(v.bounds[1], Math.max(v.bounds[0], x));
+        const centre = clip(method === 'robust_statistical' && v.median !== undefined ? v.median : v.mean);
+        if (centre === value) return;
+        candidates.push({ modality, feature, current: value, bounds: v.bounds, start: clip(value), centre });
+      });
+    });
+
+    const apply = (values: Map<Candidate, number>): FeatureSnapshot => {
+      const next: FeatureSnapshot = { ...snapshot };
+      values.forEach((value, c) => { (next as any)[c.modality] = { ...(next as any)[c.modality], [c.feature]: value }; });
+      return next;
+    };
+
+    // Greedy selection with every chosen feature at its baseline centre
+    const chosen = new Map<Candidate, number>();
+    const gains = new Map<Candidate, number>();
+    let score = originalScore;
+    while (score < target && chosen.size < maxChanges) {
+      let best: Candidate | undefined;
+      let bestScore = score;
+      for (const c of candidates) {
+        if (chosen.has(c)) continue;
+        const trial = await evaluate(apply(new Map(chosen).set(c, c.centre)));
+        if (trial > bestScore + 1e-9) { best = c; bestScore = trial; }
+      }
+      if (!best) break;
+      chosen.set(best, best.centre);
+      gains.set(best, bestScore - score);
+      score = bestScore;
+    }
+
+    if (score >= target) {
+      // Drop changes the target does not need, weakest first
+      for (const c of [...chosen.keys()].sort((a, b) => gains.get(a)! - gains.get(b)!)) {
+        const without = new Map(chosen);
+        without.delete(c);
+        if (without.size && await evaluate(apply(without)) >= target) chosen.delete(c);
+      }
+      // Shorten each move towards the centre as far as the target allows
+      for (const c of chosen.keys()) {
+        let lo = 0, hi = 1;
+        for (let i = 0; i < 12; i++) {
+          const mid = (lo + hi) / 2;
+          const trial = new Map(chosen).set(c, c.start + mid * (c.centre - c.start));
+          if (await evaluate(apply(trial)) >= target) hi = mid; else lo = mid;
+        }
+        chosen.set(c, c.start + hi * (c.centre - c.start));
+      }
+      score = await evaluate(apply(chosen));
+    }
+
+    const changes: CounterfactualChange[] = [...chosen.entries()].map(([c, value]) => ({
+      modality: c.modality,
+      feature: c.feature,
+      currentValue: c.current,
+      suggestedValue: value,
+      bounds: c.bounds,
+      scoreGain: gains.get(c) ?? 0
+    }));
+    const achieved = score >= target;
+    const listed = changes.map(c => `${c.feature} from ${c.currentValue.toFixed(2)} to ${c.suggestedValue.toFixed(2)}`).join(', ');
+    const summary = !changes.length
+      ? 'No change within your usual ranges would raise the similarity score.'
+      : achieved
+        ? `Similarity would reach ${(target * 100).toFixed(0)}% if ${listed}.`
+        : `Even with ${listed}, similarity would only reach ${(score * 100).toFixed(0)}% of the ${(target * 100).toFixed(0)}% target.`;
+
+    return { target, achieved, originalScore, counterfactualScore: score, changes, summary };
+  }
+
   /**
    * Compute similarities for each modality
    */
   private async computeModalitySimilarities(
     snapshot: FeatureSnapshot,
-    baseline: BaselinePattern
+    baseline: BaselinePattern,
+    method: ScoringMethod
   ): Promise<SimilarityScore['modalities']> {
     
-    const modalities = ['keyboard', 'mouse', 'scroll', 'focus', 'composite'] as const;
+    const modalities = ['keyboard', 'mouse', 'touch', 'scroll', 'focus', 'composite'] as const;
     const results: any = {};
 
     for (const modality of modalities) {
@@ -202,7 +383,9 @@ export class SimilarityScoring {
         currentFeatures,
         baselineFeatures,
         variability,
-        modality
+        modality,
+        method,
+        baseline.covariance?.[modality]
       );
     }
 
@@ -215,18 +398,21 @@ export class SimilarityScoring {
   private async computeModalitySimilarity(
     currentFeatures: Record<string, any>,
     baselineFeatures: Record<string, any>,
-    variability: Record<string, { mean: number; std: number; bounds: [number, number] }>,
-    modalityName: string
+    variability: Record<string, FeatureVariance>,
+    modalityName: string,
+    method: ScoringMethod,
+    modalityCovariance?: ModalityCovariance
   ): Promise<ModalitySimilarity> {
 
     const featureScores: number[] = [];
     const anomalies: FeatureAnomaly[] = [];
     const contributions: FeatureContribution[] = [];
+    const compared: ComparedFeature[] = [];
     
     // Get common features
     const currentKeys = Object.keys(currentFeatures);
     const baselineKeys = Object.keys(baselineFeatures);
-    const commonKeys = currentKeys.filter(key => baselineKeys.includes(key));
+    const commonKeys = currentKeys.filter(key => baselineKeys.includes(key) && !NON_FEATURE_KEYS.has(key));
     
     for (const feature of commonKeys) {
       const currentValue = currentFeatures[feature];
@@ -241,10 +427,12 @@ export class SimilarityScoring {
       const featureSimilarity = this.computeFeatureSimilarity(
         currentValue,
         baselineValue,
-        variance
+        variance,
+        method === 'robust_statistical'
       );
 
       featureScores.push(featureSimilarity.score);
+      compared.push({ feature, current: currentValue, baseline: baselineValue, variance });
 
       // Check for anomalies
       if (featureSimilarity.zscore !== undefined) {
@@ -273,7 +461,7 @@ export class SimilarityScoring {
 
     // Compute modality score
     const score = featureScores.length > 0 
-      ? this.computeWeightedScore(featureScores, contributions)
+      ? this.computeMethodScore(method, compared, featureScores, contributions, modalityCovariance)
       : 0;
 
     const weight = this.config.weights[modalityName as keyof typeof this.config.weights];
@@ -288,14 +476,96 @@ export class SimilarityScoring {
   }
 
   /**
-   * Compute similarity for individual feature
+   * Combine a modality's compared features into one score under the given method
+   */
+  private computeMethodScore(
+    method: ScoringMethod,
+    compared: ComparedFeature[],
+    featureScores: number[],
+    contributions: FeatureContribution[],
+    modalityCovariance?: ModalityCovariance
+  ): number {
+    switch (method) {
+      case 'euclidean':
+        return this.euclideanScore(compared);
+      case 'cosine':
+        return this.cosineScore(compared);
+      case 'mahalanobis': {
+        const score = modalityCovariance ? this.mahalanobisScore(compared, modalityCovariance) : null;
+        // Too few baseline snapshots for a covariance: fall back to independent per-feature z-scores
+        return score ?? this.computeWeightedScore(featureScores, contributions);
+      }
+      case 'weighted_composite':
+      case 'robust_statistical':
+      default:
+        return this.computeWeightedScore(featureScores, contributions);
+    }
+  }
+
+  /**
+   * Standardised Euclidean distance, RMS over features so modalities with more features are not penalised
+   */
+  private euclideanScore(compared: ComparedFeature[]): number {
+    const squared = compared.map(({ current, baseline, variance }) => {
+      const diff = variance && variance.std > 0
+        ? (current - variance.mean) / variance.std
+        : (baseline === 0 ? (current === 0 ? 0 : 1) : (current - baseline) / baseline);
+      return diff * diff;
+    });
+    const distance = Math.sqrt(squared.reduce((a, b) => a + b, 0) / squared.length);
+    return Math.exp(-distance / 2);
+  }
+
+  /**
+   * Cosine between the current/baseline ratio vector and the all-ones vector: compares the shape of the
+   * profile, so a uniform slow-down of every feature still scores 1
+   */
+  private cosineScore(compared: ComparedFeature[]): number {
+    const ratios = compared.filter(c => c.baseline !== 0).map(c => c.current / c.baseline);
+    if (ratios.length === 0) return 0.5;
+    const norm = Math.sqrt(ratios.reduce((sum, r) => sum + r * r, 0));
+    if (norm === 0) return 0;
+    const cosine = ratios.reduce((a, b) => a + b, 0) / (Math.sqrt(ratios.length) * norm);
+    return Math.max(0, cosine);
+  }
+
+  /**
+   * Mahalanobis distance over the features the baseline covariance covers, scaled by √k like the Euclidean
+   * score. Returns null when the current snapshot shares none of them or the submatrix is not invertible.
+   */
+  private mahalanobisScore(compared: ComparedFeature[], modalityCovariance: ModalityCovariance): number | null {
+    const byFeature = new Map(compared.map(c => [c.feature, c.current]));
+    const indices = modalityCovariance.features
+      .map((feature, i) => (byFeature.has(feature) ? i : -1))
+      .filter(i => i >= 0);
+    if (indices.length === 0) return null;
+
+    const factor = cholesky(indices.map(i => indices.map(j => modalityCovariance.matrix[i][j])));
+    if (!factor) return null;
+
+    const x = indices.map(i => byFeature.get(modalityCovariance.features[i])!);
+    const centre = indices.map(i => modalityCovariance.mean[i]);
+    const distance = Math.sqrt(mahalanobisSquared(x, centre, factor) / indices.length);
+    return Math.exp(-distance / 2);
+  }
+
+  /**
+   * Compute similarity for individual feature. The robust variant centres on the median and scales by the MAD.
    */
   private computeFeatureSimilarity(
     currentValue: number,
     baselineValue: number,
-    variance?: { mean: number; std: number; bounds: [number, number] }
+    variance?: FeatureVariance,
+    robust = false
   ): { score: number; zscore?: number; reliability: number } {
 
+    if (robust && variance?.median !== undefined && variance.mad) {
+      const zscore = Math.abs(currentValue - variance.median) / variance.mad;
+      const score = Math.exp(-zscore / 2);
+      const reliability = Math.min(1, 1 / (1 + variance.mad / Math.abs(variance.median || 1e-9)));
+      return { score, zscore, reliability };
+    }
+
     if (!variance || variance.std === 0) {
       // Simple relative difference when no variance data
       const relativeDiff = baselineValue === 0 
@@ -451,10 +721,11 @@ export class SimilarityScoring {
     const relevantFeatures = [
       ...modalities.keyboard.anomalies.filter(a => ['tremorInKeystrokes', 'motorSlowness'].includes(a.feature)),
       ...modalities.mouse.anomalies.filter(a => ['tremorAmplitude', 'motorControl'].includes(a.feature)),
+      ...modalities.touch.anomalies.filter(a => ['holdTremor', 'meanTapDuration', 'tapPrecision'].includes(a.feature)),
       ...modalities.composite.anomalies.filter(a => ['globalNeuromotorIndex', 'bradykinesiaComposite'].includes(a.feature))
     ];
 
-    const score = this.computeDomainScore(relevantFeatures, ['keyboard', 'mouse', 'composite'], modalities);
+    const score = this.computeDomainScore(relevantFeatures, ['keyboard', 'mouse', 'touch', 'composite'], modalities);
     const keyFindings = relevantFeatures.map(a => `${a.feature}: ${a.description}`);
     const riskFactors = relevantFeatures
       .filter(a => a.severity === 'high' || a.severity === 'critical')
@@ -539,7 +810,7 @@ export class SimilarityScoring {
 
     // Tremor detection
     const tremorAnomalies = allAnomalies.filter(a => 
-      ['tremorInKeystrokes', 'tremorAmplitude', 'scrollTremor', 'globalNeuromotorIndex'].includes(a.feature)
+      ['tremorInKeystrokes', 'tremorAmplitude', 'holdTremor', 'scrollTremor', 'globalNeuromotorIndex'].includes(a.feature)
     );
 
     if (tremorAnomalies.length >= 2) {
@@ -569,6 +840,7 @@ export class SimilarityScoring {
       weights: {
         keyboard: 0.3,
         mouse: 0.25,
+        touch: 0.25,
         scroll: 0.15,
         focus: 0.2,
         composite: 0.1
@@ -606,6 +878,7 @@ export class SimilarityScoring {
       modalities: {
         keyboard: this.createEmptyModalitySimilarity('keyboard'),
         mouse: this.createEmptyModalitySimilarity('mouse'),
+        touch: this.createEmptyModalitySimilarity('touch'),
         scroll: this.createEmptyModalitySimilarity('scroll'),
         focus: this.createEmptyModalitySimilarity('focus'),
         composite: this.createEmptyModalitySimilarity('composite')
@@ -634,6 +907,8 @@ export class SimilarityScoring {
       'meanDwell': 0.9,
       'typingRhythm': 0.85,
       'tremorAmplitude': 0.9,
+      'holdTremor': 0.85,
+      'meanTapDuration': 0.8,
       'globalTimingEntropy': 0.8,
       'focusRatio': 0.8,
       
@@ -655,6 +930,8 @@ export class SimilarityScoring {
     const relevanceMap: Record<string, FeatureAnomaly['medicalRelevance']> = {
       'tremorInKeystrokes': 'critical',
       'tremorAmplitude': 'critical',
+      'holdTremor': 'critical',
+      'meanTapDuration': 'high',
       'motorSlowness': 'high',
       'globalNeuromotorIndex': 'critical',
       'cognitiveLoad': 'medium',
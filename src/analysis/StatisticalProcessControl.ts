@@ -0,0 +1,234 @@
+// Statistical process control for every baseline feature: a two-sided tabular CUSUM, an EWMA chart and the
+// Western Electric run rules on individual values. Centre line and sigma come from the baseline when a chart
+// starts and then stay fixed, so a slow shift is not absorbed by later adaptive baseline updates.
+import { BaselineModality, BaselinePattern, FeatureSnapshot } from './BaselineModeling';
+import { config, RUN_RULES } from '../config/AppConfig';
+import { createComponentLogger } from '../utils/Logger';
+
+export type RunRule = typeof RUN_RULES[number];
+export type ControlRule = 'cusum' | 'ewma' | RunRule;
+
+export interface ControlChartPoint {
+  t: number;
+  value: number;
+  z: number; // (value - centre) / sigma
+  cusumHigh: number; // Upper and lower CUSUM sums, in sigmas
+  cusumLow: number;
+  ewma: number;
+  ewmaLimits: [number, number];
+}
+
+export interface ControlViolation {
+  userId: string;
+  modality: BaselineModality;
+  feature: string;
+  rule: ControlRule;
+  direction: 'high' | 'low';
+  timestamp: number;
+  value: number;
+  statistic: number; // CUSUM sum, EWMA value, or z of the point that completed the run
+  limit: number;
+  message: string;
+}
+
+export interface ControlChart {
+  modality: BaselineModality;
+  feature: string;
+  centre: number;
+  sigma: number;
+  cusumLimit: number; // Decision interval h, in sigmas
+  startedAt: number;
+  points: ControlChartPoint[];
+  violations: ControlViolation[]; // Most recent last
+}
+
+export interface ControlChartUpdate {
+  charts: ControlChart[];
+  violations: ControlViolation[]; // Raised by this update
+}
+
+type ViolationListener = (violation: ControlViolation) => void;
+
+interface ChartState {
+  chart: ControlChart;
+  cusumHigh: number;
+  cusumLow: number;
+  ewma: number;
+  n: number;
+  active: Set<ControlRule>; // Rules firing on the previous point; a violation is raised when a rule starts firing
+}
+
+// A user's charts keyed by `modality.feature`, as plain data
+export type ControlChartState = Record<string, Omit<ChartState, 'active'> & { active: ControlRule[] }>;
+
+export const RULE_LABELS: Record<ControlRule, string> = {
+  cusum: 'CUSUM',
+  ewma: 'EWMA',
+  beyond_3_sigma: '1 point beyond 3σ',
+  two_of_three_beyond_2_sigma: '2 of 3 beyond 2σ',
+  four_of_five_beyond_1_sigma: '4 of 5 beyond 1σ',
+  eight_on_one_side: '8 in a row on one side'
+};
+
+const MODALITIES: BaselineModality[] = ['keyboard', 'mouse', 'touch', 'scroll', 'focus', 'composite'];
+const MAX_VIOLATIONS = 20;
+
+// Western Electric rules: at least `needed` of the last `window` points beyond `sigma` on the same side
+const RUN_RULE_SPECS: Record<RunRule, { window: number; sigma: number; needed: number }> = {
+  beyond_3_sigma: { window: 1, sigma: 3, needed: 1 },
+  two_of_three_beyond_2_sigma: { window: 3, sigma: 2, needed: 2 },
+  four_of_five_beyond_1_sigma: { window: 5, sigma: 1, needed: 4 },
+  eight_on_one_side: { window: 8, sigma: 0, needed: 8 }
+};
+
+function runRule(rule: RunRule, z: number[]): 'high' | 'low' | null {
+  const { window, sigma, needed } = RUN_RULE_SPECS[rule];
+  const recent = z.slice(-window);
+  if (recent.filter(v => v > sigma).length >= needed) return 'high';
+  if (recent.filter(v => v < -sigma).length >= needed) return 'low';
+  return null;
+}
+
+export class StatisticalProcessControl {
+  private static instance: StatisticalProcessControl;
+  private logger = createComponentLogger('StatisticalProcessControl');
+  private users = new Map<string, Map<string, ChartState>>();
+  private listeners = new Set<ViolationListener>();
+
+  private constructor() {}
+
+  static getInstance(): StatisticalProcessControl {
+    if (!StatisticalProcessControl.instance) {
+      StatisticalProcessControl.instance = new StatisticalProcessControl();
+    }
+    return StatisticalProcessControl.instance;
+  }
+
+  /**
+   * Add a snapshot's feature values to the user's charts, starting a chart for every baseline feature that
+   * has spread. Returns all of the user's charts and the violations this snapshot raised.
+   */
+  update(userId: string, snapshot: FeatureSnapshot, baseline: BaselinePattern): ControlChartUpdate {
+    const settings = config.get().controlCharts;
+    if (!settings.enabled) return { charts: [], violations: [] };
+
+    let charts = this.users.get(userId);
+    if (!charts) {
+      charts = new Map();
+      this.users.set(userId, charts);
+    }
+
+    const violations: ControlViolation[] = [];
+    MODALITIES.forEach(modality => {
+      Object.entries(baseline.variability[modality] ?? {}).forEach(([feature, variability]) => {
+        const value = (snapshot[modality] as Record<string, unknown> | undefined)?.[feature];
+        // Features shrunk toward population priors are charted on the user's own statistics, not the shrunk ones
+        const reference = variability.priorWeight === undefined ? variability : variability.unpooled;
+        if (typeof value !== 'number' || !isFinite(value) || !reference || !(reference.std > 0)) return;
+
+        const key = `${modality}.${feature}`;
+        let state = charts.get(key);
+        if (!state) {
+          state = {
+            chart: { modality, feature, centre: reference.mean, sigma: reference.std, cusumLimit: settings.cusumH, startedAt: snapshot.timestamp, points: [], violations: [] },
+            cusumHigh: 0, cusumLow: 0, ewma: reference.mean, n: 0, active: new Set()
+          };
+          charts.set(key, state);
+        }
+        violations.push(...this.addPoint(userId, state, value, snapshot.timestamp));
+      });
+    });
+
+    violations.forEach(violation => {
+      this.logger.info('Control chart violation', { userId, feature: `${violation.modality}.${violation.feature}`, rule: violation.rule });
+      this.listeners.forEach(listener => listener(violation));
+    });
+    return { charts: this.getCharts(userId), violations };
+  }
+
+  getCharts(userId: string): ControlChart[] {
+    return Array.from(this.users.get(userId)?.values() ?? [], ({ chart }) => ({
+      ...chart,
+      points: chart.points.slice(),
+      violations: chart.violations.slice()
+    }));
+  }
+
+  /**
+   * Called with every violation as it is raised
+   */
+  onViolation(listener: ViolationListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  exportState(userId: string): ControlChartState | undefined {
+    const charts = this.users.get(userId);
+    return charts && Object.fromEntries(Array.from(charts, ([key, state]) => [key, { ...state, active: [...state.active] }]));
+  }
+
+  /**
+   * Resume a user's charts from exported state, replacing any they have
+   */
+  importState(userId: string, state: ControlChartState): void {
+    this.users.set(userId, new Map(Object.entries(state).map(([key, chart]) => [key, { ...chart, active: new Set(chart.active) }])));
+  }
+
+  forget(userId: string): void {
+    this.users.delete(userId);
+  }
+
+  private addPoint(userId: string, state: ChartState, value: number, t: number): ControlViolation[] {
+    const { cusumK, cusumH, ewmaLambda, ewmaL, runRules, historyLength } = config.get().controlCharts;
+    const { chart } = state;
+    const z = (value - chart.centre) / chart.sigma;
+
+    state.n++;
+    state.cusumHigh = Math.max(0, state.cusumHigh + z - cusumK);
+    state.cusumLow = Math.max(0, state.cusumLow - z - cusumK);
+    state.ewma = ewmaLambda * value + (1 - ewmaLambda) * state.ewma;
+    const halfWidth = ewmaL * chart.sigma * Math.sqrt(ewmaLambda / (2 - ewmaLambda) * (1 - Math.pow(1 - ewmaLambda, 2 * state.n)));
+    const ewmaLimits: [number, number] = [chart.centre - halfWidth, chart.centre + halfWidth];
+
+    chart.points.push({ t, value, z, cusumHigh: state.cusumHigh, cusumLow: state.cusumLow, ewma: state.ewma, ewmaLimits });
+    if (chart.points.length > historyLength) chart.points.splice(0, chart.points.length - historyLength);
+
+    const violations: ControlViolation[] = [];
+    const raise = (rule: ControlRule, direction: 'high' | 'low', statistic: number, limit: number) => {
+      const side = direction === 'high' ? 'above' : 'below';
+      violations.push({
+        userId, modality: chart.modality, feature: chart.feature, rule, direction, timestamp: t, value, statistic, limit,
+        message: `${chart.feature} (${chart.modality}) ${side} baseline: ${RULE_LABELS[rule]}`
+      });
+    };
+
+    // The CUSUM restarts after signalling, so every signal is a new violation
+    if (state.cusumHigh > cusumH || state.cusumLow > cusumH) {
+      const high = state.cusumHigh > cusumH;
+      raise('cusum', high ? 'high' : 'low', high ? state.cusumHigh : state.cusumLow, cusumH);
+      state.cusumHigh = 0;
+      state.cusumLow = 0;
+    }
+
+    const firing = new Map<ControlRule, 'high' | 'low'>();
+    if (state.ewma > ewmaLimits[1]) firing.set('ewma', 'high');
+    if (state.ewma < ewmaLimits[0]) firing.set('ewma', 'low');
+    const recentZ = chart.points.slice(-8).map(p => p.z);
+    runRules.forEach(rule => {
+      const direction = runRule(rule, recentZ);
+      if (direction) firing.set(rule, direction);
+    });
+    firing.forEach((direction, rule) => {
+      if (state.active.has(rule)) return;
+      if (rule === 'ewma') raise(rule, direction, state.ewma, ewmaLimits[direction === 'high' ? 1 : 0]);
+      else raise(rule, direction, z, RUN_RULE_SPECS[rule as RunRule].sigma);
+    });
+    state.active = new Set(firing.keys());
+
+    chart.violations.push(...violations);
+    if (chart.violations.length > MAX_VIOLATIONS) chart.violations.splice(0, chart.violations.length - MAX_VIOLATIONS);
+    return violations;
+  }
+}
+
+export const statisticalProcessControl = StatisticalProcessControl.getInstance();
@@ -1,17 +1,88 @@
-// Placeholder LSTM temporal analysis abstraction
+// Temporal drift monitoring: the trained TemporalLSTM when available, a mean-difference heuristic otherwise
+import { KeystrokeEvent } from '../collectors/KeystrokeCollector';
+import { TemporalLSTMModel, toTemporalSequence, TEMPORAL_MODEL_STORAGE, TEMPORAL_MODEL_URL } from './TemporalLSTM';
+import { createComponentLogger } from '../utils/Logger';
+
 export interface TemporalPatternResult {
   stabilityIndex: number;
   driftScore: number;
   earlyWarning: boolean;
+  source?: 'model' | 'heuristic';
 }
 
 export function analyzeTemporalSeries(series: number[]): TemporalPatternResult {
-  if (series.length < 10) return { stabilityIndex: 1, driftScore: 0, earlyWarning: false };
+  if (series.length < 10) return { stabilityIndex: 1, driftScore: 0, earlyWarning: false, source: 'heuristic' };
   const mean = series.reduce((s,v)=>s+v,0)/series.length;
   const recentMean = series.slice(-Math.floor(series.length/3)).reduce((s,v)=>s+v,0)/Math.floor(series.length/3);
   const drift = recentMean - mean;
   const stabilityIndex = 1 / (1 + Math.abs(drift));
   const driftScore = Math.abs(drift);
   const earlyWarning = driftScore > 0.15;
-  return { stabilityIndex, driftScore, earlyWarning };
+  return { stabilityIndex, driftScore, earlyWarning, source: 'heuristic' };
+}
+
+export class TemporalMonitor {
+  private static instance: TemporalMonitor;
+  private logger = createComponentLogger('TemporalMonitor');
+  private model?: TemporalLSTMModel;
+  private loading?: Promise<boolean>;
+  private readonly warningThreshold = 0.5; // Drift probability above which an early warning is raised
+
+  private constructor() {}
+
+  static getInstance(): TemporalMonitor {
+    if (!TemporalMonitor.instance) {
+      TemporalMonitor.instance = new TemporalMonitor();
+    }
+    return TemporalMonitor.instance;
+  }
+
+  /**
+   * Load the trained model: one trained in this browser first, then the weights shipped with the app.
+   * Resolves false when neither is available, in which case analyze() keeps using the heuristic.
+   */
+  load(sources: string[] = [TEMPORAL_MODEL_STORAGE, TEMPORAL_MODEL_URL]): Promise<boolean> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        for (const source of sources) {
+          try {
+            this.model = await TemporalLSTMModel.load(source);
+            this.logger.info('Temporal model loaded', { source });
+            return true;
+          } catch (error) {
+            this.logger.debug('Temporal model unavailable', { source, error: error instanceof Error ? error.message : String(error) });
+          }
+        }
+        this.loading = undefined; // Allow a later retry, e.g. after training
+        return false;
+      })();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Use a model trained in this session without a round trip through storage
+   */
+  useModel(model: TemporalLSTMModel): void {
+    this.model = model;
+    this.loading = Promise.resolve(true);
+  }
+
+  isModelLoaded(): boolean {
+    return !!this.model;
+  }
+
+  /**
+   * Drift assessment over the most recent keystrokes, oldest first
+   */
+  analyze(events: KeystrokeEvent[]): TemporalPatternResult {
+    const sequence = toTemporalSequence(events);
+    if (!this.model || !sequence) {
+      return analyzeTemporalSeries(events.map(e => (e.dwell ?? 0) / 200));
+    }
+    const driftScore = this.model.predict(sequence);
+    return { stabilityIndex: 1 - driftScore, driftScore, earlyWarning: driftScore > this.warningThreshold, source: 'model' };
+  }
 }
+
+export const temporalMonitor = TemporalMonitor.getInstance();
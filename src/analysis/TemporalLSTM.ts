@@ -1,20 +1,139 @@
-// TemporalLSTM: stub sequential model structure (not trained) for future integration.
+// TemporalLSTM: sequence model over per-step keystroke features that predicts whether typing behaviour is drifting.
+// Trained on synthetic cohorts by TemporalTraining; loaded by the temporal monitor in TemporalAnalysis.
 import * as tf from '@tensorflow/tfjs';
+import { KeystrokeEvent } from '../collectors/KeystrokeCollector';
+
+export const TEMPORAL_STEP_SIZE = 10; // Keystrokes per sequence step
+export const TEMPORAL_SEQUENCE_LENGTH = 30; // Steps per sequence: the collector's 300-keystroke window
+export const TEMPORAL_FEATURES = [
+  'meanDwell', 'dwellStd', 'meanFlight', 'flightStd', 'medianDwell', 'dwellCV', 'pauseRatio', 'overlapRatio'
+] as const;
+
+// Browser-side location of weights trained in this browser, and the URL of weights shipped with the app
+export const TEMPORAL_MODEL_STORAGE = 'indexeddb://cognitive-fingerprint-temporal-lstm';
+export const TEMPORAL_MODEL_URL = '/models/temporal-lstm/model.json';
+
+export interface TemporalEvaluation {
+  loss: number;
+  accuracy: number;
+  sensitivity: number; // Drifting sequences flagged
+  specificity: number; // Stable sequences left alone
+}
+
+const meanOf = (a: number[]) => a.length ? a.reduce((s, v) => s + v, 0) / a.length : 0;
+const stdOf = (a: number[], m = meanOf(a)) => Math.sqrt(meanOf(a.map(v => (v - m) ** 2)));
+
+/**
+ * Fixed-scale features for one step of keystrokes, roughly in [0, 1] for ordinary typing
+ */
+export function temporalStepFeatures(events: KeystrokeEvent[]): number[] {
+  const dwells = events.map(e => e.dwell ?? (e.upTime !== undefined ? e.upTime - e.downTime : 0));
+  const flights: number[] = [];
+  let overlaps = 0;
+  for (let i = 1; i < events.length; i++) {
+    const prevUp = events[i - 1].upTime;
+    if (prevUp === undefined) continue;
+    flights.push(events[i].downTime - prevUp);
+    if (events[i].downTime < prevUp) overlaps++;
+  }
+  const meanDwell = meanOf(dwells);
+  const sortedDwells = [...dwells].sort((a, b) => a - b);
+  const medianDwell = sortedDwells[Math.floor(sortedDwells.length / 2)] ?? 0;
+  const meanFlight = meanOf(flights);
+  return [
+    meanDwell / 200,
+    stdOf(dwells, meanDwell) / 100,
+    meanFlight / 400,
+    stdOf(flights, meanFlight) / 200,
+    medianDwell / 200,
+    meanDwell > 0 ? stdOf(dwells, meanDwell) / meanDwell : 0,
+    flights.length ? flights.filter(f => f > 500).length / flights.length : 0,
+    flights.length ? overlaps / flights.length : 0
+  ];
+}
+
+/**
+ * Split keystrokes, oldest first, into the most recent full sequence of steps. Null until there are enough.
+ */
+export function toTemporalSequence(events: KeystrokeEvent[], sequenceLength = TEMPORAL_SEQUENCE_LENGTH, stepSize = TEMPORAL_STEP_SIZE): number[][] | null {
+  const needed = sequenceLength * stepSize;
+  if (events.length < needed) return null;
+  const recent = events.slice(-needed);
+  return Array.from({ length: sequenceLength }, (_, i) => temporalStepFeatures(recent.slice(i * stepSize, (i + 1) * stepSize)));
+}
 
 export class TemporalLSTMModel {
   private model: tf.LayersModel;
-  constructor(sequenceLength=30, featureDim=8){
-    const input = tf.input({ shape: [sequenceLength, featureDim] });
-    const x = tf.layers.lstm({ units: 32, returnSequences:false }).apply(input) as tf.SymbolicTensor;
-    const x2 = tf.layers.dense({ units: 16, activation:'relu' }).apply(x) as tf.SymbolicTensor;
-    const out = tf.layers.dense({ units: 1, activation:'sigmoid' }).apply(x2) as tf.SymbolicTensor;
-    this.model = tf.model({ inputs: input, outputs: out });
+
+  constructor(sequenceLength: number = TEMPORAL_SEQUENCE_LENGTH, featureDim: number = TEMPORAL_FEATURES.length, model?: tf.LayersModel) {
+    if (model) {
+      this.model = model;
+    } else {
+      const input = tf.input({ shape: [sequenceLength, featureDim] });
+      const x = tf.layers.lstm({ units: 32, returnSequences: false }).apply(input) as tf.SymbolicTensor;
+      const x2 = tf.layers.dense({ units: 16, activation: 'relu' }).apply(x) as tf.SymbolicTensor;
+      const out = tf.layers.dense({ units: 1, activation: 'sigmoid' }).apply(x2) as tf.SymbolicTensor;
+      this.model = tf.model({ inputs: input, outputs: out });
+    }
+    this.model.compile({ optimizer: tf.train.adam(0.005), loss: 'binaryCrossentropy', metrics: ['accuracy'] });
+  }
+
+  /**
+   * Load weights saved by save(): a tf.io URL (indexeddb://, http) or a custom IO handler
+   */
+  static async load(source: string | tf.io.IOHandler): Promise<TemporalLSTMModel> {
+    const model = await tf.loadLayersModel(source);
+    const [, sequenceLength, featureDim] = model.inputs[0].shape as number[];
+    return new TemporalLSTMModel(sequenceLength, featureDim, model);
+  }
+
+  async save(destination: string | tf.io.IOHandler): Promise<void> {
+    await this.model.save(destination);
+  }
+
+  async train(sequences: number[][][], labels: number[], options: { epochs?: number; batchSize?: number; validationSplit?: number; onEpochEnd?: (epoch: number, logs?: tf.Logs) => void } = {}): Promise<tf.History> {
+    const x = tf.tensor3d(sequences);
+    const y = tf.tensor2d(labels, [labels.length, 1]);
+    try {
+      return await this.model.fit(x, y, {
+        epochs: options.epochs ?? 20,
+        batchSize: options.batchSize ?? 32,
+        validationSplit: options.validationSplit ?? 0,
+        shuffle: true,
+        callbacks: options.onEpochEnd ? { onEpochEnd: async (epoch, logs) => options.onEpochEnd!(epoch, logs) } : undefined
+      });
+    } finally {
+      x.dispose(); y.dispose();
+    }
+  }
+
+  evaluate(sequences: number[][][], labels: number[]): TemporalEvaluation {
+    const predictions = this.predictBatch(sequences);
+    const eps = 1e-7;
+    let loss = 0, tp = 0, tn = 0, positives = 0;
+    predictions.forEach((p, i) => {
+      const label = labels[i];
+      loss -= label * Math.log(p + eps) + (1 - label) * Math.log(1 - p + eps);
+      if (label === 1) { positives++; if (p > 0.5) tp++; } else if (p <= 0.5) tn++;
+    });
+    const negatives = labels.length - positives;
+    return {
+      loss: loss / labels.length,
+      accuracy: (tp + tn) / labels.length,
+      sensitivity: positives ? tp / positives : 0,
+      specificity: negatives ? tn / negatives : 0
+    };
   }
+
   predict(seq: number[][]): number {
-    const t = tf.tensor([seq]);
-    const y = this.model.predict(t) as tf.Tensor;
-    const v = y.dataSync()[0];
-    t.dispose(); y.dispose();
-    return v;
+    return this.predictBatch([seq])[0];
+  }
+
+  predictBatch(sequences: number[][][]): number[] {
+    return tf.tidy(() => Array.from((this.model.predict(tf.tensor3d(sequences)) as tf.Tensor).dataSync()));
+  }
+
+  dispose(): void {
+    this.model.dispose();
   }
 }
@@ -0,0 +1,123 @@
+// TemporalTraining: labelled synthetic cohorts and the training routine for TemporalLSTMModel.
+// Runs in the browser or under Node (see scripts/train-temporal-model.ts); only the save destination differs.
+import * as tf from '@tensorflow/tfjs';
+import { SyntheticEventGenerator, EventGeneratorProfile, GeneratorConfig } from '../testing/SyntheticEventGenerator';
+import { TemporalLSTMModel, TemporalEvaluation, temporalStepFeatures, TEMPORAL_SEQUENCE_LENGTH, TEMPORAL_STEP_SIZE } from './TemporalLSTM';
+import { createComponentLogger } from '../utils/Logger';
+
+const logger = createComponentLogger('TemporalTraining');
+
+const CONDITIONS: EventGeneratorProfile[] = [
+  'parkinsons_early', 'parkinsons_moderate', 'alzheimers_early', 'alzheimers_moderate', 'ms_relapsing', 'als_early', 'fatigue_moderate'
+];
+const ALL_PROFILES: EventGeneratorProfile[] = ['healthy_baseline', ...CONDITIONS, 'stress_high', 'medication_effect'];
+const EVENT_RATE = 5; // keystrokes per second
+
+export interface CohortOptions {
+  size?: number; // Sequences in the cohort
+  driftRatio?: number; // Share of sequences that drift
+  seed?: number;
+  sequenceLength?: number;
+  stepSize?: number;
+}
+
+export interface SyntheticCohort {
+  sequences: number[][][];
+  labels: number[]; // 1 when the sequence drifts
+  participants: { profile: EventGeneratorProfile; from: number; to: number; changeStep: number }[];
+}
+
+export interface TemporalTrainingOptions extends CohortOptions {
+  epochs?: number;
+  batchSize?: number;
+  testSplit?: number; // Held out from training for evaluation
+  onEpochEnd?: (epoch: number, logs?: tf.Logs) => void;
+}
+
+export interface TemporalTrainingResult {
+  model: TemporalLSTMModel;
+  evaluation: TemporalEvaluation;
+  trainSize: number;
+  testSize: number;
+}
+
+/**
+ * Build a labelled cohort. Stable participants keep one profile at a fixed progression factor; drifting ones
+ * either progress within a condition or move from the healthy baseline into one, starting at a random step.
+ */
+export function buildSyntheticCohort(options: CohortOptions = {}): SyntheticCohort {
+  const { size = 240, driftRatio = 0.5, seed = 42, sequenceLength = TEMPORAL_SEQUENCE_LENGTH, stepSize = TEMPORAL_STEP_SIZE } = options;
+  const generator = new SyntheticEventGenerator(seed);
+  let state = seed;
+  const random = () => { state = (state * 16807) % 2147483647; return state / 2147483647; };
+  const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+
+  const cohort: SyntheticCohort = { sequences: [], labels: [], participants: [] };
+  for (let n = 0; n < size; n++) {
+    const drifts = random() < driftRatio;
+    const environmentFactors: GeneratorConfig['environmentFactors'] = {
+      temperature: 18 + random() * 10,
+      timeOfDay: pick(['morning', 'afternoon', 'evening', 'night'] as const),
+      caffeinated: random() < 0.3,
+      fatigueLevel: random() * 0.3
+    };
+    const noiseLevel = 0.05 + random() * 0.15;
+
+    let participant: SyntheticCohort['participants'][number];
+    let profileAt: (step: number) => { profile: EventGeneratorProfile; progression: number };
+    if (!drifts) {
+      const profile = pick(ALL_PROFILES);
+      const progression = profile === 'healthy_baseline' ? 0 : random();
+      participant = { profile, from: progression, to: progression, changeStep: sequenceLength };
+      profileAt = () => ({ profile, progression });
+    } else {
+      const profile = pick(CONDITIONS);
+      const changeStep = Math.floor(random() * sequenceLength / 2);
+      const fromHealthy = random() < 0.3;
+      const from = fromHealthy ? 0 : random() * 0.4;
+      const to = Math.min(1, from + 0.5 + random() * 0.5);
+      participant = { profile, from, to, changeStep };
+      profileAt = step => {
+        if (step < changeStep) return { profile: fromHealthy ? 'healthy_baseline' : profile, progression: from };
+        return { profile, progression: from + (to - from) * (step - changeStep + 1) / (sequenceLength - changeStep) };
+      };
+    }
+
+    const sequence: number[][] = [];
+    for (let step = 0; step < sequenceLength; step++) {
+      const { profile, progression } = profileAt(step);
+      const events = generator.generateKeystrokeEvents({
+        profile,
+        progressionFactor: progression,
+        sessionDurationMs: (stepSize / EVENT_RATE) * 1000,
+        eventRate: EVENT_RATE,
+        noiseLevel,
+        environmentFactors
+      });
+      sequence.push(temporalStepFeatures(events));
+    }
+    cohort.sequences.push(sequence);
+    cohort.labels.push(drifts ? 1 : 0);
+    cohort.participants.push(participant);
+  }
+  return cohort;
+}
+
+/**
+ * Build a cohort, train on part of it and evaluate on the held-out rest. Save the returned model with
+ * model.save(), e.g. to TEMPORAL_MODEL_STORAGE in the browser or a file handler under Node.
+ */
+export async function trainTemporalModel(options: TemporalTrainingOptions = {}): Promise<TemporalTrainingResult> {
+  const { epochs = 20, batchSize = 32, testSplit = 0.2, onEpochEnd, ...cohortOptions } = options;
+  const cohort = buildSyntheticCohort(cohortOptions);
+  const testSize = Math.max(1, Math.round(cohort.sequences.length * testSplit));
+  const trainSize = cohort.sequences.length - testSize;
+
+  const model = new TemporalLSTMModel(cohortOptions.sequenceLength ?? TEMPORAL_SEQUENCE_LENGTH);
+  logger.info('Training temporal model', { trainSize, testSize, epochs });
+  await model.train(cohort.sequences.slice(0, trainSize), cohort.labels.slice(0, trainSize), { epochs, batchSize, onEpochEnd });
+
+  const evaluation = model.evaluate(cohort.sequences.slice(trainSize), cohort.labels.slice(trainSize));
+  logger.info('Temporal model evaluated', { ...evaluation });
+  return { model, evaluation, trainSize, testSize };
+}
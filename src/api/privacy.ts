@@ -27,10 +27,11 @@ export async function decryptJSON(payload: string, key: CryptoKey): Promise<any>
   return JSON.parse(new TextDecoder().decode(new Uint8Array(plain)));
 }
 
-export async function deriveKey(passphrase: string): Promise<CryptoKey> {
+// Optional scope (e.g. a profile id) salts the key so equal passphrases on different profiles yield different keys
+export async function deriveKey(passphrase: string, scope?: string): Promise<CryptoKey> {
   const enc = new TextEncoder().encode(passphrase);
   const keyMat = await crypto.subtle.importKey('raw', enc, 'PBKDF2', false, ['deriveBits','deriveKey']);
-  const salt = new TextEncoder().encode('cog-fingerprint-demo');
+  const salt = new TextEncoder().encode(scope ? `cog-fingerprint-demo:${scope}` : 'cog-fingerprint-demo');
   return crypto.subtle.deriveKey({ name: 'PBKDF2', salt, iterations: 50000, hash: 'SHA-256' }, keyMat, { name: 'AES-GCM', length: 256 }, false, ['encrypt','decrypt']);
 }
 
@@ -0,0 +1,180 @@
+import { createCollector, CollectorCapability, CollectorPermission } from './Collector';
+import { collectorRegistry } from './CollectorRegistry';
+import { KeystrokeCollector, KeystrokeAnalyticsSummary, KeystrokeEvent } from './KeystrokeCollector';
+import { MouseTracker, MouseMetrics, MouseSample } from './MouseTracker';
+import { TouchTracker, TouchMetrics, TouchSample } from './TouchTracker';
+import { ScrollCollector, ScrollMetrics, ScrollSample } from './ScrollCollector';
+import { FocusTracker } from './FocusTracker';
+import { VoiceAnalyzer, VoiceFeatures } from './VoiceAnalyzer';
+import { EyeTracker, EyeFeatures } from './EyeTracker';
+import { FocusAttentionFeatures, FocusEvent } from '../features/FocusFeatures';
+import { config } from '../config/AppConfig';
+
+function calculateKeystrokeQuality(summary: KeystrokeAnalyticsSummary): number {
+  let quality = 0.8; // Base quality
+
+  // Reduce quality for unusual patterns that might indicate errors
+  if (summary.meanDwell < 20 || summary.meanDwell > 1000) quality *= 0.7;
+  if (summary.meanFlight < 10 || summary.meanFlight > 2000) quality *= 0.7;
+  if (summary.varianceDwell > summary.meanDwell * 3) quality *= 0.8;
+  if (summary.sample < 5) quality *= 0.5; // Very low sample size
+
+  // Boost quality for consistent patterns
+  if (summary.sample > 20) quality = Math.min(1.0, quality * 1.1);
+  if (summary.entropy > 2) quality = Math.min(1.0, quality * 1.05);
+
+  return quality;
+}
+
+function calculateMouseQuality(metrics: MouseMetrics): number {
+  let quality = 0.7; // Base quality
+
+  // Check for reasonable velocity ranges
+  if (metrics.velocityMean > 50 && metrics.velocityMean < 2000) quality *= 1.1;
+  if (metrics.sample > 10) quality = Math.min(1.0, quality * 1.1);
+
+  // Reduce quality for suspicious patterns
+  if (metrics.velocityMean > 5000) quality *= 0.3; // Too fast, likely synthetic
+  if (metrics.sample < 3) quality *= 0.4; // Too few samples
+
+  return quality;
+}
+
+function calculateTouchQuality(metrics: TouchMetrics): number {
+  let quality = 0.7; // Base quality
+
+  if (metrics.tapCount >= 5) quality = Math.min(1.0, quality * 1.1);
+  if (metrics.sample < 5) quality *= 0.5; // A lone tap says little about motor control
+
+  return quality;
+}
+
+function calculateScrollQuality(metrics: ScrollMetrics): number {
+  let quality = 0.7; // Base quality
+
+  if (metrics.sample > 20) quality = Math.min(1.0, quality * 1.1);
+
+  // Programmatic smooth-scrolling produces implausibly fast, perfectly regular streams
+  if (metrics.velocityMean > 20000) quality *= 0.3;
+  if (metrics.sample < 5) quality *= 0.5;
+
+  return quality;
+}
+
+/**
+ * Media collectors need getUserMedia and, where the Permissions API knows the device, a non-denied grant
+ */
+async function mediaCapability(device: 'microphone' | 'camera'): Promise<CollectorCapability> {
+  if (typeof navigator === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+    return { supported: false, permission: 'denied', reason: 'getUserMedia unavailable' };
+  }
+  try {
+    const status = await navigator.permissions.query({ name: device as PermissionName });
+    return { supported: true, permission: status.state as CollectorPermission };
+  } catch {
+    // Firefox and Safari reject unknown permission names; getUserMedia will prompt instead
+    return { supported: true, permission: 'prompt' };
+  }
+}
+
+/**
+ * Register the collectors that ship with the app. Safe to call more than once.
+ */
+export function registerBuiltinCollectors(): void {
+  if (!collectorRegistry.has('keystroke')) {
+    collectorRegistry.register(createCollector<KeystrokeCollector, KeystrokeAnalyticsSummary, KeystrokeEvent>({
+      id: 'keystroke',
+      source: new KeystrokeCollector(),
+      start: s => s.start(),
+      stop: s => s.stop(),
+      listen: (s, l) => { s.onSummary(l); return () => s.offSummary(l); },
+      quality: calculateKeystrokeQuality,
+      samples: (s, limit) => s.getSamples(limit),
+      timeField: 'downTime'
+    }));
+  }
+
+  if (!collectorRegistry.has('mouse')) {
+    collectorRegistry.register(createCollector<MouseTracker, MouseMetrics, MouseSample>({
+      id: 'mouse',
+      source: new MouseTracker(),
+      start: s => s.start(),
+      stop: s => s.stop(),
+      listen: (s, l) => { s.onMetrics(l); return () => s.offMetrics(l); },
+      quality: calculateMouseQuality,
+      samples: (s, limit) => s.getSamples(limit)
+    }));
+  }
+
+  if (!collectorRegistry.has('touch')) {
+    collectorRegistry.register(createCollector<TouchTracker, TouchMetrics, TouchSample>({
+      id: 'touch',
+      source: new TouchTracker(),
+      start: s => s.start(),
+      stop: s => s.stop(),
+      listen: (s, l) => { s.onMetrics(l); return () => s.offMetrics(l); },
+      quality: calculateTouchQuality,
+      capability: async () => ({
+        supported: typeof window !== 'undefined' && typeof PointerEvent !== 'undefined',
+        permission: 'not_required'
+      }),
+      samples: (s, limit) => s.getSamples(limit)
+    }));
+  }
+
+  if (!collectorRegistry.has('scroll')) {
+    collectorRegistry.register(createCollector<ScrollCollector, ScrollMetrics, ScrollSample>({
+      id: 'scroll',
+      source: new ScrollCollector(),
+      start: s => s.start(),
+      stop: s => s.stop(),
+      listen: (s, l) => { s.onMetrics(l); return () => s.offMetrics(l); },
+      quality: calculateScrollQuality,
+      samples: (s, limit) => s.getSamples(limit),
+      timeField: 'timestamp'
+    }));
+  }
+
+  if (!collectorRegistry.has('focus')) {
+    collectorRegistry.register(createCollector<FocusTracker, FocusAttentionFeatures, FocusEvent>({
+      id: 'focus',
+      eventType: 'attention',
+      source: new FocusTracker(),
+      start: s => s.start(),
+      stop: s => s.stop(),
+      listen: (s, l) => { s.onFeatures(l); return () => s.offFeatures(l); },
+      // Attention features need a few focus cycles before they mean anything
+      quality: f => f.totalFocusEvents !== undefined && f.totalFocusEvents >= 3 ? 0.8 : 0.4,
+      samples: (s, limit) => s.getEvents().slice(-(limit ?? 500)),
+      timeField: 'timestamp'
+    }));
+  }
+
+  if (!collectorRegistry.has('voice')) {
+    collectorRegistry.register(createCollector<VoiceAnalyzer, VoiceFeatures>({
+      id: 'voice',
+      discardThreshold: 0.4,
+      source: new VoiceAnalyzer(),
+      start: s => s.start(),
+      stop: s => s.stop(),
+      listen: (s, l) => { s.onFeatures(l); return () => s.offFeatures(l); },
+      quality: f => f.voiceQuality || 0.5,
+      enabled: () => config.get().collectors.voice.enabled,
+      capability: () => mediaCapability('microphone')
+    }));
+  }
+
+  if (!collectorRegistry.has('eye')) {
+    collectorRegistry.register(createCollector<EyeTracker, EyeFeatures>({
+      id: 'eye',
+      discardThreshold: 0.5,
+      source: new EyeTracker(),
+      start: s => s.start(),
+      stop: s => s.stop(),
+      listen: (s, l) => { s.onFeatures(l); return () => s.offFeatures(l); },
+      quality: () => 0.7, // Default quality for eye tracking
+      enabled: () => config.get().collectors.eye.enabled,
+      capability: () => mediaCapability('camera')
+    }));
+  }
+}
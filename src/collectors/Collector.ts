@@ -0,0 +1,90 @@
+// Collector: common contract for every input source that feeds EventCaptureManager
+export type CollectorPermission = 'granted' | 'prompt' | 'denied' | 'not_required';
+
+export interface CollectorCapability {
+  supported: boolean; // APIs the collector needs exist in this environment
+  permission: CollectorPermission;
+  reason?: string;
+}
+
+export interface Collector<T = any, S = any> {
+  readonly id: string;
+  readonly eventType: string; // CaptureEvent type emitted for this collector's data
+  readonly discardThreshold: number; // Events with quality below this are marked discarded
+  start(): void | Promise<void>;
+  stop(): void;
+  pause(): void;
+  resume(): void;
+  isEnabled(): boolean;
+  checkCapability(): Promise<CollectorCapability>;
+  estimateQuality(data: T): number; // 0-1
+  subscribe(listener: (data: T) => void): () => void;
+  getSamples?(since: number, limit?: number): S[]; // Raw samples captured at or after a performance.now() mark
+  addRemoteSamples?(samples: S[], offsetMs: number): void; // Samples captured in another tab; offset maps its clock onto ours
+}
+
+export interface CollectorSpec<TSource, T, S = never> {
+  id: string;
+  eventType?: string;
+  discardThreshold?: number;
+  source: TSource;
+  start: (source: TSource) => void | Promise<void>;
+  stop: (source: TSource) => void;
+  listen: (source: TSource, listener: (data: T) => void) => () => void;
+  quality: (data: T) => number;
+  enabled?: () => boolean;
+  capability?: () => Promise<CollectorCapability>;
+  samples?: (source: TSource, limit?: number) => S[];
+  timeField?: keyof S; // performance.now() timestamp field on each sample, 't' by default
+}
+
+const alwaysAvailable = async (): Promise<CollectorCapability> => ({
+  supported: typeof window !== 'undefined',
+  permission: 'not_required'
+});
+
+/**
+ * Adapt an existing tracker class to the Collector contract.
+ * Pausing leaves the source running but stops forwarding its data.
+ */
+export function createCollector<TSource, T, S = never>(spec: CollectorSpec<TSource, T, S>): Collector<T, S> {
+  let paused = false;
+  let remoteSamples: S[] = [];
+  const timeField = spec.timeField ?? ('t' as keyof S);
+  const timeOf = (s: S) => s[timeField] as unknown as number;
+
+  const collector: Collector<T, S> = {
+    id: spec.id,
+    eventType: spec.eventType ?? spec.id,
+    discardThreshold: spec.discardThreshold ?? 0.3,
+    start: () => {
+      paused = false;
+      return spec.start(spec.source);
+    },
+    stop: () => spec.stop(spec.source),
+    pause: () => { paused = true; },
+    resume: () => { paused = false; },
+    isEnabled: spec.enabled ?? (() => true),
+    checkCapability: spec.capability ?? alwaysAvailable,
+    estimateQuality: (data: T) => Math.max(0, Math.min(1, spec.quality(data))),
+    subscribe: (listener) => spec.listen(spec.source, data => {
+      if (!paused) listener(data);
+    })
+  };
+
+  if (spec.samples) {
+    const samples = spec.samples;
+    collector.getSamples = (since: number, limit?: number) => {
+      const local = samples(spec.source, limit).filter(s => timeOf(s) >= since);
+      if (remoteSamples.length === 0) return local;
+      const merged = local.concat(remoteSamples.filter(s => timeOf(s) >= since)).sort((a, b) => timeOf(a) - timeOf(b));
+      return limit === undefined ? merged : merged.slice(-limit);
+    };
+    collector.addRemoteSamples = (incoming: S[], offsetMs: number) => {
+      const retimed = incoming.map(s => ({ ...s, [timeField]: timeOf(s) + offsetMs }));
+      remoteSamples = remoteSamples.concat(retimed).slice(-3000);
+    };
+  }
+
+  return collector;
+}
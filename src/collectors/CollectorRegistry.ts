@@ -0,0 +1,80 @@
+import { Collector } from './Collector';
+import { createComponentLogger } from '../utils/Logger';
+
+const logger = createComponentLogger('CollectorRegistry');
+
+type RegistryListener = (collector: Collector) => void;
+
+export class CollectorRegistry {
+  private static instance: CollectorRegistry;
+  private collectors = new Map<string, Collector>();
+  private registerListeners = new Set<RegistryListener>();
+  private unregisterListeners = new Set<RegistryListener>();
+
+  private constructor() {}
+
+  static getInstance(): CollectorRegistry {
+    if (!CollectorRegistry.instance) {
+      CollectorRegistry.instance = new CollectorRegistry();
+    }
+    return CollectorRegistry.instance;
+  }
+
+  /**
+   * Register a collector; EventCaptureManager picks it up immediately if capture is running
+   */
+  register(collector: Collector): void {
+    const existing = this.collectors.get(collector.id);
+    if (existing) {
+      logger.warn('Collector already registered, replacing', { collectorId: collector.id });
+      this.unregister(collector.id);
+    }
+
+    this.collectors.set(collector.id, collector);
+    logger.info('Collector registered', { collectorId: collector.id, eventType: collector.eventType });
+    this.registerListeners.forEach(l => l(collector));
+  }
+
+  unregister(collectorId: string): void {
+    const collector = this.collectors.get(collectorId);
+    if (!collector) {
+      logger.warn('Attempted to unregister unknown collector', { collectorId });
+      return;
+    }
+
+    this.collectors.delete(collectorId);
+    logger.info('Collector unregistered', { collectorId });
+    this.unregisterListeners.forEach(l => l(collector));
+  }
+
+  has(collectorId: string): boolean {
+    return this.collectors.has(collectorId);
+  }
+
+  get<T = any, S = any>(collectorId: string): Collector<T, S> | undefined {
+    return this.collectors.get(collectorId) as Collector<T, S> | undefined;
+  }
+
+  getAll(): Collector[] {
+    return Array.from(this.collectors.values());
+  }
+
+  /**
+   * Collectors whose own configuration currently enables them
+   */
+  getEnabled(): Collector[] {
+    return this.getAll().filter(c => c.isEnabled());
+  }
+
+  onRegister(listener: RegistryListener): () => void {
+    this.registerListeners.add(listener);
+    return () => this.registerListeners.delete(listener);
+  }
+
+  onUnregister(listener: RegistryListener): () => void {
+    this.unregisterListeners.add(listener);
+    return () => this.unregisterListeners.delete(listener);
+  }
+}
+
+export const collectorRegistry = CollectorRegistry.getInstance();
@@ -0,0 +1,184 @@
+// FocusTracker: element/window focus transitions, tab switches and idle periods for attention analysis
+import { FocusEvent, AttentionMetrics, FocusAttentionFeatures, computeFocusFeatures } from '../features/FocusFeatures';
+import { createComponentLogger } from '../utils/Logger';
+
+type Listener = (f: FocusAttentionFeatures) => void;
+
+const ACTIVITY_EVENTS = ['keydown', 'mousemove', 'pointerdown', 'wheel', 'touchstart'];
+
+export class FocusTracker {
+  private events: FocusEvent[] = [];
+  private metrics: AttentionMetrics[] = [];
+  private listeners: Set<Listener> = new Set();
+  private active = false;
+  private sessionId = 'focus-' + Math.floor(Date.now() / 1000);
+  private logger = createComponentLogger('FocusTracker');
+
+  private elementFocusStart?: number;
+  private windowFocused = true;
+  private lastActivity = 0;
+  private intervalStart = 0;
+  private intervalActivity = 0;
+  private intervalIdle = 0;
+  private intervalFocused = 0;
+  private intervalTabSwitches = 0;
+  private lastTick = 0;
+  private metricsTimer?: any;
+  private analysisTimer?: any;
+
+  private readonly idleThresholdMs = 5000; // gap without input counted as idle
+  private readonly metricsIntervalMs = 10000;
+  private readonly analysisIntervalMs = 15000;
+  private readonly maxEvents = 1000;
+  private readonly maxMetrics = 360; // one hour of 10s windows
+
+  start() {
+    if (this.active) return;
+    if (typeof window === 'undefined') return;
+    this.active = true;
+    const now = performance.now();
+    this.lastActivity = now;
+    this.intervalStart = now;
+    this.lastTick = now;
+    this.windowFocused = document.hasFocus();
+
+    document.addEventListener('focusin', this.handleFocusIn, true);
+    document.addEventListener('focusout', this.handleFocusOut, true);
+    document.addEventListener('visibilitychange', this.handleVisibility);
+    window.addEventListener('focus', this.handleWindowFocus);
+    window.addEventListener('blur', this.handleWindowBlur);
+    ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, this.handleActivity, { passive: true, capture: true }));
+
+    this.metricsTimer = setInterval(() => this.flushMetrics(), this.metricsIntervalMs);
+    this.analysisTimer = setInterval(() => { this.analyze(); }, this.analysisIntervalMs);
+    this.logger.info('Focus tracking started');
+  }
+
+  stop() {
+    if (!this.active) return;
+    this.active = false;
+    if (typeof window === 'undefined') return;
+    document.removeEventListener('focusin', this.handleFocusIn, true);
+    document.removeEventListener('focusout', this.handleFocusOut, true);
+    document.removeEventListener('visibilitychange', this.handleVisibility);
+    window.removeEventListener('focus', this.handleWindowFocus);
+    window.removeEventListener('blur', this.handleWindowBlur);
+    ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, this.handleActivity, true));
+    clearInterval(this.metricsTimer);
+    clearInterval(this.analysisTimer);
+  }
+
+  onFeatures(l: Listener) { this.listeners.add(l); }
+  offFeatures(l: Listener) { this.listeners.delete(l); }
+
+  getEvents(): FocusEvent[] { return this.events.slice(); }
+  getAttentionMetrics(): AttentionMetrics[] { return this.metrics.slice(); }
+
+  private record(type: FocusEvent['type'], extra: Partial<FocusEvent> = {}) {
+    this.events.push({
+      timestamp: performance.now(),
+      type,
+      isVisible: !document.hidden,
+      isActive: this.windowFocused && !document.hidden,
+      ...extra
+    });
+    if (this.events.length > this.maxEvents) this.events.splice(0, this.events.length - this.maxEvents);
+  }
+
+  private describeTarget(target: EventTarget | null): string | undefined {
+    // Structural identifier only; never read values or text content
+    if (!(target instanceof Element)) return undefined;
+    const role = target.getAttribute('role');
+    return role ? `${target.tagName.toLowerCase()}[role=${role}]` : target.tagName.toLowerCase();
+  }
+
+  private handleFocusIn = (e: globalThis.FocusEvent) => {
+    this.elementFocusStart = performance.now();
+    this.record('focus', { target: this.describeTarget(e.target) });
+  };
+
+  private handleFocusOut = (e: globalThis.FocusEvent) => {
+    const duration = this.elementFocusStart !== undefined ? performance.now() - this.elementFocusStart : undefined;
+    this.elementFocusStart = undefined;
+    this.record('blur', { target: this.describeTarget(e.target), duration });
+  };
+
+  private handleWindowFocus = () => {
+    this.accumulate();
+    this.windowFocused = true;
+    this.record('window_focus');
+  };
+
+  private handleWindowBlur = () => {
+    this.accumulate();
+    this.windowFocused = false;
+    this.record('window_blur');
+  };
+
+  private handleVisibility = () => {
+    this.accumulate();
+    this.record('visibility_change');
+    if (document.hidden) {
+      // Page hidden while the window stays open means the user moved to another tab
+      this.intervalTabSwitches++;
+      this.record('tab_switch');
+    }
+  };
+
+  private handleActivity = () => {
+    const now = performance.now();
+    const gap = now - this.lastActivity;
+    if (gap > this.idleThresholdMs) {
+      // Only the part of the idle period inside the current window; earlier windows already counted theirs
+      this.intervalIdle += now - Math.max(this.lastActivity, this.intervalStart);
+    }
+    this.lastActivity = now;
+    this.intervalActivity++;
+  };
+
+  // Accrue focused time since the last tick before focus/visibility state changes
+  private accumulate() {
+    const now = performance.now();
+    if (this.windowFocused && !document.hidden) this.intervalFocused += now - this.lastTick;
+    this.lastTick = now;
+  }
+
+  private flushMetrics() {
+    this.accumulate();
+    const now = performance.now();
+    const elapsed = Math.max(1, now - this.intervalStart);
+    // Idle period still in progress at the end of the window
+    const openIdle = now - this.lastActivity > this.idleThresholdMs
+      ? Math.min(elapsed, now - Math.max(this.lastActivity, this.intervalStart))
+      : 0;
+    const idleDuration = Math.min(elapsed, this.intervalIdle + openIdle);
+    const minutes = elapsed / 60000;
+
+    this.metrics.push({
+      timestamp: now,
+      focusDuration: this.intervalFocused,
+      idleDuration,
+      activityLevel: Math.max(0, Math.min(1, 1 - idleDuration / elapsed)),
+      interactionDensity: this.intervalActivity / minutes,
+      multitaskingIndicator: this.intervalTabSwitches / minutes
+    });
+    if (this.metrics.length > this.maxMetrics) this.metrics.shift();
+
+    this.intervalStart = now;
+    this.intervalActivity = 0;
+    this.intervalIdle = 0;
+    this.intervalFocused = 0;
+    this.intervalTabSwitches = 0;
+  }
+
+  private async analyze() {
+    if (this.events.length < 2) return;
+    try {
+      // computeFocusFeatures sorts its input in place, so hand it copies
+      const features = await computeFocusFeatures(this.events.slice(), this.metrics.slice(), this.sessionId);
+      this.listeners.forEach(l => l(features));
+    } catch (error) {
+      this.logger.warn('Focus feature computation failed', { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+}
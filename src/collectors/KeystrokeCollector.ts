@@ -100,26 +100,38 @@ export class KeystrokeCollector {
     if (rec) {
       rec.upTime = t;
       rec.dwell = t - rec.downTime;
-      this.history.push(rec);
       this.active.delete(e.code);
       this.logger.debug('KeyUp event', { 
         code: e.code, 
         dwell: rec.dwell,
-        historyLength: this.history.length,
+        historyLength: this.history.length + 1,
         hidden: document.hidden,
         timestamp: t
       });
-      const summary = this.analyzeRecent();
-      if (summary) {
-        this.logger.debug('Publishing keystroke summary', { 
-          sampleCount: summary.sample,
-          hidden: document.hidden
-        });
-        this.publish(summary);
-      }
+      this.ingest(rec);
     }
   };
 
+  /**
+   * Add a completed keystroke and publish the updated summary. Live capture goes through here,
+   * and session replay feeds recorded keystrokes in directly.
+   */
+  ingest(event: KeystrokeEvent) {
+    this.history.push(event);
+    const summary = this.analyzeRecent();
+    if (summary) {
+      this.logger.debug('Publishing keystroke summary', { sampleCount: summary.sample });
+      this.publish(summary);
+    }
+  }
+
+  /**
+   * Completed keystrokes with their down/up timings, oldest first
+   */
+  getSamples(limit = 300): KeystrokeEvent[] {
+    return this.history.slice(-limit);
+  }
+
   private analyzeRecent(): KeystrokeAnalyticsSummary | null {
     const recent = this.history.slice(-300);
     // Require at least 1 event; after that always compute to keep sample count progressing.
@@ -37,11 +37,13 @@ export class MouseTracker {
   }
   onMetrics(l:(m:MouseMetrics)=>void){ this.listeners.add(l);}
   offMetrics(l:(m:MouseMetrics)=>void){ this.listeners.delete(l);}
+  getSamples(limit = 600): MouseSample[] { return this.samples.slice(-limit); }
 
   private handleMove = (e: MouseEvent) => {
     const t = performance.now();
     const sample: MouseSample = { t, x: e.clientX, y: e.clientY };
     this.samples.push(sample);
+    if (this.samples.length > 3000) this.samples.splice(0, this.samples.length - 3000);
     if (!this.last) this.last = sample;
     if (!this.raf) this.raf = requestAnimationFrame(()=> this.compute());
   };
@@ -51,6 +53,7 @@ export class MouseTracker {
     const t = performance.now();
     const sample: MouseSample = { t, x: e.clientX, y: e.clientY };
     this.samples.push(sample);
+    if (this.samples.length > 3000) this.samples.splice(0, this.samples.length - 3000);
     if (!this.last) this.last = sample;
     if (!this.raf) this.raf = requestAnimationFrame(()=> this.compute());
   };
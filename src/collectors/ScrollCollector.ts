@@ -0,0 +1,129 @@
+import { ScrollEvent } from '../features/ScrollFeatures';
+
+export type ScrollSource = 'wheel' | 'keyboard' | 'touch' | 'other';
+
+export interface ScrollSample extends ScrollEvent {
+  source: ScrollSource;
+}
+
+export interface ScrollMetrics {
+  velocityMean: number;
+  directionChanges: number;
+  sample: number;
+}
+
+type Listener = (samples: ScrollSample[]) => void;
+
+// Keys that scroll the focused scroller (or the page) when not typing into a field
+const SCROLL_KEYS = new Set(['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'PageUp', 'PageDown', 'Home', 'End', 'Space']);
+// How long an input gesture is credited for the scroll events that follow it
+const SOURCE_WINDOW_MS = 250;
+// Fields where those keys move the caret or change a value instead of scrolling
+const EDITABLE_TAGS = new Set(['INPUT', 'TEXTAREA', 'SELECT']);
+
+export class ScrollCollector {
+  private samples: ScrollSample[] = [];
+  private positions = new WeakMap<EventTarget, { top: number; left: number }>();
+  private lastInput?: { source: ScrollSource; t: number };
+  private raf?: number;
+  private listeners: Set<Listener> = new Set();
+  private metricListeners: Set<(m: ScrollMetrics) => void> = new Set();
+
+  start() {
+    if (typeof window === 'undefined') return;
+    // Capture phase so nested scroll containers are observed as well as the document
+    document.addEventListener('scroll', this.handleScroll, { passive: true, capture: true });
+    window.addEventListener('wheel', this.handleWheel, { passive: true });
+    window.addEventListener('touchmove', this.handleTouch, { passive: true });
+    window.addEventListener('keydown', this.handleKey, { passive: true });
+  }
+
+  stop() {
+    if (typeof window === 'undefined') return;
+    document.removeEventListener('scroll', this.handleScroll, true);
+    window.removeEventListener('wheel', this.handleWheel);
+    window.removeEventListener('touchmove', this.handleTouch);
+    window.removeEventListener('keydown', this.handleKey);
+    if (this.raf) cancelAnimationFrame(this.raf);
+    this.raf = undefined;
+  }
+
+  onSamples(l: Listener) { this.listeners.add(l); }
+  offSamples(l: Listener) { this.listeners.delete(l); }
+  onMetrics(l: (m: ScrollMetrics) => void) { this.metricListeners.add(l); }
+  offMetrics(l: (m: ScrollMetrics) => void) { this.metricListeners.delete(l); }
+  getSamples(limit = 300): ScrollSample[] { return this.samples.slice(-limit); }
+
+  private handleWheel = () => { this.lastInput = { source: 'wheel', t: performance.now() }; };
+  private handleTouch = () => { this.lastInput = { source: 'touch', t: performance.now() }; };
+  private handleKey = (e: KeyboardEvent) => {
+    const target = e.target;
+    if (target instanceof HTMLElement && (EDITABLE_TAGS.has(target.tagName) || target.isContentEditable)) return;
+    if (SCROLL_KEYS.has(e.code) || SCROLL_KEYS.has(e.key)) {
+      this.lastInput = { source: 'keyboard', t: performance.now() };
+    }
+  };
+
+  private handleScroll = (e: Event) => {
+    const t = performance.now();
+    const target = e.target;
+    const el = target === document || !(target instanceof Element)
+      ? (document.scrollingElement || document.documentElement)
+      : target;
+    if (!el) return;
+
+    const top = el.scrollTop;
+    const left = el.scrollLeft;
+    const prev = this.positions.get(el) || { top, left };
+    this.positions.set(el, { top, left });
+
+    const deltaY = top - prev.top;
+    const deltaX = left - prev.left;
+    if (deltaX === 0 && deltaY === 0) return;
+
+    const source: ScrollSource = this.lastInput && (t - this.lastInput.t) < SOURCE_WINDOW_MS
+      ? this.lastInput.source
+      : 'other';
+
+    this.samples.push({
+      timestamp: t,
+      deltaX,
+      deltaY,
+      scrollTop: top,
+      scrollLeft: left,
+      target: this.describeTarget(el),
+      viewportHeight: el === document.scrollingElement ? window.innerHeight : el.clientHeight,
+      contentHeight: el.scrollHeight,
+      source
+    });
+    if (this.samples.length > 2000) this.samples.splice(0, this.samples.length - 2000);
+    if (!this.raf) this.raf = requestAnimationFrame(() => this.compute());
+  };
+
+  private describeTarget(el: Element): string {
+    // Identify containers structurally only; never record content
+    if (el === document.scrollingElement || el === document.documentElement) return 'document';
+    return el.id ? `${el.tagName.toLowerCase()}#${el.id}` : el.tagName.toLowerCase();
+  }
+
+  private compute() {
+    this.raf = undefined;
+    const recent = this.samples.slice(-300);
+    if (recent.length < 3) return;
+    this.listeners.forEach(l => l(recent));
+
+    const velocities: number[] = [];
+    let directionChanges = 0;
+    for (let i = 1; i < recent.length; i++) {
+      const dt = (recent[i].timestamp - recent[i-1].timestamp) / 1000;
+      velocities.push(Math.hypot(recent[i].deltaX, recent[i].deltaY) / (dt || 1));
+      if (Math.sign(recent[i].deltaY) !== 0 && Math.sign(recent[i].deltaY) === -Math.sign(recent[i-1].deltaY)) directionChanges++;
+    }
+    const metrics: ScrollMetrics = {
+      velocityMean: velocities.reduce((s, v) => s + v, 0) / (velocities.length || 1),
+      directionChanges,
+      sample: recent.length
+    };
+    this.metricListeners.forEach(l => l(metrics));
+  }
+}
@@ -0,0 +1,105 @@
+// TouchTracker: pointer-event capture for finger and stylus input (mouse pointers are left to MouseTracker)
+export type TouchPhase = 'down' | 'move' | 'up' | 'cancel';
+
+export interface TouchSample {
+  t: number;
+  pointerId: number;
+  pointerType: 'touch' | 'pen';
+  phase: TouchPhase;
+  x: number;
+  y: number;
+  pressure: number; // 0-1, 0.5 when the hardware does not report pressure
+  width: number; // contact geometry in CSS px
+  height: number;
+  tiltX: number; // degrees, pen only
+  tiltY: number;
+  activePointers: number; // simultaneous contacts at the time of the sample
+}
+
+export interface TouchMetrics {
+  tapCount: number;
+  meanPressure: number;
+  multiTouchRatio: number;
+  sample: number;
+}
+
+type Listener = (samples: TouchSample[]) => void;
+
+export class TouchTracker {
+  private samples: TouchSample[] = [];
+  private activePointers = new Set<number>();
+  private raf?: number;
+  private listeners: Set<Listener> = new Set();
+  private metricListeners: Set<(m: TouchMetrics) => void> = new Set();
+
+  start() {
+    if (typeof window === 'undefined' || typeof PointerEvent === 'undefined') return;
+    document.addEventListener('pointerdown', this.handlePointer, { passive: true, capture: true });
+    document.addEventListener('pointermove', this.handlePointer, { passive: true, capture: true });
+    document.addEventListener('pointerup', this.handlePointer, { passive: true, capture: true });
+    document.addEventListener('pointercancel', this.handlePointer, { passive: true, capture: true });
+  }
+
+  stop() {
+    if (typeof window === 'undefined') return;
+    document.removeEventListener('pointerdown', this.handlePointer, true);
+    document.removeEventListener('pointermove', this.handlePointer, true);
+    document.removeEventListener('pointerup', this.handlePointer, true);
+    document.removeEventListener('pointercancel', this.handlePointer, true);
+    if (this.raf) cancelAnimationFrame(this.raf);
+    this.raf = undefined;
+    this.activePointers.clear();
+  }
+
+  onSamples(l: Listener) { this.listeners.add(l); }
+  offSamples(l: Listener) { this.listeners.delete(l); }
+  onMetrics(l: (m: TouchMetrics) => void) { this.metricListeners.add(l); }
+  offMetrics(l: (m: TouchMetrics) => void) { this.metricListeners.delete(l); }
+  getSamples(limit = 600): TouchSample[] { return this.samples.slice(-limit); }
+
+  private handlePointer = (e: PointerEvent) => {
+    if (e.pointerType !== 'touch' && e.pointerType !== 'pen') return;
+    const phase: TouchPhase = e.type === 'pointerdown' ? 'down'
+      : e.type === 'pointerup' ? 'up'
+      : e.type === 'pointercancel' ? 'cancel'
+      : 'move';
+    // Hovering pens emit moves without contact; only contact matters for these features
+    if (phase === 'move' && !this.activePointers.has(e.pointerId)) return;
+
+    if (phase === 'down') this.activePointers.add(e.pointerId);
+
+    this.samples.push({
+      t: performance.now(),
+      pointerId: e.pointerId,
+      pointerType: e.pointerType,
+      phase,
+      x: e.clientX,
+      y: e.clientY,
+      pressure: e.pressure || 0.5,
+      width: e.width || 1,
+      height: e.height || 1,
+      tiltX: e.tiltX || 0,
+      tiltY: e.tiltY || 0,
+      activePointers: this.activePointers.size
+    });
+
+    if (phase === 'up' || phase === 'cancel') this.activePointers.delete(e.pointerId);
+    if (this.samples.length > 3000) this.samples.splice(0, this.samples.length - 3000);
+    if (!this.raf) this.raf = requestAnimationFrame(() => this.compute());
+  };
+
+  private compute() {
+    this.raf = undefined;
+    const recent = this.samples.slice(-600);
+    const downs = recent.filter(s => s.phase === 'down');
+    if (downs.length === 0) return;
+    this.listeners.forEach(l => l(recent));
+    const metrics: TouchMetrics = {
+      tapCount: downs.length,
+      meanPressure: recent.reduce((s, v) => s + v.pressure, 0) / recent.length,
+      multiTouchRatio: downs.filter(d => d.activePointers > 1).length / downs.length,
+      sample: recent.length
+    };
+    this.metricListeners.forEach(l => l(metrics));
+  }
+}
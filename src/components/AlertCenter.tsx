@@ -2,11 +2,20 @@
 
 import React, { useEffect, useState } from 'react';
 import { useCognitive } from '../state/GlobalState';
+import { ControlRule } from '../analysis/StatisticalProcessControl';
 
-interface Alert { id: string; ts: number; message: string; severity: 'info'|'warn'|'high'; confidence?: number; }
+interface Alert { id: string; ts: number; message: string; severity: 'info'|'warn'|'high'; confidence?: number; detectors?: string[]; }
+
+// Sustained shifts and single extreme points warn; the other run rules are early hints
+const RULE_SEVERITY: Record<ControlRule, Alert['severity']> = {
+  cusum: 'warn', ewma: 'warn', beyond_3_sigma: 'warn',
+  two_of_three_beyond_2_sigma: 'info', four_of_five_beyond_1_sigma: 'info', eight_on_one_side: 'info'
+};
+
+const DETECTOR_LABELS: Record<string, string> = { isolation_forest: 'Isolation Forest', lof: 'LOF', mcd: 'Robust covariance', zscore: 'Z-score' };
 
 export const AlertCenter = () => {
-  const { keystroke, risk, anomaly, confidence } = useCognitive();
+  const { keystroke, risk, anomaly, confidence, controlViolations } = useCognitive();
   const [alerts, setAlerts] = useState<Alert[]>([]);
 
   const pushAlert = React.useCallback((alert: Omit<Alert,'id'|'ts'>) => {
@@ -24,11 +33,17 @@ export const AlertCenter = () => {
   }, [keystroke, confidence, pushAlert]);
 
   useEffect(()=>{
-    if (anomaly && anomaly > 0.8) {
-      pushAlert({ message: 'Multi-modal anomaly spike', severity: 'high', confidence });
+    if (anomaly?.isAnomaly) {
+      // High when most detectors agree, otherwise the ensemble only just tipped over the threshold
+      const severity = anomaly.fired.length > Object.keys(anomaly.detectors).length / 2 ? 'high' : 'warn';
+      pushAlert({ message: 'Multi-modal anomaly', severity, confidence, detectors: anomaly.fired });
     }
   }, [anomaly, confidence, pushAlert]);
 
+  useEffect(()=>{
+    (controlViolations||[]).forEach(v => pushAlert({ message: `Control chart: ${v.message}`, severity: RULE_SEVERITY[v.rule] }));
+  }, [controlViolations, pushAlert]);
+
   useEffect(()=>{
     if (risk && risk > 0.6 && (confidence??0)>0.85) {
       pushAlert({ message: 'Sustained elevated composite risk index', severity: 'warn', confidence });
@@ -41,7 +56,10 @@ export const AlertCenter = () => {
       <div className="max-h-48 overflow-auto space-y-1 pr-1">
         {alerts.slice().reverse().map(a => (
           <div key={a.id} className={`p-2 rounded border flex justify-between items-center ${a.severity==='high'?'border-red-500/40 bg-red-500/10':a.severity==='warn'?'border-yellow-400/30 bg-yellow-400/10':'border-white/10 bg-white/5'}`}>
-            <span>{a.message}{a.confidence?` (conf ${(a.confidence*100).toFixed(0)}%)`:''}</span>
+            <span>
+              {a.message}{a.confidence?` (conf ${(a.confidence*100).toFixed(0)}%)`:''}
+              {a.detectors?.length ? <span className="block text-[9px] opacity-70">Fired: {a.detectors.map(d=> DETECTOR_LABELS[d] ?? d).join(', ')}</span> : null}
+            </span>
             <span className="text-[9px] opacity-50">{new Date(a.ts).toLocaleTimeString()}</span>
           </div>
         ))}
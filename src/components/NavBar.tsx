@@ -1,4 +1,70 @@
-import React from 'react';
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { profileManager, Profile } from '../core/ProfileManager';
+
+// Switching requires the target profile's passphrase so participants sharing a machine cannot open each other's data
+const ProfileSwitcher = () => {
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [active, setActive] = useState<Profile>();
+  const [locked, setLocked] = useState(false);
+  const [target, setTarget] = useState<string>(); // profile id awaiting a passphrase, or 'new'
+  const [name, setName] = useState('');
+  const [pass, setPass] = useState('');
+  const [error, setError] = useState<string>();
+
+  useEffect(()=> {
+    const refresh = ()=> { setProfiles(profileManager.list()); setActive(profileManager.getActive()); setLocked(!profileManager.isUnlocked()); };
+    refresh();
+    return profileManager.onChange(refresh);
+  }, []);
+
+  // A profile restored on reload is locked until its passphrase is entered again
+  const pending = target ?? (locked ? active?.id : undefined);
+
+  function reset(){ setTarget(undefined); setName(''); setPass(''); setError(undefined); }
+
+  async function submit(){
+    if (!pending || !pass) return;
+    try {
+      if (pending === 'new') {
+        await profileManager.create(name, pass);
+      } else if (!(await profileManager.activate(pending, pass))) {
+        setError('Wrong passphrase');
+        return;
+      }
+      reset();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  if (!active) return null;
+  return (
+    <div className="flex items-center gap-2" aria-label="Participant profile">
+      <select
+        aria-label="Switch profile"
+        className="bg-black/40 px-2 py-1 rounded"
+        value={target ?? active.id}
+        onChange={e=> { const v = e.target.value; if (v === active.id) reset(); else { setTarget(v); setPass(''); setError(undefined); } }}
+      >
+        {profiles.map(p=> <option key={p.id} value={p.id}>{p.displayName}</option>)}
+        <option value="new">+ New profile…</option>
+      </select>
+      {pending && (
+        <form className="flex items-center gap-2" onSubmit={e=> { e.preventDefault(); submit(); }}>
+          {pending === 'new' && (
+            <input aria-label="Profile name" className="bg-black/40 px-2 py-1 rounded w-28" value={name} onChange={e=> setName(e.target.value)} placeholder="Name" />
+          )}
+          <input type="password" aria-label="Profile passphrase" className="bg-black/40 px-2 py-1 rounded w-28" value={pass} onChange={e=> setPass(e.target.value)} placeholder="Passphrase" />
+          <button type="submit" className="px-2 py-1 rounded bg-neuro-accent/20 hover:bg-neuro-accent/30">{pending === 'new' ? 'Create' : 'Unlock'}</button>
+          {target && <button type="button" onClick={reset} className="px-2 py-1 rounded bg-white/5 hover:bg-white/10">Cancel</button>}
+          {error && <span role="alert" className="text-red-400">{error}</span>}
+        </form>
+      )}
+    </div>
+  );
+};
 
 export const NavBar = () => (
   <nav className="w-full flex items-center justify-between px-6 py-3 bg-neuro-surface border-b border-white/5 text-sm">
@@ -11,5 +77,6 @@ export const NavBar = () => (
   <a href="/report" className="hover:text-neuro-accent">Report</a>
   <a href="/demo" className="hover:text-neuro-accent">Demo</a>
     </div>
+    <ProfileSwitcher />
   </nav>
 );
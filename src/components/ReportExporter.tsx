@@ -1,20 +1,30 @@
 import React from 'react';
 import { useCognitive } from '../state/GlobalState';
 import { buildInsights } from '../interpretation/PlainLanguage';
+import { ConformalInterval } from '../analysis/ConformalPrediction';
 
 export const ReportExporter = () => {
   const cognitive = useCognitive();
   const { exportData } = cognitive;
+  const intervalText = (i: ConformalInterval|undefined)=> i?.bounded
+    ? ` (${Math.round(i.coverage*100)}% conformal interval ${(i.lower*100).toFixed(1)}–${(i.upper*100).toFixed(1)}%${i.covered ? '' : ', outside'})`
+    : '';
   function clinicianSummary(){
     const insights = buildInsights(cognitive.similarity, cognitive.drift);
     const lines: string[] = [];
     lines.push('=== Clinician Summary (Non-Diagnostic) ===');
     if (cognitive.baseline) {
+      lines.push(`Baseline Version: v${cognitive.baseline.version} (${cognitive.baseline.metadata.creationMethod})`);
       lines.push(`Baseline Confidence: ${(cognitive.baseline.statistics.confidence*100).toFixed(1)}%`);
       lines.push(`Baseline Stability: ${(cognitive.baseline.statistics.stability*100).toFixed(1)}%`);
+      const prior = cognitive.baseline.statistics.populationPrior;
+      if (prior) lines.push(`Baseline Population Prior Weight: ${(prior.weight*100).toFixed(1)}% (${prior.source})`);
     }
     if (cognitive.similarity) {
-      lines.push(`Current Similarity: ${(cognitive.similarity.overall*100).toFixed(1)}% (confidence ${(cognitive.similarity.confidence*100).toFixed(1)}%)`);
+      lines.push(`Current Similarity: ${(cognitive.similarity.overall*100).toFixed(1)}% (confidence ${(cognitive.similarity.confidence*100).toFixed(1)}%)${intervalText(cognitive.confidenceAssessment?.conformal?.similarity)}`);
+    }
+    if (cognitive.risk !== undefined) {
+      lines.push(`Composite Risk: ${(cognitive.risk*100).toFixed(1)}%${intervalText(cognitive.riskInterval)}`);
     }
     if (cognitive.drift) {
       lines.push(`Active Drift: ${cognitive.drift.driftType} severity ${cognitive.drift.driftSeverity} magnitude ${(cognitive.drift.driftMagnitude*100).toFixed(1)}%`);
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { useCognitive } from '../state/GlobalState';
+import { parseRecording } from '../core/SessionRecorder';
+import { ReplayResult } from '../analysis/SessionReplay';
+import { replayWorker } from '../core/ReplayWorker';
+
+// Record a session to reproduce a reported alert later, or replay a recording someone sent in
+export const SessionRecorderControls = () => {
+  const { recording, startRecording, stopRecording } = useCognitive();
+  const [replay, setReplay] = useState<ReplayResult>();
+  const [replaying, setReplaying] = useState(false);
+  const [error, setError] = useState<string>();
+
+  async function stopAndSave(){
+    const file = await stopRecording?.();
+    if (!file) return;
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(new Blob([file], { type: 'application/json' }));
+    a.download = `session_recording_${Date.now()}.json`;
+    a.click();
+  }
+
+  async function replayFile(file?: File){
+    if (!file) return;
+    setError(undefined); setReplay(undefined); setReplaying(true);
+    try {
+      setReplay(await replayWorker.replay(parseRecording(await file.text())));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setReplaying(false);
+    }
+  }
+
+  const last = replay?.ticks[replay.ticks.length - 1]?.result.similarity;
+  return (
+    <div className="text-xs space-y-2" aria-label="Session recording">
+      <div className="flex items-center gap-3">
+        {recording
+          ? <button onClick={stopAndSave} className="px-3 py-1 rounded bg-red-500/20 hover:bg-red-500/30 text-red-400">Stop &amp; Save Recording</button>
+          : <button onClick={()=> startRecording?.()} className="px-3 py-1 rounded bg-neuro-accent/20 hover:bg-neuro-accent/30">Record Session</button>}
+        <label className="px-3 py-1 rounded bg-white/5 hover:bg-white/10 cursor-pointer">
+          {replaying ? 'Replaying…' : 'Replay Recording'}
+          <input type="file" accept="application/json" className="hidden" disabled={replaying} onChange={e=> { replayFile(e.target.files?.[0]); e.target.value = ''; }} />
+        </label>
+      </div>
+      {error && <div role="alert" className="text-red-400">{error}</div>}
+      {replay && (
+        <div className="bg-black/30 p-2 rounded font-mono text-[10px]">
+          <div>Ticks replayed: {replay.ticks.length}</div>
+          <div>Final similarity: {last ? `${(last.overall*100).toFixed(1)}%` : 'no baseline'}</div>
+          <div>Drift detections: {replay.drifts.length}</div>
+          <div>Matches live session: {!replay.ticks.some(t=> t.recorded) ? 'not recorded' : replay.mismatches.length ? `no, ${replay.mismatches.length} tick(s) differ` : 'yes'}</div>
+          {replay.drifts.map((d, i)=> <div key={i}>- {new Date(d.detectedAt).toLocaleTimeString()} {d.driftType} ({d.driftSeverity})</div>)}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -44,17 +44,58 @@ const BaselineConfigSchema = z.object({
   activeTimeRatio: z.number().min(0.3).max(1.0).default(0.7),
   maxHiddenTimeMs: z.number().min(5000).max(60000).default(15000),
   autoExtendEnabled: z.boolean().default(true),
-  versioning: z.boolean().default(true)
+  versioning: z.boolean().default(true), // Keep baseline revisions for diffing and rollback; off keeps only the current one
+  maxRevisions: z.number().min(1).default(50), // Recent revisions kept besides the first one and rollback targets
+  // Shrink sparse baselines toward population priors (normal-inverse-gamma), so a baseline exists from the first snapshots
+  hierarchical: z.object({
+    enabled: z.boolean().default(true),
+    priorSource: z.enum(['bundled', 'synthetic']).default('bundled'), // Bundled normative priors, or a synthetic healthy cohort generated at startup
+    minSnapshots: z.number().min(1).max(20).default(1),
+    varianceStrength: z.number().min(0).max(100).default(10), // Pseudo-snapshots behind the prior within-user variance
+    maxPriorStrength: z.number().min(1).max(100).default(10) // Cap on pseudo-snapshots behind the prior mean
+  }).default({})
 });
 
 const ScoringConfigSchema = z.object({
   updateIntervalMs: z.number().min(1000).max(10000).default(3000),
   normalizationMethod: z.enum(['zscore', 'minmax', 'robust']).default('zscore'),
+  similarityMethod: z.enum(['euclidean', 'cosine', 'mahalanobis', 'weighted_composite', 'robust_statistical']).default('robust_statistical'),
   varianceFloor: z.number().min(0.001).max(1.0).default(0.01),
   inconclusiveThreshold: z.number().min(0.1).max(0.9).default(0.3),
   anomalyThreshold: z.number().min(0.5).max(0.95).default(0.65),
   treeCount: z.number().min(10).max(200).default(50),
-  subSampleSize: z.number().min(32).max(256).default(64)
+  subSampleSize: z.number().min(32).max(256).default(64),
+  counterfactualTarget: z.number().min(0.5).max(0.99).default(0.8), // Similarity a counterfactual explanation aims for
+  riskCalibration: z.enum(['auto', 'platt', 'isotonic', 'none']).default('auto') // 'auto' uses the method with the lower held-out ECE per output
+});
+
+export const RUN_RULES = ['beyond_3_sigma', 'two_of_three_beyond_2_sigma', 'four_of_five_beyond_1_sigma', 'eight_on_one_side'] as const;
+
+// Per-feature CUSUM / EWMA charts centred on the baseline; limits are in baseline standard deviations
+const ControlChartConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  cusumK: z.number().min(0).max(2).default(0.5), // Allowance: half the shift the CUSUM is tuned to detect
+  cusumH: z.number().min(1).max(10).default(5), // Decision interval
+  ewmaLambda: z.number().min(0.05).max(1).default(0.2),
+  ewmaL: z.number().min(1).max(4).default(3), // Limit width in EWMA standard errors
+  runRules: z.array(z.enum(RUN_RULES)).default([...RUN_RULES]), // Western Electric rules checked on individual points
+  historyLength: z.number().min(10).max(500).default(60) // Points kept per chart
+});
+
+// Per-user regression of each feature on session context; features are scored with the context effect removed
+const ContextAdjustmentConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  minSamples: z.number().min(10).max(500).default(30), // Observations of a feature before its fit is applied
+  ridge: z.number().min(0).max(1).default(0.01), // Added to the covariate covariance diagonal
+  fullSessionMinutes: z.number().min(10).max(480).default(120) // Session length at which the session-length covariate saturates
+});
+
+// Split-conformal intervals on each user's similarity and risk history
+const ConformalConfigSchema = z.object({
+  coverage: z.number().min(0.5).max(0.99).default(0.9), // 1 - α
+  window: z.number().min(3).max(200).default(20), // Preceding scores the point prediction is the median of
+  calibrationSize: z.number().min(10).max(2000).default(200), // Most recent residuals kept for the quantile
+  minHistory: z.number().min(1).max(50).default(5) // Scores needed before the first prediction
 });
 
 const PrivacyConfigSchema = z.object({
@@ -97,6 +138,9 @@ export const AppConfigSchema = z.object({
   collectors: CollectorConfigSchema.default({}),
   baseline: BaselineConfigSchema.default({}),
   scoring: ScoringConfigSchema.default({}),
+  controlCharts: ControlChartConfigSchema.default({}),
+  contextAdjustment: ContextAdjustmentConfigSchema.default({}),
+  conformal: ConformalConfigSchema.default({}),
   privacy: PrivacyConfigSchema.default({}),
   performance: PerformanceConfigSchema.default({}),
   ui: UIConfigSchema.default({}),
@@ -0,0 +1,348 @@
+import { CaptureEvent } from './EventCaptureManager';
+import { BaselineRevisionRecord, FeatureSnapshot } from '../analysis/BaselineModeling';
+import { SimilarityScore } from '../analysis/SimilarityScoring';
+import { DriftDetection } from '../analysis/AdaptiveRecognition';
+import { AnomalyModelState } from '../analysis/AnomalyDetection';
+import { deriveKey, encryptJSON, decryptJSON } from '../api/privacy';
+import { config } from '../config/AppConfig';
+import { backgroundProcessor } from '../utils/BackgroundProcessor';
+import { createComponentLogger } from '../utils/Logger';
+
+export type StoreName = 'events' | 'snapshots' | 'scores' | 'drifts' | 'models' | 'baselines';
+
+export interface StoreRecordMap {
+  events: CaptureEvent;
+  snapshots: FeatureSnapshot;
+  scores: SimilarityScore;
+  drifts: DriftDetection;
+  models: AnomalyModelState;
+  baselines: BaselineRevisionRecord;
+}
+
+export interface TimeRangeQuery {
+  from?: number; // inclusive, ms epoch
+  to?: number; // inclusive, ms epoch
+  limit?: number;
+  newestFirst?: boolean;
+}
+
+interface StoredRecord {
+  id?: number;
+  timestamp: number;
+  payload: string | object; // AES-GCM ciphertext, or the plain value when encryption is disabled
+}
+
+const DB_NAME = 'cognitive-fingerprint'; // One database per profile namespace: `${DB_NAME}:${namespace}`
+const DB_VERSION = 3;
+const STORE_NAMES: StoreName[] = ['events', 'snapshots', 'scores', 'drifts', 'models', 'baselines'];
+
+// Raw capture data expires on privacy.rawDataRetentionMs; everything derived on privacy.aggregatedRetentionMs
+const RAW_STORES = new Set<StoreName>(['events']);
+// Baseline revisions back rollback and the revision history, so they are kept until the profile is wiped or deleted
+const KEPT_STORES = new Set<StoreName>(['baselines']);
+
+const timestampOf: { [K in StoreName]: (value: StoreRecordMap[K]) => number } = {
+  events: e => e.timestamp,
+  snapshots: s => s.timestamp,
+  scores: s => s.timestamp,
+  drifts: d => d.detectedAt,
+  models: m => m.fittedAt,
+  baselines: r => r.savedAt
+};
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDatabase(namespace: string): Promise<IDBDatabase> {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(`${DB_NAME}:${namespace}`, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const store of STORE_NAMES) {
+        if (!db.objectStoreNames.contains(store)) {
+          db.createObjectStore(store, { keyPath: 'id', autoIncrement: true })
+            .createIndex('timestamp', 'timestamp');
+        }
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class EncryptedStore {
+  private static instance: EncryptedStore;
+  private logger = createComponentLogger('EncryptedStore');
+  private dbPromise?: Promise<IDBDatabase>;
+  private key?: CryptoKey;
+  private namespace = 'default';
+
+  private retentionTaskId = 'storage-retention';
+  private retentionIntervalMs = 10 * 60 * 1000;
+
+  private constructor() {}
+
+  static getInstance(): EncryptedStore {
+    if (!EncryptedStore.instance) {
+      EncryptedStore.instance = new EncryptedStore();
+    }
+    return EncryptedStore.instance;
+  }
+
+  isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  isUnlocked(): boolean {
+    return !!this.key || !config.get().privacy.encryptLocalStorage;
+  }
+
+  getNamespace(): string {
+    return this.namespace;
+  }
+
+  /**
+   * Point the store at another profile's database. The store is locked until unlock() is called for it.
+   */
+  setNamespace(namespace: string): void {
+    if (namespace === this.namespace) return;
+
+    this.dbPromise?.then(db => db.close()).catch(() => undefined);
+    this.dbPromise = undefined;
+    this.key = undefined;
+    this.namespace = namespace;
+    this.logger.info('Store namespace changed', { namespace });
+  }
+
+  async deleteNamespace(namespace: string): Promise<void> {
+    if (!this.isAvailable()) return;
+    if (namespace === this.namespace) throw new Error('Cannot delete the active namespace');
+    await requestToPromise(indexedDB.deleteDatabase(`${DB_NAME}:${namespace}`));
+  }
+
+  /**
+   * Derive the record key from the user's passphrase, scoped to the current namespace. Records written
+   * under a different passphrase stay in the database but are skipped on read until they age out.
+   */
+  async unlock(passphrase: string): Promise<void> {
+    const namespace = this.namespace;
+    const key = await deriveKey(passphrase, namespace);
+    // Namespace may have switched while the key was being derived
+    if (namespace !== this.namespace) return;
+    this.key = key;
+    this.logger.info('Store unlocked', { namespace });
+  }
+
+  lock(): void {
+    this.key = undefined;
+  }
+
+  async put<K extends StoreName>(store: K, value: StoreRecordMap[K]): Promise<void> {
+    await this.putMany(store, [value]);
+  }
+
+  async putMany<K extends StoreName>(store: K, values: StoreRecordMap[K][]): Promise<void> {
+    if (values.length === 0) return;
+
+    // Encrypt before opening the transaction; IndexedDB transactions auto-commit across awaits
+    const records: StoredRecord[] = await Promise.all(values.map(async value => ({
+      timestamp: timestampOf[store](value),
+      payload: await this.seal(value)
+    })));
+
+    const db = await this.open();
+    const tx = db.transaction(store, 'readwrite');
+    const objectStore = tx.objectStore(store);
+    records.forEach(record => objectStore.add(record));
+    await transactionDone(tx);
+  }
+
+  /**
+   * Fire-and-forget write for the live pipeline; skipped when storage is unavailable or still locked
+   */
+  persist<K extends StoreName>(store: K, values: StoreRecordMap[K][]): void {
+    if (!this.isAvailable() || !this.isUnlocked()) return;
+    this.putMany(store, values).catch(error => {
+      this.logger.warn('Persist failed', { store, error: error instanceof Error ? error.message : String(error) });
+    });
+  }
+
+  /**
+   * Overwrite a store with a single record, for state where only the latest copy matters
+   */
+  async replace<K extends StoreName>(store: K, value: StoreRecordMap[K]): Promise<void> {
+    const record: StoredRecord = { timestamp: timestampOf[store](value), payload: await this.seal(value) };
+    const db = await this.open();
+    const tx = db.transaction(store, 'readwrite');
+    const objectStore = tx.objectStore(store);
+    objectStore.clear();
+    objectStore.add(record);
+    await transactionDone(tx);
+  }
+
+  /**
+   * Time-indexed read. Records that fail to decrypt (e.g. written under another passphrase) are skipped.
+   */
+  async query<K extends StoreName>(store: K, range: TimeRangeQuery = {}): Promise<StoreRecordMap[K][]> {
+    const db = await this.open();
+    const tx = db.transaction(store, 'readonly');
+    const index = tx.objectStore(store).index('timestamp');
+    const keyRange = this.toKeyRange(range);
+    const limit = range.limit ?? Infinity;
+
+    const records: StoredRecord[] = [];
+    await new Promise<void>((resolve, reject) => {
+      const request = index.openCursor(keyRange, range.newestFirst ? 'prev' : 'next');
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || records.length >= limit) {
+          resolve();
+          return;
+        }
+        records.push(cursor.value as StoredRecord);
+        cursor.continue();
+      };
+    });
+
+    const values: StoreRecordMap[K][] = [];
+    let skipped = 0;
+    for (const record of records) {
+      try {
+        values.push(await this.unseal(record));
+      } catch {
+        skipped++;
+      }
+    }
+    if (skipped > 0) {
+      this.logger.debug('Skipped undecryptable records', { store, skipped });
+    }
+    return values;
+  }
+
+  async count(store: StoreName, range: TimeRangeQuery = {}): Promise<number> {
+    const db = await this.open();
+    const tx = db.transaction(store, 'readonly');
+    return requestToPromise(tx.objectStore(store).index('timestamp').count(this.toKeyRange(range)));
+  }
+
+  /**
+   * Delete everything older than the configured retention windows; baseline revisions are exempt. Purging only reads
+   * the plaintext timestamp index, so it works on any namespace without its key. Returns deleted counts per store.
+   */
+  async enforceRetention(now = Date.now(), namespace = this.namespace): Promise<Partial<Record<StoreName, number>>> {
+    const { rawDataRetentionMs, aggregatedRetentionMs } = config.get().privacy;
+    const isActive = namespace === this.namespace;
+    const db = isActive ? await this.open() : await openDatabase(namespace);
+    const deleted = {} as Partial<Record<StoreName, number>>;
+
+    for (const store of STORE_NAMES) {
+      if (KEPT_STORES.has(store)) continue;
+      const cutoff = now - (RAW_STORES.has(store) ? rawDataRetentionMs : aggregatedRetentionMs);
+      const tx = db.transaction(store, 'readwrite');
+      const request = tx.objectStore(store).index('timestamp').openCursor(IDBKeyRange.upperBound(cutoff, true));
+      let count = 0;
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        cursor.delete();
+        count++;
+        cursor.continue();
+      };
+      await transactionDone(tx);
+      deleted[store] = count;
+    }
+    if (!isActive) db.close();
+
+    const total = Object.values(deleted).reduce((sum, n) => sum + n, 0);
+    if (total > 0) {
+      this.logger.info('Retention purge completed', { namespace, deleted });
+    }
+    return deleted;
+  }
+
+  /**
+   * Run retention once now and then periodically in the background, across every namespace
+   * returned by the callback (profiles that are not active still age out)
+   */
+  startRetention(namespaces: () => string[] = () => [this.namespace]): void {
+    if (!this.isAvailable()) return;
+
+    const run = async () => {
+      for (const namespace of namespaces()) {
+        try {
+          await this.enforceRetention(Date.now(), namespace);
+        } catch (error) {
+          this.logger.warn('Retention purge failed', { namespace, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    };
+
+    run();
+    backgroundProcessor.registerTask({
+      id: this.retentionTaskId,
+      name: 'Storage Retention',
+      intervalMs: this.retentionIntervalMs,
+      fn: run
+    });
+  }
+
+  stopRetention(): void {
+    backgroundProcessor.unregisterTask(this.retentionTaskId);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(STORE_NAMES, 'readwrite');
+    STORE_NAMES.forEach(store => tx.objectStore(store).clear());
+    await transactionDone(tx);
+    this.logger.info('Store cleared');
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.isAvailable()) {
+      return Promise.reject(new Error('IndexedDB is not available in this environment'));
+    }
+
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(this.namespace);
+      // Allow a retry after a failed open (e.g. private browsing quota errors)
+      this.dbPromise.catch(() => { this.dbPromise = undefined; });
+    }
+
+    return this.dbPromise;
+  }
+
+  private toKeyRange(range: TimeRangeQuery): IDBKeyRange | undefined {
+    if (range.from !== undefined && range.to !== undefined) return IDBKeyRange.bound(range.from, range.to);
+    if (range.from !== undefined) return IDBKeyRange.lowerBound(range.from);
+    if (range.to !== undefined) return IDBKeyRange.upperBound(range.to);
+    return undefined;
+  }
+
+  private async seal(value: unknown): Promise<string | object> {
+    if (!config.get().privacy.encryptLocalStorage) return value as object;
+    if (!this.key) throw new Error('EncryptedStore is locked; call unlock() before writing');
+    return encryptJSON(value, this.key);
+  }
+
+  private async unseal(record: StoredRecord): Promise<any> {
+    if (typeof record.payload !== 'string') return record.payload;
+    if (!this.key) throw new Error('EncryptedStore is locked; call unlock() before reading');
+    return decryptJSON(record.payload, this.key);
+  }
+}
+
+export const encryptedStore = EncryptedStore.getInstance();
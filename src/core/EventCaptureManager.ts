@@ -1,8 +1,13 @@
-import { KeystrokeCollector, KeystrokeAnalyticsSummary } from '../collectors/KeystrokeCollector';
-import { MouseTracker, MouseMetrics } from '../collectors/MouseTracker';
-import { VoiceAnalyzer, VoiceFeatures } from '../collectors/VoiceAnalyzer';
-import { EyeTracker, EyeFeatures } from '../collectors/EyeTracker';
-import { config } from '../config/AppConfig';
+import { Collector } from '../collectors/Collector';
+import { collectorRegistry } from '../collectors/CollectorRegistry';
+import { registerBuiltinCollectors } from '../collectors/BuiltinCollectors';
+import { KeystrokeEvent } from '../collectors/KeystrokeCollector';
+import { MouseSample } from '../collectors/MouseTracker';
+import { ScrollSample } from '../collectors/ScrollCollector';
+import { TouchSample } from '../collectors/TouchTracker';
+import { FocusEvent } from '../features/FocusFeatures';
+import { tabCoordinator } from './TabCoordinator';
+import { profileManager } from './ProfileManager';
 import { createComponentLogger } from '../utils/Logger';
 
 export type SessionState =
@@ -12,7 +17,19 @@ export type SessionState =
   | 'stabilizing'
   | 'stopped';
 
-export type EventType = 'keystroke' | 'mouse' | 'voice' | 'eye' | 'visibility' | 'focus' | 'idle';
+// Built-in event types; registered collectors may emit their own (e.g. 'device_motion')
+export type EventType =
+  | 'keystroke'
+  | 'mouse'
+  | 'touch'
+  | 'scroll'
+  | 'voice'
+  | 'eye'
+  | 'visibility'
+  | 'focus'
+  | 'attention'
+  | 'idle'
+  | (string & {});
 
 export interface CaptureEvent {
   type: EventType;
@@ -21,6 +38,16 @@ export interface CaptureEvent {
   data: any;
   quality: number; // 0-1 confidence/quality score
   discarded?: boolean; // marked for discard due to quality gates
+  origin?: string; // tab id when the event was captured in a follower tab
+}
+
+// Follower tabs forward accepted events, plus raw samples captured since the last forward, to the leader
+export interface ForwardedCapture {
+  collectorId: string;
+  profileId: string; // Profile active in the sending tab; the leader drops input meant for another participant
+  event: CaptureEvent;
+  samples?: unknown[];
+  timeOrigin: number; // sender's performance.timeOrigin, to map sample times onto the leader's clock
 }
 
 export interface SessionMetrics {
@@ -30,7 +57,7 @@ export interface SessionMetrics {
   hiddenDuration: number;
   idleDuration: number;
   activeTimeRatio: number;
-  eventCounts: Record<EventType, number>;
+  eventCounts: Record<string, number>;
   qualityScore: number;
 }
 
@@ -51,11 +78,6 @@ type EventListener = (event: CaptureEvent) => void;
 export class EventCaptureManager {
   private static instance: EventCaptureManager;
 
-  private keystrokeCollector: KeystrokeCollector;
-  private mouseTracker: MouseTracker;
-  private voiceAnalyzer: VoiceAnalyzer;
-  private eyeTracker: EyeTracker;
-
   private state: CaptureState;
   private logger = createComponentLogger('EventCaptureManager');
 
@@ -64,10 +86,17 @@ export class EventCaptureManager {
 
   private visibilityHandler?: () => void;
   private focusHandlers: Array<() => void> = [];
+  private collectorSubscriptions = new Map<string, () => void>();
+  private forwardedUpTo = new Map<string, number>(); // performance.now() of the last forward per collector
   private idleTimer?: NodeJS.Timeout;
   private stabilizationTimer?: NodeJS.Timeout;
+  private warmupTimer?: NodeJS.Timeout;
   private eventBuffer: CaptureEvent[] = [];
 
+  private warmupCompletedAt?: number; // performance.now() mark; raw samples before it are warmup noise
+  private pausedByIdle = false;
+  private lastMetricsUpdate = Date.now();
+
   private warmupDurationMs = 5000; // 5 second warmup period
   private idleThresholdMs = 30000; // 30 seconds before idle
   private stabilizationDurationMs = 2000; // 2 second stabilization period
@@ -79,6 +108,7 @@ export class EventCaptureManager {
     this.setupVisibilityHandling();
     this.setupFocusHandling();
     this.setupIdleDetection();
+    tabCoordinator.onMessage('capture', (capture: ForwardedCapture, from) => this.ingestRemote(capture, from));
   }
 
   static getInstance(): EventCaptureManager {
@@ -89,16 +119,15 @@ export class EventCaptureManager {
   }
 
   private initializeCollectors(): void {
-    this.keystrokeCollector = new KeystrokeCollector();
-    this.mouseTracker = new MouseTracker();
-    this.voiceAnalyzer = new VoiceAnalyzer();
-    this.eyeTracker = new EyeTracker();
+    registerBuiltinCollectors();
 
-    // Set up event forwarding
-    this.keystrokeCollector.onSummary(this.handleKeystrokeEvent.bind(this));
-    this.mouseTracker.onMetrics(this.handleMouseEvent.bind(this));
-    this.voiceAnalyzer.onFeatures(this.handleVoiceEvent.bind(this));
-    this.eyeTracker.onFeatures(this.handleEyeEvent.bind(this));
+    // Collectors registered later join a running session without a restart
+    collectorRegistry.onRegister(collector => {
+      if (this.state?.sessionState === 'collecting' && collector.isEnabled()) {
+        this.startCollector(collector);
+      }
+    });
+    collectorRegistry.onUnregister(collector => this.stopCollector(collector));
   }
 
   private initializeState(): void {
@@ -108,8 +137,8 @@ export class EventCaptureManager {
     this.state = {
       sessionState: 'idle',
       sessionId,
-      isVisible: !document.hidden,
-      hasFocus: document.hasFocus(),
+      isVisible: typeof document === 'undefined' ? true : !document.hidden,
+      hasFocus: typeof document === 'undefined' ? false : document.hasFocus(),
       lastActivity: now,
       warmupRemaining: this.warmupDurationMs,
       metrics: {
@@ -122,10 +151,13 @@ export class EventCaptureManager {
         eventCounts: {
           keystroke: 0,
           mouse: 0,
+          touch: 0,
+          scroll: 0,
           voice: 0,
           eye: 0,
           visibility: 0,
           focus: 0,
+          attention: 0,
           idle: 0
         },
         qualityScore: 0
@@ -210,135 +242,117 @@ export class EventCaptureManager {
   }
 
   private setupIdleDetection(): void {
-    const resetIdleTimer = () => {
-      if (this.idleTimer) {
-        clearTimeout(this.idleTimer);
-      }
-
-      this.state.lastActivity = Date.now();
-
-      this.idleTimer = setTimeout(() => {
-        this.emitEvent({
-          type: 'idle',
-          timestamp: Date.now(),
-          sessionId: this.state.sessionId,
-          data: { idleDuration: this.idleThresholdMs },
-          quality: 1.0
-        });
-
-        if (this.state.sessionState === 'collecting') {
-          this.logger.info('User idle detected, pausing collection');
-          this.transitionToState('paused');
-        }
-      }, this.idleThresholdMs);
-    };
+    if (typeof window === 'undefined') return;
 
     // Reset idle timer on any user activity
-    if (typeof window !== 'undefined') {
-      ['mousedown', 'mousemove', 'keypress', 'scroll', 'touchstart', 'click'].forEach(event => {
-        document.addEventListener(event, resetIdleTimer, true);
-      });
-    }
+    ['mousedown', 'mousemove', 'keypress', 'scroll', 'touchstart', 'click'].forEach(event => {
+      document.addEventListener(event, this.markActivity, true);
+    });
 
-    resetIdleTimer(); // Initialize timer
+    this.markActivity(); // Initialize timer
   }
 
-  private handleKeystrokeEvent(summary: KeystrokeAnalyticsSummary): void {
-    if (this.state.sessionState === 'stopped' || this.state.sessionState === 'idle') return;
-
-    const quality = this.calculateKeystrokeQuality(summary);
-    const event: CaptureEvent = {
-      type: 'keystroke',
-      timestamp: Date.now(),
-      sessionId: this.state.sessionId,
-      data: summary,
-      quality,
-      discarded: quality < 0.3 || this.state.warmupRemaining > 0
-    };
+  private markActivity = () => {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+    }
 
-    this.emitEvent(event);
-    this.state.metrics.eventCounts.keystroke++;
-  }
+    this.state.lastActivity = Date.now();
 
-  private handleMouseEvent(metrics: MouseMetrics): void {
-    if (this.state.sessionState === 'stopped' || this.state.sessionState === 'idle') return;
+    // Activity after an idle pause resumes collection; an explicit pause() stays paused
+    if (this.pausedByIdle && this.state.sessionState === 'paused') {
+      this.logger.info('User activity detected, resuming collection');
+      this.pausedByIdle = false;
+      this.transitionToState('collecting');
+    }
 
-    const quality = this.calculateMouseQuality(metrics);
-    const event: CaptureEvent = {
-      type: 'mouse',
-      timestamp: Date.now(),
-      sessionId: this.state.sessionId,
-      data: metrics,
-      quality,
-      discarded: quality < 0.3 || this.state.warmupRemaining > 0
-    };
+    this.idleTimer = setTimeout(() => {
+      this.emitEvent({
+        type: 'idle',
+        timestamp: Date.now(),
+        sessionId: this.state.sessionId,
+        data: { idleDuration: this.idleThresholdMs },
+        quality: 1.0
+      });
 
-    this.emitEvent(event);
-    this.state.metrics.eventCounts.mouse++;
-  }
+      if (this.state.sessionState === 'collecting') {
+        this.logger.info('User idle detected, pausing collection');
+        this.pausedByIdle = true;
+        this.transitionToState('paused');
+      }
+    }, this.idleThresholdMs);
+  };
 
-  private handleVoiceEvent(features: VoiceFeatures): void {
+  private handleCollectorData(collector: Collector, data: unknown): void {
     if (this.state.sessionState === 'stopped' || this.state.sessionState === 'idle') return;
 
-    const quality = features.voiceQuality || 0.5;
+    const quality = collector.estimateQuality(data);
     const event: CaptureEvent = {
-      type: 'voice',
+      type: collector.eventType,
       timestamp: Date.now(),
       sessionId: this.state.sessionId,
-      data: features,
+      data,
       quality,
-      discarded: quality < 0.4 || this.state.warmupRemaining > 0
+      discarded: this.shouldDiscard(quality, collector.discardThreshold)
     };
 
     this.emitEvent(event);
-    this.state.metrics.eventCounts.voice++;
-  }
+    this.state.metrics.eventCounts[collector.eventType] = (this.state.metrics.eventCounts[collector.eventType] || 0) + 1;
 
-  private handleEyeEvent(features: EyeFeatures): void {
-    if (this.state.sessionState === 'stopped' || this.state.sessionState === 'idle') return;
+    // A follower whose profile is still locked has no verified participant to attribute input to
+    if (!event.discarded && !tabCoordinator.isLeader() && profileManager.isUnlocked()) {
+      this.forwardToLeader(collector, event);
+    }
+  }
 
-    const quality = 0.7; // Default quality for eye tracking
-    const event: CaptureEvent = {
-      type: 'eye',
-      timestamp: Date.now(),
-      sessionId: this.state.sessionId,
-      data: features,
-      quality,
-      discarded: quality < 0.5 || this.state.warmupRemaining > 0
+  private forwardToLeader(collector: Collector, event: CaptureEvent): void {
+    const now = performance.now();
+    const since = Math.max(this.forwardedUpTo.get(collector.id) ?? 0, this.warmupCompletedAt ?? now);
+    this.forwardedUpTo.set(collector.id, now);
+
+    const capture: ForwardedCapture = {
+      collectorId: collector.id,
+      profileId: profileManager.getActive().id,
+      event,
+      samples: collector.getSamples?.(since),
+      timeOrigin: performance.timeOrigin
     };
-
-    this.emitEvent(event);
-    this.state.metrics.eventCounts.eye++;
+    tabCoordinator.send('capture', capture);
   }
 
-  private calculateKeystrokeQuality(summary: KeystrokeAnalyticsSummary): number {
-    let quality = 0.8; // Base quality
+  /**
+   * Leader side of forwarding: remote input counts as activity and goes through the same gates as local input
+   */
+  private ingestRemote(capture: ForwardedCapture, from: string): void {
+    if (!tabCoordinator.isLeader()) return;
+    if (this.state.sessionState === 'stopped' || this.state.sessionState === 'idle') return;
+    if (capture.profileId !== profileManager.getActive().id || !profileManager.isUnlocked()) {
+      this.logger.debug('Dropped capture forwarded for another profile', { from, profileId: capture.profileId });
+      return;
+    }
 
-    // Reduce quality for unusual patterns that might indicate errors
-    if (summary.meanDwell < 20 || summary.meanDwell > 1000) quality *= 0.7;
-    if (summary.meanFlight < 10 || summary.meanFlight > 2000) quality *= 0.7;
-    if (summary.varianceDwell > summary.meanDwell * 3) quality *= 0.8;
-    if (summary.sample < 5) quality *= 0.5; // Very low sample size
+    this.markActivity();
 
-    // Boost quality for consistent patterns
-    if (summary.sample > 20) quality = Math.min(1.0, quality * 1.1);
-    if (summary.entropy > 2) quality = Math.min(1.0, quality * 1.05);
+    const collector = collectorRegistry.get(capture.collectorId);
+    if (capture.samples?.length && collector?.addRemoteSamples) {
+      collector.addRemoteSamples(capture.samples, capture.timeOrigin - performance.timeOrigin);
+    }
 
-    return Math.max(0, Math.min(1, quality));
+    const type = capture.event.type;
+    this.emitEvent({
+      ...capture.event,
+      sessionId: this.state.sessionId,
+      origin: from,
+      discarded: this.shouldDiscard(capture.event.quality, collector?.discardThreshold ?? 0.3)
+    });
+    this.state.metrics.eventCounts[type] = (this.state.metrics.eventCounts[type] || 0) + 1;
   }
 
-  private calculateMouseQuality(metrics: MouseMetrics): number {
-    let quality = 0.7; // Base quality
-
-    // Check for reasonable velocity ranges
-    if (metrics.velocityMean > 50 && metrics.velocityMean < 2000) quality *= 1.1;
-    if (metrics.sample > 10) quality = Math.min(1.0, quality * 1.1);
-
-    // Reduce quality for suspicious patterns
-    if (metrics.velocityMean > 5000) quality *= 0.3; // Too fast, likely synthetic
-    if (metrics.sample < 3) quality *= 0.4; // Too few samples
-
-    return Math.max(0, Math.min(1, quality));
+  /**
+   * Quality gate shared by all collectors: low quality, warmup and any non-collecting state discard the event
+   */
+  private shouldDiscard(quality: number, threshold: number): boolean {
+    return quality < threshold || this.state.warmupRemaining > 0 || this.state.sessionState !== 'collecting';
   }
 
   private transitionToState(newState: SessionState): void {
@@ -346,16 +360,22 @@ export class EventCaptureManager {
     if (oldState === newState) return;
 
     this.logger.info('Session state transition', { from: oldState, to: newState });
+    this.updateMetrics(); // close out time spent in the old state
     this.state.sessionState = newState;
 
     // Handle state-specific logic
     switch (newState) {
       case 'collecting':
-        this.startCollectors();
+        if (oldState === 'paused') {
+          this.resumeCollectors();
+        } else {
+          this.startCollectors();
+        }
         this.resetWarmupTimer();
         break;
       case 'paused':
-        // Keep collectors running but mark events as discarded
+        // Collectors stop forwarding data; anything already in flight is marked discarded
+        this.pauseCollectors();
         break;
       case 'stabilizing':
         this.startStabilizationTimer();
@@ -373,37 +393,65 @@ export class EventCaptureManager {
   }
 
   private startCollectors(): void {
-    const appConfig = config.get();
+    collectorRegistry.getEnabled().forEach(collector => this.startCollector(collector));
+  }
 
-    this.keystrokeCollector.start();
-    this.mouseTracker.start();
+  private startCollector(collector: Collector): void {
+    if (this.collectorSubscriptions.has(collector.id)) return;
 
-    if (appConfig.collectors.voice.enabled) {
-      this.voiceAnalyzer.start().catch(error => {
-        this.logger.warn('Voice analyzer failed to start', { error: error.message });
-      });
-    }
+    collector.checkCapability().then(capability => {
+      if (!capability.supported || capability.permission === 'denied') {
+        this.logger.info('Collector unavailable, skipping', { collectorId: collector.id, ...capability });
+        return;
+      }
+      // Session may have ended while the capability check was pending
+      if (this.state.sessionState !== 'collecting' || this.collectorSubscriptions.has(collector.id)) return;
 
-    if (appConfig.collectors.eye.enabled) {
-      this.eyeTracker.start();
-    }
+      this.collectorSubscriptions.set(collector.id, collector.subscribe(data => this.handleCollectorData(collector, data)));
+      return collector.start();
+    }).catch(error => {
+      this.logger.warn('Collector failed to start', { collectorId: collector.id, error: error instanceof Error ? error.message : String(error) });
+    });
+  }
+
+  private stopCollector(collector: Collector): void {
+    const unsubscribe = this.collectorSubscriptions.get(collector.id);
+    if (!unsubscribe) return;
+
+    unsubscribe();
+    this.collectorSubscriptions.delete(collector.id);
+    collector.stop();
   }
 
   private stopCollectors(): void {
-    this.keystrokeCollector.stop();
-    this.mouseTracker.stop();
-    this.voiceAnalyzer.stop();
-    this.eyeTracker.stop();
+    collectorRegistry.getAll().forEach(collector => this.stopCollector(collector));
+  }
+
+  private pauseCollectors(): void {
+    collectorRegistry.getAll().forEach(collector => collector.pause());
+  }
+
+  private resumeCollectors(): void {
+    collectorRegistry.getAll().forEach(collector => collector.resume());
+    // Pick up collectors enabled while paused
+    this.startCollectors();
   }
 
   private resetWarmupTimer(): void {
+    if (this.warmupTimer) {
+      clearInterval(this.warmupTimer);
+    }
+
     this.state.warmupRemaining = this.warmupDurationMs;
+    this.warmupCompletedAt = undefined;
 
-    const warmupTimer = setInterval(() => {
+    this.warmupTimer = setInterval(() => {
       this.state.warmupRemaining = Math.max(0, this.state.warmupRemaining - 100);
 
       if (this.state.warmupRemaining <= 0) {
-        clearInterval(warmupTimer);
+        clearInterval(this.warmupTimer);
+        this.warmupTimer = undefined;
+        this.warmupCompletedAt = performance.now();
         this.logger.info('Warmup period completed, events now being recorded');
       }
     }, 100);
@@ -424,13 +472,17 @@ export class EventCaptureManager {
 
   private updateMetrics(): void {
     const now = Date.now();
+    const elapsed = now - this.lastMetricsUpdate;
+    this.lastMetricsUpdate = now;
     this.state.metrics.totalDuration = now - this.state.metrics.startTime;
 
-    // Calculate active time ratio based on visibility and focus
-    if (this.state.isVisible && this.state.hasFocus && this.state.sessionState === 'collecting') {
-      // Currently active
-    } else {
-      // Update hidden/idle durations
+    // Attribute time since the last update to the state we were in during it
+    if (!this.state.isVisible) {
+      this.state.metrics.hiddenDuration += elapsed;
+    } else if (this.state.sessionState === 'paused') {
+      this.state.metrics.idleDuration += elapsed;
+    } else if (this.state.hasFocus && this.state.sessionState === 'collecting') {
+      this.state.metrics.activeDuration += elapsed;
     }
 
     // Calculate overall quality score
@@ -490,11 +542,13 @@ export class EventCaptureManager {
 
   public pause(): void {
     this.logger.info('Pausing event capture');
+    this.pausedByIdle = false;
     this.transitionToState('paused');
   }
 
   public resume(): void {
     this.logger.info('Resuming event capture');
+    this.pausedByIdle = false;
     this.transitionToState('collecting');
   }
 
@@ -517,6 +571,37 @@ export class EventCaptureManager {
     return filtered.slice(); // Return copy
   }
 
+  /**
+   * Raw samples for feature extraction from any collector that exposes them. Only samples captured while
+   * collecting after warmup are returned, so consumers never see stabilization or warmup noise.
+   */
+  public getSamples<S>(collectorId: string, limit?: number): S[] {
+    const collector = collectorRegistry.get<unknown, S>(collectorId);
+    if (!collector?.getSamples) return [];
+    if (this.state.sessionState !== 'collecting' || this.warmupCompletedAt === undefined) return [];
+    return collector.getSamples(this.warmupCompletedAt, limit);
+  }
+
+  public getKeystrokeEvents(limit?: number): KeystrokeEvent[] {
+    return this.getSamples<KeystrokeEvent>('keystroke', limit);
+  }
+
+  public getMouseSamples(limit?: number): MouseSample[] {
+    return this.getSamples<MouseSample>('mouse', limit);
+  }
+
+  public getTouchSamples(limit?: number): TouchSample[] {
+    return this.getSamples<TouchSample>('touch', limit);
+  }
+
+  public getScrollSamples(limit?: number): ScrollSample[] {
+    return this.getSamples<ScrollSample>('scroll', limit);
+  }
+
+  public getFocusEvents(limit?: number): FocusEvent[] {
+    return this.getSamples<FocusEvent>('focus', limit);
+  }
+
   public onStateChange(listener: StateChangeListener): () => void {
     this.stateListeners.add(listener);
     return () => this.stateListeners.delete(listener);
@@ -550,6 +635,10 @@ export class EventCaptureManager {
       clearTimeout(this.stabilizationTimer);
     }
 
+    if (this.warmupTimer) {
+      clearInterval(this.warmupTimer);
+    }
+
     this.logger.info('EventCaptureManager destroyed');
   }
 }
@@ -0,0 +1,186 @@
+import { AnalysisPipeline, PipelineState, PipelineTickInput, PipelineTickResult, RiskResult } from '../analysis/AnalysisPipeline';
+import { BaselinePattern, BaselineRevision, BaselineRevisionRecord, FeatureSnapshot } from '../analysis/BaselineModeling';
+import { MultiModalFeatures } from '../analysis/PatternRecognition';
+import { AnomalyModelState } from '../analysis/AnomalyDetection';
+import { SeasonalPoint } from '../analysis/SeasonalDecomposition';
+import { TemporalPatternResult } from '../analysis/TemporalAnalysis';
+import { KeystrokeEvent } from '../collectors/KeystrokeCollector';
+import { config } from '../config/AppConfig';
+import { createComponentLogger } from '../utils/Logger';
+import { PipelineRequest, PipelineRequestType, PipelineReplies, PipelineResponse, packKeystrokeEvents, packTickInput } from '../workers/pipelineProtocol';
+
+type RequestBody<K extends PipelineRequestType> = Omit<Extract<PipelineRequest, { type: K }>, 'id' | 'type'>;
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Main-thread handle on the analysis pipeline worker. Feature extraction, similarity and anomaly scoring run
+ * off the main thread so input handlers never queue behind them. Without Worker support (SSR, tests) or after
+ * the worker crashes, the same AnalysisPipeline runs in-thread instead.
+ */
+export class PipelineWorker {
+  private static instance: PipelineWorker;
+  private logger = createComponentLogger('PipelineWorker');
+  private worker?: Worker;
+  private fallback?: AnalysisPipeline;
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 1;
+  private offConfig?: () => void;
+
+  private constructor() {}
+
+  static getInstance(): PipelineWorker {
+    if (!PipelineWorker.instance) {
+      PipelineWorker.instance = new PipelineWorker();
+    }
+    return PipelineWorker.instance;
+  }
+
+  start(): void {
+    if (this.worker || this.fallback) return;
+
+    if (typeof Worker === 'undefined') {
+      this.fallback = new AnalysisPipeline();
+      this.logger.info('Workers unavailable, running pipeline in-thread');
+      return;
+    }
+
+    try {
+      this.worker = new Worker(new URL('../workers/pipeline.worker.ts', import.meta.url));
+    } catch (error) {
+      this.failOver(error);
+      return;
+    }
+    this.worker.onmessage = (e: MessageEvent<PipelineResponse>) => this.handleResponse(e.data);
+    this.worker.onerror = (e: ErrorEvent) => this.failOver(e.error ?? e.message);
+
+    // The worker has no localStorage, so it mirrors the main thread's configuration
+    const configure = (next = config.get()) => {
+      this.send('configure', { config: next }).catch(error => this.logger.warn('Pipeline worker configure failed', { error: error.message }));
+    };
+    configure();
+    this.offConfig = config.onChange(configure);
+    this.logger.info('Pipeline worker started');
+  }
+
+  stop(): void {
+    this.offConfig?.();
+    this.offConfig = undefined;
+    this.worker?.terminate();
+    this.worker = undefined;
+    this.fallback = undefined;
+    this.rejectPending(new Error('Pipeline worker stopped'));
+  }
+
+  isOffMainThread(): boolean {
+    return !!this.worker;
+  }
+
+  isInThread(): boolean {
+    return !!this.fallback;
+  }
+
+  tick(input: PipelineTickInput): Promise<PipelineTickResult> {
+    if (!this.worker) return this.inThread().tick(input);
+    const { packed, transfer } = packTickInput(input);
+    return this.send('tick', { input: packed }, transfer);
+  }
+
+  async analyzeTemporal(events: KeystrokeEvent[]): Promise<TemporalPatternResult> {
+    if (!this.worker) return this.inThread().analyzeTemporal(events);
+    const packed = packKeystrokeEvents(events);
+    return this.send('temporal', { events: packed }, [packed.buffer as ArrayBuffer]);
+  }
+
+  async scoreRisk(userId: string, features: MultiModalFeatures, reference?: MultiModalFeatures): Promise<RiskResult> {
+    if (!this.worker) return this.inThread().scoreRisk(userId, features, reference);
+    return this.send('risk', { userId, features, reference });
+  }
+
+  async restoreAnomalyModel(model: AnomalyModelState): Promise<void> {
+    if (!this.worker) return this.inThread().restoreAnomalyModel(model);
+    return this.send('restore-anomaly-model', { model });
+  }
+
+  async restoreRevisions(userId: string, records: BaselineRevisionRecord[]): Promise<BaselineRevision[]> {
+    if (!this.worker) return this.inThread().restoreRevisions(userId, records);
+    return this.send('restore-revisions', { userId, records });
+  }
+
+  async restoreSnapshots(userId: string, snapshots: FeatureSnapshot[]): Promise<void> {
+    if (!this.worker) return this.inThread().restoreSnapshots(userId, snapshots);
+    return this.send('restore-snapshots', { userId, snapshots });
+  }
+
+  async restoreScoreHistory(userId: string, history: SeasonalPoint[]): Promise<void> {
+    if (!this.worker) return this.inThread().restoreScoreHistory(userId, history);
+    return this.send('restore-score-history', { userId, history });
+  }
+
+  async rollbackBaseline(userId: string, version: string): Promise<BaselinePattern> {
+    if (!this.worker) return this.inThread().rollbackBaseline(userId, version);
+    return this.send('rollback-baseline', { userId, version });
+  }
+
+  async exportState(userId: string, sessionId: string): Promise<PipelineState> {
+    if (!this.worker) return this.inThread().exportState(userId, sessionId);
+    return this.send('export-state', { userId, sessionId });
+  }
+
+  async reset(): Promise<void> {
+    if (!this.worker) return this.inThread().reset();
+    return this.send('reset', {});
+  }
+
+  private inThread(): AnalysisPipeline {
+    if (!this.worker && !this.fallback) this.start();
+    return this.fallback ?? (this.fallback = new AnalysisPipeline());
+  }
+
+  private send<K extends PipelineRequestType>(type: K, body: RequestBody<K>, transfer: Transferable[] = []): Promise<PipelineReplies[K]> {
+    const worker = this.worker;
+    if (!worker) return Promise.reject(new Error('Pipeline worker not running'));
+
+    const id = this.nextId++;
+    return new Promise<PipelineReplies[K]>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      try {
+        worker.postMessage({ id, type, ...body } as PipelineRequest, transfer);
+      } catch (error) {
+        this.pending.delete(id);
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  private handleResponse(response: PipelineResponse): void {
+    const request = this.pending.get(response.id);
+    if (!request) return;
+    this.pending.delete(response.id);
+    if (response.error !== undefined) {
+      request.reject(new Error(response.error));
+    } else {
+      request.resolve(response.result);
+    }
+  }
+
+  private failOver(error: unknown): void {
+    this.logger.error('Pipeline worker failed, continuing in-thread', { error: error instanceof Error ? error.message : String(error) });
+    this.offConfig?.();
+    this.offConfig = undefined;
+    this.worker?.terminate();
+    this.worker = undefined;
+    this.rejectPending(new Error('Pipeline worker failed'));
+    this.fallback = new AnalysisPipeline();
+  }
+
+  private rejectPending(error: Error): void {
+    this.pending.forEach(request => request.reject(error));
+    this.pending.clear();
+  }
+}
+
+export const pipelineWorker = PipelineWorker.getInstance();
@@ -0,0 +1,191 @@
+import { deriveKey, encryptJSON, decryptJSON } from '../api/privacy';
+import { encryptedStore } from './EncryptedStore';
+import { createComponentLogger } from '../utils/Logger';
+
+export interface Profile {
+  id: string; // Used as userId by the analysis engines and as the storage namespace
+  displayName: string;
+  createdAt: number;
+  verifier?: string; // Profile id encrypted under the profile key; lets us reject a wrong passphrase
+}
+
+type ProfileListener = (profile: Profile, passphrase?: string) => void;
+
+const PROFILES_KEY = 'profiles';
+const ACTIVE_PROFILE_KEY = 'activeProfile';
+const DEFAULT_PROFILE: Profile = { id: 'default', displayName: 'Default', createdAt: 0 };
+
+export class ProfileManager {
+  private static instance: ProfileManager;
+  private logger = createComponentLogger('ProfileManager');
+  private profiles: Profile[];
+  private activeId: string;
+  private unlocked: boolean;
+  private listeners = new Set<ProfileListener>();
+
+  private constructor() {
+    this.profiles = this.loadProfiles();
+    const storedActive = typeof window === 'undefined' ? null : localStorage.getItem(ACTIVE_PROFILE_KEY);
+    this.activeId = this.profiles.some(p => p.id === storedActive) ? storedActive! : this.profiles[0].id;
+    // A restored profile stays locked until its passphrase is entered again; only verifier-less profiles open directly
+    this.unlocked = !this.getActive().verifier;
+  }
+
+  static getInstance(): ProfileManager {
+    if (!ProfileManager.instance) {
+      ProfileManager.instance = new ProfileManager();
+    }
+    return ProfileManager.instance;
+  }
+
+  list(): Profile[] {
+    return this.profiles.map(p => ({ ...p }));
+  }
+
+  getActive(): Profile {
+    return { ...this.profiles.find(p => p.id === this.activeId)! };
+  }
+
+  /**
+   * Whether the active profile's passphrase has been verified in this page load. Nothing is analysed, stored or
+   * decrypted for a locked profile.
+   */
+  isUnlocked(): boolean {
+    return this.unlocked;
+  }
+
+  /**
+   * Namespace a localStorage key to the active profile
+   */
+  storageKey(base: string): string {
+    return `${base}:${this.activeId}`;
+  }
+
+  async create(displayName: string, passphrase: string): Promise<Profile> {
+    const name = displayName.trim();
+    if (!name) throw new Error('Profile name is required');
+
+    const profile: Profile = {
+      id: `profile_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+      displayName: name,
+      createdAt: Date.now()
+    };
+    profile.verifier = await this.createVerifier(profile.id, passphrase);
+
+    this.profiles.push(profile);
+    this.saveProfiles();
+    this.logger.info('Profile created', { profileId: profile.id });
+
+    await this.activate(profile.id, passphrase);
+    return { ...profile };
+  }
+
+  /**
+   * Switch to a profile. Resolves false if the passphrase does not match the profile's verifier.
+   */
+  async activate(profileId: string, passphrase: string): Promise<boolean> {
+    const profile = this.profiles.find(p => p.id === profileId);
+    if (!profile) {
+      this.logger.warn('Attempted to activate unknown profile', { profileId });
+      return false;
+    }
+
+    if (!(await this.verifyPassphrase(profileId, passphrase))) {
+      this.logger.warn('Profile passphrase rejected', { profileId });
+      return false;
+    }
+
+    this.activeId = profileId;
+    this.unlocked = true;
+    if (typeof window !== 'undefined') localStorage.setItem(ACTIVE_PROFILE_KEY, profileId);
+    this.logger.info('Profile activated', { profileId });
+    this.notify({ ...profile }, passphrase);
+    return true;
+  }
+
+  /**
+   * Profiles without a verifier (e.g. the default profile before first use) accept any passphrase
+   */
+  async verifyPassphrase(profileId: string, passphrase: string): Promise<boolean> {
+    const profile = this.profiles.find(p => p.id === profileId);
+    if (!profile) return false;
+    if (!profile.verifier) return true;
+
+    try {
+      const key = await deriveKey(passphrase, profileId);
+      const payload = await decryptJSON(profile.verifier, key);
+      return payload?.profileId === profileId;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Re-key the verifier. Data encrypted under the old passphrase becomes unreadable and ages out via retention.
+   */
+  async setPassphrase(profileId: string, passphrase: string): Promise<void> {
+    const profile = this.profiles.find(p => p.id === profileId);
+    if (!profile) return;
+    if (profileId === this.activeId && !this.unlocked) throw new Error('Unlock the profile before changing its passphrase');
+
+    profile.verifier = await this.createVerifier(profileId, passphrase);
+    this.saveProfiles();
+    if (profileId === this.activeId) this.notify({ ...profile }, passphrase);
+  }
+
+  /**
+   * Delete a profile and all of its stored data. The active profile cannot be removed.
+   */
+  async remove(profileId: string): Promise<void> {
+    if (profileId === this.activeId) throw new Error('Cannot remove the active profile');
+    if (!this.profiles.some(p => p.id === profileId)) return;
+
+    this.profiles = this.profiles.filter(p => p.id !== profileId);
+    this.saveProfiles();
+    if (typeof window !== 'undefined') localStorage.removeItem(`encState:${profileId}`);
+    await encryptedStore.deleteNamespace(profileId);
+    this.logger.info('Profile removed', { profileId });
+    this.notify(this.getActive());
+  }
+
+  onChange(listener: ProfileListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async createVerifier(profileId: string, passphrase: string): Promise<string> {
+    const key = await deriveKey(passphrase, profileId);
+    return encryptJSON({ profileId }, key);
+  }
+
+  private loadProfiles(): Profile[] {
+    if (typeof window === 'undefined') return [{ ...DEFAULT_PROFILE }];
+
+    try {
+      const stored = localStorage.getItem(PROFILES_KEY);
+      const parsed = stored ? JSON.parse(stored) as Profile[] : [];
+      if (Array.isArray(parsed) && parsed.length > 0) return parsed;
+    } catch (error) {
+      this.logger.warn('Failed to load profiles, using default', { error: error instanceof Error ? error.message : String(error) });
+    }
+
+    return [{ ...DEFAULT_PROFILE }];
+  }
+
+  private saveProfiles(): void {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(this.profiles));
+  }
+
+  private notify(profile: Profile, passphrase?: string): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(profile, passphrase);
+      } catch (error) {
+        this.logger.error('Profile listener error', { error: error instanceof Error ? error.message : String(error) });
+      }
+    });
+  }
+}
+
+export const profileManager = ProfileManager.getInstance();
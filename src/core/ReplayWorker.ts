@@ -0,0 +1,55 @@
+import { sessionReplay, ReplayResult } from '../analysis/SessionReplay';
+import { SessionRecording } from './SessionRecorder';
+import { pipelineWorker } from './PipelineWorker';
+import { config } from '../config/AppConfig';
+import { createComponentLogger } from '../utils/Logger';
+import { ReplayRequest, ReplayResponse } from '../workers/replayProtocol';
+
+/**
+ * Main-thread handle on session replay. Each replay runs in a worker of its own, with its own clock and analysis
+ * state, so replaying a recording never shifts the live pipeline's clock or baselines. Without Worker support the
+ * replay runs in-thread, which is refused while the live pipeline runs in this thread too.
+ */
+export class ReplayWorker {
+  private static instance: ReplayWorker;
+  private logger = createComponentLogger('ReplayWorker');
+
+  private constructor() {}
+
+  static getInstance(): ReplayWorker {
+    if (!ReplayWorker.instance) {
+      ReplayWorker.instance = new ReplayWorker();
+    }
+    return ReplayWorker.instance;
+  }
+
+  replay(recording: SessionRecording): Promise<ReplayResult> {
+    if (typeof Worker === 'undefined') {
+      if (pipelineWorker.isInThread()) return Promise.reject(new Error('Replay needs Web Worker support while the live pipeline runs in this tab'));
+      return sessionReplay.replay(recording);
+    }
+
+    return new Promise<ReplayResult>((resolve, reject) => {
+      let worker: Worker;
+      try {
+        worker = new Worker(new URL('../workers/replay.worker.ts', import.meta.url));
+      } catch (error) {
+        reject(error instanceof Error ? error : new Error(String(error)));
+        return;
+      }
+      worker.onmessage = (e: MessageEvent<ReplayResponse>) => {
+        worker.terminate();
+        if ('error' in e.data) reject(new Error(e.data.error));
+        else resolve(e.data.result);
+      };
+      worker.onerror = (e: ErrorEvent) => {
+        worker.terminate();
+        this.logger.error('Replay worker failed', { recordingId: recording.id, error: e.message });
+        reject(new Error(e.message || 'Replay worker failed'));
+      };
+      worker.postMessage({ config: config.get(), recording } as ReplayRequest);
+    });
+  }
+}
+
+export const replayWorker = ReplayWorker.getInstance();
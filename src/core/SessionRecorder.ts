@@ -0,0 +1,206 @@
+import { eventCaptureManager, CaptureEvent } from './EventCaptureManager';
+import { tabCoordinator } from './TabCoordinator';
+import { pipelineWorker } from './PipelineWorker';
+import { profileManager } from './ProfileManager';
+import { KeystrokeEvent } from '../collectors/KeystrokeCollector';
+import { MouseSample } from '../collectors/MouseTracker';
+import { TouchSample } from '../collectors/TouchTracker';
+import { ScrollSample } from '../collectors/ScrollCollector';
+import { VoiceFeatures } from '../collectors/VoiceAnalyzer';
+import { FocusAttentionFeatures } from '../features/FocusFeatures';
+import { SessionContext } from '../analysis/ContextAdjustment';
+import { PipelineState } from '../analysis/AnalysisPipeline';
+import { createComponentLogger } from '../utils/Logger';
+
+export const RECORDING_FORMAT = 'cognitive-fingerprint-session';
+export const RECORDING_VERSION = 2;
+
+// What the live pipeline reported at a tick, so a replay can show that it reproduces the session
+export interface RecordedTickOutputs {
+  similarity?: number;
+  baselineVersion?: string;
+  drifting?: boolean;
+  violations?: number;
+}
+
+// Frame times are ms epoch; sample timestamps inside frames keep the recording tab's performance.now() clock
+export type RecordingFrame =
+  | { t: number; kind: 'keystroke'; events: KeystrokeEvent[] }
+  | { t: number; kind: 'mouse'; samples: MouseSample[] }
+  | { t: number; kind: 'touch'; samples: TouchSample[] }
+  | { t: number; kind: 'scroll'; samples: ScrollSample[] }
+  | { t: number; kind: 'focus'; features: FocusAttentionFeatures }
+  | { t: number; kind: 'voice'; features: VoiceFeatures }
+  | { t: number; kind: 'tick'; quality?: number; context?: SessionContext; outputs?: RecordedTickOutputs }; // A pipeline tick ran with this snapshot quality and user context
+
+export type RecordingFrameKind = RecordingFrame['kind'];
+
+export interface SessionRecording {
+  format: typeof RECORDING_FORMAT;
+  version: number;
+  id: string;
+  sessionId: string;
+  startedAt: number;
+  endedAt?: number;
+  initialState?: PipelineState; // The pipeline's state for the profile when recording started; replay resumes from it
+  frames: RecordingFrame[];
+}
+
+type RecordingListener = (recording: boolean) => void;
+
+// Collectors whose raw samples are recorded, keyed by the capture event that signals new samples
+const SAMPLE_SOURCES: Partial<Record<string, { kind: 'keystroke' | 'mouse' | 'touch' | 'scroll'; pull: () => any[]; time: (s: any) => number }>> = {
+  keystroke: { kind: 'keystroke', pull: () => eventCaptureManager.getKeystrokeEvents(), time: (s: KeystrokeEvent) => s.downTime },
+  mouse: { kind: 'mouse', pull: () => eventCaptureManager.getMouseSamples(), time: (s: MouseSample) => s.t },
+  touch: { kind: 'touch', pull: () => eventCaptureManager.getTouchSamples(), time: (s: TouchSample) => s.t },
+  scroll: { kind: 'scroll', pull: () => eventCaptureManager.getScrollSamples(), time: (s: ScrollSample) => s.timestamp }
+};
+
+/**
+ * Records the raw collector inputs of a session, plus the points at which the pipeline ticked, so the
+ * session can be fed back through the analysis pipeline by SessionReplay.
+ */
+export class SessionRecorder {
+  private static instance: SessionRecorder;
+  private logger = createComponentLogger('SessionRecorder');
+  private recording?: SessionRecording;
+  private capturing?: Promise<void>; // The initial state export, until it lands in the recording
+  private cursors = new Map<string, number>(); // Time of the newest recorded sample per collector
+  private offEvent?: () => void;
+  private listeners = new Set<RecordingListener>();
+
+  private constructor() {}
+
+  static getInstance(): SessionRecorder {
+    if (!SessionRecorder.instance) {
+      SessionRecorder.instance = new SessionRecorder();
+    }
+    return SessionRecorder.instance;
+  }
+
+  isRecording(): boolean {
+    return !!this.recording;
+  }
+
+  /**
+   * Start recording. The pipeline's state is exported once the ticks already under way have finished, so the first
+   * recorded tick runs on exactly that state.
+   */
+  start(): void {
+    if (this.recording) return;
+
+    const now = Date.now();
+    this.recording = {
+      format: RECORDING_FORMAT,
+      version: RECORDING_VERSION,
+      id: `rec_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      sessionId: eventCaptureManager.getState().sessionId,
+      startedAt: now,
+      frames: []
+    };
+    const recording = this.recording;
+    this.capturing = pipelineWorker.exportState(profileManager.getActive().id, recording.sessionId)
+      .then(state => { recording.initialState = state; })
+      .catch(err => this.logger.warn('Pipeline state not captured; the recording replays from an empty state', { error: err instanceof Error ? err.message : String(err) }));
+    // No cursors yet, so the first pull also records the sample window the pipeline already holds
+    this.cursors.clear();
+    this.offEvent = eventCaptureManager.onEvent(this.handleEvent);
+    this.logger.info('Session recording started', { recordingId: this.recording.id });
+    this.notify();
+  }
+
+  /**
+   * Stop recording; resolves with the recording once its initial state has been captured
+   */
+  async stop(): Promise<SessionRecording | undefined> {
+    const recording = this.recording;
+    if (!recording) return undefined;
+
+    this.offEvent?.();
+    this.offEvent = undefined;
+    this.recording = undefined;
+    recording.endedAt = Date.now();
+    this.logger.info('Session recording stopped', { recordingId: recording.id, frames: recording.frames.length });
+    this.notify();
+    await this.capturing;
+    return recording;
+  }
+
+  /**
+   * Mark a pipeline tick. Replay runs the pipeline at exactly these points with the same quality.
+   */
+  recordTick(timestamp: number, quality?: number, context?: SessionContext): void {
+    this.recording?.frames.push({ t: timestamp, kind: 'tick', quality, context });
+  }
+
+  /**
+   * Attach the live pipeline's outputs to the tick recorded at `timestamp`. The tick frame is written before the
+   * pipeline runs, so input arriving meanwhile lands after it, as it does in the live session.
+   */
+  recordTickOutputs(timestamp: number, outputs: RecordedTickOutputs): void {
+    const frames = this.recording?.frames ?? [];
+    for (let i = frames.length - 1; i >= 0; i--) {
+      const frame = frames[i];
+      if (frame.kind === 'tick' && frame.t === timestamp) {
+        frame.outputs = outputs;
+        return;
+      }
+    }
+  }
+
+  onChange(listener: RecordingListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private handleEvent = (event: CaptureEvent) => {
+    // Same events the pipeline sees: accepted ones, in the tab that runs the analysis
+    if (!this.recording || event.discarded || !tabCoordinator.isLeader()) return;
+
+    switch (event.type) {
+      case 'attention':
+        this.recording.frames.push({ t: event.timestamp, kind: 'focus', features: event.data });
+        return;
+      case 'voice':
+        this.recording.frames.push({ t: event.timestamp, kind: 'voice', features: event.data });
+        return;
+    }
+
+    const source = SAMPLE_SOURCES[event.type];
+    if (!source) return;
+    const cursor = this.cursors.get(event.type) ?? -Infinity;
+    const fresh = source.pull().filter(s => source.time(s) > cursor);
+    if (fresh.length === 0) return;
+    this.cursors.set(event.type, source.time(fresh[fresh.length - 1]));
+    this.recording.frames.push(source.kind === 'keystroke'
+      ? { t: event.timestamp, kind: 'keystroke', events: fresh }
+      : { t: event.timestamp, kind: source.kind, samples: fresh });
+  };
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.isRecording()));
+  }
+}
+
+export const sessionRecorder = SessionRecorder.getInstance();
+
+export function serializeRecording(recording: SessionRecording): string {
+  return JSON.stringify(recording);
+}
+
+/**
+ * Parse a recording file, rejecting other formats and versions this build cannot replay
+ */
+export function parseRecording(json: string): SessionRecording {
+  const recording = JSON.parse(json) as SessionRecording;
+  if (recording?.format !== RECORDING_FORMAT) {
+    throw new Error('Not a session recording');
+  }
+  if (recording.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version ${recording.version} (expected ${RECORDING_VERSION})`);
+  }
+  if (!Array.isArray(recording.frames)) {
+    throw new Error('Recording has no frames');
+  }
+  return recording;
+}
@@ -0,0 +1,246 @@
+import { createComponentLogger } from '../utils/Logger';
+
+export type TabRole = 'leader' | 'follower';
+
+interface TabMessage {
+  kind: string;
+  from: string;
+  term: number;
+  payload?: any;
+}
+
+type RoleListener = (role: TabRole) => void;
+type MessageListener = (payload: any, from: string) => void;
+
+const CHANNEL_NAME = 'cognitive-fingerprint-tabs';
+
+/**
+ * BroadcastChannel leader election. The leader heartbeats; followers that miss heartbeats start an
+ * election for a higher term. A leader that hears a higher term (e.g. after being throttled in a
+ * background tab) steps down, so at most one tab collects and analyses at a time.
+ */
+export class TabCoordinator {
+  private static instance: TabCoordinator;
+  private logger = createComponentLogger('TabCoordinator');
+
+  readonly tabId = `tab_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  private channel?: BroadcastChannel;
+  private role: TabRole;
+  private term = 0;
+  private leaderId?: string;
+  private lastHeartbeat = 0;
+  private electing = false;
+
+  private heartbeatTimer?: NodeJS.Timeout;
+  private watchdogTimer?: NodeJS.Timeout;
+  private electionTimer?: NodeJS.Timeout;
+
+  private heartbeatMs = 1000;
+  private leaderTimeoutMs = 3500; // three missed heartbeats plus slack
+  private claimWindowMs = 300;
+
+  private roleListeners = new Set<RoleListener>();
+  private messageListeners = new Map<string, Set<MessageListener>>();
+
+  private constructor() {
+    // Without BroadcastChannel (SSR, tests, old browsers) every tab is on its own
+    this.role = this.canCoordinate() ? 'follower' : 'leader';
+  }
+
+  static getInstance(): TabCoordinator {
+    if (!TabCoordinator.instance) {
+      TabCoordinator.instance = new TabCoordinator();
+    }
+    return TabCoordinator.instance;
+  }
+
+  start(): void {
+    if (this.channel || !this.canCoordinate()) return;
+
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.onmessage = (e: MessageEvent<TabMessage>) => this.handleMessage(e.data);
+    window.addEventListener('pagehide', this.resign);
+
+    // Give an existing leader one timeout window to announce itself before claiming
+    this.lastHeartbeat = Date.now();
+    this.watchdogTimer = setInterval(() => this.checkLeader(), this.heartbeatMs);
+    this.post('hello');
+    this.logger.info('Tab coordination started', { tabId: this.tabId });
+  }
+
+  stop(): void {
+    if (!this.channel) return;
+
+    this.resign();
+    clearInterval(this.heartbeatTimer);
+    clearInterval(this.watchdogTimer);
+    clearTimeout(this.electionTimer);
+    window.removeEventListener('pagehide', this.resign);
+    this.channel.close();
+    this.channel = undefined;
+    this.electing = false;
+    this.leaderId = undefined;
+    this.role = 'leader'; // A disconnected tab is on its own again
+  }
+
+  getRole(): TabRole {
+    return this.role;
+  }
+
+  isLeader(): boolean {
+    return this.role === 'leader';
+  }
+
+  onRoleChange(listener: RoleListener): () => void {
+    this.roleListeners.add(listener);
+    return () => this.roleListeners.delete(listener);
+  }
+
+  /**
+   * Send an application message to every other tab
+   */
+  send(kind: string, payload: any): void {
+    this.post(kind, payload);
+  }
+
+  onMessage(kind: string, listener: MessageListener): () => void {
+    if (!this.messageListeners.has(kind)) {
+      this.messageListeners.set(kind, new Set());
+    }
+    this.messageListeners.get(kind)!.add(listener);
+    return () => this.messageListeners.get(kind)?.delete(listener);
+  }
+
+  private canCoordinate(): boolean {
+    return typeof window !== 'undefined' && typeof BroadcastChannel !== 'undefined';
+  }
+
+  private handleMessage(message: TabMessage): void {
+    if (!message || message.from === this.tabId) return;
+
+    switch (message.kind) {
+      case 'hello':
+        if (this.isLeader()) this.post('heartbeat');
+        return;
+      case 'heartbeat':
+        this.handleHeartbeat(message);
+        return;
+      case 'claim':
+        this.handleClaim(message);
+        return;
+      case 'resign':
+        if (message.from === this.leaderId) {
+          this.leaderId = undefined;
+          // Jitter so surviving tabs don't all claim in the same instant
+          clearTimeout(this.electionTimer);
+          this.electionTimer = setTimeout(() => this.startElection(), Math.random() * 200);
+        }
+        return;
+    }
+
+    this.messageListeners.get(message.kind)?.forEach(listener => {
+      try {
+        listener(message.payload, message.from);
+      } catch (error) {
+        this.logger.error('Tab message listener error', { kind: message.kind, error: error instanceof Error ? error.message : String(error) });
+      }
+    });
+  }
+
+  private handleHeartbeat(message: TabMessage): void {
+    if (this.isLeader() && !this.outranks(message)) {
+      this.logger.info('Another tab leads a newer term, stepping down', { leaderId: message.from, term: message.term });
+      this.setRole('follower');
+    } else if (this.isLeader()) {
+      this.post('heartbeat'); // Assert leadership over a stale leader
+      return;
+    }
+
+    this.term = Math.max(this.term, message.term);
+    this.leaderId = message.from;
+    this.lastHeartbeat = Date.now();
+    this.electing = false;
+  }
+
+  private handleClaim(message: TabMessage): void {
+    if (this.isLeader()) {
+      if (message.term > this.term) {
+        this.setRole('follower');
+        this.term = message.term;
+      } else {
+        this.post('heartbeat');
+      }
+      return;
+    }
+
+    // Competing claim for the same term: lowest tab id wins
+    if (this.electing && !this.outranks(message)) {
+      this.electing = false;
+      clearTimeout(this.electionTimer);
+      this.lastHeartbeat = Date.now(); // wait for the winner's heartbeat before retrying
+    }
+    this.term = Math.max(this.term, message.term);
+  }
+
+  private outranks(message: TabMessage): boolean {
+    if (this.term !== message.term) return this.term > message.term;
+    return this.tabId < message.from;
+  }
+
+  private checkLeader(): void {
+    if (this.isLeader() || this.electing) return;
+    if (Date.now() - this.lastHeartbeat > this.leaderTimeoutMs) {
+      this.logger.info('Leader heartbeat lost', { leaderId: this.leaderId });
+      this.startElection();
+    }
+  }
+
+  private startElection(): void {
+    if (this.isLeader() || !this.channel) return;
+
+    this.electing = true;
+    this.term += 1;
+    this.post('claim');
+
+    clearTimeout(this.electionTimer);
+    this.electionTimer = setTimeout(() => {
+      if (!this.electing) return;
+      this.electing = false;
+      this.leaderId = this.tabId;
+      this.setRole('leader');
+    }, this.claimWindowMs);
+  }
+
+  private setRole(role: TabRole): void {
+    if (role === this.role) return;
+    this.role = role;
+
+    clearInterval(this.heartbeatTimer);
+    if (role === 'leader') {
+      this.post('heartbeat');
+      this.heartbeatTimer = setInterval(() => this.post('heartbeat'), this.heartbeatMs);
+    } else {
+      this.lastHeartbeat = Date.now();
+    }
+
+    this.logger.info('Tab role changed', { tabId: this.tabId, role, term: this.term });
+    this.roleListeners.forEach(listener => listener(role));
+  }
+
+  private resign = () => {
+    if (!this.isLeader() || !this.channel) return;
+    this.post('resign');
+    clearInterval(this.heartbeatTimer);
+  };
+
+  private post(kind: string, payload?: any): void {
+    if (!this.channel) return;
+    try {
+      this.channel.postMessage({ kind, from: this.tabId, term: this.term, payload } as TabMessage);
+    } catch (error) {
+      this.logger.warn('Tab message failed', { kind, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+}
+
+export const tabCoordinator = TabCoordinator.getInstance();
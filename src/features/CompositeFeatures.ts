@@ -5,6 +5,7 @@ import { MouseMovementFeatures } from './MouseFeatures';
 import { ScrollBehaviorFeatures } from './ScrollFeatures';
 import { FocusAttentionFeatures } from './FocusFeatures';
 import { createComponentLogger } from '../utils/Logger';
+import { clock } from '../utils/Clock';
 
 const logger = createComponentLogger('CompositeFeatures');
 
@@ -144,7 +145,7 @@ const globalTimingEntropyAnalysis: FeatureDefinition<{
       globalTimingEntropy,
       crossModalSynchrony,
       temporalCoherence,
-      timestamp: Date.now()
+      timestamp: clock.now()
     };
   },
   metadata: {
@@ -228,7 +229,7 @@ const rhythmAnalysis: FeatureDefinition<{
       masterRhythm,
       rhythmicComplexity,
       polyrhythmicIndex,
-      timestamp: Date.now()
+      timestamp: clock.now()
     };
   },
   metadata: {
@@ -305,7 +306,7 @@ const neurologicalComposite: FeatureDefinition<{
       globalNeuromotorIndex,
       bradykinesiaComposite,
       dysrhythmiaIndex,
-      timestamp: Date.now()
+      timestamp: clock.now()
     };
   },
   metadata: {
@@ -375,7 +376,7 @@ const vitalityComposite: FeatureDefinition<{
       fatigueProgression,
       compositeVitality,
       adaptiveCapacity,
-      timestamp: Date.now()
+      timestamp: clock.now()
     };
   },
   metadata: {
@@ -471,7 +472,7 @@ const cognitiveLoadComposite: FeatureDefinition<{
       globalCognitiveLoad,
       workingMemoryPressure,
       attentionalCapacity,
-      timestamp: Date.now()
+      timestamp: clock.now()
     };
   },
   metadata: {
@@ -520,7 +521,7 @@ export async function computeCompositeFeatures(
   sessionId: string
 ): Promise<CompositeTimingFeatures> {
   const compositeFeaturesList = featureRegistry.getByType('composite');
-  const results: Partial<CompositeTimingFeatures> = { timestamp: Date.now() };
+  const results: Partial<CompositeTimingFeatures> = { timestamp: clock.now() };
   
   for (const feature of compositeFeaturesList) {
     try {
@@ -1,11 +1,13 @@
 /* eslint-disable no-trailing-spaces */
 import { createComponentLogger } from '../utils/Logger';
+import { clock } from '../utils/Clock';
 
 const logger = createComponentLogger('FeatureRegistry');
 
 export type FeatureType = 
   | 'keystroke' 
   | 'mouse' 
+  | 'touch' 
   | 'voice' 
   | 'eye' 
   | 'scroll' 
@@ -239,7 +241,7 @@ export class FeatureRegistry {
           results.push({
             featureId: feature.id,
             value,
-            timestamp: Date.now(),
+            timestamp: clock.now(),
             quality: this.computeQualityScore(value, feature, computeDuration),
             metadata: {
               computeDuration,
@@ -252,7 +254,7 @@ export class FeatureRegistry {
           results.push({
             featureId: feature.id,
             value: null,
-            timestamp: Date.now(),
+            timestamp: clock.now(),
             quality: 0,
             error: 'Validation failed'
           });
@@ -267,7 +269,7 @@ export class FeatureRegistry {
         results.push({
           featureId: feature.id,
           value: null,
-          timestamp: Date.now(),
+          timestamp: clock.now(),
           quality: 0,
           error: error instanceof Error ? error.message : String(error)
         });
@@ -276,7 +278,7 @@ export class FeatureRegistry {
 
     const batch: FeatureBatch = {
       sessionId,
-      timestamp: Date.now(),
+      timestamp: clock.now(),
       results,
       totalComputed: results.filter(r => !r.error).length,
       totalErrors,
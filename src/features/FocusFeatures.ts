@@ -1,6 +1,7 @@
 /* eslint-disable no-trailing-spaces */
 import { FeatureDefinition, featureRegistry, FeatureType } from './FeatureRegistry';
 import { createComponentLogger } from '../utils/Logger';
+import { clock } from '../utils/Clock';
 
 const logger = createComponentLogger('FocusFeatures');
 
@@ -160,7 +161,7 @@ const basicFocusAnalysis: FeatureDefinition<FocusEvent[], Partial<FocusAttention
       sessionDuration,
       totalFocusEvents: focusEvents,
       totalBlurEvents: blurEvents,
-      timestamp: Date.now()
+      timestamp: clock.now()
     };
   },
   validate: (result) => {
@@ -245,7 +246,7 @@ const distractionAnalysis: FeatureDefinition<FocusEvent[], Partial<FocusAttentio
       multitaskingIndex,
       contextSwitchingCost,
       focusFragmentation,
-      timestamp: Date.now()
+      timestamp: clock.now()
     };
   },
   metadata: {
@@ -329,7 +330,7 @@ const attentionStabilityAnalysis: FeatureDefinition<FocusEvent[], Partial<FocusA
       attentionalControl,
       cognitiveFlexibility,
       peakAttentionPeriods,
-      timestamp: Date.now()
+      timestamp: clock.now()
     };
   },
   metadata: {
@@ -426,7 +427,7 @@ const vigilanceAnalysis: FeatureDefinition<FocusEvent[], Partial<FocusAttentionF
       vigilanceDecrement: Math.max(-1, Math.min(1, vigilanceDecrement)),
       attentionFatigue: Math.max(-1, Math.min(2, attentionFatigue)),
       recoveryEfficiency: Math.max(0, Math.min(1, recoveryEfficiency)),
-      timestamp: Date.now()
+      timestamp: clock.now()
     };
   },
   metadata: {
@@ -521,7 +522,7 @@ const activityCorrelationAnalysis: FeatureDefinition<{focusEvents: FocusEvent[],
       idlenessToleranceIndex,
       stimulationSeeking,
       averageActivityLevel,
-      timestamp: Date.now()
+      timestamp: clock.now()
     };
   },
   metadata: {
@@ -569,7 +570,7 @@ export async function computeFocusFeatures(
   sessionId: string
 ): Promise<FocusAttentionFeatures> {
   const focusFeatures = featureRegistry.getByType('focus');
-  const results: Partial<FocusAttentionFeatures> = { timestamp: Date.now() };
+  const results: Partial<FocusAttentionFeatures> = { timestamp: clock.now() };
   
   for (const feature of focusFeatures) {
     try {
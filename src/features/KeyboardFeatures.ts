@@ -1,7 +1,9 @@
 /* eslint-disable no-trailing-spaces */
 import { FeatureDefinition, featureRegistry, FeatureType } from './FeatureRegistry';
-// KeystrokeMetrics type not exported; using aggregated summaries only.
-interface KeystrokeMetrics {
+import { KeystrokeEvent } from '../collectors/KeystrokeCollector';
+
+// Per-keystroke timing the keyboard features read; toKeystrokeMetrics derives it from collector events
+export interface KeystrokeMetrics {
   dwell: number; // key down duration ms
   flight?: number; // interval to next key ms
   force?: number;
@@ -11,6 +13,7 @@ interface KeystrokeMetrics {
   keyCode?: number;
 }
 import { createComponentLogger } from '../utils/Logger';
+import { clock } from '../utils/Clock';
 
 const logger = createComponentLogger('KeyboardFeatures');
 
@@ -139,7 +142,7 @@ const basicTiming: FeatureDefinition<KeystrokeMetrics[], Partial<KeyboardTimingF
       typingSpeed,
       errorRate,
       sessionDuration,
-      timestamp: Date.now()
+      timestamp: clock.now()
     };
   },
   validate: (result) => {
@@ -214,7 +217,7 @@ const rhythmAnalysis: FeatureDefinition<KeystrokeMetrics[], Partial<KeyboardTimi
       rhythmVariance,
       syncopationIndex,
       microRhythm,
-      timestamp: Date.now()
+      timestamp: clock.now()
     };
   },
   metadata: {
@@ -283,7 +286,7 @@ const neuromotorAnalysis: FeatureDefinition<KeystrokeMetrics[], Partial<Keyboard
       tremorInKeystrokes,
       motorSlowness,
       fatigueIndex,
-      timestamp: Date.now()
+      timestamp: clock.now()
     };
   },
   metadata: {
@@ -351,7 +354,7 @@ const cognitiveAnalysis: FeatureDefinition<KeystrokeMetrics[], Partial<KeyboardT
       cognitiveLoad,
       workingMemoryStrain,
       attentionalLapses,
-      timestamp: Date.now()
+      timestamp: clock.now()
     };
   },
   metadata: {
@@ -395,7 +398,7 @@ const entropyAnalysis: FeatureDefinition<KeystrokeMetrics[], Partial<KeyboardTim
       dwellEntropy,
       flightEntropy,
       sequenceEntropy,
-      timestamp: Date.now()
+      timestamp: clock.now()
     };
   },
   metadata: {
@@ -482,12 +485,23 @@ export function registerKeyboardFeatures(): void {
   }
 }
 
+/**
+ * Per-keystroke timing from collector events, oldest first. Flight runs from a key's release to the next key's press.
+ */
+export function toKeystrokeMetrics(events: KeystrokeEvent[]): KeystrokeMetrics[] {
+  return events.map((e, i) => ({
+    dwell: e.dwell ?? 0,
+    flight: events[i + 1] && e.upTime !== undefined ? events[i + 1].downTime - e.upTime : undefined,
+    timestamp: e.downTime
+  }));
+}
+
 /**
  * Utility function to compute all keyboard features from metrics
  */
 export async function computeKeyboardFeatures(metrics: KeystrokeMetrics[], sessionId: string): Promise<KeyboardTimingFeatures> {
   const keyboardFeatures = featureRegistry.getByType('keystroke');
-  const results: Partial<KeyboardTimingFeatures> = { timestamp: Date.now() };
+  const results: Partial<KeyboardTimingFeatures> = { timestamp: clock.now() };
   
   for (const feature of keyboardFeatures) {
     try {
@@ -2,6 +2,7 @@
 import { FeatureDefinition, featureRegistry, FeatureType } from './FeatureRegistry';
 import { MouseSample } from '../collectors/MouseTracker';
 import { createComponentLogger } from '../utils/Logger';
+import { clock } from '../utils/Clock';
 
 const logger = createComponentLogger('MouseFeatures');
 
@@ -113,7 +114,7 @@ const velocityFeatures: FeatureDefinition<MouseSample[], Partial<MouseMovementFe
       meanAcceleration,
       accelerationVariance,
       jerkMetric,
-      timestamp: Date.now()
+      timestamp: clock.now()
     };
   },
   validate: (result) => {
@@ -225,7 +226,7 @@ const movementPatterns: FeatureDefinition<MouseSample[], Partial<MouseMovementFe
       pauseFrequency,
       movementEfficiency,
       entropy,
-      timestamp: Date.now()
+      timestamp: clock.now()
     };
   },
   metadata: {
@@ -301,7 +302,7 @@ const tremorAnalysis: FeatureDefinition<MouseSample[], Partial<MouseMovementFeat
     return {
       tremorAmplitude,
       tremorPower,
-      timestamp: Date.now()
+      timestamp: clock.now()
     };
   },
   metadata: {
@@ -380,7 +381,7 @@ const timingFeatures: FeatureDefinition<MouseSample[], Partial<MouseMovementFeat
       movementTime: meanMovementTime,
       idleTime: meanIdleTime,
       reactionTime,
-      timestamp: Date.now()
+      timestamp: clock.now()
     };
   },
   metadata: {
@@ -420,7 +421,7 @@ export function registerMouseFeatures(): void {
  */
 export async function computeMouseFeatures(metrics: MouseSample[], sessionId: string): Promise<MouseMovementFeatures> {
   const mouseFeatures = featureRegistry.getByType('mouse');
-  const results: Partial<MouseMovementFeatures> = { timestamp: Date.now() };
+  const results: Partial<MouseMovementFeatures> = { timestamp: clock.now() };
   
   for (const feature of mouseFeatures) {
     try {
@@ -1,6 +1,7 @@
 /* eslint-disable no-trailing-spaces */
 import { FeatureDefinition, featureRegistry, FeatureType } from './FeatureRegistry';
 import { createComponentLogger } from '../utils/Logger';
+import { clock } from '../utils/Clock';
 
 const logger = createComponentLogger('ScrollFeatures');
 
@@ -121,7 +122,7 @@ const scrollVelocityAnalysis: FeatureDefinition<ScrollEvent[], Partial<ScrollBeh
       averageScrollDelta,
       totalScrollDistance,
       scrollActionCount: events.length,
-      timestamp: Date.now()
+      timestamp: clock.now()
     };
   },
   validate: (result) => {
@@ -212,7 +213,7 @@ const scrollPatternAnalysis: FeatureDefinition<ScrollEvent[], Partial<ScrollBeha
       scrollConsistency,
       scrollRhythm,
       backtrackingIndex,
-      timestamp: Date.now()
+      timestamp: clock.now()
     };
   },
   metadata: {
@@ -293,7 +294,7 @@ const readingPatternAnalysis: FeatureDefinition<ScrollEvent[], Partial<ScrollBeh
       skimmingBehavior,
       detailedReading,
       scrollSessionDuration,
-      timestamp: Date.now()
+      timestamp: clock.now()
     };
   },
   metadata: {
@@ -393,7 +394,7 @@ const scrollNeuromotorAnalysis: FeatureDefinition<ScrollEvent[], Partial<ScrollB
       scrollTremor,
       motorControl: Math.max(0, Math.min(1, motorControl)),
       intentionalityIndex,
-      timestamp: Date.now()
+      timestamp: clock.now()
     };
   },
   metadata: {
@@ -492,7 +493,7 @@ const scrollCognitiveAnalysis: FeatureDefinition<ScrollEvent[], Partial<ScrollBe
       scrollFatigue,
       attentionLapses,
       engagementLevel: Math.max(0, Math.min(1, engagementLevel)),
-      timestamp: Date.now()
+      timestamp: clock.now()
     };
   },
   metadata: {
@@ -533,7 +534,7 @@ export function registerScrollFeatures(): void {
  */
 export async function computeScrollFeatures(events: ScrollEvent[], sessionId: string): Promise<ScrollBehaviorFeatures> {
   const scrollFeatures = featureRegistry.getByType('scroll');
-  const results: Partial<ScrollBehaviorFeatures> = { timestamp: Date.now() };
+  const results: Partial<ScrollBehaviorFeatures> = { timestamp: clock.now() };
   
   for (const feature of scrollFeatures) {
     try {
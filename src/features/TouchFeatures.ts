@@ -0,0 +1,343 @@
+/* eslint-disable no-trailing-spaces */
+import { FeatureDefinition, featureRegistry, FeatureType } from './FeatureRegistry';
+import { TouchSample } from '../collectors/TouchTracker';
+import { createComponentLogger } from '../utils/Logger';
+import { clock } from '../utils/Clock';
+
+const logger = createComponentLogger('TouchFeatures');
+
+export interface TouchInteractionFeatures {
+  // Tap timing
+  meanTapDuration: number; // ms between contact and release for taps
+  tapDurationVariance: number;
+  tapCount: number;
+  longPressRatio: number; // Fraction of contacts held > 500ms without moving
+  tapPrecision: number; // Mean drift (px) between touch-down and release on taps
+
+  // Contact geometry and force
+  meanContactSize: number; // Geometric mean of contact width/height (px)
+  contactSizeVariance: number;
+  meanPressure: number;
+  pressureVariance: number;
+  meanTilt: number; // Pen tilt magnitude in degrees
+  penUsageRatio: number; // Fraction of contacts made with a stylus
+
+  // Gestures
+  multiTouchRatio: number; // Fraction of contacts made while another finger was down
+  pinchCount: number;
+  swipeCount: number;
+  meanSwipeVelocity: number; // px/s
+  swipeStraightness: number; // Chord length / path length, 1 = perfectly straight
+
+  // Neuromotor indicators
+  holdTremor: number; // RMS positional jitter during sustained contact (px)
+  pressureStability: number; // 1 - coefficient of variation of pressure during contact
+
+  timestamp: number;
+}
+
+interface Contact {
+  pointerId: number;
+  pointerType: TouchSample['pointerType'];
+  samples: TouchSample[];
+  multiTouch: boolean;
+}
+
+/**
+ * Group a sample stream into individual contacts (down ... up/cancel) per pointer
+ */
+function segmentContacts(samples: TouchSample[]): Contact[] {
+  const open = new Map<number, Contact>();
+  const contacts: Contact[] = [];
+
+  for (const s of samples) {
+    if (s.phase === 'down') {
+      open.set(s.pointerId, { pointerId: s.pointerId, pointerType: s.pointerType, samples: [s], multiTouch: s.activePointers > 1 });
+      continue;
+    }
+    const contact = open.get(s.pointerId);
+    if (!contact) continue; // Stream started mid-contact
+    contact.samples.push(s);
+    if (s.activePointers > 1) contact.multiTouch = true;
+    if (s.phase === 'up' || s.phase === 'cancel') {
+      contacts.push(contact);
+      open.delete(s.pointerId);
+    }
+  }
+
+  return contacts;
+}
+
+const mean = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+const variance = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const m = mean(values);
+  return values.reduce((sum, v) => sum + Math.pow(v - m, 2), 0) / values.length;
+};
+
+// Extract tap timing features
+const tapAnalysis: FeatureDefinition<TouchSample[], Partial<TouchInteractionFeatures>> = {
+  id: 'touch_taps',
+  name: 'Touch Tap Analysis',
+  description: 'Analyzes tap duration, long presses and tap precision',
+  type: 'touch' as FeatureType,
+  version: '1.0.0',
+  priority: 100,
+  enabled: true,
+  compute: (samples: TouchSample[]) => {
+    const contacts = segmentContacts(samples);
+    if (contacts.length === 0) return {};
+
+    const tapDurations: number[] = [];
+    const tapDrifts: number[] = [];
+    let longPresses = 0;
+
+    for (const contact of contacts) {
+      const first = contact.samples[0];
+      const last = contact.samples[contact.samples.length - 1];
+      const duration = last.t - first.t;
+      const drift = Math.hypot(last.x - first.x, last.y - first.y);
+
+      if (drift < 10) {
+        if (duration > 500) {
+          longPresses++;
+        } else {
+          tapDurations.push(duration);
+          tapDrifts.push(drift);
+        }
+      }
+    }
+
+    return {
+      meanTapDuration: mean(tapDurations),
+      tapDurationVariance: variance(tapDurations),
+      tapCount: tapDurations.length,
+      longPressRatio: longPresses / contacts.length,
+      tapPrecision: mean(tapDrifts),
+      timestamp: clock.now()
+    };
+  },
+  validate: (result) => {
+    return result.meanTapDuration === undefined || result.meanTapDuration >= 0;
+  },
+  metadata: {
+    unit: 'ms',
+    range: [0, 2000],
+    medicalRelevance: 'high',
+    reliability: 0.8,
+    interpretationHints: [
+      'Longer tap durations may indicate bradykinesia',
+      'Tap drift increases with tremor and reduced fine motor control',
+      'Frequent unintended long presses can reflect difficulty releasing'
+    ]
+  }
+};
+
+// Extract contact size, pressure and tilt features
+const contactAnalysis: FeatureDefinition<TouchSample[], Partial<TouchInteractionFeatures>> = {
+  id: 'touch_contact',
+  name: 'Touch Contact Analysis',
+  description: 'Analyzes contact area, pressure and stylus tilt',
+  type: 'touch' as FeatureType,
+  version: '1.0.0',
+  priority: 95,
+  enabled: true,
+  compute: (samples: TouchSample[]) => {
+    const inContact = samples.filter(s => s.phase === 'down' || s.phase === 'move');
+    if (inContact.length === 0) return {};
+
+    const sizes = inContact.map(s => Math.sqrt(s.width * s.height));
+    const pressures = inContact.map(s => s.pressure);
+    const penSamples = inContact.filter(s => s.pointerType === 'pen');
+    const tilts = penSamples.map(s => Math.hypot(s.tiltX, s.tiltY));
+    const downs = samples.filter(s => s.phase === 'down');
+
+    return {
+      meanContactSize: mean(sizes),
+      contactSizeVariance: variance(sizes),
+      meanPressure: mean(pressures),
+      pressureVariance: variance(pressures),
+      meanTilt: mean(tilts),
+      penUsageRatio: downs.length ? downs.filter(s => s.pointerType === 'pen').length / downs.length : 0,
+      timestamp: clock.now()
+    };
+  },
+  metadata: {
+    unit: 'px / normalized pressure',
+    medicalRelevance: 'medium',
+    reliability: 0.7,
+    interpretationHints: [
+      'Pressure is only meaningful on hardware that reports it (constant 0.5 otherwise)',
+      'Increasing contact size can indicate compensatory pressing',
+      'Stylus tilt changes may reflect altered grip or wrist posture'
+    ]
+  }
+};
+
+// Extract multi-touch and swipe gesture features
+const gestureAnalysis: FeatureDefinition<TouchSample[], Partial<TouchInteractionFeatures>> = {
+  id: 'touch_gestures',
+  name: 'Touch Gesture Analysis',
+  description: 'Detects pinch, swipe and multi-touch behavior',
+  type: 'touch' as FeatureType,
+  version: '1.0.0',
+  priority: 90,
+  enabled: true,
+  compute: (samples: TouchSample[]) => {
+    const contacts = segmentContacts(samples);
+    if (contacts.length === 0) return {};
+
+    const swipeVelocities: number[] = [];
+    const straightness: number[] = [];
+
+    for (const contact of contacts) {
+      if (contact.multiTouch) continue;
+      const first = contact.samples[0];
+      const last = contact.samples[contact.samples.length - 1];
+      const chord = Math.hypot(last.x - first.x, last.y - first.y);
+      const duration = (last.t - first.t) / 1000;
+      if (chord < 50 || duration <= 0) continue;
+
+      let path = 0;
+      for (let i = 1; i < contact.samples.length; i++) {
+        const a = contact.samples[i - 1];
+        const b = contact.samples[i];
+        path += Math.hypot(b.x - a.x, b.y - a.y);
+      }
+      swipeVelocities.push(chord / duration);
+      straightness.push(path > 0 ? chord / path : 1);
+    }
+
+    // Pinch: two simultaneous contacts whose separation changes substantially
+    let pinchCount = 0;
+    const multi = contacts.filter(c => c.multiTouch);
+    for (let i = 0; i < multi.length; i++) {
+      for (let j = i + 1; j < multi.length; j++) {
+        const a = multi[i].samples;
+        const b = multi[j].samples;
+        const overlapStart = Math.max(a[0].t, b[0].t);
+        const overlapEnd = Math.min(a[a.length - 1].t, b[b.length - 1].t);
+        if (overlapEnd <= overlapStart) continue;
+        const at = (c: TouchSample[], t: number) => c.reduce((best, s) => Math.abs(s.t - t) < Math.abs(best.t - t) ? s : best, c[0]);
+        const startGap = Math.hypot(at(a, overlapStart).x - at(b, overlapStart).x, at(a, overlapStart).y - at(b, overlapStart).y);
+        const endGap = Math.hypot(at(a, overlapEnd).x - at(b, overlapEnd).x, at(a, overlapEnd).y - at(b, overlapEnd).y);
+        if (Math.abs(endGap - startGap) > 30) pinchCount++;
+      }
+    }
+
+    return {
+      multiTouchRatio: multi.length / contacts.length,
+      pinchCount,
+      swipeCount: swipeVelocities.length,
+      meanSwipeVelocity: mean(swipeVelocities),
+      swipeStraightness: straightness.length ? mean(straightness) : 1,
+      timestamp: clock.now()
+    };
+  },
+  metadata: {
+    unit: 'px/s for velocity',
+    medicalRelevance: 'medium',
+    reliability: 0.7,
+    interpretationHints: [
+      'Slower swipes may indicate motor slowness',
+      'Reduced straightness suggests impaired motor planning or tremor',
+      'Multi-touch usage patterns reflect dexterity'
+    ]
+  }
+};
+
+// Extract tremor indicators from sustained contacts
+const touchTremorAnalysis: FeatureDefinition<TouchSample[], Partial<TouchInteractionFeatures>> = {
+  id: 'touch_tremor',
+  name: 'Touch Tremor Detection',
+  description: 'Measures positional and pressure instability while a finger or pen is held down',
+  type: 'touch' as FeatureType,
+  version: '1.0.0',
+  priority: 85,
+  enabled: true,
+  compute: (samples: TouchSample[]) => {
+    const holds = segmentContacts(samples).filter(c =>
+      c.samples.length >= 5 && c.samples[c.samples.length - 1].t - c.samples[0].t > 300
+    );
+    if (holds.length === 0) return {};
+
+    const jitters: number[] = [];
+    const stabilities: number[] = [];
+
+    for (const hold of holds) {
+      const s = hold.samples;
+      // Residual around a linear drift between the first and last point isolates oscillation from intentional motion
+      const first = s[0];
+      const last = s[s.length - 1];
+      const span = last.t - first.t || 1;
+      const residuals = s.map(p => {
+        const f = (p.t - first.t) / span;
+        const ex = first.x + (last.x - first.x) * f;
+        const ey = first.y + (last.y - first.y) * f;
+        return Math.pow(p.x - ex, 2) + Math.pow(p.y - ey, 2);
+      });
+      jitters.push(Math.sqrt(mean(residuals)));
+
+      const pressures = s.map(p => p.pressure);
+      const m = mean(pressures);
+      stabilities.push(m > 0 ? Math.max(0, 1 - Math.sqrt(variance(pressures)) / m) : 1);
+    }
+
+    return {
+      holdTremor: mean(jitters),
+      pressureStability: mean(stabilities),
+      timestamp: clock.now()
+    };
+  },
+  metadata: {
+    unit: 'pixels',
+    medicalRelevance: 'critical',
+    reliability: 0.7,
+    interpretationHints: [
+      'Hold tremor above a few pixels may indicate postural or action tremor',
+      'Low pressure stability suggests difficulty sustaining force'
+    ]
+  }
+};
+
+/**
+ * Register all touch features with the feature registry
+ */
+export function registerTouchFeatures(): void {
+  try {
+    featureRegistry.register(tapAnalysis);
+    featureRegistry.register(contactAnalysis);
+    featureRegistry.register(gestureAnalysis);
+    featureRegistry.register(touchTremorAnalysis);
+
+    logger.info('Touch features registered successfully', {
+      featureCount: 4,
+      types: ['taps', 'contact', 'gestures', 'tremor']
+    });
+  } catch (error) {
+    logger.error('Failed to register touch features', { error });
+    throw error;
+  }
+}
+
+/**
+ * Utility function to compute all touch features from pointer samples
+ */
+export async function computeTouchFeatures(samples: TouchSample[], sessionId: string): Promise<TouchInteractionFeatures> {
+  const touchFeatures = featureRegistry.getByType('touch');
+  const results: Partial<TouchInteractionFeatures> = { timestamp: clock.now() };
+
+  for (const feature of touchFeatures) {
+    try {
+      const partial = await feature.compute(samples);
+      Object.assign(results, partial);
+    } catch (error) {
+      logger.error('Touch feature computation failed', {
+        featureId: feature.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  return results as TouchInteractionFeatures;
+}
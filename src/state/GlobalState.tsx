@@ -1,49 +1,80 @@
 'use client';
 
-import React, { createContext, useContext, useEffect, useState } from 'react';
-import { KeystrokeCollector, KeystrokeAnalyticsSummary } from '../collectors/KeystrokeCollector';
-import { MouseTracker } from '../collectors/MouseTracker';
-import { VoiceAnalyzer, VoiceFeatures } from '../collectors/VoiceAnalyzer';
-import { CognitiveFingerprintModel } from '../analysis/PatternRecognition';
-import { isolationForestScore } from '../analysis/AnomalyDetection';
-import { EyeTracker, EyeFeatures } from '../collectors/EyeTracker';
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { KeystrokeAnalyticsSummary } from '../collectors/KeystrokeCollector';
+import { MouseSample } from '../collectors/MouseTracker';
+import { TouchSample } from '../collectors/TouchTracker';
+import { ScrollSample } from '../collectors/ScrollCollector';
+import { VoiceFeatures } from '../collectors/VoiceAnalyzer';
+import { MultiModalFeatures, buildRiskFeatures } from '../analysis/PatternRecognition';
+import { ModelRef } from '../analysis/ModelRegistry';
+import { RiskAttribution } from '../analysis/Attribution';
+import { AnomalyResult } from '../analysis/AnomalyDetection';
+import { EyeFeatures } from '../collectors/EyeTracker';
+import { eventCaptureManager, CaptureState, CaptureEvent } from '../core/EventCaptureManager';
+import { encryptedStore } from '../core/EncryptedStore';
+import { profileManager, Profile } from '../core/ProfileManager';
+import { tabCoordinator, TabRole } from '../core/TabCoordinator';
+import { pipelineWorker } from '../core/PipelineWorker';
+import { sessionRecorder, serializeRecording } from '../core/SessionRecorder';
 import { deriveKey, encryptJSON, decryptJSON, anonymizeVector, deriveBaselineFingerprint } from '../api/privacy';
 import { createComponentLogger } from '../utils/Logger';
-import { registerKeyboardFeatures, computeKeyboardFeatures } from '../features/KeyboardFeatures';
-import { registerMouseFeatures, computeMouseFeatures } from '../features/MouseFeatures';
-import { registerFocusFeatures } from '../features/FocusFeatures';
-import { registerScrollFeatures } from '../features/ScrollFeatures';
-import { registerCompositeFeatures } from '../features/CompositeFeatures';
-import { featureRegistry } from '../features/FeatureRegistry';
-import { baselineModeling, FeatureSnapshot } from '../analysis/BaselineModeling';
-import { similarityScoring, SimilarityScore } from '../analysis/SimilarityScoring';
-import { confidenceEstimation } from '../analysis/ConfidenceEstimation';
-import { adaptiveRecognition, DriftDetection } from '../analysis/AdaptiveRecognition';
+import { SimilarityScore, MethodComparison } from '../analysis/SimilarityScoring';
+import { DriftDetection } from '../analysis/AdaptiveRecognition';
+import { ControlChart, ControlViolation } from '../analysis/StatisticalProcessControl';
+import { ContextAdjustmentSummary, SessionContext } from '../analysis/ContextAdjustment';
+import { ConformalInterval } from '../analysis/ConformalPrediction';
+import { TemporalPatternResult } from '../analysis/TemporalAnalysis';
+import { hourlyMeans, SeasonalPoint, SEASONAL_HISTORY_HOURS } from '../analysis/SeasonalDecomposition';
+import { tickOutputs } from '../analysis/SessionReplay';
+import { BaselineRevision, mergeRevisions } from '../analysis/BaselineModeling';
 import { backgroundProcessor } from '../utils/BackgroundProcessor';
 import { serviceWorkerManager } from '../utils/ServiceWorkerManager';
 
 interface CognitiveState {
   keystroke?: KeystrokeAnalyticsSummary;
+  profile?: Profile;
+  captureState?: CaptureState;
+  tabRole?: TabRole; // Only the leader tab runs the pipeline; followers mirror its state
+  recording?: boolean;
+  startRecording?: ()=>void;
+  stopRecording?: ()=>Promise<string|undefined>; // serialized recording file
   // Raw sample arrays for feature extraction
-  mouseSamples?: { t:number; x:number; y:number }[];
+  mouseSamples?: MouseSample[];
+  touchSamples?: TouchSample[];
+  scrollSamples?: ScrollSample[];
   // Aggregated feature outputs
   keyboardFeatures?: any;
   mouseFeatures?: any;
+  touchFeatures?: any;
+  scrollFeatures?: any;
+  focusFeatures?: any;
   similarity?: SimilarityScore;
+  methodComparison?: MethodComparison; // latest snapshot scored under every similarity method
   baseline?: any;
+  baselineHistory?: BaselineRevision[]; // Recent and kept revisions of the active baseline, oldest first
+  rollbackBaseline?: (version: string)=>void; // Reinstates an earlier revision as the current baseline
   confidenceAssessment?: any;
   drift?: DriftDetection | null;
   driftHistory?: DriftDetection[];
+  controlCharts?: ControlChart[]; // CUSUM / EWMA chart per baseline feature
+  controlViolations?: ControlViolation[]; // Raised by the latest tick
+  sessionContext?: SessionContext; // Caffeine, medication and fatigue as entered by the user
+  setSessionContext?: (c: SessionContext)=>void;
+  contextAdjustment?: ContextAdjustmentSummary; // Covariates and fitted context effects at the latest tick
+  temporal?: TemporalPatternResult; // Drift prediction over the latest keystrokes, from the pipeline worker
   similarityHistory?: { t:number; overall:number; confidence:number; }[];
   confidenceHistory?: { t:number; confidence:number; }[];
   voice?: VoiceFeatures;
   eye?: EyeFeatures;
   risk?: number;
-  anomaly?: number;
+  riskInterval?: ConformalInterval; // Split-conformal interval for the latest risk score
+  anomaly?: AnomalyResult; // Ensemble score plus which detectors fired
+  riskAttribution?: RiskAttribution; // Latest risk score broken down by feature against the typing baseline
   confidence?: number;
   baselineKeystroke?: KeystrokeAnalyticsSummary;
   keystrokeHistory?: KeystrokeAnalyticsSummary[];
-  riskHistory?: { t: number; risk: number; }[];
+  riskHistory?: { t: number; risk: number; model?: ModelRef; }[];
   exportData?: ()=>string;
   wipeData?: ()=>void;
   setDpEpsilon?: (e:number)=>void;
@@ -60,45 +91,58 @@ const CognitiveContext = createContext<CognitiveState>({});
 
 export const CognitiveProvider = ({ children }: any) => {
   const [keystroke, setKeystroke] = useState<KeystrokeAnalyticsSummary>();
-  const [mouseSamples, setMouseSamples] = useState<{t:number;x:number;y:number}[]>([]);
+  const [profile, setProfile] = useState<Profile>(profileManager.getActive());
+  const [captureState, setCaptureState] = useState<CaptureState>();
+  const [tabRole, setTabRole] = useState<TabRole>(tabCoordinator.getRole());
+  const [recording, setRecording] = useState<boolean>(false);
+  const [mouseSamples, setMouseSamples] = useState<MouseSample[]>([]);
   const [keyboardFeatures, setKeyboardFeatures] = useState<any>();
   const [mouseFeatures, setMouseFeatures] = useState<any>();
+  const [touchSamples, setTouchSamples] = useState<TouchSample[]>([]);
+  const [touchFeatures, setTouchFeatures] = useState<any>();
+  const [scrollSamples, setScrollSamples] = useState<ScrollSample[]>([]);
+  const [scrollFeatures, setScrollFeatures] = useState<any>();
+  const [focusFeatures, setFocusFeatures] = useState<any>();
   const [similarity, setSimilarity] = useState<SimilarityScore>();
+  const [methodComparison, setMethodComparison] = useState<MethodComparison>();
   const [baseline, setBaseline] = useState<any>();
+  const [baselineHistory, setBaselineHistory] = useState<BaselineRevision[]>([]);
   const [confidenceAssessment, setConfidenceAssessment] = useState<any>();
   const [drift, setDrift] = useState<DriftDetection|null>(null);
   const [driftHistory, setDriftHistory] = useState<DriftDetection[]>([]);
+  const [controlCharts, setControlCharts] = useState<ControlChart[]>([]);
+  const [controlViolations, setControlViolations] = useState<ControlViolation[]>([]);
+  const [sessionContext, setSessionContextState] = useState<SessionContext>({});
+  const [contextAdjustment, setContextAdjustment] = useState<ContextAdjustmentSummary>();
+  const [temporal, setTemporal] = useState<TemporalPatternResult>();
   const [similarityHistory, setSimilarityHistory] = useState<{t:number; overall:number; confidence:number;}[]>([]);
   const [confidenceHistory, setConfidenceHistory] = useState<{t:number; confidence:number;}[]>([]);
   const [voice, setVoice] = useState<VoiceFeatures>();
   const [eye, setEye] = useState<EyeFeatures>();
   const [risk, setRisk] = useState<number>();
-  const [anomaly, setAnomaly] = useState<number>();
+  const [riskInterval, setRiskInterval] = useState<ConformalInterval>();
+  const [anomaly, setAnomaly] = useState<AnomalyResult>();
+  const [riskAttribution, setRiskAttribution] = useState<RiskAttribution>();
   const [confidence, setConfidence] = useState<number>();
   const [baselineKeystroke, setBaselineKeystroke] = useState<KeystrokeAnalyticsSummary>();
   const [keystrokeHistory, setKeystrokeHistory] = useState<KeystrokeAnalyticsSummary[]>([]);
-  const [riskHistory, setRiskHistory] = useState<{t:number; risk:number;}[]>([]);
+  const [riskHistory, setRiskHistory] = useState<{t:number; risk:number; model?: ModelRef;}[]>([]);
   const [dpEpsilon, setDpEpsilon] = useState(1.0);
   const [noiseActive, setNoiseActive] = useState<boolean>(false);
-  const [passphrase, setPassphrase] = useState('demo-passphrase');
+  // Profiles without a verifier use the demo passphrase; a restored protected profile has none until it is unlocked
+  const [passphrase, setPassphrase] = useState<string|undefined>(profileManager.isUnlocked() ? 'demo-passphrase' : undefined);
   const [aiConsent, setAiConsent] = useState(false);
   const [baselineHash, setBaselineHash] = useState<string>();
+  const resetStateRef = useRef<(()=>void) | undefined>();
+  const rollbackRef = useRef<((version: string)=>void) | undefined>();
+  const lastRiskInputs = useRef<unknown[]>([]); // Inputs of the last risk score; the same inputs are not scored again
   // Stable logger reference (avoid recreating object each render which was retriggering mount effect)
   const logger = React.useRef(createComponentLogger('GlobalState')).current;
 
-  // Initialize collectors and service worker once
+  // Start capture and service worker once
   useEffect(()=>{
-    // Register feature extractors once
-    try {
-      registerKeyboardFeatures?.();
-      registerMouseFeatures?.();
-      registerFocusFeatures?.();
-      registerScrollFeatures?.();
-      registerCompositeFeatures?.();
-      logger.info('Feature extractors registered', { stats: featureRegistry.getStats() });
-    } catch (e) {
-      logger.warn('Feature registration issue', { error: e instanceof Error? e.message: String(e)});
-    }
+    // Feature extractors are registered inside the pipeline worker, which owns all analysis state
+    pipelineWorker.start();
 
     // Initialize Service Worker for background processing
     serviceWorkerManager.initialize().then(success => {
@@ -109,93 +153,117 @@ export const CognitiveProvider = ({ children }: any) => {
       }
     });
 
-    const kc = new KeystrokeCollector();
-    kc.onSummary(s=> {
-      setKeystroke(s);
-      // Send keystroke data to Service Worker for background processing
-      serviceWorkerManager.sendKeystrokeData(s);
+    // Accepted events are written to IndexedDB in batches rather than one transaction per event
+    let pendingEvents: CaptureEvent[] = [];
+    const flushId = setInterval(() => {
+      if (pendingEvents.length === 0) return;
+      encryptedStore.persist('events', pendingEvents);
+      pendingEvents = [];
+    }, 5000);
+    encryptedStore.startRetention(() => profileManager.list().map(p => p.id));
+    // Events still buffered at a profile switch are the previous participant's and their store is about to close;
+    // drop them rather than let the next flush write them into the next participant's namespace
+    const offProfile = profileManager.onChange(next => {
+      if (next.id !== encryptedStore.getNamespace()) pendingEvents = [];
     });
-    kc.start();
-    const mt = new MouseTracker();
-    // Monkey patch to capture raw samples (accessing private for demo). In production expose accessor.
-    const origHandle: any = (mt as any).handleMove;
-    (mt as any).handleMove = (e: MouseEvent) => {
-      origHandle.call(mt, e);
-      const samples = (mt as any).samples as any[];
-      if (samples && samples.length) setMouseSamples(samples.slice(-600));
+
+    // Follower tabs keep capturing but EventCaptureManager forwards their input to the leader
+    tabCoordinator.start();
+    const offRole = tabCoordinator.onRoleChange(setTabRole);
+    const offRecording = sessionRecorder.onChange(setRecording);
+    setTabRole(tabCoordinator.getRole());
+
+    // EventCaptureManager owns the collectors; only events that passed its quality, warmup and session gates reach state
+    const offEvent = eventCaptureManager.onEvent(event => {
+      if (event.discarded || !tabCoordinator.isLeader() || !profileManager.isUnlocked()) return;
+      pendingEvents.push(event);
+      switch (event.type) {
+        case 'keystroke':
+          setKeystroke(event.data);
+          // Send keystroke data to Service Worker for background processing
+          serviceWorkerManager.sendKeystrokeData(event.data);
+          break;
+        case 'mouse':
+          setMouseSamples(eventCaptureManager.getMouseSamples());
+          break;
+        case 'touch':
+          setTouchSamples(eventCaptureManager.getTouchSamples());
+          break;
+        case 'scroll':
+          setScrollSamples(eventCaptureManager.getScrollSamples());
+          break;
+        case 'attention':
+          setFocusFeatures(event.data);
+          break;
+        case 'voice':
+          setVoice(event.data);
+          break;
+        case 'eye':
+          setEye(event.data);
+          break;
+      }
+    });
+    const offState = eventCaptureManager.onStateChange(setCaptureState);
+    eventCaptureManager.start();
+    setCaptureState(eventCaptureManager.getState());
+    logger.info('Event capture started', { sessionId: eventCaptureManager.getState().sessionId });
+    return ()=> {
+      offEvent(); offState(); offRole(); offRecording(); offProfile(); sessionRecorder.stop(); eventCaptureManager.stop(); tabCoordinator.stop(); pipelineWorker.stop();
+      clearInterval(flushId); encryptedStore.persist('events', pendingEvents); encryptedStore.stopRetention();
     };
-    mt.start();
-    const va = new VoiceAnalyzer();
-    va.onFeatures(f=> setVoice(f));
-    va.start().catch(()=>{});
-    const et = new EyeTracker();
-    et.onFeatures(f=> setEye(f));
-    et.start();
-    logger.info('Collectors initialized');
-    return ()=> { kc.stop(); mt.stop(); va.stop(); et.stop(); };
   }, []); // run once on mount
 
   // Periodic feature extraction & baseline / similarity pipeline using background processor
   useEffect(()=> {
-    const sessionId = 'session-' + Math.floor(Date.now()/1000);
-    
+    const intervalMs = 5000;
+
     backgroundProcessor.registerTask({
       id: 'feature-extraction',
       name: 'Feature Extraction Pipeline',
-      intervalMs: 5000,
+      intervalMs,
       fn: async () => {
+        if (!tabCoordinator.isLeader() || !profileManager.isUnlocked()) return;
+        const userId = profile.id;
         try {
-          if (!keystroke && mouseSamples.length < 10) return;
-          if (keystroke) {
-            try {
-              const kf = await computeKeyboardFeatures(keystroke as any, sessionId);
-              setKeyboardFeatures(kf);
-            } catch (err) {
-              logger.warn('Keyboard feature compute failed', { error: err instanceof Error? err.message: String(err)});
-            }
-          }
-          if (mouseSamples.length > 5) {
-            try {
-              const mf = await computeMouseFeatures(mouseSamples as any, sessionId);
-              setMouseFeatures(mf);
-            } catch (err) {
-              logger.warn('Mouse feature compute failed', { error: err instanceof Error? err.message: String(err)});
-            }
-          }
-          const snapshot: FeatureSnapshot = {
-            timestamp: Date.now(),
-            sessionId,
-            keyboard: keyboardFeatures,
-            mouse: mouseFeatures,
-            environmentalContext: { device: 'unknown' },
-            quality: 0.8
-          };
-          if (keyboardFeatures || mouseFeatures) {
-            baselineModeling.addSnapshot('demoUser', snapshot);
-          }
-          const currentBaseline = baselineModeling.getBaseline('demoUser');
-          if (currentBaseline) {
-            setBaseline(currentBaseline);
-            const sim = await similarityScoring.computeSimilarity(snapshot, currentBaseline);
+          const { sessionId, sessionState } = eventCaptureManager.getState();
+          if (sessionState !== 'collecting') return;
+          if (!keystroke && mouseSamples.length < 10 && touchSamples.length < 3 && scrollSamples.length < 3 && !focusFeatures) return;
+          // Snapshot quality reflects what the capture gates let through during this tick
+          const accepted = eventCaptureManager.getEvents(Date.now() - intervalMs).filter(e => !e.discarded);
+          const quality = accepted.length ? accepted.reduce((sum, e) => sum + e.quality, 0) / accepted.length : undefined;
+          const timestamp = Date.now();
+          sessionRecorder.recordTick(timestamp, quality, sessionContext);
+          const result = await pipelineWorker.tick({ userId, sessionId, timestamp, quality, keystrokes: eventCaptureManager.getKeystrokeEvents(), mouse: mouseSamples, touch: touchSamples, scroll: scrollSamples, focus: focusFeatures, context: sessionContext });
+          sessionRecorder.recordTickOutputs(timestamp, tickOutputs(result));
+          if (result.keyboard) setKeyboardFeatures(result.keyboard);
+          if (result.mouse) setMouseFeatures(result.mouse);
+          if (result.touch) setTouchFeatures(result.touch);
+          if (result.scroll) setScrollFeatures(result.scroll);
+          if (result.snapshot) encryptedStore.persist('snapshots', [result.snapshot]);
+          if (result.contextAdjustment) setContextAdjustment(result.contextAdjustment);
+          if (result.baseline) setBaseline(result.baseline);
+          if (result.baselineRevisions) setBaselineHistory(h => mergeRevisions(h, result.baselineRevisions!));
+          if (result.baselineRecords) encryptedStore.persist('baselines', result.baselineRecords);
+          const sim = result.similarity;
+          if (sim) {
             setSimilarity(sim);
+            encryptedStore.persist('scores', [sim]);
             setSimilarityHistory(h => [...h.slice(-499), { t: sim.timestamp, overall: sim.overall, confidence: sim.confidence }]);
             setConfidenceHistory(h => [...h.slice(-499), { t: sim.timestamp, confidence: sim.confidence }]);
-            try {
-              const conf = await confidenceEstimation.assessConfidence('demoUser', sim, currentBaseline);
-              setConfidenceAssessment(conf);
-            } catch (err) {
-              logger.warn('Confidence assessment failed', { error: err instanceof Error? err.message: String(err)});
-            }
-            try {
-              const driftDetected = await adaptiveRecognition.processNewScore('demoUser', sim);
-              if (driftDetected) {
-                setDrift(driftDetected);
-                setDriftHistory(prev => [...prev.slice(-49), driftDetected]);
-              }
-            } catch (err) {
-              logger.warn('Drift detection failed', { error: err instanceof Error? err.message: String(err)});
-            }
           }
+          if (result.methodComparison) setMethodComparison(result.methodComparison);
+          if (result.confidence) setConfidenceAssessment(result.confidence);
+          const driftDetected = result.drift;
+          if (driftDetected) {
+            setDrift(driftDetected);
+            encryptedStore.persist('drifts', [driftDetected]);
+            setDriftHistory(prev => [...prev.slice(-49), driftDetected]);
+          }
+          if (result.controlCharts) {
+            setControlCharts(result.controlCharts.charts);
+            setControlViolations(result.controlCharts.violations);
+          }
+          if (keystroke) setTemporal(await pipelineWorker.analyzeTemporal(eventCaptureManager.getKeystrokeEvents(300)));
         } catch (err) {
           logger.warn('Pipeline tick failed', { error: err instanceof Error? err.message: String(err) });
         }
@@ -203,24 +271,19 @@ export const CognitiveProvider = ({ children }: any) => {
     });
 
     return () => backgroundProcessor.unregisterTask('feature-extraction');
-  }, [keystroke, mouseSamples, keyboardFeatures, mouseFeatures, logger]);
+  }, [profile.id, keystroke, mouseSamples, touchSamples, scrollSamples, focusFeatures, sessionContext, logger]);
 
   // Scoring interval using background processor
   useEffect(()=>{
-    const model = new CognitiveFingerprintModel();
-    
     backgroundProcessor.registerTask({
       id: 'risk-scoring',
       name: 'Risk Scoring Pipeline',
       intervalMs: 3000,
-      fn: () => {
-        if (!keystroke) return;
-        let features = {
-          typing: [keystroke.meanDwell/200, keystroke.meanFlight/300, keystroke.varianceDwell/1000, keystroke.entropy/4, 0,0,0, 0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
-          voice: voice? [voice.f0/300, voice.jitter/5, voice.shimmer/10, voice.hnr/40, ...(voice.mfcc.slice(0,9).map(v=>v/50))]: new Array(13).fill(0.1),
-          motor: [mouseFeatures?.meanVelocity? mouseFeatures.meanVelocity/1000:0, mouseFeatures?.meanAcceleration? mouseFeatures.meanAcceleration/5000:0, mouseFeatures?.tremorAmplitude? mouseFeatures.tremorAmplitude/500:0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
-          temporal: new Array(12).fill(0.2)
-        } as any;
+      fn: async () => {
+        if (!keystroke || !tabCoordinator.isLeader()) return;
+        const inputs = [profile.id, keystroke, voice, mouseFeatures, baselineKeystroke, noiseActive, dpEpsilon];
+        if (inputs.every((v, i) => v === lastRiskInputs.current[i])) return;
+        let features: MultiModalFeatures = buildRiskFeatures({ keystroke, voice, motor: mouseFeatures });
         if (noiseActive) {
           features = {
             typing: anonymizeVector(features.typing, dpEpsilon),
@@ -229,14 +292,26 @@ export const CognitiveProvider = ({ children }: any) => {
             temporal: anonymizeVector(features.temporal, dpEpsilon)
           };
         }
-        const scores = model.infer(features);
+        let scores, anom, model, attribution, interval;
+        try {
+          ({ scores, anomaly: anom, model, attribution, interval } = await pipelineWorker.scoreRisk(profile.id, features, buildRiskFeatures({ keystroke: baselineKeystroke })));
+        } catch (err) {
+          logger.warn('Risk scoring failed', { error: err instanceof Error? err.message: String(err) });
+          return;
+        }
+        lastRiskInputs.current = inputs;
         setRisk(scores.overall);
+        setRiskInterval(interval);
         setConfidence(scores.confidence);
-        const anom = isolationForestScore([...features.typing, ...features.voice, ...features.motor]);
-        setAnomaly(anom.score);
+        setAnomaly(anom);
+        setRiskAttribution(attribution);
+        // Only the latest fitted forest is kept; it is restored on unlock so scoring survives a reload
+        if (model && encryptedStore.isAvailable() && encryptedStore.isUnlocked()) {
+          encryptedStore.replace('models', model).catch(err => logger.warn('Anomaly model persist failed', { error: err instanceof Error? err.message: String(err) }));
+        }
         if (scores.overall !== null) {
           (setRiskHistory as any)((h:any) => {
-            const next = [...(h||[]), { t: Date.now(), risk: scores.overall }];
+            const next = [...(h||[]), { t: Date.now(), risk: scores.overall, model: scores.model }];
             return next.slice(-500);
           });
         }
@@ -244,39 +319,87 @@ export const CognitiveProvider = ({ children }: any) => {
     });
 
     return () => backgroundProcessor.unregisterTask('risk-scoring');
-  }, [keystroke, voice, noiseActive, dpEpsilon, mouseFeatures, logger]);
+  }, [profile.id, keystroke, voice, noiseActive, dpEpsilon, mouseFeatures, baselineKeystroke, logger]);
 
   // Encrypted persistence (demo): load existing encrypted snapshot if available
   useEffect(()=> {
     (async ()=>{
-      if (typeof window === 'undefined') return;
-      const blob = localStorage.getItem('encState');
+      if (typeof window === 'undefined' || !passphrase) return;
+      const blob = localStorage.getItem(`encState:${profile.id}`);
       if (!blob) return;
       try {
-  const key = await deriveKey(passphrase);
+  const key = await deriveKey(passphrase, profile.id);
         const data = await decryptJSON(blob, key);
         if (data?.keystrokeHistory) setKeystrokeHistory(data.keystrokeHistory);
         if (data?.riskHistory) setRiskHistory(data.riskHistory);
         if (data?.baselineKeystroke) setBaselineKeystroke(data.baselineKeystroke);
       } catch {}
     })();
-  }, [passphrase]);
+  }, [passphrase, profile.id]);
+
+  // Unlock the IndexedDB store with the same passphrase and restore longitudinal histories from it
+  useEffect(()=> {
+    if (!encryptedStore.isAvailable() || !passphrase) return;
+    let cancelled = false;
+    (async ()=>{
+      try {
+        encryptedStore.setNamespace(profile.id);
+        await encryptedStore.unlock(passphrase);
+        const [scores, drifts, models, snapshots, revisions] = await Promise.all([
+          encryptedStore.query('scores', { limit: 500, newestFirst: true }),
+          encryptedStore.query('drifts', { limit: 50, newestFirst: true }),
+          encryptedStore.query('models', { limit: 1, newestFirst: true }),
+          encryptedStore.query('snapshots', { limit: 1000, newestFirst: true }),
+          encryptedStore.query('baselines')
+        ]);
+        if (cancelled) return;
+        if (models[0]?.userId === profile.id) await pipelineWorker.restoreAnomalyModel(models[0]);
+        // Revisions first: they carry the rollback exclusions that keep rolled-back snapshots out of the rebuilt baseline
+        const records = revisions.filter(r => r.userId === profile.id);
+        if (records.length) {
+          const history = await pipelineWorker.restoreRevisions(profile.id, records);
+          if (!cancelled) setBaselineHistory(h => mergeRevisions(h, history));
+        }
+        if (snapshots.length) await pipelineWorker.restoreSnapshots(profile.id, snapshots);
+        if (scores.length) {
+          const ordered = scores.reverse();
+          setSimilarityHistory(ordered.map(sc => ({ t: sc.timestamp, overall: sc.overall, confidence: sc.confidence })));
+          setConfidenceHistory(ordered.map(sc => ({ t: sc.timestamp, confidence: sc.confidence })));
+        }
+        if (drifts.length) setDriftHistory(drifts.reverse());
+
+        // Hourly means over the seasonal window seed the pipeline's seasonal fit; a day of scores is decrypted at a time
+        const dayMs = 24 * 60 * 60 * 1000;
+        const now = Date.now();
+        const seasonal: SeasonalPoint[] = [];
+        for (let from = Math.floor((now - SEASONAL_HISTORY_HOURS * 60 * 60 * 1000) / dayMs) * dayMs; from <= now; from += dayMs) {
+          seasonal.push(...hourlyMeans(await encryptedStore.query('scores', { from, to: from + dayMs - 1 })));
+          if (cancelled) return;
+        }
+        if (seasonal.length) await pipelineWorker.restoreScoreHistory(profile.id, seasonal);
+      } catch (err) {
+        logger.warn('Encrypted store unavailable', { error: err instanceof Error? err.message: String(err) });
+      }
+    })();
+    return ()=> { cancelled = true; };
+  }, [passphrase, profile.id, logger]);
 
   // Periodically persist encrypted snapshot
   useEffect(()=>{
     const id = setInterval(()=> {
       (async ()=>{
-        if (typeof window === 'undefined') return;
+        // Followers mirror the leader's histories; letting them write too would clobber the leader's blob
+        if (typeof window === 'undefined' || !passphrase || !tabCoordinator.isLeader()) return;
         try {
-    const key = await deriveKey(passphrase);
+    const key = await deriveKey(passphrase, profile.id);
             const payload = { keystrokeHistory, riskHistory, baselineKeystroke };
             const enc = await encryptJSON(payload, key);
-            localStorage.setItem('encState', enc);
+            localStorage.setItem(`encState:${profile.id}`, enc);
         } catch {}
       })();
     }, 10000);
     return ()=> clearInterval(id);
-  }, [keystrokeHistory, riskHistory, baselineKeystroke, passphrase]);
+  }, [keystrokeHistory, riskHistory, baselineKeystroke, passphrase, profile.id]);
 
   // Auto-establish baseline after sufficient samples (if wizard not handling it)
   useEffect(()=> {
@@ -295,6 +418,77 @@ export const CognitiveProvider = ({ children }: any) => {
     })();
   }, [baselineKeystroke, baselineHash, voice, mouseFeatures]);
 
+  // Profile switches swap userId, storage namespace and passphrase; nothing from the previous participant carries over
+  useEffect(()=> {
+    return profileManager.onChange((next, nextPassphrase) => {
+      setProfile(prev => {
+        if (prev.id !== next.id) resetStateRef.current?.();
+        return next;
+      });
+      if (nextPassphrase) setPassphrase(nextPassphrase);
+    });
+  }, []);
+
+  // Leader mirrors its analysis state to follower tabs
+  useEffect(()=> {
+    if (tabRole !== 'leader') return;
+    tabCoordinator.send('state', { profileId: profile.id, keystroke, keyboardFeatures, mouseFeatures, touchFeatures, scrollFeatures, focusFeatures, similarity, methodComparison, similarityHistory, confidenceHistory, baseline, confidenceAssessment, drift, driftHistory, controlCharts, controlViolations, contextAdjustment, temporal, voice, eye, risk, riskInterval, anomaly, riskAttribution, confidence, riskHistory });
+  }, [tabRole, profile.id, keystroke, keyboardFeatures, mouseFeatures, touchFeatures, scrollFeatures, focusFeatures, similarity, methodComparison, similarityHistory, confidenceHistory, baseline, confidenceAssessment, drift, driftHistory, controlCharts, controlViolations, contextAdjustment, temporal, voice, eye, risk, riskInterval, anomaly, riskAttribution, confidence, riskHistory]);
+
+  useEffect(()=> {
+    return tabCoordinator.onMessage('state', (s: any) => {
+      if (tabCoordinator.isLeader() || !profileManager.isUnlocked() || s.profileId !== profile.id) return;
+      setKeystroke(s.keystroke); setKeyboardFeatures(s.keyboardFeatures); setMouseFeatures(s.mouseFeatures); setTouchFeatures(s.touchFeatures); setScrollFeatures(s.scrollFeatures); setFocusFeatures(s.focusFeatures);
+      setSimilarity(s.similarity); setMethodComparison(s.methodComparison); setSimilarityHistory(s.similarityHistory); setConfidenceHistory(s.confidenceHistory); setBaseline(s.baseline); setConfidenceAssessment(s.confidenceAssessment);
+      setDrift(s.drift); setDriftHistory(s.driftHistory); setControlCharts(s.controlCharts); setControlViolations(s.controlViolations); setContextAdjustment(s.contextAdjustment); setTemporal(s.temporal); setVoice(s.voice); setEye(s.eye); setRisk(s.risk); setRiskInterval(s.riskInterval); setAnomaly(s.anomaly); setRiskAttribution(s.riskAttribution); setConfidence(s.confidence); setRiskHistory(s.riskHistory);
+    });
+  }, [profile.id]);
+
+  // Baseline revisions change rarely, so they travel on their own: when they change, and when a follower asks
+  useEffect(()=> {
+    if (tabRole !== 'leader') return;
+    const sendHistory = ()=> tabCoordinator.send('baseline-history', { profileId: profile.id, baselineHistory });
+    sendHistory();
+    return tabCoordinator.onMessage('baseline-history-request', (r: { profileId: string }) => {
+      if (r.profileId === profile.id) sendHistory();
+    });
+  }, [tabRole, profile.id, baselineHistory]);
+
+  useEffect(()=> {
+    if (tabRole !== 'follower') return;
+    const off = tabCoordinator.onMessage('baseline-history', (h: { profileId: string; baselineHistory: BaselineRevision[] }) => {
+      if (h.profileId === profile.id && profileManager.isUnlocked()) setBaselineHistory(h.baselineHistory);
+    });
+    tabCoordinator.send('baseline-history-request', { profileId: profile.id });
+    return off;
+  }, [tabRole, profile.id]);
+
+  // Context entered in any tab reaches the leader, which passes it to the pipeline
+  useEffect(()=> {
+    return tabCoordinator.onMessage('context', (c: SessionContext) => setSessionContextState(c));
+  }, []);
+  const setSessionContext = (c: SessionContext)=> {
+    setSessionContextState(c);
+    tabCoordinator.send('context', c);
+  };
+
+  // Rollbacks requested in a follower tab are carried out by the leader, which owns the baselines
+  useEffect(()=> {
+    return tabCoordinator.onMessage('rollback-baseline', (r: { profileId: string; version: string }) => {
+      if (tabCoordinator.isLeader() && r.profileId === profile.id) rollbackRef.current?.(r.version);
+    });
+  }, [profile.id]);
+  const rollbackBaseline = (version: string)=> {
+    if (!tabCoordinator.isLeader()) {
+      tabCoordinator.send('rollback-baseline', { profileId: profile.id, version });
+      return;
+    }
+    pipelineWorker.rollbackBaseline(profile.id, version)
+      .then(setBaseline)
+      .catch(err => logger.warn('Baseline rollback failed', { version, error: err instanceof Error? err.message: String(err) }));
+  };
+  rollbackRef.current = rollbackBaseline;
+
   // History of keystroke summaries
   useEffect(()=> {
     if (keystroke) {
@@ -306,15 +500,35 @@ export const CognitiveProvider = ({ children }: any) => {
   }, [keystroke]);
 
   function exportData(){
-  const payload = { keystrokeHistory, riskHistory, baselineKeystroke, voice, mouseSamples, eye, dpEpsilon, noiseActive, baselineHash, similarity, similarityHistory, confidenceHistory, driftHistory };
+  const payload = { keystrokeHistory, riskHistory, baselineKeystroke, voice, mouseSamples, touchFeatures, scrollFeatures, focusFeatures, eye, dpEpsilon, noiseActive, baselineHash, similarity, similarityHistory, confidenceHistory, driftHistory };
     return JSON.stringify(payload, null, 2);
   }
+  function resetState(){
+  setKeystroke(undefined); setKeystrokeHistory([]); setRiskHistory([]); setBaselineKeystroke(undefined); setBaselineHash(undefined); setVoice(undefined); setMouseSamples([]); setTouchSamples([]); setScrollSamples([]); setEye(undefined); setKeyboardFeatures(undefined); setMouseFeatures(undefined); setTouchFeatures(undefined); setScrollFeatures(undefined); setFocusFeatures(undefined); setSimilarity(undefined); setMethodComparison(undefined); setRiskAttribution(undefined); setSimilarityHistory([]); setConfidenceHistory([]); setBaseline(undefined); setBaselineHistory([]); setConfidenceAssessment(undefined); setDrift(null); setDriftHistory([]); setControlCharts([]); setControlViolations([]); setContextAdjustment(undefined); setTemporal(undefined);
+  pipelineWorker.reset().catch(err => logger.warn('Pipeline reset failed', { error: err instanceof Error? err.message: String(err) }));
+  }
+  resetStateRef.current = resetState;
   function wipeData(){
-  setKeystrokeHistory([]); setRiskHistory([]); setBaselineKeystroke(undefined); setVoice(undefined); setMouseSamples([]); setEye(undefined); setKeyboardFeatures(undefined); setMouseFeatures(undefined); setSimilarity(undefined); setBaseline(undefined); setConfidenceAssessment(undefined);
-    if (typeof window !== 'undefined') localStorage.removeItem('encState');
+    if (!profileManager.isUnlocked()) return;
+    resetState();
+    if (typeof window !== 'undefined') localStorage.removeItem(`encState:${profile.id}`);
+    if (encryptedStore.isAvailable()) {
+      encryptedStore.clear().catch(err => logger.warn('Encrypted store wipe failed', { error: err instanceof Error? err.message: String(err) }));
+    }
   }
+  const startRecording = ()=> sessionRecorder.start();
+  const stopRecording = async ()=> {
+    const rec = await sessionRecorder.stop();
+    return rec ? serializeRecording(rec) : undefined;
+  };
   const toggleNoise = ()=> setNoiseActive(!noiseActive);
-  return <CognitiveContext.Provider value={{ keystroke, mouseSamples, keyboardFeatures, mouseFeatures, similarity, similarityHistory, confidenceHistory, baseline, confidenceAssessment, drift, driftHistory, voice, eye, risk, anomaly, confidence, baselineKeystroke, keystrokeHistory, riskHistory, exportData, wipeData, dpEpsilon, setDpEpsilon, noiseActive, toggleNoise, setPassphrase, baselineHash, setBaselineKeystroke, aiConsent, setAiConsent }}>{children}</CognitiveContext.Provider>;
+  // Changing the passphrase re-keys the active profile's verifier so switching back requires the new one
+  const applyPassphrase = (p: string)=> {
+    profileManager.setPassphrase(profile.id, p)
+      .then(()=> setPassphrase(p))
+      .catch(err => logger.warn('Profile passphrase update failed', { error: err instanceof Error? err.message: String(err) }));
+  };
+  return <CognitiveContext.Provider value={{ profile, captureState, tabRole, recording, startRecording, stopRecording, keystroke, mouseSamples, touchSamples, scrollSamples, keyboardFeatures, mouseFeatures, touchFeatures, scrollFeatures, focusFeatures, similarity, methodComparison, similarityHistory, confidenceHistory, baseline, baselineHistory, rollbackBaseline, confidenceAssessment, drift, driftHistory, controlCharts, controlViolations, sessionContext, setSessionContext, contextAdjustment, temporal, voice, eye, risk, riskInterval, anomaly, riskAttribution, confidence, baselineKeystroke, keystrokeHistory, riskHistory, exportData, wipeData, dpEpsilon, setDpEpsilon, noiseActive, toggleNoise, setPassphrase: applyPassphrase, baselineHash, setBaselineKeystroke, aiConsent, setAiConsent }}>{children}</CognitiveContext.Provider>;
 };
 
 export function useCognitive(){ return useContext(CognitiveContext); }
@@ -1,20 +1,95 @@
-import { describe, it, expect } from 'vitest';
-import { isolationForestScore } from '../analysis/AnomalyDetection';
+import { describe, it, expect, afterEach } from 'vitest';
+import { IsolationForest, LocalOutlierFactor, RobustCovariance, ZScoreDetector, AnomalyEnsemble, anomalyDetection, averagePathLength } from '../analysis/AnomalyDetection';
+import { AnalysisPipeline } from '../analysis/AnalysisPipeline';
+import { config } from '../config/AppConfig';
+
+// Small seeded PRNG so forests are reproducible
+function seeded(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function cluster(n: number, random: () => number): number[][] {
+  return Array.from({ length: n }, () => Array.from({ length: 6 }, (_, j) => 0.5 + j * 0.1 + (random() - 0.5) * 0.05));
+}
 
 describe('Isolation Forest', () => {
-  it('produces score in [0,1]', () => {
-    const vec = Array.from({length:30}, ()=> Math.random());
-    const r = isolationForestScore(vec);
-    expect(r.score).toBeGreaterThanOrEqual(0);
-    expect(r.score).toBeLessThanOrEqual(1);
+  afterEach(() => {
+    config.reset();
+    anomalyDetection.forget('anomalyUser');
+  });
+
+  it('normalises path lengths with c(n)', () => {
+    expect(averagePathLength(1)).toBe(0);
+    expect(averagePathLength(2)).toBe(1);
+    expect(averagePathLength(256)).toBeCloseTo(10.2448, 3);
+  });
+
+  it('scores points outside the training history higher than points inside it', () => {
+    const random = seeded(7);
+    const forest = new IsolationForest(100, 64, random);
+    forest.fit(cluster(200, random));
+    const inlier = forest.score([0.5, 0.6, 0.7, 0.8, 0.9, 1.0]);
+    const outlier = forest.score([0.9, 0.2, 0.7, 1.4, 0.1, 1.0]);
+    expect(inlier).toBeLessThan(0.5);
+    expect(outlier).toBeGreaterThan(inlier + 0.1);
+  });
+
+  it('fits on the user history and honours the configured threshold', () => {
+    config.updatePath('scoring.anomalyThreshold', 0.5);
+    const random = seeded(11);
+    const history = cluster(40, random);
+    const early = anomalyDetection.score('anomalyUser', history[0]);
+    expect(early.trainedOn).toBe(0);
+    expect(early.isAnomaly).toBe(false);
+    history.slice(1).forEach(v => anomalyDetection.score('anomalyUser', v));
+
+    const odd = anomalyDetection.score('anomalyUser', [0.9, 0.2, 0.7, 1.4, 0.1, 1.0]);
+    expect(odd.trainedOn).toBe(32); // First fit happens once the minimum history is reached
+    expect(odd.threshold).toBe(0.5);
+    expect(odd.isAnomaly).toBe(true);
+    expect(anomalyDetection.score('anomalyUser', [0.5, 0.6, 0.7, 0.8, 0.9, 1.0]).isAnomaly).toBe(false);
+
+    const model = anomalyDetection.exportModel('anomalyUser')!;
+    expect(model.trees).toHaveLength(config.get().scoring.treeCount);
+    anomalyDetection.forget('anomalyUser');
+    anomalyDetection.importModel(JSON.parse(JSON.stringify(model)));
+    // The forest is restored as persisted; the other detectors are refitted from the persisted history
+    const restored = anomalyDetection.score('anomalyUser', [0.9, 0.2, 0.7, 1.4, 0.1, 1.0]);
+    expect(restored.detectors.isolation_forest).toBeCloseTo(odd.detectors.isolation_forest, 10);
+  });
+
+  it('combines detectors and reports which of them fired', () => {
+    const random = seeded(3);
+    const ensemble = new AnomalyEnsemble([new IsolationForest(100, 64, random), new LocalOutlierFactor(), new RobustCovariance(), new ZScoreDetector()]);
+    ensemble.fit(cluster(60, random));
+
+    const inlier = ensemble.score([0.5, 0.6, 0.7, 0.8, 0.9, 1.0], 0.65);
+    expect(Object.keys(inlier.detectors).sort()).toEqual(['isolation_forest', 'lof', 'mcd', 'zscore']);
+    expect(inlier.fired).toEqual([]);
+
+    const outlier = ensemble.score([0.9, 0.2, 0.7, 1.4, 0.1, 1.0], 0.65);
+    expect(outlier.fired).toEqual(expect.arrayContaining(['lof', 'mcd', 'zscore']));
+    expect(outlier.score).toBeGreaterThan(0.65);
+    Object.values(outlier.detectors).forEach(score => expect(score).toBeLessThanOrEqual(1));
   });
-  it('flags anomalies above threshold sometimes', () => {
-    const normal = Array.from({length:30}, ()=> 0.5 + Math.random()*0.01);
-    const odd = Array.from({length:30}, ()=> Math.random());
-    const nScore = isolationForestScore(normal).score;
-    const aScore = isolationForestScore(odd).score;
-    // not strict guarantee but usually aScore>nScore
-    expect(typeof nScore).toBe('number');
-    expect(typeof aScore).toBe('number');
+
+  it('leaves a repeated pipeline input out of the anomaly history', () => {
+    const pipeline = new AnalysisPipeline();
+    const random = seeded(11);
+    const group = (n: number) => Array.from({ length: n }, () => 0.5 + (random() - 0.5) * 0.1);
+    const inputs = Array.from({ length: 40 }, () => ({ typing: group(47), voice: group(13), motor: group(23), temporal: group(12) }));
+    const results = inputs.map(features => pipeline.scoreRisk('anomalyUser', features));
+    expect(anomalyDetection.exportModel('anomalyUser')!.history).toHaveLength(40);
+
+    const last = inputs[inputs.length - 1];
+    for (let i = 0; i < 10; i++) {
+      expect(pipeline.scoreRisk('anomalyUser', { ...last }).scores).toBe(results[results.length - 1].scores);
+    }
+    expect(anomalyDetection.exportModel('anomalyUser')!.history).toHaveLength(40);
   });
 });
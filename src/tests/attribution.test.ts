@@ -1,20 +1,67 @@
-import { describe, it, expect } from 'vitest';
-import { shapGroupAttribution } from '../analysis/Attribution';
-import { CognitiveFingerprintModel } from '../analysis/PatternRecognition';
+import { describe, it, expect, afterAll } from 'vitest';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { shapGroupAttribution, shapleyAttribution, integratedGradients, explainRisk } from '../analysis/Attribution';
+import { CognitiveFingerprintModel, buildRiskFeatures } from '../analysis/PatternRecognition';
+import { modelRegistry, MODEL_MANIFEST_URL } from '../analysis/ModelRegistry';
+
+const filled = (typing: number) => ({
+  typing: new Array(47).fill(typing),
+  voice: new Array(13).fill(0.1),
+  motor: new Array(23).fill(0.1),
+  temporal: new Array(12).fill(0.1)
+});
+
+const sum = (values: number[]) => values.reduce((s, v) => s + v, 0);
 
 describe('Attribution', () => {
+  afterAll(() => modelRegistry.configure(MODEL_MANIFEST_URL));
+
   it('returns four groups with contributions summing ~1', () => {
-    const model = new CognitiveFingerprintModel();
-    const features = {
-      typing: new Array(47).fill(0.1),
-      voice: new Array(13).fill(0.1),
-      motor: new Array(23).fill(0.1),
-      temporal: new Array(12).fill(0.1)
-    } as any;
-    const atts = shapGroupAttribution(model, features, 8);
+    const atts = shapGroupAttribution(new CognitiveFingerprintModel(), filled(0.1), filled(0.3));
     expect(atts.length).toBe(4);
-    const sum = atts.reduce((s,a)=> s + Math.abs(a.contribution),0);
-    expect(sum).toBeGreaterThan(0.9);
-    expect(sum).toBeLessThan(1.1);
+    expect(sum(atts.map(a => Math.abs(a.contribution)))).toBeCloseTo(1, 2);
+    expect(atts[0]).toEqual({ group: 'Typing', contribution: -1 }); // The heuristic only reads typing
+  });
+
+  it('names features and adds up to the change from the reference', () => {
+    const model = new CognitiveFingerprintModel();
+    const reference = buildRiskFeatures({ keystroke: { meanDwell: 100, meanFlight: 150, varianceDwell: 500, entropy: 2 } });
+    const features = buildRiskFeatures({ keystroke: { meanDwell: 160, meanFlight: 150, varianceDwell: 900, entropy: 2 } });
+    const att = shapleyAttribution(model, features, reference);
+    expect(att.method).toBe('exact_shapley');
+    expect(att.features.map(f => f.feature)).toEqual(['Mean dwell time', 'Dwell variance']);
+    expect(att.features[0].contribution).toBeCloseTo(0.3, 6);
+    expect(att.features[1].contribution).toBeCloseTo(0, 6);
+    expect(sum(att.features.map(f => f.contribution))).toBeCloseTo(att.prediction - att.base, 6);
+  });
+
+  it('agrees across Kernel SHAP, exact Shapley and Integrated Gradients on the shipped model', async () => {
+    modelRegistry.configure(MODEL_MANIFEST_URL, async url => {
+      const b = await readFile(path.join(__dirname, '..', '..', 'public', url));
+      return b.buffer.slice(b.byteOffset, b.byteOffset + b.byteLength) as ArrayBuffer;
+    });
+    const model = new CognitiveFingerprintModel();
+    await model.load();
+    const voice = { f0: 150, jitter: 1.2, shimmer: 4, hnr: 15, mfcc: new Array(13).fill(-10) };
+    const reference = buildRiskFeatures({ keystroke: { meanDwell: 100, meanFlight: 150, varianceDwell: 500, entropy: 2 }, voice });
+    const features = buildRiskFeatures({
+      keystroke: { meanDwell: 180, meanFlight: 260, varianceDwell: 2500, entropy: 2.8 }, voice,
+      motor: { meanVelocity: 250, meanAcceleration: 1500, tremorAmplitude: 60 }
+    });
+
+    const exact = shapleyAttribution(model, features, reference);
+    const kernel = shapleyAttribution(model, features, reference, { maxExactFeatures: 0, samples: 1024 });
+    expect(exact.method).toBe('exact_shapley');
+    expect(kernel.method).toBe('kernel_shap');
+    expect(sum(kernel.features.map(f => f.contribution))).toBeCloseTo(kernel.prediction - kernel.base, 6);
+    exact.features.forEach(f => {
+      expect(kernel.features.find(k => k.feature === f.feature)!.contribution).toBeCloseTo(f.contribution, 2);
+    });
+
+    const ig = integratedGradients(model, features, reference);
+    expect(explainRisk(model, features, reference).method).toBe('integrated_gradients');
+    expect(Math.abs(sum(ig.features.map(f => f.contribution)) - (ig.prediction - ig.base))).toBeLessThan(0.01);
+    expect(ig.model.version).toBe(exact.model.version);
   });
 });
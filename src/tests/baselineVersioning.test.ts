@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { baselineModeling, diffBaselines } from '../analysis/BaselineModeling';
+import { config } from '../config/AppConfig';
+import { clock, VirtualClock } from '../utils/Clock';
+
+const time = new VirtualClock(1_000_000);
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// One snapshot every 5 s; baseline creation and updates run asynchronously, so let each settle
+async function feed(values: number[]) {
+  for (const meanDwell of values) {
+    time.advance(5000);
+    baselineModeling.addSnapshot('versions', {
+      timestamp: time.now(), sessionId: 's', keyboard: { meanDwell: meanDwell + (time.now() % 10000 ? 1 : -1) }, environmentalContext: {}, quality: 0.9
+    });
+    await flush();
+  }
+}
+
+describe('Baseline versioning', () => {
+  beforeEach(() => {
+    clock.useSource(time);
+    config.updatePath('baseline.hierarchical.enabled', false);
+  });
+  afterEach(() => {
+    baselineModeling.forget('versions');
+    clock.useSystem();
+    config.reset();
+  });
+
+  it('keeps every revision with its reason and significant changes, and diffs them per feature', async () => {
+    await feed(new Array(20).fill(100));
+    await feed(new Array(10).fill(200));
+
+    const history = baselineModeling.getHistory('versions');
+    expect(history.map(r => [r.version, r.reason])).toEqual([['1.0.0', 'initial'], ['1.1.0', 'adaptive']]);
+    expect(history[0].significantChanges).toEqual(['baseline_created']);
+    expect(history[1].significantChanges).toContain('keyboard_meanDwell_change');
+    expect(baselineModeling.getBaseline('versions')!.version).toBe('1.1.0');
+
+    const [change] = diffBaselines(history[0].features, history[1].features);
+    expect(change).toMatchObject({ modality: 'keyboard', feature: 'meanDwell' });
+    expect(change.relativeChange!).toBeGreaterThan(0.2);
+    expect(change.shift!).toBeGreaterThan(2);
+  });
+
+  it('rolls back to an earlier revision and keeps the absorbed decline out of later updates', async () => {
+    config.updatePath('baseline.maxRevisions', 1);
+    await feed(new Array(20).fill(100));
+    await feed(new Array(10).fill(200));
+    expect(() => baselineModeling.rollback('versions', '9.9.9')).toThrow('Unknown baseline version');
+
+    const restored = baselineModeling.rollback('versions', '1.0.0');
+    expect(restored.version).toBe('1.2.0');
+    expect(baselineModeling.getBaseline('versions')).toBe(restored);
+    expect(restored.keyboard.meanDwell).toBeLessThan(102);
+    // The cap drops 1.1.0 but keeps the first revision, which the rollback also restored
+    expect(baselineModeling.getHistory('versions').map(r => [r.version, r.kept])).toEqual([['1.0.0', true], ['1.2.0', false]]);
+    expect(baselineModeling.getHistory('versions')[1]).toMatchObject({ reason: 'rollback', restoredFrom: '1.0.0' });
+    expect(() => baselineModeling.rollback('versions', '1.1.0')).toThrow('Unknown baseline version');
+
+    await feed(new Array(10).fill(100));
+    const updated = baselineModeling.getBaseline('versions')!;
+    expect(updated.version).toBe('1.3.0');
+    expect(updated.keyboard.meanDwell).toBeLessThan(102);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { applyIsotonic, applyPlatt, calibrateOutput, expectedCalibrationError, fitIsotonic, fitPlatt } from '../analysis/Calibration';
+
+// Scores pushed towards the extremes of the true probability, as an overconfident classifier would
+function sample(seed: number, n: number) {
+  let state = seed;
+  const random = () => { state = (state * 16807) % 2147483647; return state / 2147483647; };
+  const scores: number[] = [], labels: number[] = [];
+  for (let i = 0; i < n; i++) {
+    const p = random();
+    const z = Math.log(p / (1 - p));
+    scores.push(1 / (1 + Math.exp(-2.5 * z)));
+    labels.push(random() < p ? 1 : 0);
+  }
+  return { scores, labels };
+}
+
+describe('Probability calibration', () => {
+  it('Platt scaling recovers the logit slope and both maps cut held-out ECE', () => {
+    const fit = sample(3, 3000);
+    const { a } = fitPlatt(fit.scores, fit.labels);
+    expect(a).toBeGreaterThan(0.3);
+    expect(a).toBeLessThan(0.5); // 1 / 2.5
+
+    const heldOut = sample(17, 3000);
+    const result = calibrateOutput(fit, heldOut);
+    expect(result.rawEce).toBeGreaterThan(0.08);
+    expect(result.ece.platt).toBeLessThan(0.03);
+    expect(result.ece.isotonic).toBeLessThan(0.04);
+    expect(result.reliability.raw.reduce((s, b) => s + b.count, 0)).toBe(3000);
+    expect(expectedCalibrationError(heldOut.scores.map(s => applyPlatt(result.platt, s)), heldOut.labels)).toBeCloseTo(result.ece.platt, 10);
+  });
+
+  it('isotonic regression is monotone and pools violators', () => {
+    const map = fitIsotonic([0.1, 0.2, 0.3, 0.4, 0.5], [0, 1, 0, 1, 1]);
+    expect(map.y).toEqual([0, 0.5, 1]);
+    expect(map.x.map(v => +v.toFixed(2))).toEqual([0.1, 0.25, 0.45]);
+    expect(applyIsotonic(map, 0.05)).toBe(0);
+    expect(applyIsotonic(map, 0.35)).toBeCloseTo(0.75);
+    expect(applyIsotonic(map, 0.9)).toBe(1);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { BayesianChangePointDetector } from '../analysis/ChangePointDetection';
+import { adaptiveRecognition, DriftDetection } from '../analysis/AdaptiveRecognition';
+import { baselineModeling } from '../analysis/BaselineModeling';
+
+function noise(seed: number, amplitude: number) {
+  let state = seed;
+  return () => { state = (state * 16807) % 2147483647; return (state / 2147483647 - 0.5) * amplitude; };
+}
+
+const modality = (score: number, featureCount: number) => ({ score, weight: 1, featureCount, anomalies: [], contributions: [] });
+
+describe('Bayesian online change-point detection', () => {
+  it('reports a sudden shift at the right observation and nothing for a gradual decline', () => {
+    const jitter = noise(3, 0.06);
+    const shift = new BayesianChangePointDetector('overall');
+    const decline = new BayesianChangePointDetector('overall');
+    for (let i = 0; i < 60; i++) {
+      shift.update((i < 30 ? 0.85 : 0.55) + jitter(), i * 1000);
+      decline.update(0.9 - i * 0.006 + jitter(), i * 1000);
+    }
+
+    const [point, ...rest] = shift.getChangePoints();
+    expect(rest).toEqual([]);
+    expect(point.timestamp).toBe(30000);
+    expect(point.probability).toBeGreaterThan(0.95);
+    expect(point.meanBefore).toBeCloseTo(0.85, 1);
+    expect(point.meanAfter).toBeCloseTo(0.55, 1);
+    expect(shift.getMapRunLength()).toBe(30);
+    expect(decline.getChangePoints()).toEqual([]);
+  });
+
+  it('classifies a level shift as sudden and attributes it to the modality that moved', async () => {
+    for (let i = 0; i < 25; i++) {
+      baselineModeling.addSnapshot('cp', { timestamp: i * 1000, sessionId: 's' + i, keyboard: { meanDwell: 100 + i }, mouse: { meanVelocity: 300 }, environmentalContext: {}, quality: 0.9 });
+    }
+    expect(baselineModeling.getBaseline('cp') || await baselineModeling.createInitialBaseline('cp')).not.toBeNull();
+    const jitter = noise(11, 0.04);
+    const drifts: DriftDetection[] = [];
+    for (let i = 0; i < 40; i++) {
+      const keyboard = (i < 30 ? 0.85 : 0.4) + jitter();
+      const mouse = 0.8 + jitter();
+      const score = {
+        overall: (keyboard + mouse) / 2, confidence: 0.9, timestamp: i * 1000,
+        modalities: {
+          keyboard: modality(keyboard, 4), mouse: modality(mouse, 2), touch: modality(0, 0),
+          scroll: modality(0, 0), focus: modality(0, 0), composite: modality(0, 0)
+        },
+        interpretation: { overallAssessment: 'test' }
+      } as any;
+      const drift = await adaptiveRecognition.processNewScore('cp', score);
+      if (drift) drifts.push(drift);
+    }
+
+    const sudden = drifts.find(d => d.driftType === 'sudden_change');
+    expect(sudden).toBeTruthy();
+    const streams = sudden!.changePoints.filter(c => c.timestamp === 30000).map(c => c.stream);
+    expect(streams).toContain('overall');
+    expect(streams).toContain('keyboard');
+    expect(sudden!.changePoints.some(c => c.stream === 'mouse')).toBe(false);
+    adaptiveRecognition.forget('cp');
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { createCollector } from '../collectors/Collector';
+import { collectorRegistry } from '../collectors/CollectorRegistry';
+
+class FakeSource {
+  listeners = new Set<(v: number) => void>();
+  samples = [{ t: 10 }, { t: 20 }, { t: 30 }];
+  emit(v: number) { this.listeners.forEach(l => l(v)); }
+}
+
+function fakeCollector(id: string, source = new FakeSource()) {
+  return createCollector<FakeSource, number, { t: number }>({
+    id,
+    source,
+    start: () => {},
+    stop: () => {},
+    listen: (s, l) => { s.listeners.add(l); return () => s.listeners.delete(l); },
+    quality: v => v,
+    samples: s => s.samples
+  });
+}
+
+describe('Collector contract', () => {
+  it('stops forwarding data while paused and clamps quality', () => {
+    const source = new FakeSource();
+    const collector = fakeCollector('fake', source);
+    const received: number[] = [];
+    const unsubscribe = collector.subscribe(v => received.push(v));
+
+    source.emit(1);
+    collector.pause();
+    source.emit(2);
+    collector.resume();
+    source.emit(3);
+    unsubscribe();
+    source.emit(4);
+
+    expect(received).toEqual([1, 3]);
+    expect(collector.estimateQuality(5)).toBe(1);
+    expect(collector.getSamples?.(20).map(s => s.t)).toEqual([20, 30]);
+  });
+
+  it('notifies listeners on registration and replaces duplicates', () => {
+    const seen: string[] = [];
+    const off = collectorRegistry.onRegister(c => seen.push(c.id));
+    collectorRegistry.register(fakeCollector('gamepad'));
+    collectorRegistry.register(fakeCollector('gamepad'));
+    off();
+
+    expect(seen).toEqual(['gamepad', 'gamepad']);
+    expect(collectorRegistry.getAll().filter(c => c.id === 'gamepad')).toHaveLength(1);
+    collectorRegistry.unregister('gamepad');
+    expect(collectorRegistry.has('gamepad')).toBe(false);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { conformalPrediction, conformalQuantile, ConformalInterval } from '../analysis/ConformalPrediction';
+
+describe('Split-conformal prediction', () => {
+  afterEach(() => conformalPrediction.forget('cp'));
+
+  it('takes the ⌈(n+1)(1-α)⌉-th residual and stays unbounded until there are enough', () => {
+    expect(conformalQuantile([0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8], 0.9)).toBe(Infinity);
+    expect(conformalQuantile([0.9, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8], 0.9)).toBe(0.9);
+    expect(conformalQuantile([0.9, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 1.0], 0.8)).toBe(0.9);
+  });
+
+  it('covers about 90% of a noisy similarity stream and flags a score far outside it', () => {
+    let state = 9;
+    const random = () => { state = (state * 16807) % 2147483647; return state / 2147483647; };
+    const intervals: ConformalInterval[] = [];
+    for (let i = 0; i < 600; i++) {
+      const interval = conformalPrediction.observe('cp', 'similarity', 0.8 + (random() - 0.5) * 0.2);
+      if (interval) intervals.push(interval);
+    }
+    expect(intervals[0].bounded).toBe(false);
+    expect(intervals[0]).toMatchObject({ lower: 0, upper: 1, covered: true });
+    const bounded = intervals.filter(i => i.bounded);
+    const coverage = bounded.filter(i => i.covered).length / bounded.length;
+    expect(coverage).toBeGreaterThan(0.86);
+    expect(coverage).toBeLessThan(0.95);
+    expect(intervals[intervals.length - 1].empiricalCoverage).toBeCloseTo(coverage, 2);
+
+    const drop = conformalPrediction.observe('cp', 'similarity', 0.4)!;
+    expect(drop.covered).toBe(false);
+    expect(drop.pValue).toBeLessThan(0.01);
+    expect(drop.upper - drop.lower).toBeLessThan(0.2);
+    expect(conformalPrediction.getLatest('cp', 'similarity')).toEqual(drop);
+    expect(conformalPrediction.getLatest('cp', 'risk')).toBeUndefined();
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { contextAdjustment } from '../analysis/ContextAdjustment';
+
+const START = new Date(2024, 0, 1, 9).getTime();
+const HOUR = 60 * 60 * 1000;
+
+describe('ContextAdjustment', () => {
+  afterEach(() => contextAdjustment.forget('ctx'));
+
+  it('removes the fitted fatigue effect from a tired session but keeps a shift the context does not explain', () => {
+    let state = 7;
+    const noise = () => { state = (state * 16807) % 2147483647; return (state / 2147483647 - 0.5) * 4; };
+    for (let i = 0; i < 60; i++) {
+      const fatigue = (i % 5) / 4;
+      const t = START + (i % 12) * HOUR;
+      const covariates = contextAdjustment.covariates('ctx', t, t, { fatigue });
+      contextAdjustment.report('ctx', { fatigue });
+      const raw = { meanDwell: 100 + 40 * fatigue + noise(), meanFlight: 150 + noise() };
+      const adjusted = contextAdjustment.adjust('ctx', 'keyboard', raw, covariates);
+      // Nothing is adjusted until the fit has minSamples observations
+      if (i < 30) expect(adjusted).toEqual(raw);
+    }
+
+    const tired = contextAdjustment.covariates('ctx', START, START, { fatigue: 1 });
+    const adjusted = contextAdjustment.adjust('ctx', 'keyboard', { meanDwell: 140, meanFlight: 190 }, tired);
+    // Back to the dwell expected at the user's mean fatigue (0.5)
+    expect(adjusted.meanDwell).toBeGreaterThan(115);
+    expect(adjusted.meanDwell).toBeLessThan(125);
+    expect(adjusted.meanFlight).toBeGreaterThan(185);
+
+    const summary = contextAdjustment.summarize('ctx', tired);
+    expect(summary.active).toBe(true);
+    expect(summary.effects[0]).toMatchObject({ feature: 'meanDwell', covariate: 'fatigue' });
+    // Slightly shrunk by the ridge penalty
+    expect(summary.effects[0].coefficient).toBeGreaterThan(35);
+    expect(summary.effects[0].coefficient).toBeLessThan(41);
+  });
+
+  it('imputes unreported covariates at the user\'s usual level', () => {
+    contextAdjustment.report('ctx', { caffeine: true, fatigue: 0.2 });
+    contextAdjustment.report('ctx', { caffeine: false, fatigue: 0.4 });
+    const covariates = contextAdjustment.covariates('ctx', START + 30 * 60000, START, {});
+    expect(covariates.caffeine).toBeCloseTo(0.5);
+    expect(covariates.fatigue).toBeCloseTo(0.3);
+    expect(covariates.medication).toBe(0);
+    expect(covariates.sessionLength).toBeCloseTo(0.25);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { statisticalProcessControl, ControlViolation } from '../analysis/StatisticalProcessControl';
+
+const baseline = {
+  variability: {
+    keyboard: { meanDwell: { mean: 100, std: 10, bounds: [80, 120], median: 100, mad: 10 } },
+    mouse: { meanVelocity: { mean: 300, std: 0, bounds: [300, 300], median: 300, mad: 0 } }
+  }
+} as any;
+
+function feed(userId: string, values: number[], start = 0): ControlViolation[] {
+  return values.flatMap((meanDwell, i) => statisticalProcessControl.update(
+    userId, { timestamp: (start + i) * 1000, sessionId: 's', keyboard: { meanDwell }, mouse: { meanVelocity: 300 }, environmentalContext: {}, quality: 1 }, baseline
+  ).violations);
+}
+
+describe('StatisticalProcessControl', () => {
+  afterEach(() => statisticalProcessControl.forget('spc'));
+
+  it('stays quiet in control and signals a sustained 1.5σ shift through CUSUM, EWMA and the run rules', () => {
+    let state = 5;
+    const noise = () => { state = (state * 16807) % 2147483647; return (state / 2147483647 - 0.5) * 10; };
+    expect(feed('spc', Array.from({ length: 30 }, () => 100 + noise()))).toEqual([]);
+
+    const shifted = feed('spc', Array.from({ length: 12 }, () => 115 + noise()), 30);
+    const rules = shifted.map(v => v.rule);
+    expect(rules).toContain('cusum');
+    expect(rules).toContain('ewma');
+    expect(rules).toContain('eight_on_one_side');
+    expect(shifted.every(v => v.direction === 'high' && v.feature === 'meanDwell')).toBe(true);
+    expect(shifted.find(v => v.rule === 'cusum')!.timestamp).toBeLessThan(38000);
+
+    // Only features with spread in the baseline get a chart
+    const charts = statisticalProcessControl.getCharts('spc');
+    expect(charts.map(c => c.feature)).toEqual(['meanDwell']);
+    expect(charts[0].points.length).toBe(42);
+  });
+
+  it('raises a run rule once when it starts firing', () => {
+    const violations = feed('spc', [100, 65, 64, 100]);
+    expect(violations.filter(v => v.rule === 'beyond_3_sigma').map(v => v.timestamp)).toEqual([1000]);
+    expect(violations.filter(v => v.rule === 'two_of_three_beyond_2_sigma').map(v => v.direction)).toEqual(['low']);
+  });
+});
@@ -0,0 +1,141 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, afterEach } from 'vitest';
+import { encryptedStore } from '../core/EncryptedStore';
+import { CaptureEvent } from '../core/EventCaptureManager';
+import { AnomalyModelState } from '../analysis/AnomalyDetection';
+import { baselineModeling, FeatureSnapshot } from '../analysis/BaselineModeling';
+import { config } from '../config/AppConfig';
+import { clock, VirtualClock } from '../utils/Clock';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 15);
+
+const snapshot = (timestamp: number, meanDwell = 100): FeatureSnapshot => ({
+  timestamp, sessionId: 's', keyboard: { meanDwell }, environmentalContext: {}, quality: 0.9
+});
+const event = (timestamp: number): CaptureEvent => ({ type: 'keystroke', timestamp, sessionId: 's', data: {}, quality: 1 });
+const model = (fittedAt: number) => ({ userId: 'store', fittedAt, treeCount: 0, subSampleSize: 0, trainedOn: 0, trees: [], history: [] } as AnomalyModelState);
+
+// Each test opens its own namespaces; they are deleted once another one is active
+const used = new Set<string>();
+async function useNamespace(namespace: string, passphrase = 'passphrase') {
+  used.add(namespace);
+  encryptedStore.setNamespace(namespace);
+  await encryptedStore.unlock(passphrase);
+}
+
+describe('EncryptedStore', () => {
+  afterEach(async () => {
+    encryptedStore.setNamespace('default');
+    for (const namespace of used) await encryptedStore.deleteNamespace(namespace);
+    used.clear();
+    baselineModeling.forget('store');
+    clock.useSystem();
+    config.reset();
+  });
+
+  it('reads inclusive time ranges oldest or newest first, and replaces single-copy state', async () => {
+    await useNamespace('ranges');
+    await encryptedStore.putMany('snapshots', [1000, 2000, 3000, 4000, 5000].map(t => snapshot(t)));
+
+    expect((await encryptedStore.query('snapshots', { from: 2000, to: 4000 })).map(s => s.timestamp)).toEqual([2000, 3000, 4000]);
+    expect((await encryptedStore.query('snapshots', { from: 4000 })).map(s => s.timestamp)).toEqual([4000, 5000]);
+    expect((await encryptedStore.query('snapshots', { to: 1000 })).map(s => s.timestamp)).toEqual([1000]);
+    expect((await encryptedStore.query('snapshots', { limit: 2, newestFirst: true })).map(s => s.timestamp)).toEqual([5000, 4000]);
+    expect(await encryptedStore.count('snapshots', { from: 1500, to: 3500 })).toBe(2);
+
+    await encryptedStore.replace('models', model(1000));
+    await encryptedStore.replace('models', model(2000));
+    expect((await encryptedStore.query('models')).map(m => m.fittedAt)).toEqual([2000]);
+  });
+
+  it('expires raw events and derived records on their own windows, including an inactive namespace', async () => {
+    const records = async () => {
+      await encryptedStore.putMany('events', [event(NOW - 2 * HOUR), event(NOW - HOUR / 2)]);
+      await encryptedStore.putMany('snapshots', [snapshot(NOW - 8 * 24 * HOUR), snapshot(NOW - 2 * HOUR)]);
+    };
+    await useNamespace('inactive');
+    await records();
+    await useNamespace('active');
+    await records();
+
+    // One-hour raw window, one-week aggregated window
+    expect(await encryptedStore.enforceRetention(NOW)).toMatchObject({ events: 1, snapshots: 1, scores: 0 });
+    expect((await encryptedStore.query('events')).map(e => e.timestamp)).toEqual([NOW - HOUR / 2]);
+    expect((await encryptedStore.query('snapshots')).map(s => s.timestamp)).toEqual([NOW - 2 * HOUR]);
+
+    // The inactive profile is purged without its key
+    expect(await encryptedStore.enforceRetention(NOW, 'inactive')).toMatchObject({ events: 1, snapshots: 1 });
+    expect(encryptedStore.getNamespace()).toBe('active');
+    await useNamespace('inactive');
+    expect(await encryptedStore.count('events')).toBe(1);
+    expect(await encryptedStore.count('snapshots')).toBe(1);
+  });
+
+  it('keeps each namespace to its own records and locks on a switch', async () => {
+    await useNamespace('alice');
+    await encryptedStore.put('snapshots', snapshot(1000, 100));
+    await useNamespace('bob');
+    expect(await encryptedStore.query('snapshots')).toEqual([]);
+    await encryptedStore.put('snapshots', snapshot(2000, 200));
+
+    encryptedStore.setNamespace('alice');
+    expect(encryptedStore.isUnlocked()).toBe(false);
+    await expect(encryptedStore.put('snapshots', snapshot(3000))).rejects.toThrow('locked');
+    await expect(encryptedStore.deleteNamespace('alice')).rejects.toThrow('active namespace');
+
+    // Records written under another passphrase are skipped, not returned or thrown
+    await encryptedStore.unlock('another passphrase');
+    expect(await encryptedStore.query('snapshots')).toEqual([]);
+    await encryptedStore.unlock('passphrase');
+    expect((await encryptedStore.query('snapshots')).map(s => s.keyboard!.meanDwell)).toEqual([100]);
+  });
+
+  it('rebuilds a baseline after a reload from the stored snapshots', async () => {
+    config.updatePath('baseline.hierarchical.enabled', false);
+    await useNamespace('reload');
+    await encryptedStore.putMany('snapshots', Array.from({ length: 25 }, (_, i) => snapshot(NOW - (25 - i) * 5000, 100 + (i % 2 ? 2 : -2))));
+
+    expect(baselineModeling.getBaseline('store')).toBeNull();
+    await baselineModeling.restoreSnapshots('store', await encryptedStore.query('snapshots', { limit: 1000, newestFirst: true }));
+    const baseline = baselineModeling.getBaseline('store')!;
+    expect(baseline.statistics.sampleCount).toBe(25);
+    expect(baseline.keyboard.meanDwell).toBeCloseTo(100, 0);
+    expect(baselineModeling.getHistory('store').map(r => r.reason)).toEqual(['initial']);
+  });
+
+  it('keeps a rolled-back baseline current after a reload, with its revisions and exclusions', async () => {
+    config.updatePath('baseline.hierarchical.enabled', false);
+    const time = new VirtualClock(NOW);
+    clock.useSource(time);
+    await useNamespace('rollback');
+    const feed = async (values: number[]) => {
+      const fed: FeatureSnapshot[] = [];
+      for (const [i, meanDwell] of values.entries()) {
+        time.advance(5000);
+        fed.push(snapshot(time.now(), meanDwell + (i % 2 ? 1 : -1)));
+        await baselineModeling.addSnapshot('store', fed[fed.length - 1]);
+      }
+      await encryptedStore.putMany('snapshots', fed);
+    };
+    await feed(new Array(20).fill(100));
+    await feed(new Array(10).fill(200));
+    baselineModeling.rollback('store', '1.0.0');
+    await encryptedStore.putMany('baselines', baselineModeling.exportRevisions('store', baselineModeling.getHistory('store')));
+
+    // Reload: only what the store holds comes back
+    baselineModeling.forget('store');
+    baselineModeling.restoreRevisions('store', await encryptedStore.query('baselines'));
+    await baselineModeling.restoreSnapshots('store', await encryptedStore.query('snapshots', { limit: 1000, newestFirst: true }));
+    const restored = baselineModeling.getBaseline('store')!;
+    expect(restored.version).toBe('1.2.0');
+    expect(restored.keyboard.meanDwell).toBeLessThan(102);
+    expect(baselineModeling.getHistory('store').map(r => [r.version, r.reason])).toEqual([['1.0.0', 'initial'], ['1.1.0', 'adaptive'], ['1.2.0', 'rollback']]);
+
+    // The rolled-back decline stays out of the next update
+    await feed(new Array(10).fill(100));
+    const updated = baselineModeling.getBaseline('store')!;
+    expect(updated.version).toBe('1.3.0');
+    expect(updated.keyboard.meanDwell).toBeLessThan(102);
+  });
+});
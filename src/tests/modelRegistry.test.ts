@@ -0,0 +1,68 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { modelRegistry, MODEL_MANIFEST_URL, ModelFetcher } from '../analysis/ModelRegistry';
+import { CognitiveFingerprintModel, buildRiskFeatures, RISK_INPUT_SCHEMA, RISK_MODEL_ID, HEURISTIC_MODEL } from '../analysis/PatternRecognition';
+
+const PUBLIC_DIR = path.join(__dirname, '..', '..', 'public');
+const readPublic: ModelFetcher = async url => {
+  const b = await readFile(path.join(PUBLIC_DIR, url));
+  return b.buffer.slice(b.byteOffset, b.byteOffset + b.byteLength) as ArrayBuffer;
+};
+
+const features = () => buildRiskFeatures({
+  keystroke: { meanDwell: 110, meanFlight: 180, varianceDwell: 400, entropy: 2.1 },
+  motor: { meanVelocity: 300, meanAcceleration: 900, tremorAmplitude: 20 }
+});
+
+describe('Model registry', () => {
+  afterEach(() => modelRegistry.configure(MODEL_MANIFEST_URL));
+
+  it('builds features in the registered input layout', () => {
+    const f = features();
+    (Object.keys(RISK_INPUT_SCHEMA) as (keyof typeof RISK_INPUT_SCHEMA)[]).forEach(g => expect(f[g]).toHaveLength(RISK_INPUT_SCHEMA[g]));
+  });
+
+  it('records the heuristic when no model is loaded and refuses schema mismatches', () => {
+    const model = new CognitiveFingerprintModel();
+    const scores = model.infer(features());
+    expect(scores.model).toEqual(HEURISTIC_MODEL);
+    expect(scores.confidence).toBe(0.5); // Uncalibrated, as for a model without held-out ECE
+    expect(scores.calibration).toBeUndefined();
+    expect(model.infer(features())).toEqual(scores); // No random noise
+    expect(() => model.infer({ ...features(), typing: features().typing.slice(1) })).toThrow(/typing has 46, expected 47/);
+  });
+
+  it('loads the latest verified version and tags scores with it', async () => {
+    modelRegistry.configure(MODEL_MANIFEST_URL, readPublic);
+    const [latest] = await modelRegistry.list(RISK_MODEL_ID);
+    expect(latest.outputLabels).toEqual(['parkinsons', 'alzheimers', 'ms', 'overall']);
+    expect(latest.metrics.accuracy).toBeGreaterThan(0.9);
+
+    const model = new CognitiveFingerprintModel();
+    await model.load();
+    const scores = model.infer(features());
+    expect(scores.model).toEqual({ id: RISK_MODEL_ID, version: latest.version });
+    // Calibrated from the manifest; confidence follows the overall output's held-out ECE
+    const overall = latest.calibration!.outputs.overall;
+    expect(scores.calibration!.overall).toEqual({ method: overall.method, ece: overall.ece[overall.method] });
+    expect(scores.confidence).toBeCloseTo(1 - overall.ece[overall.method]);
+    expect(model.infer(features(), false).overall).not.toBe(scores.overall);
+    [scores.parkinsons, scores.alzheimers, scores.ms, scores.overall].forEach(v => {
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it('rejects artifacts whose checksum does not match the manifest', async () => {
+    modelRegistry.configure(MODEL_MANIFEST_URL, async url => {
+      const data = await readPublic(url);
+      if (url.endsWith('weights.bin')) new Uint8Array(data)[0] ^= 0xff;
+      return data;
+    });
+    const model = new CognitiveFingerprintModel();
+    await expect(model.load()).rejects.toThrow(/Checksum mismatch for .*weights\.bin/);
+    expect(model.getModelRef()).toEqual(HEURISTIC_MODEL);
+    await expect(modelRegistry.resolve(RISK_MODEL_ID, '9.9.9')).rejects.toThrow(/not registered/);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { packKeystrokeEvents, packTickInput, unpackKeystrokeEvents, unpackTickInput } from '../workers/pipelineProtocol';
+import { PipelineTickInput } from '../analysis/AnalysisPipeline';
+
+describe('pipeline worker protocol', () => {
+  const input: PipelineTickInput = {
+    userId: 'default',
+    sessionId: 's1',
+    timestamp: 1000,
+    quality: 0.8,
+    keystrokes: [{ key: '', code: '', downTime: 0.5, upTime: 90.5, dwell: 90 }],
+    mouse: [{ t: 1.5, x: 10, y: 20 }, { t: 2.5, x: 11, y: 22 }],
+    touch: [{ t: 3, pointerId: 7, pointerType: 'pen', phase: 'move', x: 1, y: 2, pressure: 0.4, width: 3, height: 4, tiltX: 10, tiltY: -5, activePointers: 1 }],
+    scroll: [{ timestamp: 4, deltaX: 0, deltaY: 120, scrollTop: 300, scrollLeft: 0, viewportHeight: 800, contentHeight: 4000, source: 'wheel', target: 'main' }]
+  };
+
+  it('round-trips samples through packed buffers', () => {
+    const { packed } = packTickInput(input);
+    const out = unpackTickInput(packed);
+    expect(out.keystrokes).toEqual(input.keystrokes);
+    expect(out.mouse).toEqual(input.mouse);
+    expect(out.touch).toEqual(input.touch);
+    expect(out.scroll[0]).toEqual({ ...input.scroll[0], target: undefined });
+    expect(out.quality).toBe(0.8);
+  });
+
+  it('lists every packed buffer as transferable', () => {
+    const { packed, transfer } = packTickInput(input);
+    expect(transfer).toEqual([packed.keystrokes.buffer, packed.mouse.buffer, packed.touch.buffer, packed.scroll.buffer]);
+    expect(packed.mouse).toBeInstanceOf(Float64Array);
+  });
+
+  it('packs keystroke timing without the keys', () => {
+    const events = [{ key: 'a', code: 'KeyA', downTime: 10, upTime: 95, dwell: 85 }, { key: 'b', code: 'KeyB', downTime: 120 }];
+    expect(unpackKeystrokeEvents(packKeystrokeEvents(events))).toEqual([
+      { key: '', code: '', downTime: 10, upTime: 95, dwell: 85 },
+      { key: '', code: '', downTime: 120 }
+    ]);
+  });
+});
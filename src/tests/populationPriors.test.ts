@@ -0,0 +1,87 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { baselineModeling, FeatureSnapshot } from '../analysis/BaselineModeling';
+import { BUNDLED_POPULATION_PRIORS, derivePopulationPriors, posteriorFeature, PopulationPriors } from '../analysis/PopulationPriors';
+import { statisticalProcessControl } from '../analysis/StatisticalProcessControl';
+
+const priors: PopulationPriors = {
+  source: 'test cohort',
+  users: 50,
+  snapshots: 1000,
+  features: { keyboard: { meanDwell: { mean: 100, between: 25, within: 100, users: 50 } } }
+};
+
+const snapshot = (i: number, meanDwell: number): FeatureSnapshot => ({
+  timestamp: i * 5000, sessionId: 's', keyboard: { meanDwell }, environmentalContext: {}, quality: 1
+});
+
+describe('PopulationPriors', () => {
+  afterEach(() => {
+    baselineModeling.forget('prior');
+    statisticalProcessControl.forget('prior');
+    baselineModeling.setPopulationPriors(BUNDLED_POPULATION_PRIORS);
+  });
+
+  it('recovers between- and within-user variance from a cohort', () => {
+    let state = 3;
+    const gaussian = () => {
+      state = (state * 16807) % 2147483647; const u1 = state / 2147483647;
+      state = (state * 16807) % 2147483647; const u2 = state / 2147483647;
+      return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+    };
+    // User means ~ N(100, 5²), snapshots ~ N(user mean, 10²)
+    const cohort = Array.from({ length: 200 }, () => {
+      const mean = 100 + 5 * gaussian();
+      return Array.from({ length: 20 }, (_, i) => snapshot(i, mean + 10 * gaussian()));
+    });
+    const prior = derivePopulationPriors(cohort, 'test').features.keyboard!.meanDwell;
+    expect(prior.mean).toBeCloseTo(100, 0);
+    expect(prior.within).toBeGreaterThan(90);
+    expect(prior.within).toBeLessThan(110);
+    expect(prior.between).toBeGreaterThan(18);
+    expect(prior.between).toBeLessThan(32);
+
+    // κ₀ = σ²/τ² = 4 pseudo-snapshots
+    const posterior = posteriorFeature([120, 120, 120, 120], { mean: 100, between: 25, within: 100, users: 200 }, 10, 50);
+    expect(posterior.priorWeight).toBeCloseTo(0.5);
+    expect(posterior.mean).toBeCloseTo(110);
+  });
+
+  it('gives a new user a wide baseline from the first snapshot that narrows toward their own data', async () => {
+    baselineModeling.setPopulationPriors(priors);
+    baselineModeling.addSnapshot('prior', snapshot(0, 130));
+    const first = (await baselineModeling.createInitialBaseline('prior'))!;
+    expect(first).not.toBeNull();
+    const firstDwell = first.variability.keyboard.meanDwell;
+    expect(first.keyboard.meanDwell).toBeCloseTo(106, 0); // (4·100 + 130) / 5
+    expect(firstDwell.priorWeight).toBeCloseTo(0.8);
+    expect(firstDwell.std).toBeGreaterThan(10);
+    expect(first.statistics.populationPrior).toEqual({ source: 'test cohort', weight: firstDwell.priorWeight });
+
+    for (let i = 1; i < 40; i++) baselineModeling.addSnapshot('prior', snapshot(i, 130 + (i % 2 ? 2 : -2)));
+    const later = (await baselineModeling.createInitialBaseline('prior'))!;
+    const laterDwell = later.variability.keyboard.meanDwell;
+    expect(laterDwell.priorWeight).toBeCloseTo(4 / 44);
+    expect(later.keyboard.meanDwell).toBeGreaterThan(127);
+    expect(laterDwell.std).toBeLessThan(firstDwell.std / 2);
+    expect(later.statistics.confidence).toBeGreaterThan(first.statistics.confidence);
+  });
+
+  it('keeps control charts and revisions off a provisional baseline, then charts on the user\'s own data', async () => {
+    baselineModeling.setPopulationPriors(priors);
+    let charted = 0;
+    for (let i = 0; i < 60; i++) {
+      baselineModeling.addSnapshot('prior', snapshot(i, 140 + (i % 3) - 1));
+      await new Promise(resolve => setTimeout(resolve, 0));
+      const baseline = baselineModeling.getBaseline('prior')!;
+      if (baselineModeling.isProvisional(baseline)) continue;
+      charted++;
+      // A stable user far from the population mean raises nothing
+      expect(statisticalProcessControl.update('prior', snapshot(i, 140 + (i % 3) - 1), baseline).violations).toEqual([]);
+    }
+    expect(charted).toBeGreaterThan(20);
+    expect(statisticalProcessControl.getCharts('prior')[0].centre).toBeCloseTo(140, 0);
+    // Rebuilds while provisional replace the initial revision instead of adding one each
+    expect(baselineModeling.getHistory('prior')[0].reason).toBe('initial');
+    expect(baselineModeling.getHistory('prior').filter(r => r.reason === 'initial')).toHaveLength(1);
+  });
+});
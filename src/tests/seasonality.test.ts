@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { decomposeSeasonality, hourlyMeans, SeasonalPoint } from '../analysis/SeasonalDecomposition';
+import { adaptiveRecognition, DriftDetection } from '../analysis/AdaptiveRecognition';
+import { baselineModeling } from '../analysis/BaselineModeling';
+
+const HOUR = 60 * 60 * 1000;
+const START = new Date(2026, 0, 4).getTime(); // Local midnight, a Sunday
+
+// Hourly waking-hours scores over three weeks: lower every evening and on Mondays, plus an optional slow decline
+function weeks(decline: number): SeasonalPoint[] {
+  let state = 9;
+  const noise = () => { state = (state * 16807) % 2147483647; return (state / 2147483647 - 0.5) * 0.02; };
+  const points: SeasonalPoint[] = [];
+  for (let h = 0; h < 21 * 24; h++) {
+    const date = new Date(START + h * HOUR);
+    if (date.getHours() < 7) continue;
+    const value = 0.85 - decline * h / (21 * 24) + (date.getHours() >= 19 ? -0.15 : 0) + (date.getDay() === 1 ? -0.1 : 0) + noise();
+    points.push({ t: START + h * HOUR, value });
+  }
+  return points;
+}
+
+const modality = (score: number, featureCount: number) => ({ score, weight: 1, featureCount, anomalies: [], contributions: [] });
+
+describe('Seasonal decomposition', () => {
+  it('separates evening and Monday dips from a slow decline', () => {
+    const points = weeks(0.1);
+    const { circadianPattern, weeklyPattern, trend, residual } = decomposeSeasonality(points);
+    expect(circadianPattern![20] - circadianPattern![10]).toBeCloseTo(-0.15, 1);
+    expect(circadianPattern![3]).toBe(0); // Never observed
+    expect(weeklyPattern![1] - weeklyPattern![3]).toBeCloseTo(-0.1, 1);
+    expect(trend[trend.length - 1] - trend[0]).toBeCloseTo(-0.1, 1);
+    expect(Math.max(...residual.map(Math.abs))).toBeLessThan(0.05);
+  });
+
+  it('fills the baseline patterns and stops reading the daily cycle as drift', async () => {
+    for (let i = 0; i < 25; i++) {
+      baselineModeling.addSnapshot('seasonal', { timestamp: START + i * 1000, sessionId: 's', keyboard: { meanDwell: 100 + i }, environmentalContext: {}, quality: 0.9 });
+    }
+    await baselineModeling.createInitialBaseline('seasonal');
+
+    const drifts: DriftDetection[][] = [[], [], []];
+    for (const { t, value } of weeks(0)) {
+      const score = {
+        overall: value, confidence: 0.9, timestamp: t,
+        modalities: {
+          keyboard: modality(value, 3), mouse: modality(0, 0), touch: modality(0, 0),
+          scroll: modality(0, 0), focus: modality(0, 0), composite: modality(0, 0)
+        },
+        interpretation: { overallAssessment: 'test' }
+      } as any;
+      const drift = await adaptiveRecognition.processNewScore('seasonal', score);
+      if (drift) drifts[Math.floor((t - START) / (7 * 24 * HOUR))].push(drift);
+    }
+
+    const { circadianPattern, weeklyPattern } = baselineModeling.getBaseline('seasonal')!.temporalCharacteristics;
+    expect(circadianPattern![21]).toBeLessThan(circadianPattern![12]);
+    expect(weeklyPattern!.indexOf(Math.min(...weeklyPattern!))).toBe(1);
+    expect(drifts[0].length).toBeGreaterThan(0); // Before a full cycle has been seen
+    expect(drifts[2]).toEqual([]);
+    adaptiveRecognition.forget('seasonal');
+    baselineModeling.forget('seasonal');
+  });
+
+  it('restores the hourly history from stored scores so the seasonal fit survives a reload', async () => {
+    for (let i = 0; i < 25; i++) {
+      baselineModeling.addSnapshot('restored', { timestamp: START + i * 1000, sessionId: 's', keyboard: { meanDwell: 100 + i }, environmentalContext: {}, quality: 0.9 });
+    }
+    await baselineModeling.createInitialBaseline('restored');
+
+    // Stored scores arrive every 20 minutes; the live pipeline has not seen any of them
+    const stored = weeks(0).flatMap(({ t, value }) => [0, 20, 40].map(m => ({ timestamp: t + m * 60 * 1000, overall: value })));
+    const history = hourlyMeans(stored);
+    expect(history).toHaveLength(weeks(0).length);
+    expect(history[0]).toMatchObject({ t: START + 7 * HOUR, weight: 3 });
+    adaptiveRecognition.restoreScoreHistory('restored', history);
+
+    const { circadianPattern, weeklyPattern } = baselineModeling.getBaseline('restored')!.temporalCharacteristics;
+    expect(circadianPattern![21]).toBeLessThan(circadianPattern![12]);
+    expect(weeklyPattern!.indexOf(Math.min(...weeklyPattern!))).toBe(1);
+
+    const last = history[history.length - 1].t;
+    const score = {
+      overall: 0.85, confidence: 0.9, timestamp: last + HOUR,
+      modalities: {
+        keyboard: modality(0.85, 3), mouse: modality(0, 0), touch: modality(0, 0),
+        scroll: modality(0, 0), focus: modality(0, 0), composite: modality(0, 0)
+      },
+      interpretation: { overallAssessment: 'test' }
+    } as any;
+    await adaptiveRecognition.processNewScore('restored', score);
+    const state = adaptiveRecognition.getRecognitionState('restored')!;
+    expect(state.scoreHistory).toHaveLength(history.length + 1);
+    expect(state.seasonality!.circadianPattern).toEqual(circadianPattern);
+    adaptiveRecognition.forget('restored');
+    baselineModeling.forget('restored');
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { sessionReplay, tickOutputs } from '../analysis/SessionReplay';
+import { AnalysisPipeline } from '../analysis/AnalysisPipeline';
+import { KeystrokeEvent } from '../collectors/KeystrokeCollector';
+import { MouseSample } from '../collectors/MouseTracker';
+import { parseRecording, serializeRecording, RecordingFrame, SessionRecording, RECORDING_FORMAT, RECORDING_VERSION } from '../core/SessionRecorder';
+import { clock, VirtualClock } from '../utils/Clock';
+
+function syntheticRecording(tickCount = 30): SessionRecording {
+  const startedAt = 1_700_000_000_000;
+  const frames: RecordingFrame[] = [];
+  let perf = 0;
+  for (let tick = 0; tick < tickCount; tick++) {
+    const t = startedAt + tick * 5000;
+    const events = Array.from({ length: 10 }, (_, i) => {
+      const downTime = perf + i * 180;
+      return { key: 'a', code: i % 2 ? 'KeyA' : 'KeyJ', downTime, upTime: downTime + 90 + (i % 3) * 10, dwell: 90 + (i % 3) * 10 };
+    });
+    const samples = Array.from({ length: 20 }, (_, i) => ({ t: perf + i * 16, x: 100 + i * 3 + tick, y: 200 + Math.sin(i) * 5 }));
+    perf += 5000;
+    frames.push({ t: t + 1000, kind: 'keystroke', events });
+    frames.push({ t: t + 2000, kind: 'mouse', samples });
+    frames.push({ t: t + 4000, kind: 'tick', quality: 0.85 });
+  }
+  return { format: RECORDING_FORMAT, version: RECORDING_VERSION, id: 'rec_test', sessionId: 'session_test', startedAt, frames };
+}
+
+// Stands in for the live session: its own pipeline ticks on the sample windows as frames arrive, and the outputs are
+// written into the tick frames the way GlobalState records them. Frames from before the recording started are ticked
+// first; the recording then opens with the pipeline state and sample windows they left, as SessionRecorder captures them.
+async function recordLiveOutputs(recording: SessionRecording, earlier: RecordingFrame[] = []): Promise<void> {
+  const userId = `live:${recording.id}`;
+  const live = new AnalysisPipeline({ assessConfidence: false });
+  const time = new VirtualClock(earlier[0]?.t ?? recording.startedAt);
+  let keystrokes: KeystrokeEvent[] = [];
+  let mouse: MouseSample[] = [];
+  const run = async (frames: RecordingFrame[]) => {
+    for (const frame of frames) {
+      time.set(frame.t);
+      if (frame.kind === 'keystroke') keystrokes = keystrokes.concat(frame.events).slice(-300);
+      if (frame.kind === 'mouse') mouse = mouse.concat(frame.samples).slice(-600);
+      if (frame.kind !== 'tick') continue;
+      const result = await live.tick({ userId, sessionId: recording.sessionId, timestamp: frame.t, quality: frame.quality, keystrokes, mouse, touch: [], scroll: [] });
+      frame.outputs = tickOutputs(result);
+    }
+  };
+  clock.useSource(time);
+  try {
+    await run(earlier);
+    const held = [{ t: recording.startedAt, kind: 'keystroke', events: keystrokes }, { t: recording.startedAt, kind: 'mouse', samples: mouse }] as RecordingFrame[];
+    if (earlier.length) recording.initialState = await live.exportState(userId, recording.sessionId);
+    await run(recording.frames);
+    if (earlier.length) recording.frames.unshift(...held);
+  } finally {
+    clock.useSystem();
+  }
+}
+
+describe('Session replay', () => {
+  it('produces identical outputs for the same recording', async () => {
+    const recording = parseRecording(serializeRecording(syntheticRecording()));
+    const first = await sessionReplay.replay(recording);
+    const second = await sessionReplay.replay(recording);
+
+    expect(first.ticks).toHaveLength(30);
+    expect(first.ticks.some(t => t.result.similarity)).toBe(true);
+    expect(second).toEqual(first);
+    expect(clock.isVirtual()).toBe(false);
+  });
+
+  it('reproduces the outputs recorded from the live session and reports ticks that differ', async () => {
+    const recording = syntheticRecording();
+    await recordLiveOutputs(recording);
+    const ticks = recording.frames.filter(f => f.kind === 'tick');
+    expect(ticks.filter(f => f.kind === 'tick' && f.outputs?.similarity !== undefined).length).toBeGreaterThan(20);
+
+    const replayed = await sessionReplay.replay(parseRecording(serializeRecording(recording)));
+    expect(replayed.mismatches).toEqual([]);
+    replayed.ticks.forEach(tick => expect(tick.outputs).toEqual(tick.recorded));
+
+    const tampered = ticks[ticks.length - 1];
+    if (tampered.kind === 'tick') tampered.outputs = { ...tampered.outputs, similarity: 0.5 };
+    expect((await sessionReplay.replay(recording)).mismatches).toEqual([tampered.t]);
+  });
+
+  it('resumes from the pipeline state a recording started on', async () => {
+    // Forty ticks establish a baseline before recording starts
+    const session = syntheticRecording(60);
+    const earlier = session.frames.slice(0, 120);
+    const recording: SessionRecording = { ...session, id: 'rec_resumed', startedAt: earlier[earlier.length - 1].t, frames: session.frames.slice(120) };
+    await recordLiveOutputs(recording, earlier);
+    const { initialState } = recording;
+    const current = initialState?.baseline.revisions.at(-1)?.baseline;
+    expect(current).toBeDefined();
+    expect(initialState?.controlCharts).toBeDefined();
+    expect(initialState?.recognition?.changePointDetectors.overall).toBeDefined();
+
+    const replayed = await sessionReplay.replay(parseRecording(serializeRecording(recording)));
+    expect(replayed.ticks[0].result.baseline?.version).toBe(current!.version);
+    expect(replayed.mismatches).toEqual([]);
+    replayed.ticks.forEach(tick => expect(tick.outputs).toEqual(tick.recorded));
+
+    // From an empty state the same frames do not reproduce the session
+    expect((await sessionReplay.replay({ ...recording, initialState: undefined })).mismatches.length).toBeGreaterThan(0);
+  });
+
+  it('stamps pipeline output with recorded time', async () => {
+    const result = await sessionReplay.replay(syntheticRecording());
+    const tick = result.ticks[0];
+    expect(tick.result.keyboard?.timestamp).toBe(tick.t);
+    expect(tick.result.keyboard?.meanDwell).toBeCloseTo(99, 0); // Dwells of 90, 100 and 110 ms
+  });
+
+  it('rejects recordings from another format version', () => {
+    const file = JSON.stringify({ ...syntheticRecording(), version: RECORDING_VERSION + 1 });
+    expect(() => parseRecording(file)).toThrow(/Unsupported recording version/);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { similarityScoring } from '../analysis/SimilarityScoring';
+import { similarityScoring, SCORING_METHODS } from '../analysis/SimilarityScoring';
 import { baselineModeling } from '../analysis/BaselineModeling';
 
 describe('SimilarityScoring basic', () => {
@@ -39,4 +39,67 @@ describe('SimilarityScoring basic', () => {
     expect(score.modalities.keyboard).toBeDefined();
     expect(score.interpretation.overallAssessment).toBeTruthy();
   });
-});
\ No newline at end of file
+
+  it('scores a snapshot under every method with a per-modality covariance', async () => {
+    const user = 'methodUser';
+    for (let i=0;i<25;i++) {
+      const dwell = 110 + (i % 5) * 4;
+      baselineModeling.addSnapshot(user, {
+        timestamp: 1_700_000_000_000 + i,
+        sessionId: 's'+i,
+        keyboard: { meanDwell: dwell, meanFlight: dwell * 1.5 + (i % 3), typingRhythm: 0.6 + (i % 4) * 0.01 },
+        environmentalContext: {},
+        quality: 0.8
+      });
+    }
+    const baseline = baselineModeling.getBaseline(user) || await baselineModeling.createInitialBaseline(user);
+    const covariance = baseline!.covariance.keyboard;
+    expect(covariance?.features).toEqual(['meanDwell', 'meanFlight', 'typingRhythm']);
+    expect(covariance?.matrix).toHaveLength(3);
+
+    // Dwell and flight are strongly correlated in the baseline; breaking that correlation is what Mahalanobis sees
+    const snapshot = { timestamp: 1_700_000_001_000, sessionId: 'live', keyboard: { meanDwell: 126, meanFlight: 165, typingRhythm: 0.615 }, environmentalContext: {}, quality: 0.85 } as any;
+    const comparison = await similarityScoring.compareMethods(snapshot, baseline!);
+    expect(Object.keys(comparison.methods).sort()).toEqual([...SCORING_METHODS].sort());
+    Object.values(comparison.methods).forEach(m => {
+      expect(m.overall).toBeGreaterThanOrEqual(0);
+      expect(m.overall).toBeLessThanOrEqual(1);
+    });
+    expect(comparison.methods.mahalanobis.overall).toBeLessThan(comparison.methods.euclidean.overall);
+    expect(comparison.spread).toBeGreaterThan(0);
+  });
+
+  it('finds the fewest in-bounds changes that bring similarity up to the target', async () => {
+    const user = 'counterfactualUser';
+    for (let i=0;i<25;i++) {
+      baselineModeling.addSnapshot(user, {
+        timestamp: 1_700_000_000_000 + i,
+        sessionId: 's'+i,
+        keyboard: { meanDwell: 110 + (i % 5) * 4, typingRhythm: 0.6 + (i % 4) * 0.01 },
+        focus: { focusRatio: 0.7 + (i % 3) * 0.02 },
+        environmentalContext: {},
+        quality: 0.8
+      });
+    }
+    const baseline = baselineModeling.getBaseline(user) || await baselineModeling.createInitialBaseline(user);
+    // Dwell is far outside its usual range; rhythm and focus are ordinary
+    const snapshot = { timestamp: 1_700_000_001_000, sessionId: 'live', keyboard: { meanDwell: 190, typingRhythm: 0.615 }, focus: { focusRatio: 0.72 }, environmentalContext: {}, quality: 0.85 } as any;
+
+    const score = await similarityScoring.computeSimilarity(snapshot, baseline!);
+    const cf = score.counterfactual!;
+    expect(cf.originalScore).toBeLessThan(cf.target);
+    expect(cf.achieved).toBe(true);
+    expect(cf.counterfactualScore).toBeGreaterThanOrEqual(cf.target);
+    expect(cf.changes.map(c => c.feature)).toEqual(['meanDwell']);
+    const [change] = cf.changes;
+    expect(change.suggestedValue).toBeGreaterThanOrEqual(change.bounds[0]);
+    expect(change.suggestedValue).toBeLessThanOrEqual(change.bounds[1]);
+    expect(cf.summary).toContain('meanDwell');
+
+    // Applying the suggestion really does reach the target, and an ordinary snapshot needs no explanation
+    const adjusted = { ...snapshot, keyboard: { ...snapshot.keyboard, meanDwell: change.suggestedValue } };
+    const rescored = await similarityScoring.computeSimilarity(adjusted, baseline!);
+    expect(rescored.overall).toBeGreaterThanOrEqual(cf.target - 1e-9);
+    expect(rescored.counterfactual).toBeUndefined();
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import * as tf from '@tensorflow/tfjs';
+import { buildSyntheticCohort, trainTemporalModel } from '../analysis/TemporalTraining';
+import { TemporalLSTMModel, TEMPORAL_FEATURES, TEMPORAL_SEQUENCE_LENGTH } from '../analysis/TemporalLSTM';
+import { temporalMonitor } from '../analysis/TemporalAnalysis';
+import { SyntheticEventGenerator } from '../testing/SyntheticEventGenerator';
+
+describe('Temporal model training', () => {
+  it('builds labelled sequences from synthetic profiles', () => {
+    const cohort = buildSyntheticCohort({ size: 20, seed: 3 });
+    expect(cohort.sequences).toHaveLength(20);
+    expect(cohort.sequences[0]).toHaveLength(TEMPORAL_SEQUENCE_LENGTH);
+    expect(cohort.sequences[0][0]).toHaveLength(TEMPORAL_FEATURES.length);
+    cohort.participants.forEach((p, i) => expect(cohort.labels[i]).toBe(p.to !== p.from ? 1 : 0));
+  });
+
+  it('trains, saves through an IO handler and reloads the same weights', async () => {
+    const { model, evaluation } = await trainTemporalModel({ size: 24, epochs: 1, seed: 5 });
+    expect(evaluation.accuracy).toBeGreaterThanOrEqual(0);
+
+    let saved: tf.io.ModelArtifacts | undefined;
+    await model.save(tf.io.withSaveHandler(async artifacts => {
+      saved = artifacts;
+      return { modelArtifactsInfo: { dateSaved: new Date(), modelTopologyType: 'JSON' } };
+    }));
+    const reloaded = await TemporalLSTMModel.load(tf.io.fromMemory(saved!));
+    const sequence = buildSyntheticCohort({ size: 1, seed: 9 }).sequences[0];
+    expect(reloaded.predict(sequence)).toBeCloseTo(model.predict(sequence), 6);
+    model.dispose(); reloaded.dispose();
+  }, 60000);
+
+  it('ships weights that separate drifting from stable participants', async () => {
+    const dir = path.join(__dirname, '..', '..', 'public', 'models', 'temporal-lstm');
+    const json = JSON.parse(readFileSync(path.join(dir, 'model.json'), 'utf8'));
+    const weights = readFileSync(path.join(dir, 'weights.bin'));
+    const model = await TemporalLSTMModel.load(tf.io.fromMemory({
+      modelTopology: json.modelTopology,
+      weightSpecs: json.weightsManifest[0].weights,
+      weightData: weights.buffer.slice(weights.byteOffset, weights.byteOffset + weights.byteLength)
+    }));
+    const cohort = buildSyntheticCohort({ size: 60, seed: 2024 }); // Not the training seed
+    expect(model.evaluate(cohort.sequences, cohort.labels).accuracy).toBeGreaterThan(0.8);
+
+    // Monitoring uses the model once loaded and enough keystrokes exist
+    temporalMonitor.useModel(model);
+    const events = new SyntheticEventGenerator(1).generateKeystrokeEvents({
+      profile: 'healthy_baseline', sessionDurationMs: 70000, eventRate: 5, noiseLevel: 0.1, progressionFactor: 0,
+      environmentFactors: { temperature: 22, timeOfDay: 'morning', caffeinated: false, fatigueLevel: 0 }
+    });
+    expect(temporalMonitor.analyze(events).source).toBe('model');
+    expect(temporalMonitor.analyze(events.slice(0, 50)).source).toBe('heuristic');
+  }, 60000);
+});
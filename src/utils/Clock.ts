@@ -0,0 +1,58 @@
+/**
+ * Clock - Wall-clock source for the analysis pipeline. Replay swaps in a VirtualClock so that
+ * timestamps and time-based decisions (baseline age, drift check intervals) are reproducible.
+ */
+
+export interface TimeSource {
+  now(): number; // ms epoch
+}
+
+const systemTime: TimeSource = { now: () => Date.now() };
+
+export class VirtualClock implements TimeSource {
+  constructor(private time = 0) {}
+
+  now(): number {
+    return this.time;
+  }
+
+  set(time: number): void {
+    this.time = time;
+  }
+
+  advance(ms: number): void {
+    this.time += ms;
+  }
+}
+
+export class Clock {
+  private static instance: Clock;
+  private source: TimeSource = systemTime;
+
+  private constructor() {}
+
+  static getInstance(): Clock {
+    if (!Clock.instance) {
+      Clock.instance = new Clock();
+    }
+    return Clock.instance;
+  }
+
+  now(): number {
+    return this.source.now();
+  }
+
+  isVirtual(): boolean {
+    return this.source !== systemTime;
+  }
+
+  useSource(source: TimeSource): void {
+    this.source = source;
+  }
+
+  useSystem(): void {
+    this.source = systemTime;
+  }
+}
+
+export const clock = Clock.getInstance();
@@ -0,0 +1,63 @@
+import React from 'react';
+import { RiskAttribution } from '../analysis/Attribution';
+
+interface AttributionWaterfallProps {
+  attribution: RiskAttribution;
+  maxFeatures?: number; // Remaining features are folded into one bar
+}
+
+const METHOD_LABELS: Record<RiskAttribution['method'], string> = {
+  exact_shapley: 'Exact Shapley',
+  kernel_shap: 'Kernel SHAP',
+  integrated_gradients: 'Integrated Gradients'
+};
+
+interface Step { label: string; start: number; end: number; kind: 'total' | 'up' | 'down'; }
+
+export const AttributionWaterfall: React.FC<AttributionWaterfallProps> = ({ attribution, maxFeatures = 8 }) => {
+  const { base, prediction, features } = attribution;
+  const shown = features.slice(0, maxFeatures);
+  const rest = features.slice(maxFeatures).reduce((s, f) => s + f.contribution, 0);
+
+  const steps: Step[] = [{ label: 'Baseline risk', start: 0, end: base, kind: 'total' }];
+  let running = base;
+  const push = (label: string, delta: number) => {
+    steps.push({ label, start: running, end: running + delta, kind: delta >= 0 ? 'up' : 'down' });
+    running += delta;
+  };
+  shown.forEach(f => push(f.feature, f.contribution));
+  if (features.length > maxFeatures) push(`${features.length - maxFeatures} other features`, rest);
+  steps.push({ label: 'Current risk', start: 0, end: prediction, kind: 'total' });
+
+  const lo = Math.min(0, ...steps.map(s => Math.min(s.start, s.end)));
+  const hi = Math.max(...steps.map(s => Math.max(s.start, s.end))) || 1;
+  const pct = (v: number) => ((v - lo) / (hi - lo)) * 100;
+  const colour = { total: 'bg-cyan-500', up: 'bg-red-500', down: 'bg-green-500' };
+
+  return (
+    <div className="text-xs" role="figure" aria-label="Risk attribution waterfall">
+      <div className="space-y-1">
+        {steps.map((s, i) => {
+          const delta = s.end - s.start;
+          return (
+            <div key={i} className="flex items-center gap-2">
+              <div className="w-40 truncate text-gray-300" title={s.label}>{s.label}</div>
+              <div className="relative flex-1 h-3 bg-gray-800 rounded">
+                <div
+                  className={`absolute h-3 rounded ${colour[s.kind]} opacity-80`}
+                  style={{ left: `${pct(Math.min(s.start, s.end))}%`, width: `${Math.max(0.5, Math.abs(pct(s.end) - pct(s.start)))}%` }}
+                />
+              </div>
+              <div className="w-14 text-right font-mono text-gray-400">
+                {s.kind === 'total' ? `${(s.end * 100).toFixed(1)}%` : `${delta >= 0 ? '+' : ''}${(delta * 100).toFixed(1)}`}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <div className="mt-2 text-gray-500">
+        {METHOD_LABELS[attribution.method]} against your typing baseline · {attribution.model.id}@{attribution.model.version} · uncalibrated model output
+      </div>
+    </div>
+  );
+};
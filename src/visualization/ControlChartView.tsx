@@ -0,0 +1,56 @@
+import React from 'react';
+import { ControlChart, RULE_LABELS } from '../analysis/StatisticalProcessControl';
+
+interface ControlChartViewProps {
+  chart: ControlChart;
+}
+
+const W = 100;
+
+function path(values: number[], y: (v: number) => number): string {
+  return values.map((v, i) => `${values.length > 1 ? (i / (values.length - 1)) * W : W / 2},${y(v).toFixed(2)}`).join(' ');
+}
+
+/**
+ * Individual values and EWMA against the baseline centre line and ±3σ limits, with the two-sided CUSUM below
+ */
+export const ControlChartView: React.FC<ControlChartViewProps> = ({ chart }) => {
+  const { centre, sigma, points, cusumLimit } = chart;
+  if (!points.length) return <div className="h-16 flex items-center text-[10px] text-gray-500">No points yet</div>;
+
+  const lo = Math.min(centre - 3.5 * sigma, ...points.map(p => p.value));
+  const hi = Math.max(centre + 3.5 * sigma, ...points.map(p => p.value));
+  const y = (v: number) => 38 - ((v - lo) / (hi - lo || 1)) * 36;
+  const cusumMax = Math.max(cusumLimit * 1.2, ...points.map(p => Math.max(p.cusumHigh, p.cusumLow)));
+  const yc = (v: number) => 19 - (v / cusumMax) * 18;
+  const flagged = new Set(chart.violations.map(v => v.timestamp));
+  const x = (i: number) => (points.length > 1 ? (i / (points.length - 1)) * W : W / 2);
+  const latest = chart.violations[chart.violations.length - 1];
+
+  return (
+    <div className="text-[10px]" role="figure" aria-label={`Control chart for ${chart.feature}`}>
+      <svg viewBox={`0 0 ${W} 40`} className="w-full h-24" preserveAspectRatio="none">
+        {[-3, 3].map(k => <line key={k} x1={0} x2={W} y1={y(centre + k * sigma)} y2={y(centre + k * sigma)} stroke="#F87171" strokeWidth={0.3} strokeDasharray="1 1" />)}
+        <line x1={0} x2={W} y1={y(centre)} y2={y(centre)} stroke="#9CA3AF" strokeWidth={0.3} />
+        <polyline fill="none" stroke="#FBBF24" strokeWidth={0.3} strokeDasharray="0.5 0.5" points={path(points.map(p => p.ewmaLimits[1]), y)} />
+        <polyline fill="none" stroke="#FBBF24" strokeWidth={0.3} strokeDasharray="0.5 0.5" points={path(points.map(p => p.ewmaLimits[0]), y)} />
+        <polyline fill="none" stroke="#6EE7B7" strokeWidth={0.5} points={path(points.map(p => p.value), y)} />
+        <polyline fill="none" stroke="#FBBF24" strokeWidth={0.6} points={path(points.map(p => p.ewma), y)} />
+        {points.map((p, i) => flagged.has(p.t) && <circle key={i} cx={x(i)} cy={y(p.value)} r={0.9} fill="#EF4444" />)}
+      </svg>
+      <svg viewBox={`0 0 ${W} 20`} className="w-full h-10" preserveAspectRatio="none">
+        <line x1={0} x2={W} y1={yc(cusumLimit)} y2={yc(cusumLimit)} stroke="#F87171" strokeWidth={0.3} strokeDasharray="1 1" />
+        <polyline fill="none" stroke="#F472B6" strokeWidth={0.5} points={path(points.map(p => p.cusumHigh), yc)} />
+        <polyline fill="none" stroke="#60A5FA" strokeWidth={0.5} points={path(points.map(p => p.cusumLow), yc)} />
+      </svg>
+      <div className="flex flex-wrap gap-x-3 text-gray-400">
+        <span>Centre {centre.toFixed(2)} ± {sigma.toFixed(2)}σ</span>
+        <span className="text-emerald-300">Value</span>
+        <span className="text-amber-300">EWMA</span>
+        <span className="text-pink-400">CUSUM+</span>
+        <span className="text-blue-400">CUSUM−</span>
+      </div>
+      {latest && <div className="mt-1 text-red-300">Last signal: {RULE_LABELS[latest.rule]} ({latest.direction}) at {new Date(latest.timestamp).toLocaleTimeString()}</div>}
+    </div>
+  );
+};
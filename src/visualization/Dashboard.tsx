@@ -5,8 +5,10 @@ import { CognitiveProvider, useCognitive } from '../state/GlobalState';
 import { RiskGauge } from './RiskGauge';
 import { WaveformDisplay } from './WaveformDisplay';
 import { ProgressionTimeline } from './ProgressionTimeline';
+import { AttributionWaterfall } from './AttributionWaterfall';
 import dynamic from 'next/dynamic';
 import { ReportExporter } from '../components/ReportExporter';
+import { SessionRecorderControls } from '../components/SessionRecorderControls';
 import { Disclaimer } from '../components/Disclaimer';
 import { ErrorBoundary } from '../components/ErrorBoundary';
 import { AlertCenter } from '../components/AlertCenter';
@@ -19,7 +21,7 @@ import { BackgroundDebugPanel } from '../components/BackgroundDebugPanel';
 const PerfOverlay = dynamic(()=> import('../components/PerfOverlay').then(m=> m.PerfOverlay), { ssr:false });
 
 function InnerDashboard(){
-  const { keystroke, mouse, voice, risk, confidence, eye, exportData, wipeData } = useCognitive();
+  const { keystroke, mouse, voice, risk, riskInterval, confidence, eye, riskAttribution, exportData, wipeData } = useCognitive();
   const hasAnyData = keystroke || mouse || voice || eye;
   const [backgroundStats, setBackgroundStats] = React.useState(backgroundProcessor.getStats());
 
@@ -145,9 +147,17 @@ function InnerDashboard(){
           {/* Risk Gauge */}
           <div className="bg-neuro-surface rounded-xl p-6">
             <h2 className="text-sm uppercase tracking-wider text-gray-400 mb-4">Risk Assessment</h2>
-            <RiskGauge risk={risk ?? 0.12} confidence={confidence ?? 0.85} />
+            <RiskGauge risk={risk ?? 0.12} confidence={confidence ?? 0.85} interval={riskInterval} />
           </div>
 
+          {/* What moved the risk score */}
+          {riskAttribution && riskAttribution.features.length > 0 && (
+            <div className="bg-neuro-surface rounded-xl p-6">
+              <h2 className="text-sm uppercase tracking-wider text-gray-400 mb-4">Risk Drivers</h2>
+              <AttributionWaterfall attribution={riskAttribution} />
+            </div>
+          )}
+
           {/* Voice Biomarkers - Only show if available */}
           {voice && (
             <div className="bg-neuro-surface rounded-xl p-6">
@@ -213,6 +223,7 @@ function InnerDashboard(){
               </button>
             </div>
             <ReportExporter />
+            <div className="mt-4"><SessionRecorderControls /></div>
             <div className="mt-4"><Disclaimer /></div>
           </div>
         </div>
@@ -37,7 +37,7 @@ export const ProgressionTimeline: React.FC = () => {
               key={i} 
               className={`flex-1 ${color} opacity-80 rounded-t`} 
               style={{ height: `${Math.max(normalizedHeight, 5)}%` }}
-              title={`Risk: ${(point.risk * 100).toFixed(1)}%`}
+              title={`Risk: ${(point.risk * 100).toFixed(1)}%${point.model ? ` (${point.model.id}@${point.model.version})` : ''}`}
             />
           );
         })}
@@ -0,0 +1,50 @@
+import React from 'react';
+import { ReliabilityBin } from '../analysis/Calibration';
+
+interface ReliabilityDiagramProps {
+  bins: ReliabilityBin[];
+  raw?: ReliabilityBin[]; // Uncalibrated outputs on the same data, drawn for comparison
+  label?: string;
+}
+
+const S = 100;
+const y = (v: number) => S - v * S;
+
+function curve(bins: ReliabilityBin[]): string {
+  return bins.filter(b => b.count > 0).map(b => `${(b.meanPredicted * S).toFixed(2)},${y(b.observed).toFixed(2)}`).join(' ');
+}
+
+/**
+ * Observed rate against mean predicted probability per bin; a calibrated model sits on the diagonal.
+ * Bars show the share of samples in each bin.
+ */
+export const ReliabilityDiagram: React.FC<ReliabilityDiagramProps> = ({ bins, raw, label = 'Reliability diagram' }) => {
+  const total = bins.reduce((s, b) => s + b.count, 0) || 1;
+  const maxShare = Math.max(...bins.map(b => b.count / total), 0.01);
+  return (
+    <div className="text-[10px]" role="figure" aria-label={label}>
+      <svg viewBox={`-8 -2 ${S + 10} ${S + 12}`} className="w-full max-w-xs aspect-square">
+        {bins.map((b, i) => (
+          <rect key={i} x={b.lower * S + 0.5} width={(b.upper - b.lower) * S - 1} y={S - (b.count / total / maxShare) * 20} height={(b.count / total / maxShare) * 20} fill="#6366F1" opacity={0.25} />
+        ))}
+        <rect x={0} y={0} width={S} height={S} fill="none" stroke="#4B5563" strokeWidth={0.4} />
+        <line x1={0} y1={S} x2={S} y2={0} stroke="#9CA3AF" strokeWidth={0.4} strokeDasharray="2 2" />
+        {raw && <polyline fill="none" stroke="#9CA3AF" strokeWidth={0.8} points={curve(raw)} />}
+        <polyline fill="none" stroke="#34D399" strokeWidth={1.2} points={curve(bins)} />
+        {bins.filter(b => b.count > 0).map((b, i) => <circle key={i} cx={b.meanPredicted * S} cy={y(b.observed)} r={1.4} fill="#34D399" />)}
+        {[0, 0.5, 1].map(t => (
+          <g key={t} fill="#9CA3AF" fontSize={4}>
+            <text x={t * S} y={S + 6} textAnchor="middle">{t}</text>
+            <text x={-2} y={y(t) + 1.5} textAnchor="end">{t}</text>
+          </g>
+        ))}
+        <text x={S / 2} y={S + 10} textAnchor="middle" fill="#9CA3AF" fontSize={4}>Predicted probability</text>
+      </svg>
+      <div className="flex gap-3 text-gray-400">
+        <span className="text-emerald-300">Calibrated</span>
+        {raw && <span>Raw</span>}
+        <span className="text-indigo-300">Samples per bin</span>
+      </div>
+    </div>
+  );
+};
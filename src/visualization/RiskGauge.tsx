@@ -1,13 +1,19 @@
 import React from 'react';
+import { ConformalInterval } from '../analysis/ConformalPrediction';
 
 interface RiskGaugeProps {
   risk: number; // 0-1
   confidence: number; // 0-1
+  interval?: ConformalInterval; // Drawn as a band on the arc once bounded
 }
 
-export const RiskGauge: React.FC<RiskGaugeProps> = ({ risk, confidence }) => {
+// Point on the gauge arc for a 0-1 value
+const arcPoint = (v: number, r: number) => ({ x: 50 - r * Math.cos(v * Math.PI), y: 50 - r * Math.sin(v * Math.PI) });
+
+export const RiskGauge: React.FC<RiskGaugeProps> = ({ risk, confidence, interval }) => {
   const percent = Math.round(risk * 100);
   const angle = (percent / 100) * 180;
+  const band = interval?.bounded ? [arcPoint(interval.lower, 47), arcPoint(interval.upper, 47)] : undefined;
   return (
     <div className="flex flex-col items-center">
       <div className="relative w-56 h-28">
@@ -20,6 +26,7 @@ export const RiskGauge: React.FC<RiskGaugeProps> = ({ risk, confidence }) => {
             </linearGradient>
           </defs>
           <path d="M10 50 A40 40 0 0 1 90 50" stroke="url(#riskGradient)" strokeWidth="10" fill="none" strokeLinecap="round" />
+          {band && <path d={`M${band[0].x} ${band[0].y} A47 47 0 0 1 ${band[1].x} ${band[1].y}`} stroke="#fff" strokeOpacity={0.8} strokeWidth="1.5" fill="none" strokeLinecap="round" />}
           <line x1="50" y1="50" x2={50 + 35 * Math.cos(Math.PI - (angle * Math.PI / 180))} y2={50 - 35 * Math.sin(Math.PI - (angle * Math.PI / 180))} stroke="#fff" strokeWidth="3" strokeLinecap="round" />
         </svg>
         <div className="absolute inset-0 flex flex-col items-center justify-center pt-2">
@@ -28,6 +35,13 @@ export const RiskGauge: React.FC<RiskGaugeProps> = ({ risk, confidence }) => {
         </div>
       </div>
       <div className="text-xs text-gray-400 mt-1">Confidence: {(confidence * 100).toFixed(1)}%</div>
+      {interval && (
+        <div className="text-[10px] text-gray-500 mt-0.5" title="Split-conformal interval from your own risk history">
+          {interval.bounded
+            ? `${Math.round(interval.coverage * 100)}% interval: ${(interval.lower * 100).toFixed(0)}–${(interval.upper * 100).toFixed(0)}%${interval.covered ? '' : ' · outside expected range'}`
+            : `Interval needs more history (${interval.calibrationSize} scores)`}
+        </div>
+      )}
     </div>
   );
 };
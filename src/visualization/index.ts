@@ -2,3 +2,6 @@ export { RiskGauge } from './RiskGauge';
 export { WaveformDisplay } from './WaveformDisplay';
 export { ProgressionTimeline } from './ProgressionTimeline';
 export { BrainHeatmap } from './BrainHeatmap';
+export { AttributionWaterfall } from './AttributionWaterfall';
+export { ControlChartView } from './ControlChartView';
+export { ReliabilityDiagram } from './ReliabilityDiagram';
@@ -0,0 +1,47 @@
+// Dedicated worker entry for the analysis pipeline; see PipelineWorker for the main-thread side
+import { AnalysisPipeline } from '../analysis/AnalysisPipeline';
+import { config } from '../config/AppConfig';
+import { PipelineRequest, PipelineRequestType, PipelineReplies, PipelineResponse, unpackKeystrokeEvents, unpackTickInput } from './pipelineProtocol';
+
+const pipeline = new AnalysisPipeline();
+const scope = self as unknown as { onmessage: ((e: MessageEvent<PipelineRequest>) => void) | null; postMessage(message: PipelineResponse): void };
+
+async function handle(request: PipelineRequest): Promise<PipelineReplies[PipelineRequestType]> {
+  switch (request.type) {
+    case 'configure':
+      config.update(request.config); // localStorage is unavailable here, so this only mirrors the main thread
+      return undefined;
+    case 'tick':
+      return pipeline.tick(unpackTickInput(request.input));
+    case 'temporal':
+      return pipeline.analyzeTemporal(unpackKeystrokeEvents(request.events));
+    case 'risk':
+      return pipeline.scoreRisk(request.userId, request.features, request.reference);
+    case 'restore-anomaly-model':
+      pipeline.restoreAnomalyModel(request.model);
+      return undefined;
+    case 'restore-revisions':
+      return pipeline.restoreRevisions(request.userId, request.records);
+    case 'restore-snapshots':
+      return pipeline.restoreSnapshots(request.userId, request.snapshots);
+    case 'restore-score-history':
+      pipeline.restoreScoreHistory(request.userId, request.history);
+      return undefined;
+    case 'rollback-baseline':
+      return pipeline.rollbackBaseline(request.userId, request.version);
+    case 'export-state':
+      return pipeline.exportState(request.userId, request.sessionId);
+    case 'reset':
+      pipeline.reset();
+      return undefined;
+  }
+}
+
+scope.onmessage = async (e) => {
+  const request = e.data;
+  try {
+    scope.postMessage({ id: request.id, result: await handle(request) });
+  } catch (error) {
+    scope.postMessage({ id: request.id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
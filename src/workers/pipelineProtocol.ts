@@ -0,0 +1,161 @@
+// Message protocol between PipelineWorker (main thread) and pipeline.worker.ts.
+// Sample arrays cross the boundary as packed Float64Arrays whose buffers are transferred, not cloned.
+import { KeystrokeEvent } from '../collectors/KeystrokeCollector';
+import { MouseSample } from '../collectors/MouseTracker';
+import { TouchSample, TouchPhase } from '../collectors/TouchTracker';
+import { ScrollSample, ScrollSource } from '../collectors/ScrollCollector';
+import { PipelineState, PipelineTickInput, PipelineTickResult, RiskResult } from '../analysis/AnalysisPipeline';
+import { BaselinePattern, BaselineRevision, BaselineRevisionRecord, FeatureSnapshot } from '../analysis/BaselineModeling';
+import { MultiModalFeatures } from '../analysis/PatternRecognition';
+import { AnomalyModelState } from '../analysis/AnomalyDetection';
+import { SeasonalPoint } from '../analysis/SeasonalDecomposition';
+import { TemporalPatternResult } from '../analysis/TemporalAnalysis';
+import { AppConfig } from '../config/AppConfig';
+
+export interface PackedTickInput extends Omit<PipelineTickInput, 'keystrokes' | 'mouse' | 'touch' | 'scroll'> {
+  keystrokes: Float64Array;
+  mouse: Float64Array;
+  touch: Float64Array;
+  scroll: Float64Array;
+}
+
+export type PipelineRequest =
+  | { id: number; type: 'configure'; config: AppConfig }
+  | { id: number; type: 'tick'; input: PackedTickInput }
+  | { id: number; type: 'temporal'; events: Float64Array }
+  | { id: number; type: 'risk'; userId: string; features: MultiModalFeatures; reference?: MultiModalFeatures }
+  | { id: number; type: 'restore-anomaly-model'; model: AnomalyModelState }
+  | { id: number; type: 'restore-revisions'; userId: string; records: BaselineRevisionRecord[] }
+  | { id: number; type: 'restore-snapshots'; userId: string; snapshots: FeatureSnapshot[] }
+  | { id: number; type: 'restore-score-history'; userId: string; history: SeasonalPoint[] }
+  | { id: number; type: 'rollback-baseline'; userId: string; version: string }
+  | { id: number; type: 'export-state'; userId: string; sessionId: string }
+  | { id: number; type: 'reset' };
+
+export type PipelineRequestType = PipelineRequest['type'];
+
+export interface PipelineReplies {
+  configure: void;
+  tick: PipelineTickResult;
+  temporal: TemporalPatternResult;
+  risk: RiskResult;
+  'restore-anomaly-model': void;
+  'restore-revisions': BaselineRevision[];
+  'restore-snapshots': void;
+  'restore-score-history': void;
+  'rollback-baseline': BaselinePattern;
+  'export-state': PipelineState;
+  reset: void;
+}
+
+export interface PipelineResponse {
+  id: number;
+  result?: PipelineReplies[PipelineRequestType];
+  error?: string; // set when the request failed inside the worker
+}
+
+const KEYSTROKE_STRIDE = 3;
+const MOUSE_STRIDE = 3;
+const TOUCH_STRIDE = 12;
+const SCROLL_STRIDE = 8;
+
+const POINTER_TYPES: TouchSample['pointerType'][] = ['touch', 'pen'];
+const TOUCH_PHASES: TouchPhase[] = ['down', 'move', 'up', 'cancel'];
+const SCROLL_SOURCES: ScrollSource[] = ['wheel', 'keyboard', 'touch', 'other'];
+
+// Timing only: key identities never leave the main thread, and no temporal or keyboard feature reads them
+export function packKeystrokeEvents(events: KeystrokeEvent[]): Float64Array {
+  const out = new Float64Array(events.length * KEYSTROKE_STRIDE);
+  events.forEach((e, i) => out.set([e.downTime, e.upTime ?? NaN, e.dwell ?? NaN], i * KEYSTROKE_STRIDE));
+  return out;
+}
+
+export function unpackKeystrokeEvents(data: Float64Array): KeystrokeEvent[] {
+  const events: KeystrokeEvent[] = [];
+  for (let o = 0; o < data.length; o += KEYSTROKE_STRIDE) {
+    const event: KeystrokeEvent = { key: '', code: '', downTime: data[o] };
+    if (!isNaN(data[o + 1])) event.upTime = data[o + 1];
+    if (!isNaN(data[o + 2])) event.dwell = data[o + 2];
+    events.push(event);
+  }
+  return events;
+}
+
+export function packMouseSamples(samples: MouseSample[]): Float64Array {
+  const out = new Float64Array(samples.length * MOUSE_STRIDE);
+  samples.forEach((s, i) => out.set([s.t, s.x, s.y], i * MOUSE_STRIDE));
+  return out;
+}
+
+export function unpackMouseSamples(data: Float64Array): MouseSample[] {
+  const samples: MouseSample[] = [];
+  for (let o = 0; o < data.length; o += MOUSE_STRIDE) {
+    samples.push({ t: data[o], x: data[o + 1], y: data[o + 2] });
+  }
+  return samples;
+}
+
+export function packTouchSamples(samples: TouchSample[]): Float64Array {
+  const out = new Float64Array(samples.length * TOUCH_STRIDE);
+  samples.forEach((s, i) => out.set([
+    s.t, s.pointerId, POINTER_TYPES.indexOf(s.pointerType), TOUCH_PHASES.indexOf(s.phase),
+    s.x, s.y, s.pressure, s.width, s.height, s.tiltX, s.tiltY, s.activePointers
+  ], i * TOUCH_STRIDE));
+  return out;
+}
+
+export function unpackTouchSamples(data: Float64Array): TouchSample[] {
+  const samples: TouchSample[] = [];
+  for (let o = 0; o < data.length; o += TOUCH_STRIDE) {
+    samples.push({
+      t: data[o], pointerId: data[o + 1], pointerType: POINTER_TYPES[data[o + 2]], phase: TOUCH_PHASES[data[o + 3]],
+      x: data[o + 4], y: data[o + 5], pressure: data[o + 6], width: data[o + 7], height: data[o + 8],
+      tiltX: data[o + 9], tiltY: data[o + 10], activePointers: data[o + 11]
+    });
+  }
+  return samples;
+}
+
+// The element descriptor (target) is dropped; no scroll feature reads it
+export function packScrollSamples(samples: ScrollSample[]): Float64Array {
+  const out = new Float64Array(samples.length * SCROLL_STRIDE);
+  samples.forEach((s, i) => out.set([
+    s.timestamp, s.deltaX, s.deltaY, s.scrollTop, s.scrollLeft, s.viewportHeight, s.contentHeight, SCROLL_SOURCES.indexOf(s.source)
+  ], i * SCROLL_STRIDE));
+  return out;
+}
+
+export function unpackScrollSamples(data: Float64Array): ScrollSample[] {
+  const samples: ScrollSample[] = [];
+  for (let o = 0; o < data.length; o += SCROLL_STRIDE) {
+    samples.push({
+      timestamp: data[o], deltaX: data[o + 1], deltaY: data[o + 2], scrollTop: data[o + 3], scrollLeft: data[o + 4],
+      viewportHeight: data[o + 5], contentHeight: data[o + 6], source: SCROLL_SOURCES[data[o + 7]]
+    });
+  }
+  return samples;
+}
+
+/**
+ * Pack a tick's sample arrays; the returned buffers should be listed as transferables in postMessage
+ */
+export function packTickInput(input: PipelineTickInput): { packed: PackedTickInput; transfer: ArrayBuffer[] } {
+  const packed: PackedTickInput = {
+    ...input,
+    keystrokes: packKeystrokeEvents(input.keystrokes),
+    mouse: packMouseSamples(input.mouse),
+    touch: packTouchSamples(input.touch),
+    scroll: packScrollSamples(input.scroll)
+  };
+  return { packed, transfer: [packed.keystrokes.buffer as ArrayBuffer, packed.mouse.buffer as ArrayBuffer, packed.touch.buffer as ArrayBuffer, packed.scroll.buffer as ArrayBuffer] };
+}
+
+export function unpackTickInput(packed: PackedTickInput): PipelineTickInput {
+  return {
+    ...packed,
+    keystrokes: unpackKeystrokeEvents(packed.keystrokes),
+    mouse: unpackMouseSamples(packed.mouse),
+    touch: unpackTouchSamples(packed.touch),
+    scroll: unpackScrollSamples(packed.scroll)
+  };
+}
@@ -0,0 +1,15 @@
+// Dedicated worker for a single session replay; see ReplayWorker for the main-thread side
+import { sessionReplay } from '../analysis/SessionReplay';
+import { config } from '../config/AppConfig';
+import { ReplayRequest, ReplayResponse } from './replayProtocol';
+
+const scope = self as unknown as { onmessage: ((e: MessageEvent<ReplayRequest>) => void) | null; postMessage(message: ReplayResponse): void };
+
+scope.onmessage = async (e) => {
+  try {
+    config.update(e.data.config); // localStorage is unavailable here, so this only mirrors the main thread
+    scope.postMessage({ result: await sessionReplay.replay(e.data.recording) });
+  } catch (error) {
+    scope.postMessage({ error: error instanceof Error ? error.message : String(error) });
+  }
+};
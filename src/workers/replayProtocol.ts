@@ -0,0 +1,12 @@
+// Messages between ReplayWorker (main thread) and replay.worker.ts. Each replay gets a fresh worker, so one
+// request and one response per worker.
+import { ReplayResult } from '../analysis/SessionReplay';
+import { SessionRecording } from '../core/SessionRecorder';
+import { AppConfig } from '../config/AppConfig';
+
+export interface ReplayRequest {
+  config: AppConfig;
+  recording: SessionRecording;
+}
+
+export type ReplayResponse = { result: ReplayResult } | { error: string };